@@ -0,0 +1,240 @@
+// AI opponent decisions for practice games
+//
+// Everything here is read-only: each planner looks at the game and returns the moves the bot
+// would like to make, best first, as { method, args, target } entries. GameManager plays them
+// through its normal player actions (selecting `target` first when set) and falls through to the
+// next entry whenever the rules reject one, so the heuristics never need to re-implement
+// silence, taunt or once-per-turn checks.
+//
+// Randomness comes from `random()`, which GameManager points at the bot's own stream - never the
+// game's, so bot thinking doesn't shift the dice rolls recorded for replays.
+
+const {
+  random,
+  parseDiceString,
+  getTargetableEnemies,
+  canUseBasicAttack,
+  calculateEffectiveDefense
+} = require('./utils');
+const { getSpecials } = require('./effectRegistry');
+
+const AI_DIFFICULTIES = ['easy', 'normal', 'hard'];
+
+function shuffled(items) {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+}
+
+function averageRoll(diceStr) {
+  const parsed = typeof diceStr === 'string' ? parseDiceString(diceStr.replace(/^\+/, '')) : null;
+  if (!parsed) return 0;
+  return parsed.count * (parsed.sides + 1) / 2 + parsed.modifier;
+}
+
+function toNumber(value) {
+  return typeof value === 'string' ? parseInt(value, 10) || 0 : value || 0;
+}
+
+function getAbilityDamage(ability) {
+  const effects = [...(ability.primary_effects || []), ...(ability.secondary_effects || [])];
+  return effects
+    .filter(effect => effect.type === 'damage' && effect.target !== 'self')
+    .reduce((sum, effect) => sum + averageRoll(effect.value), 0) *
+    (ability.target_type === 'all_enemies' ? 2 : 1);
+}
+
+function targetsAlly(ability) {
+  return ability.target_type === 'single_ally' ||
+    (ability.primary_effects || []).some(effect => effect.target === 'chosen_ally');
+}
+
+// Rough worth of a hero card, used for bans, picks and focus fire
+function getHeroValue(hero) {
+  const abilityDamage = Math.max(0, ...(hero.Ability || []).map(getAbilityDamage));
+  return toNumber(hero.HP) +
+    toNumber(hero.Defense) * 2.5 +
+    toNumber(hero.Accuracy) * 2 +
+    (canUseBasicAttack(hero) ? averageRoll(hero.BasicAttack) * 2 : 0) +
+    abilityDamage * 1.5 +
+    (hero.Ability || []).length * 2 +
+    (hero.Special ? 3 : 0);
+}
+
+function getDurability(hero) {
+  return toNumber(hero.HP) + toNumber(hero.Defense) * 2;
+}
+
+// Best-valued card first; normal play adds some noise so the bot isn't fully predictable
+function rankCards(cards, difficulty) {
+  if (difficulty === 'easy') {
+    return shuffled(cards);
+  }
+  const noise = difficulty === 'normal' ? 8 : 0;
+  return cards
+    .map(card => ({ card, score: getHeroValue(card) + random() * noise }))
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.card);
+}
+
+function planBan(player, difficulty) {
+  return rankCards(player.draftCards || [], difficulty)
+    .map(card => ({ method: 'banCard', args: [card.name] }));
+}
+
+function planPick(player, difficulty) {
+  return rankCards(player.draftCards || [], difficulty)
+    .map(card => ({ method: 'pickCard', args: [card.name] }));
+}
+
+// Sturdiest heroes act first so the fragile ones are still around late in the battle
+function planAttackOrder(player, difficulty) {
+  const team = player.team || [];
+  const order = difficulty === 'easy'
+    ? team
+    : [...team].sort((a, b) => getDurability(b) - getDurability(a));
+  return [{ method: 'setAttackOrder', args: [order.map(h => h.name)] }];
+}
+
+function planTurnOrder(difficulty) {
+  const goFirst = difficulty === 'easy' ? random() < 0.5 : true;
+  return [{ method: 'chooseTurnOrder', args: [goFirst] }];
+}
+
+// Enemy targets in order of preference
+function rankEnemyTargets(hero, opponent, difficulty) {
+  const targetable = getTargetableEnemies(opponent.team, hero);
+  const candidates = targetable.length > 0 ? targetable : opponent.team.filter(h => h.currentHP > 0);
+
+  if (difficulty === 'easy') {
+    return shuffled(candidates);
+  }
+  if (difficulty === 'normal') {
+    return [...candidates].sort((a, b) => a.currentHP - b.currentHP);
+  }
+
+  // Hard: finish off anything in reach, otherwise the weakest enemy, weighed by how likely a hit
+  // is and how much the enemy is worth
+  const reach = Math.max(averageRoll(hero.modifiedBasicAttack || hero.BasicAttack), ...(hero.Ability || []).map(getAbilityDamage));
+  const score = (enemy) => {
+    const killable = enemy.currentHP <= reach ? 100 : 0;
+    const hitChance = Math.min(0.95, Math.max(0.05, (21 - calculateEffectiveDefense(enemy) + toNumber(hero.modifiedAccuracy || hero.Accuracy)) / 20));
+    return killable + hitChance * 20 - enemy.currentHP + getHeroValue(enemy) / 20;
+  };
+  return [...candidates].sort((a, b) => score(b) - score(a));
+}
+
+function getActivatedSpecial(hero) {
+  return getSpecials(hero).find(s => s.category === 'activated_aoe' || s.category === 'activated_aoe_heal') || null;
+}
+
+function missingHP(team) {
+  return team
+    .filter(h => h.currentHP > 0)
+    .reduce((sum, h) => sum + Math.max(0, (h.maxHP || toNumber(h.HP)) - h.currentHP), 0);
+}
+
+function shouldActivateSpecial(hero, player, opponent, difficulty) {
+  const special = getActivatedSpecial(hero);
+  if (!special || difficulty === 'easy' || (hero.permanentDisables && hero.permanentDisables.special)) {
+    return false;
+  }
+
+  if (special.category === 'activated_aoe_heal') {
+    const ownMissing = missingHP(player.team);
+    const enemyMissing = missingHP(opponent.team);
+    return difficulty === 'hard'
+      ? ownMissing - enemyMissing >= 6
+      : ownMissing >= 8 && ownMissing > enemyMissing;
+  }
+
+  // Damage to every hero (self-destruct): worth it when about to die anyway or outnumbered
+  const alliesAlive = player.team.filter(h => h.currentHP > 0).length;
+  const enemiesAlive = opponent.team.filter(h => h.currentHP > 0).length;
+  return difficulty === 'hard'
+    ? hero.currentHP <= 7 || enemiesAlive > alliesAlive
+    : hero.currentHP <= 5;
+}
+
+// Allies to pass as the ability's ally target, best first
+function rankAllies(hero, player, ability) {
+  const allies = player.team.filter(h => h.currentHP > 0 && h !== hero);
+
+  // Chrono Shift style commands: prefer allies with one damaging ability (no extra choice needed)
+  if ((ability.primary_effects || []).some(effect => effect.type === 'command_ally')) {
+    const commandValue = (ally) => Math.max(0, ...(ally.Ability || []).map(getAbilityDamage)) - ((ally.Ability || []).length > 1 ? 1 : 0);
+    return allies.sort((a, b) => commandValue(b) - commandValue(a));
+  }
+
+  return allies.sort((a, b) => a.currentHP / (a.maxHP || toNumber(a.HP)) - b.currentHP / (b.maxHP || toNumber(b.HP)));
+}
+
+// Moves for the acting hero: special, abilities, basic attack, then end the turn
+function planBattleTurn(game, turnInfo, difficulty) {
+  const { player, hero, playerIndex } = turnInfo;
+  const opponent = game.players[1 - playerIndex];
+  const enemies = rankEnemyTargets(hero, opponent, difficulty);
+  const plan = [];
+
+  if (shouldActivateSpecial(hero, player, opponent, difficulty)) {
+    plan.push({ method: 'activateSpecial', args: [] });
+  }
+
+  // Easy bots forget their ability every so often
+  const abilities = (hero.Ability || []).map((ability, index) => ({ ability, index }));
+  const usable = difficulty === 'easy' && random() < 0.35 ? [] : abilities;
+  const ordered = difficulty === 'hard'
+    ? [...usable].sort((a, b) => getAbilityDamage(b.ability) - getAbilityDamage(a.ability))
+    : usable;
+
+  ordered.forEach(({ ability, index }) => {
+    const allies = rankAllies(hero, player, ability);
+    const ally = allies[0] ? allies[0].name : null;
+
+    if (ability.target_type === 'single_ally') {
+      allies.forEach(target => {
+        plan.push({ method: 'useAbility', target: target.name, args: [index, target.name, target.name] });
+      });
+    } else {
+      enemies.forEach(target => {
+        plan.push({ method: 'useAbility', target: target.name, args: [index, target.name, targetsAlly(ability) ? ally : null] });
+      });
+    }
+  });
+
+  if (canUseBasicAttack(hero)) {
+    enemies.forEach(target => {
+      plan.push({ method: 'basicAttack', target: target.name, args: [target.name] });
+    });
+  }
+
+  plan.push({ method: 'endTurn', args: [] });
+  return plan;
+}
+
+// Moves for whatever the game is currently waiting on this bot to do
+function planAIStep(game, player, difficulty, turnInfo = null) {
+  switch (game.phase) {
+    case 'draft':
+      return game.currentDraftPhase === 0 ? planBan(player, difficulty) : planPick(player, difficulty);
+    case 'setup':
+      return planAttackOrder(player, difficulty);
+    case 'initiative':
+      return player.initiativeRoll === undefined
+        ? [{ method: 'rollInitiative', args: [] }]
+        : planTurnOrder(difficulty);
+    case 'battle':
+      return turnInfo ? planBattleTurn(game, turnInfo, difficulty) : [];
+    default:
+      return [];
+  }
+}
+
+module.exports = {
+  AI_DIFFICULTIES,
+  getHeroValue,
+  planAIStep
+};
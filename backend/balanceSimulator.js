@@ -0,0 +1,431 @@
+// Headless battle simulator and balance report
+//
+// Runs automated battles through a GameManager with no sockets, no database and no action
+// clocks, pitting every 3-hero combination of enabled heroes against randomly drawn
+// opponents, and aggregates per-hero win rates, damage, survival and hero-vs-hero matchups.
+//
+// Usage:
+//   node balanceSimulator.js [--battles-per-team 1] [--seed 12345] [--heroes "Monk,Ninja"]
+//                            [--max-turns 200] [--format json|csv] [--out ./balance-report]
+//
+// --heroes restricts team A to combinations that contain one of the listed heroes (opponents
+// are still drawn from the full pool). Without --out the report is printed to stdout; with it,
+// report.json or heroes.csv + matchups.csv are written to that directory.
+
+const fs = require('fs');
+const path = require('path');
+const GameManager = require('./gameManager');
+const { withRandomSource, shuffleArray } = require('./utils');
+const { createSeededRng, generateSeed } = require('./rng');
+
+const TEAM_SIZE = 3;
+const DEFAULT_MAX_TURNS = 200;
+
+// GameManager without io, database or action clocks; game completion has nothing to award
+function createHeadlessManager(heroes) {
+  const manager = new GameManager(heroes);
+  manager.actionClocksEnabled = false;
+  manager.handleGameCompletion = async () => ({ success: true });
+  return manager;
+}
+
+// Every unordered combination of `size` heroes
+function getTeamCombinations(heroes, size = TEAM_SIZE) {
+  const combinations = [];
+  const current = [];
+
+  const build = (start) => {
+    if (current.length === size) {
+      combinations.push([...current]);
+      return;
+    }
+    for (let i = start; i <= heroes.length - (size - current.length); i++) {
+      current.push(heroes[i]);
+      build(i + 1);
+      current.pop();
+    }
+  };
+
+  build(0);
+  return combinations;
+}
+
+function createSimPlayer(id, team) {
+  return {
+    id,
+    name: id,
+    connected: true,
+    team: team.map(hero => JSON.parse(JSON.stringify(hero))),
+    draftCards: [],
+    bannedCard: null,
+    attackOrder: team.map(h => h.name),
+    currentHeroIndex: 0,
+    hasUsedAttack: false,
+    hasUsedAbility: false,
+    usedAbilities: [],
+    selectedTarget: null,
+    twinSpellUsed: false,
+    oneTwoPunchUsed: false,
+    monkAttacksRemaining: 1,
+    oneTwoPunchAttacksRemaining: 0,
+    isReady: true
+  };
+}
+
+const byLowestHP = (a, b) => a.currentHP - b.currentHP;
+
+// Simple greedy policy: focus the weakest enemy the rules allow, use the first ability, then
+// basic attack, then end the turn if the action did not already end it
+function playHeroTurn(manager, game, turnInfo) {
+  const { player, hero, playerIndex } = turnInfo;
+  const opponent = game.players[1 - playerIndex];
+
+  const stillActing = () => {
+    if (game.phase !== 'battle') return false;
+    const current = manager.getCurrentTurnInfo(game);
+    return !!current && current.player === player && current.hero === hero;
+  };
+
+  // Taunt and untargetable effects are enforced by selectTarget, so take the first one it accepts
+  const pickTarget = () => opponent.team
+    .filter(h => h.currentHP > 0)
+    .sort(byLowestHP)
+    .find(target => manager.selectTarget(player.id, target.name).success);
+
+  const target = pickTarget();
+  if (target && hero.Ability && hero.Ability.length > 0) {
+    const ally = player.team.filter(h => h.currentHP > 0 && h !== hero).sort(byLowestHP)[0];
+    manager.useAbility(player.id, 0, target.name, ally ? ally.name : null);
+  }
+
+  if (stillActing()) {
+    const attackTarget = target && target.currentHP > 0 ? target : pickTarget();
+    if (attackTarget) {
+      manager.basicAttack(player.id, attackTarget.name);
+    }
+  }
+
+  if (stillActing()) {
+    manager.endTurn(player.id);
+  }
+}
+
+function getEnemyHP(game, playerIndex) {
+  return game.players[1 - playerIndex].team.map(h => h.currentHP);
+}
+
+// Play one battle to completion. Returns the winning team index (0 or 1), -1 for a tie or
+// null if the battle stalled past maxTurns, plus per-hero stats in team order
+function simulateBattle(manager, teamA, teamB, options = {}) {
+  const { seed, maxTurns = DEFAULT_MAX_TURNS, battleId = 'sim' } = options;
+
+  const game = manager.createNewGame(battleId, 'random', seed);
+  const players = [
+    createSimPlayer(`${battleId}-0`, teamA),
+    createSimPlayer(`${battleId}-1`, teamB)
+  ];
+  game.players.push(...players);
+  manager.games.set(battleId, game);
+  players.forEach(p => manager.playerGameMap.set(p.id, battleId));
+
+  const heroStats = players.map(p => p.team.map(hero => ({
+    name: hero.name,
+    damageDealt: 0,
+    turnsSurvived: 0,
+    survived: false
+  })));
+
+  let turns = 0;
+  try {
+    game.phase = 'initiative';
+    const initiative = manager.rollInitiativeWithReroll(game);
+    manager.chooseTurnOrder(initiative.winner, true);
+
+    while (game.phase === 'battle' && turns < maxTurns) {
+      const turnInfo = manager.getCurrentTurnInfo(game);
+      if (!turnInfo) break;
+
+      const { playerIndex, heroIndex } = turnInfo;
+      const stats = heroStats[playerIndex][heroIndex];
+      stats.turnsSurvived++;
+
+      // Enemy HP lost while this hero is acting (including effects its turn triggers) counts as its damage
+      const hpBefore = getEnemyHP(game, playerIndex);
+      playHeroTurn(manager, game, turnInfo);
+      const hpAfter = getEnemyHP(game, playerIndex);
+      hpBefore.forEach((hp, i) => {
+        stats.damageDealt += Math.max(0, hp - hpAfter[i]);
+      });
+
+      turns++;
+    }
+  } finally {
+    manager.games.delete(battleId);
+    players.forEach(p => manager.playerGameMap.delete(p.id));
+  }
+
+  players.forEach((player, playerIndex) => {
+    player.team.forEach((hero, heroIndex) => {
+      if (heroStats[playerIndex][heroIndex]) {
+        heroStats[playerIndex][heroIndex].survived = hero.currentHP > 0;
+      }
+    });
+  });
+
+  let winnerIndex = null;
+  if (game.phase === 'ended') {
+    winnerIndex = game.winner === 'TIE' ? -1 : game.players.findIndex(p => p.id === game.winner);
+  }
+
+  return { winnerIndex, turns, heroStats };
+}
+
+function createHeroTotals(name) {
+  return { name, battles: 0, wins: 0, losses: 0, ties: 0, stalls: 0, damageDealt: 0, turnsSurvived: 0, survived: 0 };
+}
+
+// Run the full simulation and build the report object
+function runBalanceSimulation(heroes, options = {}) {
+  const {
+    battlesPerTeam = 1,
+    seed = generateSeed(),
+    maxTurns = DEFAULT_MAX_TURNS,
+    focusHeroes = [],
+    onProgress = null
+  } = options;
+
+  const manager = createHeadlessManager(heroes);
+  const enabled = manager.heroes;
+  const combinations = getTeamCombinations(enabled);
+  const teams = focusHeroes.length > 0
+    ? combinations.filter(team => team.some(h => focusHeroes.includes(h.name)))
+    : combinations;
+
+  // One stream drives pairings and per-battle seeds, so a report is reproducible from its seed
+  const rng = createSeededRng(seed);
+  const drawOpponent = (team) => {
+    const names = team.map(h => h.name);
+    let opponent;
+    do {
+      opponent = combinations[Math.floor(rng() * combinations.length)];
+    } while (opponent.some(h => names.includes(h.name)));
+    return opponent;
+  };
+
+  const totals = new Map(enabled.map(hero => [hero.name, createHeroTotals(hero.name)]));
+  const matchups = new Map(); // "A|B" -> { battles, wins } from A's side
+  const recordMatchup = (heroName, enemyName, won) => {
+    const key = `${heroName}|${enemyName}`;
+    const entry = matchups.get(key) || { battles: 0, wins: 0 };
+    entry.battles++;
+    if (won) entry.wins++;
+    matchups.set(key, entry);
+  };
+
+  const schedule = [];
+  teams.forEach(team => {
+    for (let i = 0; i < battlesPerTeam; i++) {
+      // Alternate seats so neither side always gets player 1
+      const opponent = drawOpponent(team);
+      schedule.push(rng() < 0.5 ? [team, opponent] : [opponent, team]);
+    }
+  });
+  withRandomSource(rng, () => shuffleArray(schedule));
+
+  let totalTurns = 0;
+  let ties = 0;
+  let stalls = 0;
+
+  schedule.forEach(([teamA, teamB], battleIndex) => {
+    const result = simulateBattle(manager, teamA, teamB, {
+      seed: Math.floor(rng() * 0x100000000),
+      maxTurns,
+      battleId: `sim-${battleIndex}`
+    });
+
+    totalTurns += result.turns;
+    if (result.winnerIndex === -1) ties++;
+    if (result.winnerIndex === null) stalls++;
+
+    result.heroStats.forEach((teamStats, teamIndex) => {
+      const enemyStats = result.heroStats[1 - teamIndex];
+      teamStats.forEach(stats => {
+        const heroTotals = totals.get(stats.name);
+        if (!heroTotals) return;
+
+        heroTotals.battles++;
+        heroTotals.damageDealt += stats.damageDealt;
+        heroTotals.turnsSurvived += stats.turnsSurvived;
+        if (stats.survived) heroTotals.survived++;
+
+        if (result.winnerIndex === teamIndex) heroTotals.wins++;
+        else if (result.winnerIndex === -1) heroTotals.ties++;
+        else if (result.winnerIndex === null) heroTotals.stalls++;
+        else heroTotals.losses++;
+
+        enemyStats.forEach(enemy => recordMatchup(stats.name, enemy.name, result.winnerIndex === teamIndex));
+      });
+    });
+
+    if (onProgress) onProgress(battleIndex + 1, schedule.length);
+  });
+
+  const round = (value, digits = 3) => Number(value.toFixed(digits));
+  const heroReport = [...totals.values()]
+    .filter(h => h.battles > 0)
+    .map(h => ({
+      name: h.name,
+      battles: h.battles,
+      wins: h.wins,
+      losses: h.losses,
+      ties: h.ties,
+      stalls: h.stalls,
+      winRate: round(h.wins / h.battles),
+      avgDamageDealt: round(h.damageDealt / h.battles, 2),
+      avgTurnsSurvived: round(h.turnsSurvived / h.battles, 2),
+      survivalRate: round(h.survived / h.battles)
+    }))
+    .sort((a, b) => b.winRate - a.winRate);
+
+  // matchups[A][B] = how often teams with A beat teams with B
+  const matchupMatrix = {};
+  matchups.forEach((entry, key) => {
+    const [heroName, enemyName] = key.split('|');
+    matchupMatrix[heroName] = matchupMatrix[heroName] || {};
+    matchupMatrix[heroName][enemyName] = {
+      battles: entry.battles,
+      wins: entry.wins,
+      winRate: round(entry.wins / entry.battles)
+    };
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    seed: seed >>> 0,
+    battles: schedule.length,
+    teamsTested: teams.length,
+    battlesPerTeam,
+    maxTurns,
+    avgTurns: schedule.length > 0 ? round(totalTurns / schedule.length, 2) : 0,
+    ties,
+    stalls,
+    heroes: heroReport,
+    matchups: matchupMatrix
+  };
+}
+
+function csvField(value) {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// heroes.csv has one row per hero; matchups.csv is a win-rate matrix (row hero vs column hero)
+function reportToCsv(report) {
+  const heroColumns = ['name', 'battles', 'wins', 'losses', 'ties', 'stalls', 'winRate', 'avgDamageDealt', 'avgTurnsSurvived', 'survivalRate'];
+  const heroes = [
+    heroColumns.join(','),
+    ...report.heroes.map(h => heroColumns.map(column => csvField(h[column])).join(','))
+  ].join('\n');
+
+  const names = report.heroes.map(h => h.name).sort();
+  const matchups = [
+    ['hero', ...names].map(csvField).join(','),
+    ...names.map(name => [
+      name,
+      ...names.map(enemy => {
+        const entry = report.matchups[name] && report.matchups[name][enemy];
+        return entry ? entry.winRate : '';
+      })
+    ].map(csvField).join(','))
+  ].join('\n');
+
+  return { heroes: `${heroes}\n`, matchups: `${matchups}\n` };
+}
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith('--')) continue;
+    const key = argv[i].slice(2);
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith('--')) {
+      args[key] = true;
+    } else {
+      args[key] = next;
+      i++;
+    }
+  }
+  return args;
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const format = args.format || 'json';
+  if (!['json', 'csv'].includes(format)) {
+    console.error(`❌ Unknown format "${format}" (expected json or csv)`);
+    process.exit(1);
+  }
+
+  const heroes = require('./heros.json');
+  const options = {
+    battlesPerTeam: parseInt(args['battles-per-team'] || '1', 10),
+    maxTurns: parseInt(args['max-turns'] || String(DEFAULT_MAX_TURNS), 10),
+    focusHeroes: typeof args.heroes === 'string' ? args.heroes.split(',').map(s => s.trim()).filter(Boolean) : []
+  };
+  if (args.seed !== undefined) {
+    options.seed = parseInt(args.seed, 10);
+  }
+
+  // GameManager logs every action; keep the console for progress and the report itself
+  const log = console.log;
+  const warn = console.warn;
+  console.log = () => {};
+  console.warn = () => {};
+
+  let lastPercent = -1;
+  options.onProgress = (done, total) => {
+    const percent = Math.floor((done / total) * 100);
+    if (percent !== lastPercent && percent % 10 === 0) {
+      lastPercent = percent;
+      process.stderr.write(`⚔️  ${done}/${total} battles (${percent}%)\n`);
+    }
+  };
+
+  let report;
+  try {
+    report = runBalanceSimulation(heroes, options);
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+
+  if (args.out) {
+    const outDir = path.resolve(args.out);
+    fs.mkdirSync(outDir, { recursive: true });
+    if (format === 'csv') {
+      const csv = reportToCsv(report);
+      fs.writeFileSync(path.join(outDir, 'heroes.csv'), csv.heroes);
+      fs.writeFileSync(path.join(outDir, 'matchups.csv'), csv.matchups);
+    } else {
+      fs.writeFileSync(path.join(outDir, 'report.json'), JSON.stringify(report, null, 2));
+    }
+    console.log(`✅ Balance report (${report.battles} battles, seed ${report.seed}) written to ${outDir}`);
+  } else if (format === 'csv') {
+    const csv = reportToCsv(report);
+    process.stdout.write(`${csv.heroes}\n${csv.matchups}`);
+  } else {
+    process.stdout.write(`${JSON.stringify(report, null, 2)}\n`);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+module.exports = {
+  createHeadlessManager,
+  getTeamCombinations,
+  simulateBattle,
+  runBalanceSimulation,
+  reportToCsv
+};
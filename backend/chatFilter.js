@@ -0,0 +1,49 @@
+// Profanity filter for player chat
+//
+// censorText masks blocked words with asterisks and leaves the rest of the message alone.
+// Words are compared after folding common character swaps (sh1t, @ss, $hit) and squeezing
+// repeated letters (fuuuck), and a blocked root only matches with one of a few plain endings
+// so that words that merely contain one (class, Scunthorpe) get through.
+
+const BLOCKED_ROOTS = [
+  'fuck', 'motherfuck', 'shit', 'bullshit', 'bitch', 'cunt', 'asshole', 'bastard', 'dick',
+  'cock', 'pussy', 'slut', 'whore', 'fag', 'faggot', 'nigger', 'nigga', 'retard', 'wanker'
+];
+const ENDINGS = ['', 's', 'es', 'er', 'ers', 'ing', 'in', 'ed', 'y', 'head', 'heads', 'face'];
+
+const CHARACTER_SWAPS = { '0': 'o', '1': 'i', '3': 'e', '4': 'a', '@': 'a', '5': 's', '$': 's', '7': 't' };
+
+// Runs of letters plus the symbols people swap in for them
+const WORD_PATTERN = /[a-z0-9@$]+/gi;
+
+const squeeze = (word) => word.replace(/(.)\1+/g, '$1');
+const blockedWords = new Set();
+BLOCKED_ROOTS.forEach(root => ENDINGS.forEach(ending => blockedWords.add(squeeze(root + ending))));
+
+function normalizeWord(word) {
+  const folded = word.toLowerCase().replace(/[0-9@$]/g, ch => CHARACTER_SWAPS[ch] || ch);
+  return squeeze(folded);
+}
+
+function isBlockedWord(word) {
+  return blockedWords.has(normalizeWord(word));
+}
+
+/**
+ * Mask every blocked word in `text`. Returns { text, censored } where censored is true if
+ * anything was masked.
+ */
+function censorText(text) {
+  let censored = false;
+  const result = text.replace(WORD_PATTERN, word => {
+    if (!isBlockedWord(word)) return word;
+    censored = true;
+    return '*'.repeat(word.length);
+  });
+  return { text: result, censored };
+}
+
+module.exports = {
+  censorText,
+  isBlockedWord
+};
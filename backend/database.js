@@ -1,7 +1,15 @@
 const sqlite3 = require('sqlite3').verbose();
 const bcrypt = require('bcryptjs');
+const crypto = require('crypto');
 const path = require('path');
 
+// One-time codes handed out at registration for getting back into an account
+const RECOVERY_CODE_COUNT = 8;
+
+// Stands in for the codes of an unknown username, so a failed recovery takes as long either way
+// and its timing doesn't reveal which usernames exist. No typed code matches it
+const UNUSED_CODE_HASH = bcrypt.hashSync(crypto.randomBytes(16).toString('hex'), 10);
+
 class Database {
   constructor() {
     this.db = null;
@@ -124,6 +132,9 @@ class Database {
         hero_usage_count TEXT DEFAULT '{}',
         highest_survival_run INTEGER DEFAULT 0,
         profile_icon TEXT DEFAULT 'Sorcerer',
+        ratings TEXT DEFAULT '{}',
+        titles TEXT DEFAULT '[]',
+        season_icons TEXT DEFAULT '[]',
         created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
         FOREIGN KEY (user_id) REFERENCES users (id)
@@ -154,6 +165,225 @@ class Database {
       }
     });
 
+    // Battle replays: starting snapshot, seed and the ordered list of player actions
+    const createGameReplaysTable = `
+      CREATE TABLE IF NOT EXISTS game_replays (
+        id TEXT PRIMARY KEY,
+        mode TEXT NOT NULL,
+        seed INTEGER NOT NULL,
+        rng_state INTEGER NOT NULL,
+        player1_user_id INTEGER,
+        player2_user_id INTEGER,
+        player1_name TEXT,
+        player2_name TEXT,
+        winner_index INTEGER,
+        initial_state TEXT NOT NULL,
+        actions TEXT NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+
+    this.db.run(createGameReplaysTable, (err) => {
+      if (err) {
+        console.error('Error creating game_replays table:', err.message);
+      } else {
+        console.log('Game replays table created or already exists');
+      }
+    });
+
+    // Snapshots of games still in progress, reloaded when the server restarts
+    const createActiveGamesTable = `
+      CREATE TABLE IF NOT EXISTS active_games (
+        game_id TEXT PRIMARY KEY,
+        mode TEXT NOT NULL,
+        state TEXT NOT NULL,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP
+      )
+    `;
+
+    this.db.run(createActiveGamesTable, (err) => {
+      if (err) {
+        console.error('Error creating active_games table:', err.message);
+      } else {
+        console.log('Active games table created or already exists');
+      }
+    });
+
+    // Hero enable/disable switches set by admins, applied on top of the flags in heros.json
+    const createHeroOverridesTable = `
+      CREATE TABLE IF NOT EXISTS hero_overrides (
+        hero_name TEXT PRIMARY KEY,
+        disabled INTEGER NOT NULL,
+        updated_by INTEGER,
+        updated_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (updated_by) REFERENCES users (id)
+      )
+    `;
+
+    this.db.run(createHeroOverridesTable, (err) => {
+      if (err) {
+        console.error('Error creating hero_overrides table:', err.message);
+      } else {
+        console.log('Hero overrides table created or already exists');
+      }
+    });
+
+    // Player reports. message_snapshot keeps the recent conversation between the two players as
+    // it was when the report was filed
+    const createReportsTable = `
+      CREATE TABLE IF NOT EXISTS reports (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        reporter_id INTEGER NOT NULL,
+        reported_id INTEGER NOT NULL,
+        reason TEXT NOT NULL,
+        details TEXT,
+        context TEXT NOT NULL,
+        game_id TEXT,
+        message_snapshot TEXT DEFAULT '[]',
+        status TEXT NOT NULL DEFAULT 'open',
+        resolution_note TEXT,
+        resolved_by INTEGER,
+        resolved_at DATETIME,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (reporter_id) REFERENCES users (id),
+        FOREIGN KEY (reported_id) REFERENCES users (id),
+        FOREIGN KEY (resolved_by) REFERENCES users (id)
+      )
+    `;
+
+    this.db.run(createReportsTable, (err) => {
+      if (err) {
+        console.error('Error creating reports table:', err.message);
+      } else {
+        console.log('Reports table created or already exists');
+      }
+    });
+
+    // Suspensions: 'mute' (no private messages), 'queue-ban' (no matchmaking) or 'ban' (no login).
+    // expires_at is an ISO timestamp, or NULL for a permanent suspension
+    const createSuspensionsTable = `
+      CREATE TABLE IF NOT EXISTS suspensions (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        user_id INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        reason TEXT,
+        expires_at TEXT,
+        created_by INTEGER,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        lifted_by INTEGER,
+        lifted_at DATETIME,
+        FOREIGN KEY (user_id) REFERENCES users (id),
+        FOREIGN KEY (created_by) REFERENCES users (id)
+      )
+    `;
+
+    this.db.run(createSuspensionsTable, (err) => {
+      if (err) {
+        console.error('Error creating suspensions table:', err.message);
+      } else {
+        console.log('Suspensions table created or already exists');
+      }
+    });
+
+    // Block list: blocker_id has blocked blocked_id. Checked both ways, so either player blocking
+    // the other keeps them apart
+    const createBlocksTable = `
+      CREATE TABLE IF NOT EXISTS blocks (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        blocker_id INTEGER NOT NULL,
+        blocked_id INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (blocker_id) REFERENCES users (id),
+        FOREIGN KEY (blocked_id) REFERENCES users (id),
+        UNIQUE(blocker_id, blocked_id)
+      )
+    `;
+
+    this.db.run(createBlocksTable, (err) => {
+      if (err) {
+        console.error('Error creating blocks table:', err.message);
+      } else {
+        console.log('Blocks table created or already exists');
+      }
+    });
+
+    // Finished best-of-3/5 series from friendly rooms. winner_index is 0 or 1 into the players
+    const createFriendlySeriesTable = `
+      CREATE TABLE IF NOT EXISTS friendly_series (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        room_name TEXT NOT NULL,
+        mode TEXT NOT NULL,
+        best_of INTEGER NOT NULL,
+        player1_user_id INTEGER,
+        player2_user_id INTEGER,
+        player1_name TEXT NOT NULL,
+        player2_name TEXT NOT NULL,
+        player1_wins INTEGER NOT NULL,
+        player2_wins INTEGER NOT NULL,
+        winner_index INTEGER NOT NULL,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        FOREIGN KEY (player1_user_id) REFERENCES users (id),
+        FOREIGN KEY (player2_user_id) REFERENCES users (id)
+      )
+    `;
+
+    this.db.run(createFriendlySeriesTable, (err) => {
+      if (err) {
+        console.error('Error creating friendly_series table:', err.message);
+      } else {
+        console.log('Friendly series table created or already exists');
+      }
+    });
+
+    // Ranked seasons; ended_at stays NULL while a season is running
+    const createSeasonsTable = `
+      CREATE TABLE IF NOT EXISTS seasons (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        number INTEGER UNIQUE NOT NULL,
+        starts_at DATETIME NOT NULL,
+        ends_at DATETIME NOT NULL,
+        ended_at DATETIME
+      )
+    `;
+
+    this.db.run(createSeasonsTable, (err) => {
+      if (err) {
+        console.error('Error creating seasons table:', err.message);
+      } else {
+        console.log('Seasons table created or already exists');
+      }
+    });
+
+    // Each ranked player's final rank in an ended season and the rewards it earned
+    const createSeasonResultsTable = `
+      CREATE TABLE IF NOT EXISTS season_results (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        season_id INTEGER NOT NULL,
+        user_id INTEGER NOT NULL,
+        rating INTEGER NOT NULL,
+        tier TEXT,
+        games INTEGER NOT NULL,
+        wins INTEGER NOT NULL,
+        losses INTEGER NOT NULL,
+        reward_vp INTEGER DEFAULT 0,
+        reward_title TEXT,
+        reward_icon TEXT,
+        granted INTEGER DEFAULT 0,
+        created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(season_id, user_id),
+        FOREIGN KEY (season_id) REFERENCES seasons (id),
+        FOREIGN KEY (user_id) REFERENCES users (id)
+      )
+    `;
+
+    this.db.run(createSeasonResultsTable, (err) => {
+      if (err) {
+        console.error('Error creating season_results table:', err.message);
+      } else {
+        console.log('Season results table created or already exists');
+      }
+    });
+
     this.db.run(createPlayerStatsTable, (err) => {
       if (err) {
         console.error('Error creating player_stats table:', err.message);
@@ -188,6 +418,95 @@ class Database {
         console.log('Added player_id column to users table');
       }
     });
+
+    // Add session_version column to users table if it doesn't exist (bumped to revoke session tokens)
+    this.db.run(`ALTER TABLE users ADD COLUMN session_version INTEGER DEFAULT 0`, (err) => {
+      if (err && !err.message.includes('duplicate column')) {
+        console.error('Error adding session_version column:', err.message);
+      } else if (!err) {
+        console.log('Added session_version column to users table');
+      }
+    });
+
+    // Add recovery_codes column to users table if it doesn't exist (bcrypt hashes of unused codes)
+    this.db.run(`ALTER TABLE users ADD COLUMN recovery_codes TEXT DEFAULT '[]'`, (err) => {
+      if (err && !err.message.includes('duplicate column')) {
+        console.error('Error adding recovery_codes column:', err.message);
+      } else if (!err) {
+        console.log('Added recovery_codes column to users table');
+      }
+    });
+
+    // Add read_at column to messages table if it doesn't exist (NULL until the receiver opens the chat)
+    this.db.run(`ALTER TABLE messages ADD COLUMN read_at DATETIME`, (err) => {
+      if (err && !err.message.includes('duplicate column')) {
+        console.error('Error adding read_at column:', err.message);
+      } else if (!err) {
+        console.log('Added read_at column to messages table');
+      }
+    });
+
+    // Add role column to users table if it doesn't exist ('player' or 'admin')
+    this.db.run(`ALTER TABLE users ADD COLUMN role TEXT DEFAULT 'player'`, (err) => {
+      if (err && !err.message.includes('duplicate column')) {
+        console.error('Error adding role column:', err.message);
+      } else if (!err) {
+        console.log('Added role column to users table');
+      }
+    });
+
+    // Add ratings column to player_stats table if it doesn't exist (JSON: mode -> skill rating)
+    this.db.run(`ALTER TABLE player_stats ADD COLUMN ratings TEXT DEFAULT '{}'`, (err) => {
+      if (err && !err.message.includes('duplicate column')) {
+        console.error('Error adding ratings column:', err.message);
+      } else if (!err) {
+        console.log('Added ratings column to player_stats table');
+      }
+    });
+
+    // Add titles and season_icons columns to player_stats table if they don't exist (season rewards)
+    this.db.run(`ALTER TABLE player_stats ADD COLUMN titles TEXT DEFAULT '[]'`, (err) => {
+      if (err && !err.message.includes('duplicate column')) {
+        console.error('Error adding titles column:', err.message);
+      } else if (!err) {
+        console.log('Added titles column to player_stats table');
+      }
+    });
+
+    this.db.run(`ALTER TABLE player_stats ADD COLUMN season_icons TEXT DEFAULT '[]'`, (err) => {
+      if (err && !err.message.includes('duplicate column')) {
+        console.error('Error adding season_icons column:', err.message);
+      } else if (!err) {
+        console.log('Added season_icons column to player_stats table');
+      }
+    });
+
+    // Season rollover bookkeeping: the last season whose reward VP a user got and whose soft
+    // reset their ranked rating had, so a retried rollover applies neither twice
+    this.db.run(`ALTER TABLE users ADD COLUMN last_rewarded_season INTEGER DEFAULT 0`, (err) => {
+      if (err && !err.message.includes('duplicate column')) {
+        console.error('Error adding last_rewarded_season column:', err.message);
+      } else if (!err) {
+        console.log('Added last_rewarded_season column to users table');
+      }
+    });
+
+    this.db.run(`ALTER TABLE player_stats ADD COLUMN last_reset_season INTEGER DEFAULT 0`, (err) => {
+      if (err && !err.message.includes('duplicate column')) {
+        console.error('Error adding last_reset_season column:', err.message);
+      } else if (!err) {
+        console.log('Added last_reset_season column to player_stats table');
+      }
+    });
+
+    // Add granted column to season_results table if it doesn't exist (reward and reset done)
+    this.db.run(`ALTER TABLE season_results ADD COLUMN granted INTEGER DEFAULT 0`, (err) => {
+      if (err && !err.message.includes('duplicate column')) {
+        console.error('Error adding granted column:', err.message);
+      } else if (!err) {
+        console.log('Added granted column to season_results table');
+      }
+    });
   }
 
   // DISABLED: No longer automatically giving all heroes to users
@@ -350,7 +669,7 @@ class Database {
         SELECT 
           u.id, u.username, u.victory_points, u.survival_wins, 
           u.survival_losses, u.survival_used_heroes, u.available_heroes,
-          u.favorite_heroes, u.best_gauntlet_trial, u.player_id,
+          u.favorite_heroes, u.best_gauntlet_trial, u.player_id, u.role,
           ps.level, ps.xp
         FROM users u
         LEFT JOIN player_stats ps ON u.id = ps.user_id
@@ -393,12 +712,37 @@ class Database {
           xp: row.xp || 0,
           level: row.level || 1,
           best_gauntlet_trial: row.best_gauntlet_trial || 0,
-          player_id: row.player_id || null
+          player_id: row.player_id || null,
+          role: row.role || 'player'
         });
       });
     });
   }
 
+  async getUserRole(userId) {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT role FROM users WHERE id = ?', [userId], (err, row) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(row ? row.role || 'player' : null);
+      });
+    });
+  }
+
+  async setUserRole(username, role) {
+    return new Promise((resolve, reject) => {
+      this.db.run('UPDATE users SET role = ? WHERE username = ?', [role, username], function(err) {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(this.changes > 0);
+      });
+    });
+  }
+
   async updateUserVictoryPoints(userId, points) {
     return new Promise((resolve, reject) => {
       const query = 'UPDATE users SET victory_points = victory_points + ? WHERE id = ?';
@@ -463,6 +807,154 @@ class Database {
     });
   }
 
+  async getSessionVersion(userId) {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT session_version FROM users WHERE id = ?', [userId], (err, row) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(row ? row.session_version || 0 : null);
+      });
+    });
+  }
+
+  // Invalidates every session token issued to this user so far
+  async bumpSessionVersion(userId) {
+    return new Promise((resolve, reject) => {
+      const query = 'UPDATE users SET session_version = COALESCE(session_version, 0) + 1 WHERE id = ?';
+      this.db.run(query, [userId], function(err) {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(this.changes > 0);
+      });
+    });
+  }
+
+  async verifyPassword(userId, password) {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT password_hash FROM users WHERE id = ?', [userId], (err, row) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        if (!row) {
+          reject(new Error('User not found'));
+          return;
+        }
+
+        bcrypt.compare(password, row.password_hash, (compareErr, isMatch) => {
+          if (compareErr) {
+            reject(compareErr);
+            return;
+          }
+          resolve(isMatch);
+        });
+      });
+    });
+  }
+
+  async changePassword(userId, currentPassword, newPassword) {
+    const isMatch = await this.verifyPassword(userId, currentPassword);
+    if (!isMatch) {
+      throw new Error('Current password is incorrect');
+    }
+
+    const hash = await bcrypt.hash(newPassword, 10);
+    return new Promise((resolve, reject) => {
+      this.db.run('UPDATE users SET password_hash = ? WHERE id = ?', [hash, userId], (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve({ success: true });
+      });
+    });
+  }
+
+  // Replaces the user's recovery codes with a fresh set. Only hashes are stored, so the
+  // returned plain codes are the one chance to show them
+  async createRecoveryCodes(userId) {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = crypto.randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+    const hashes = await Promise.all(codes.map(code => bcrypt.hash(code, 10)));
+
+    return new Promise((resolve, reject) => {
+      this.db.run('UPDATE users SET recovery_codes = ? WHERE id = ?', [JSON.stringify(hashes), userId], function(err) {
+        if (err) {
+          reject(err);
+          return;
+        }
+        if (this.changes === 0) {
+          reject(new Error('User not found'));
+          return;
+        }
+        resolve(codes);
+      });
+    });
+  }
+
+  // Spends one recovery code to set a new password. Resolves with the user id and how many
+  // codes are left
+  async recoverAccount(username, recoveryCode, newPassword) {
+    const row = await new Promise((resolve, reject) => {
+      this.db.get('SELECT id, recovery_codes FROM users WHERE username = ?', [username], (err, result) => {
+        if (err) reject(err);
+        else resolve(result);
+      });
+    });
+
+    let hashes = [];
+    try {
+      hashes = row ? JSON.parse(row.recovery_codes || '[]') : [];
+    } catch (parseErr) {
+      console.error('Error parsing recovery codes:', parseErr);
+    }
+
+    // Codes are shown lowercase with a dash; accept them however they were typed back
+    const normalized = String(recoveryCode || '').toLowerCase().replace(/[^0-9a-f]/g, '');
+    const code = `${normalized.slice(0, 5)}-${normalized.slice(5)}`;
+
+    const candidates = row ? hashes : Array(RECOVERY_CODE_COUNT).fill(UNUSED_CODE_HASH);
+    let matchIndex = -1;
+    for (let i = 0; i < candidates.length; i++) {
+      if (await bcrypt.compare(code, candidates[i])) {
+        matchIndex = i;
+        break;
+      }
+    }
+
+    // Same message for unknown users and wrong codes
+    if (matchIndex === -1) {
+      throw new Error('Invalid username or recovery code');
+    }
+
+    const remaining = hashes.filter((_, index) => index !== matchIndex);
+    const hash = await bcrypt.hash(newPassword, 10);
+
+    // Only consume the code if the codes are still the ones we checked it against: of two
+    // requests racing with the same code, the second changes no row and fails
+    return new Promise((resolve, reject) => {
+      const query = 'UPDATE users SET password_hash = ?, recovery_codes = ? WHERE id = ? AND recovery_codes = ?';
+      this.db.run(query, [hash, JSON.stringify(remaining), row.id, row.recovery_codes], function(err) {
+        if (err) {
+          reject(err);
+          return;
+        }
+        if (this.changes === 0) {
+          reject(new Error('Invalid username or recovery code'));
+          return;
+        }
+        resolve({ userId: row.id, remainingCodes: remaining.length });
+      });
+    });
+  }
+
   async addHeroToUser(userId, heroName) {
     return new Promise((resolve, reject) => {
       this.getUserById(userId)
@@ -487,6 +979,63 @@ class Database {
     });
   }
 
+  async removeHeroFromUser(userId, heroName) {
+    const user = await this.getUserById(userId);
+    const updatedHeroes = user.available_heroes.filter(name => name !== heroName);
+    const updatedFavorites = user.favorite_heroes.filter(name => name !== heroName);
+
+    return new Promise((resolve, reject) => {
+      const query = 'UPDATE users SET available_heroes = ?, favorite_heroes = ? WHERE id = ?';
+      this.db.run(query, [JSON.stringify(updatedHeroes), JSON.stringify(updatedFavorites), userId], function(err) {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(updatedHeroes);
+      });
+    });
+  }
+
+  async getHeroOverrides() {
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT hero_name, disabled, updated_by, updated_at FROM hero_overrides', [], (err, rows) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(rows.map(row => ({ ...row, disabled: row.disabled === 1 })));
+      });
+    });
+  }
+
+  async setHeroOverride(heroName, disabled, updatedBy) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT OR REPLACE INTO hero_overrides (hero_name, disabled, updated_by, updated_at)
+        VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+      `;
+      this.db.run(query, [heroName, disabled ? 1 : 0, updatedBy], (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
+  async clearHeroOverride(heroName) {
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM hero_overrides WHERE hero_name = ?', [heroName], (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve();
+      });
+    });
+  }
+
   // Friends system methods
   async sendFriendRequest(userId, friendId) {
     return new Promise((resolve, reject) => {
@@ -663,6 +1212,116 @@ class Database {
     });
   }
 
+  // Block list methods. Blocking someone also ends any friendship or pending request between you
+  async blockUser(blockerId, blockedId) {
+    return new Promise((resolve, reject) => {
+      if (blockerId === blockedId) {
+        reject(new Error('You cannot block yourself'));
+        return;
+      }
+
+      const insertQuery = `
+        INSERT OR IGNORE INTO blocks (blocker_id, blocked_id)
+        VALUES (?, ?)
+      `;
+
+      this.db.run(insertQuery, [blockerId, blockedId], (err) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        const unfriendQuery = `
+          DELETE FROM friends
+          WHERE (user_id = ? AND friend_id = ?) OR (user_id = ? AND friend_id = ?)
+        `;
+
+        this.db.run(unfriendQuery, [blockerId, blockedId, blockedId, blockerId], (unfriendErr) => {
+          if (unfriendErr) {
+            reject(unfriendErr);
+            return;
+          }
+          resolve({ success: true });
+        });
+      });
+    });
+  }
+
+  async unblockUser(blockerId, blockedId) {
+    return new Promise((resolve, reject) => {
+      const query = 'DELETE FROM blocks WHERE blocker_id = ? AND blocked_id = ?';
+
+      this.db.run(query, [blockerId, blockedId], function(err) {
+        if (err) {
+          reject(err);
+        } else if (this.changes === 0) {
+          reject(new Error('That player is not blocked'));
+        } else {
+          resolve({ success: true });
+        }
+      });
+    });
+  }
+
+  // Players this user has blocked
+  async getBlockedUsers(userId) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT u.id, u.username, b.created_at
+        FROM blocks b
+        JOIN users u ON u.id = b.blocked_id
+        WHERE b.blocker_id = ?
+        ORDER BY u.username
+      `;
+
+      this.db.all(query, [userId], (err, rows) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(rows);
+      });
+    });
+  }
+
+  // Ids of everyone this user has blocked or been blocked by
+  async getBlockRelatedUserIds(userId) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT blocked_id AS id FROM blocks WHERE blocker_id = ?
+        UNION
+        SELECT blocker_id AS id FROM blocks WHERE blocked_id = ?
+      `;
+
+      this.db.all(query, [userId, userId], (err, rows) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(rows.map(row => row.id));
+      });
+    });
+  }
+
+  // True if either user has blocked the other
+  async isBlockedBetween(userId1, userId2) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT 1 FROM blocks
+        WHERE (blocker_id = ? AND blocked_id = ?) OR (blocker_id = ? AND blocked_id = ?)
+        LIMIT 1
+      `;
+
+      this.db.get(query, [userId1, userId2, userId2, userId1], (err, row) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(!!row);
+      });
+    });
+  }
+
   // Messaging system methods
   async sendMessage(senderId, receiverId, message) {
     return new Promise((resolve, reject) => {
@@ -682,50 +1341,270 @@ class Database {
           sender_id: senderId,
           receiver_id: receiverId,
           message: message,
-          created_at: new Date().toISOString()
+          created_at: new Date().toISOString(),
+          read_at: null
         });
       });
     });
   }
 
-  async getMessages(userId1, userId2, limit = 50) {
+  // The newest `limit` messages between two users, oldest first. Pass beforeId (a message id)
+  // to page further back in the conversation
+  async getMessages(userId1, userId2, limit = 50, beforeId = null) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT m.*, s.username as sender_username, r.username as receiver_username
+        FROM messages m
+        JOIN users s ON s.id = m.sender_id
+        JOIN users r ON r.id = m.receiver_id
+        WHERE ((m.sender_id = ? AND m.receiver_id = ?) OR (m.sender_id = ? AND m.receiver_id = ?))
+          AND m.id < ?
+        ORDER BY m.id DESC
+        LIMIT ?
+      `;
+
+      const params = [userId1, userId2, userId2, userId1, beforeId || Number.MAX_SAFE_INTEGER, limit];
+      this.db.all(query, params, (err, rows) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        // Reverse to show oldest first
+        resolve(rows.reverse());
+      });
+    });
+  }
+
+  // Mark everything senderId has sent to receiverId as read. Returns how many messages changed
+  async markMessagesRead(receiverId, senderId) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        UPDATE messages
+        SET read_at = CURRENT_TIMESTAMP
+        WHERE receiver_id = ? AND sender_id = ? AND read_at IS NULL
+      `;
+
+      this.db.run(query, [receiverId, senderId], function(err) {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(this.changes);
+      });
+    });
+  }
+
+  // Unread messages per conversation: [{ userId, username, count }]
+  async getUnreadMessageCounts(userId) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT m.sender_id as userId, u.username, COUNT(*) as count
+        FROM messages m
+        JOIN users u ON u.id = m.sender_id
+        WHERE m.receiver_id = ? AND m.read_at IS NULL
+        GROUP BY m.sender_id
+        ORDER BY MAX(m.id) DESC
+      `;
+
+      this.db.all(query, [userId], (err, rows) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(rows);
+      });
+    });
+  }
+
+  // Messages a user has sent to anyone, newest first (for reviewing reports)
+  async getRecentMessagesBySender(senderId, limit = 20) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT m.*, r.username as receiver_username
+        FROM messages m
+        JOIN users r ON r.id = m.receiver_id
+        WHERE m.sender_id = ?
+        ORDER BY m.created_at DESC
+        LIMIT ?
+      `;
+
+      this.db.all(query, [senderId, limit], (err, rows) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(rows);
+      });
+    });
+  }
+
+  // Moderation Methods
+  async createReport({ reporterId, reportedId, reason, details, context, gameId }) {
+    const existing = await new Promise((resolve, reject) => {
+      this.db.get(
+        `SELECT id FROM reports WHERE reporter_id = ? AND reported_id = ? AND status = 'open'`,
+        [reporterId, reportedId],
+        (err, row) => err ? reject(err) : resolve(row)
+      );
+    });
+    if (existing) {
+      throw new Error('You have already reported this player. A moderator will review it soon.');
+    }
+
+    const messageSnapshot = await this.getMessages(reporterId, reportedId, 20);
+
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT INTO reports (reporter_id, reported_id, reason, details, context, game_id, message_snapshot)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `;
+
+      this.db.run(query, [
+        reporterId, reportedId, reason, details || null, context, gameId || null,
+        JSON.stringify(messageSnapshot.map(m => ({
+          sender_id: m.sender_id,
+          sender_username: m.sender_username,
+          message: m.message,
+          created_at: m.created_at
+        })))
+      ], function(err) {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve({ id: this.lastID });
+      });
+    });
+  }
+
+  async getReports(status = 'open', limit = 50) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT r.id, r.reporter_id, r.reported_id, r.reason, r.details, r.context, r.game_id,
+               r.status, r.created_at,
+               reporter.username as reporter_username, reported.username as reported_username,
+               (SELECT COUNT(*) FROM reports other WHERE other.reported_id = r.reported_id) as reports_against
+        FROM reports r
+        JOIN users reporter ON reporter.id = r.reporter_id
+        JOIN users reported ON reported.id = r.reported_id
+        WHERE r.status = ?
+        ORDER BY r.created_at DESC
+        LIMIT ?
+      `;
+
+      this.db.all(query, [status, limit], (err, rows) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve(rows);
+      });
+    });
+  }
+
+  async getReport(reportId) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT r.*, reporter.username as reporter_username, reported.username as reported_username
+        FROM reports r
+        JOIN users reporter ON reporter.id = r.reporter_id
+        JOIN users reported ON reported.id = r.reported_id
+        WHERE r.id = ?
+      `;
+
+      this.db.get(query, [reportId], (err, row) => {
+        if (err) {
+          reject(err);
+        } else if (!row) {
+          resolve(null);
+        } else {
+          resolve({
+            ...row,
+            message_snapshot: JSON.parse(row.message_snapshot || '[]')
+          });
+        }
+      });
+    });
+  }
+
+  // status is 'resolved' (action taken) or 'dismissed'
+  async resolveReport(reportId, status, resolvedBy, note) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        UPDATE reports
+        SET status = ?, resolved_by = ?, resolution_note = ?, resolved_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND status = 'open'
+      `;
+
+      this.db.run(query, [status, resolvedBy, note || null, reportId], function(err) {
+        if (err) {
+          reject(err);
+        } else if (this.changes === 0) {
+          reject(new Error('Report not found or already closed'));
+        } else {
+          resolve({ success: true });
+        }
+      });
+    });
+  }
+
+  // durationMs of null makes the suspension permanent
+  async addSuspension(userId, type, reason, durationMs, createdBy) {
+    const expiresAt = durationMs ? new Date(Date.now() + durationMs).toISOString() : null;
+
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT INTO suspensions (user_id, type, reason, expires_at, created_by)
+        VALUES (?, ?, ?, ?, ?)
+      `;
+
+      this.db.run(query, [userId, type, reason || null, expiresAt, createdBy], function(err) {
+        if (err) {
+          reject(err);
+          return;
+        }
+        resolve({ id: this.lastID, user_id: userId, type, reason: reason || null, expires_at: expiresAt });
+      });
+    });
+  }
+
+  async liftSuspension(suspensionId, liftedBy) {
     return new Promise((resolve, reject) => {
       const query = `
-        SELECT m.*, s.username as sender_username, r.username as receiver_username
-        FROM messages m
-        JOIN users s ON s.id = m.sender_id
-        JOIN users r ON r.id = m.receiver_id
-        WHERE (m.sender_id = ? AND m.receiver_id = ?) OR (m.sender_id = ? AND m.receiver_id = ?)
-        ORDER BY m.created_at DESC
-        LIMIT ?
+        UPDATE suspensions
+        SET lifted_by = ?, lifted_at = CURRENT_TIMESTAMP
+        WHERE id = ? AND lifted_at IS NULL
       `;
 
-      this.db.all(query, [userId1, userId2, userId2, userId1, limit], (err, rows) => {
+      this.db.run(query, [liftedBy, suspensionId], function(err) {
         if (err) {
           reject(err);
-          return;
+        } else if (this.changes === 0) {
+          reject(new Error('Suspension not found or already lifted'));
+        } else {
+          resolve({ success: true });
         }
-        // Reverse to show oldest first
-        resolve(rows.reverse());
       });
     });
   }
 
-  // Delete all messages for a user (when they logout/disconnect)
-  deleteAllUserMessages(userId) {
+  // Suspensions that are neither lifted nor expired
+  async getActiveSuspensions(userId) {
     return new Promise((resolve, reject) => {
       const query = `
-        DELETE FROM messages 
-        WHERE sender_id = ? OR receiver_id = ?
+        SELECT id, user_id, type, reason, expires_at, created_at
+        FROM suspensions
+        WHERE user_id = ? AND lifted_at IS NULL
+        ORDER BY created_at DESC
       `;
 
-      this.db.run(query, [userId, userId], function(err) {
+      this.db.all(query, [userId], (err, rows) => {
         if (err) {
           reject(err);
           return;
         }
-        console.log(`Deleted ${this.changes} messages for user ${userId}`);
-        resolve(this.changes);
+        const now = Date.now();
+        resolve(rows.filter(row => !row.expires_at || new Date(row.expires_at).getTime() > now));
       });
     });
   }
@@ -755,6 +1634,18 @@ class Database {
           } catch (e) {
             row.hero_usage_count = {};
           }
+          try {
+            row.ratings = JSON.parse(row.ratings || '{}');
+          } catch (e) {
+            row.ratings = {};
+          }
+          try {
+            row.titles = JSON.parse(row.titles || '[]');
+            row.season_icons = JSON.parse(row.season_icons || '[]');
+          } catch (e) {
+            row.titles = [];
+            row.season_icons = [];
+          }
           resolve(row);
         }
       });
@@ -784,7 +1675,10 @@ class Database {
           favorite_hero: null,
           hero_usage_count: {},
           highest_survival_run: 0,
-          profile_icon: 'Sorcerer'
+          profile_icon: 'Sorcerer',
+          ratings: {},
+          titles: [],
+          season_icons: []
         });
       });
     });
@@ -1074,6 +1968,32 @@ class Database {
     });
   }
 
+  // Store a player's skill rating for one mode (see rating.js)
+  async updatePlayerRating(userId, mode, rating) {
+    return new Promise((resolve, reject) => {
+      this.getPlayerStats(userId)
+        .then(stats => {
+          const ratings = { ...(stats.ratings || {}), [mode]: rating };
+
+          const query = `
+            UPDATE player_stats 
+            SET ratings = ?, updated_at = CURRENT_TIMESTAMP 
+            WHERE user_id = ?
+          `;
+
+          this.db.run(query, [JSON.stringify(ratings), userId], function(err) {
+            if (err) {
+              reject(err);
+              return;
+            }
+
+            resolve(ratings);
+          });
+        })
+        .catch(reject);
+    });
+  }
+
   async updateProfileIcon(userId, heroName) {
     return new Promise((resolve, reject) => {
       const query = `
@@ -1302,6 +2222,370 @@ class Database {
     });
   }
 
+  async saveReplay(replay) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT OR REPLACE INTO game_replays
+        (id, mode, seed, rng_state, player1_user_id, player2_user_id, player1_name, player2_name, winner_index, initial_state, actions)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+      const [player1, player2] = replay.players;
+
+      this.db.run(query, [
+        replay.id, replay.mode, replay.seed, replay.rngState,
+        player1.userId, player2.userId, player1.name, player2.name,
+        replay.winnerIndex, replay.initialState, JSON.stringify(replay.actions)
+      ], (err) => {
+        if (err) {
+          console.error('Error saving replay:', err.message);
+          reject(err);
+        } else {
+          console.log(`✅ Saved replay ${replay.id} (${replay.actions.length} actions)`);
+          resolve({ success: true });
+        }
+      });
+    });
+  }
+
+  async getReplay(replayId) {
+    return new Promise((resolve, reject) => {
+      this.db.get('SELECT * FROM game_replays WHERE id = ?', [replayId], (err, row) => {
+        if (err) {
+          reject(err);
+        } else if (!row) {
+          reject(new Error('Replay not found'));
+        } else {
+          resolve({
+            id: row.id,
+            mode: row.mode,
+            seed: row.seed,
+            rngState: row.rng_state,
+            players: [
+              { name: row.player1_name, userId: row.player1_user_id },
+              { name: row.player2_name, userId: row.player2_user_id }
+            ],
+            winnerIndex: row.winner_index,
+            initialState: row.initial_state,
+            actions: JSON.parse(row.actions),
+            createdAt: row.created_at
+          });
+        }
+      });
+    });
+  }
+
+  async getUserReplays(userId, limit = 20) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT id, mode, player1_user_id, player2_user_id, player1_name, player2_name, winner_index, created_at
+        FROM game_replays
+        WHERE player1_user_id = ? OR player2_user_id = ?
+        ORDER BY created_at DESC
+        LIMIT ?
+      `;
+
+      this.db.all(query, [userId, userId, limit], (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows.map(row => ({
+            id: row.id,
+            mode: row.mode,
+            players: [row.player1_name, row.player2_name],
+            // Index of the requesting user in players, so the viewer can open from their side
+            playerIndex: row.player1_user_id === userId ? 0 : 1,
+            winnerIndex: row.winner_index,
+            createdAt: row.created_at
+          })));
+        }
+      });
+    });
+  }
+
+  // series: { roomName, mode, bestOf, players: [{ userId, name, wins }] x2, winnerIndex }
+  async saveFriendlySeries(series) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT INTO friendly_series
+        (room_name, mode, best_of, player1_user_id, player2_user_id, player1_name, player2_name, player1_wins, player2_wins, winner_index)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+      const [player1, player2] = series.players;
+
+      this.db.run(query, [
+        series.roomName, series.mode, series.bestOf,
+        player1.userId, player2.userId, player1.name, player2.name,
+        player1.wins, player2.wins, series.winnerIndex
+      ], function(err) {
+        if (err) {
+          console.error('Error saving friendly series:', err.message);
+          reject(err);
+        } else {
+          resolve({ success: true, seriesId: this.lastID });
+        }
+      });
+    });
+  }
+
+  // Ranked seasons (see seasons.js)
+  async getCurrentSeason() {
+    return new Promise((resolve, reject) => {
+      const query = `SELECT * FROM seasons WHERE ended_at IS NULL ORDER BY number DESC LIMIT 1`;
+
+      this.db.get(query, [], (err, row) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(row || null);
+        }
+      });
+    });
+  }
+
+  async createSeason(number, startsAt, endsAt) {
+    return new Promise((resolve, reject) => {
+      const query = `INSERT INTO seasons (number, starts_at, ends_at) VALUES (?, ?, ?)`;
+
+      this.db.run(query, [number, startsAt.toISOString(), endsAt.toISOString()], function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve({ id: this.lastID, number, starts_at: startsAt.toISOString(), ends_at: endsAt.toISOString(), ended_at: null });
+        }
+      });
+    });
+  }
+
+  async endSeason(seasonId) {
+    return new Promise((resolve, reject) => {
+      const query = `UPDATE seasons SET ended_at = CURRENT_TIMESTAMP WHERE id = ?`;
+
+      this.db.run(query, [seasonId], (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve({ success: true });
+        }
+      });
+    });
+  }
+
+  // [{ userId, ratings }] for everyone who has a ranked rating
+  async getRankedPlayers() {
+    return new Promise((resolve, reject) => {
+      const query = `SELECT user_id, ratings FROM player_stats WHERE ratings LIKE '%"ranked"%'`;
+
+      this.db.all(query, [], (err, rows) => {
+        if (err) {
+          reject(err);
+          return;
+        }
+
+        resolve(rows.map(row => {
+          let ratings = {};
+          try {
+            ratings = JSON.parse(row.ratings || '{}');
+          } catch (e) {
+            // Unreadable ratings count as none
+          }
+          return { userId: row.user_id, ratings };
+        }));
+      });
+    });
+  }
+
+  // Record a player's final rank for a season. Resolves false when it was already recorded: the
+  // first archived rank and reward stand, even if the rollover is run again
+  async archiveSeasonResult(seasonId, userId, rank, reward) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT OR IGNORE INTO season_results
+        (season_id, user_id, rating, tier, games, wins, losses, reward_vp, reward_title, reward_icon)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `;
+
+      this.db.run(query, [
+        seasonId, userId, rank.rating, rank.tier, rank.games, rank.wins, rank.losses,
+        reward ? reward.victoryPoints : 0,
+        reward ? reward.title : null,
+        reward ? reward.icon : null
+      ], function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.changes > 0);
+        }
+      });
+    });
+  }
+
+  // Grant a season's reward. The VP land once per season however often this runs, and titles and
+  // icons are never added twice, so a retried rollover can call it again
+  async grantSeasonReward(userId, seasonNumber, reward) {
+    await new Promise((resolve, reject) => {
+      const query = `
+        UPDATE users 
+        SET victory_points = victory_points + ?, last_rewarded_season = ? 
+        WHERE id = ? AND COALESCE(last_rewarded_season, 0) < ?
+      `;
+
+      this.db.run(query, [reward.victoryPoints, seasonNumber, userId, seasonNumber], (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve();
+        }
+      });
+    });
+
+    const stats = await this.getPlayerStats(userId);
+    const titles = reward.title && !stats.titles.includes(reward.title) ? [...stats.titles, reward.title] : stats.titles;
+    const icons = reward.icon && !stats.season_icons.includes(reward.icon) ? [...stats.season_icons, reward.icon] : stats.season_icons;
+
+    return new Promise((resolve, reject) => {
+      const query = `
+        UPDATE player_stats 
+        SET titles = ?, season_icons = ?, updated_at = CURRENT_TIMESTAMP 
+        WHERE user_id = ?
+      `;
+
+      this.db.run(query, [JSON.stringify(titles), JSON.stringify(icons), userId], (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve({ titles, seasonIcons: icons });
+        }
+      });
+    });
+  }
+
+  // Soft-reset a player's ranked rating at the end of a season. Only the ranked entry is written,
+  // and only once per season: a retried rollover leaves an already reset rating alone
+  async resetSeasonRating(userId, seasonNumber, rating) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        UPDATE player_stats 
+        SET ratings = json_set(COALESCE(ratings, '{}'), '$.ranked', json(?)), last_reset_season = ?, 
+            updated_at = CURRENT_TIMESTAMP 
+        WHERE user_id = ? AND COALESCE(last_reset_season, 0) < ?
+      `;
+
+      this.db.run(query, [JSON.stringify(rating), seasonNumber, userId, seasonNumber], function(err) {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(this.changes > 0);
+        }
+      });
+    });
+  }
+
+  // Archived results of a season whose reward and reset haven't both gone through yet, with
+  // the season number as `season`
+  async getUngrantedSeasonResults(seasonId) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT r.user_id, s.number AS season, r.rating, r.tier, r.games, r.wins, r.losses,
+               r.reward_vp, r.reward_title, r.reward_icon
+        FROM season_results r
+        JOIN seasons s ON s.id = r.season_id
+        WHERE r.season_id = ? AND COALESCE(r.granted, 0) = 0
+      `;
+
+      this.db.all(query, [seasonId], (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows);
+        }
+      });
+    });
+  }
+
+  async markSeasonResultGranted(seasonId, userId) {
+    return new Promise((resolve, reject) => {
+      const query = `UPDATE season_results SET granted = 1 WHERE season_id = ? AND user_id = ?`;
+
+      this.db.run(query, [seasonId, userId], (err) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve({ success: true });
+        }
+      });
+    });
+  }
+
+  // A player's archived season finishes, latest first
+  async getSeasonResults(userId) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        SELECT s.number AS season, r.rating, r.tier, r.games, r.wins, r.losses,
+               r.reward_vp, r.reward_title, r.reward_icon
+        FROM season_results r
+        JOIN seasons s ON s.id = r.season_id
+        WHERE r.user_id = ?
+        ORDER BY s.number DESC
+      `;
+
+      this.db.all(query, [userId], (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows);
+        }
+      });
+    });
+  }
+
+  async saveActiveGame(gameId, mode, state) {
+    return new Promise((resolve, reject) => {
+      const query = `
+        INSERT OR REPLACE INTO active_games (game_id, mode, state, updated_at)
+        VALUES (?, ?, ?, CURRENT_TIMESTAMP)
+      `;
+
+      this.db.run(query, [gameId, mode, state], (err) => {
+        if (err) {
+          console.error('Error saving active game:', err.message);
+          reject(err);
+        } else {
+          resolve({ success: true });
+        }
+      });
+    });
+  }
+
+  async deleteActiveGame(gameId) {
+    return new Promise((resolve, reject) => {
+      this.db.run('DELETE FROM active_games WHERE game_id = ?', [gameId], (err) => {
+        if (err) {
+          console.error('Error deleting active game:', err.message);
+          reject(err);
+        } else {
+          resolve({ success: true });
+        }
+      });
+    });
+  }
+
+  async getActiveGames() {
+    return new Promise((resolve, reject) => {
+      this.db.all('SELECT game_id, mode, state, updated_at FROM active_games', [], (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows.map(row => ({
+            gameId: row.game_id,
+            mode: row.mode,
+            state: row.state,
+            updatedAt: row.updated_at
+          })));
+        }
+      });
+    });
+  }
+
   close() {
     if (this.db) {
       this.db.close((err) => {
@@ -1315,15 +2599,14 @@ class Database {
   }
 
   // Auto-create admin accounts for testing
-  async createAdminAccounts() {
+  // Test accounts with every enabled hero, created only with DEV_TEST_ACCOUNTS=1. Despite the
+  // name they get the default 'player' role like any new account. ADMIN_USERNAMES would make
+  // one a real admin, so never list them there: everyone knows their password
+  async createAdminAccounts(enabledHeroes) {
     const adminAccounts = ['Admin1', 'Admin2', 'Admin3'];
     const adminPassword = 'admin';
     
     try {
-      // Get all enabled heroes
-      delete require.cache[require.resolve('./heros.json')];
-      const allHeroes = require('./heros.json');
-      const enabledHeroes = allHeroes.filter(hero => !hero.disabled).map(hero => hero.name);
       const heroesJson = JSON.stringify(enabledHeroes);
       
       for (const adminName of adminAccounts) {
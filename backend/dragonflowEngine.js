@@ -0,0 +1,631 @@
+// Dragonflow rules engine
+//
+// The server owns every Dragonflow game: clients send intents ({ type, ...args }) and
+// applyAction validates them against these rules and returns the next state. Nothing here
+// touches sockets or mutates its input, so the same functions can be run over a recorded
+// game or in a test harness.
+//
+// Board layout follows the client types: playerFlow / playerHand / playerOre belong to
+// player1 and opponentFlow / opponentHand / opponentOre to player2.
+
+const { random } = require('./utils');
+
+const DRAGON_TYPES = ['fire', 'water', 'earth', 'wood', 'metal'];
+const FLOW_SIZE = 5;
+const STARTING_HAND_SIZE = 4;
+const COPIES_PER_TYPE = 6;
+const HAND_LIMIT = 5;
+const ACTIONS_PER_TURN = 3;
+const MAX_USES_PER_ACTION = 2;
+
+// The type a dragon needs to its left to be harmonized
+const HARMONIZATION_RULES = {
+  fire: 'wood',
+  earth: 'fire',
+  metal: 'earth',
+  water: 'metal',
+  wood: 'water'
+};
+
+// What each dragon defeats in a conflict
+const COMBAT_RULES = {
+  fire: 'metal',
+  metal: 'wood',
+  wood: 'earth',
+  earth: 'water',
+  water: 'fire'
+};
+
+const DRAGON_ABILITIES = {
+  water: 'Move a Dragon Spirit to another space in the Flow. Swap if occupied.',
+  fire: 'Destroy one Dragon Spirit.',
+  earth: 'Block one space in the Flow until this dragon is moved.',
+  wood: 'Draw one card.',
+  metal: 'Gain two Ore.'
+};
+
+// Harmonizations that trigger together resolve in this order
+const HARMONIZATION_PRIORITY = ['fire', 'earth', 'metal', 'water', 'wood'];
+
+const ORE_COSTS = {
+  'ore-move': 1,
+  'ore-return': 1,
+  'ore-conflict': 2,
+  'ore-reharmonize': 3,
+  'ore-search': 4
+};
+
+function otherRole(role) {
+  return role === 'player1' ? 'player2' : 'player1';
+}
+
+function flowKey(role) {
+  return role === 'player1' ? 'playerFlow' : 'opponentFlow';
+}
+
+function handKey(role) {
+  return role === 'player1' ? 'playerHand' : 'opponentHand';
+}
+
+function oreKey(role) {
+  return role === 'player1' ? 'playerOre' : 'opponentOre';
+}
+
+function shuffle(cards) {
+  for (let i = cards.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [cards[i], cards[j]] = [cards[j], cards[i]];
+  }
+  return cards;
+}
+
+function createEmptyFlow() {
+  return Array.from({ length: FLOW_SIZE }, (_, i) => ({
+    columnIndex: i,
+    card: null,
+    isBlocked: false,
+    blockedBy: null
+  }));
+}
+
+function createDeck() {
+  const deck = [];
+  DRAGON_TYPES.forEach(type => {
+    for (let i = 0; i < COPIES_PER_TYPE; i++) {
+      deck.push({ id: `${type}-${i}`, type, owner: null });
+    }
+  });
+  return shuffle(deck);
+}
+
+function createActionCount() {
+  return { summon: 0, attack: 0, draw: 0, gainOre: 0, spendOre: 0 };
+}
+
+function createGame() {
+  const deck = createDeck();
+  const playerHand = deck.splice(0, STARTING_HAND_SIZE);
+  const opponentHand = deck.splice(0, STARTING_HAND_SIZE);
+  const choosingPlayer = random() < 0.5 ? 'player1' : 'player2';
+
+  return {
+    phase: 'choose-starter',
+    currentTurn: choosingPlayer,
+    choosingPlayer,
+    board: {
+      playerFlow: createEmptyFlow(),
+      opponentFlow: createEmptyFlow(),
+      playerHand,
+      opponentHand,
+      deck,
+      discardPile: [],
+      playerOre: 0,
+      opponentOre: 0
+    },
+    actionsUsed: createActionCount(),
+    actionsRemaining: ACTIONS_PER_TURN,
+    selectedCard: null,
+    selectedFlowPosition: null,
+    pendingHarmonization: null,
+    harmonizationQueue: [],
+    winner: null,
+    harmonizedThisTurn: []
+  };
+}
+
+function isValidColumn(column) {
+  return Number.isInteger(column) && column >= 0 && column < FLOW_SIZE;
+}
+
+// A player wins by having all five dragon types in their flow
+function checkWinCondition(board) {
+  const hasAllTypes = (flow) => new Set(flow.filter(pos => pos.card).map(pos => pos.card.type)).size === DRAGON_TYPES.length;
+  if (hasAllTypes(board.playerFlow)) return 'player1';
+  if (hasAllTypes(board.opponentFlow)) return 'player2';
+  return null;
+}
+
+function isHarmonized(flow, column) {
+  const card = flow[column].card;
+  const left = column > 0 ? flow[column - 1].card : null;
+  return !!(card && left && HARMONIZATION_RULES[card.type] === left.type);
+}
+
+// Harmonizations caused by a card entering `column`: the card itself (by its left neighbour)
+// and the card to its right (by the new card)
+function findHarmonizations(state, flow, column) {
+  const found = [];
+  const candidates = [column, column + 1].filter(index => index < FLOW_SIZE && flow[index].card);
+
+  candidates.forEach(index => {
+    const card = flow[index].card;
+    if (isHarmonized(flow, index) && !state.harmonizedThisTurn.includes(card.id)) {
+      found.push({
+        cardId: card.id,
+        dragonType: card.type,
+        effect: DRAGON_ABILITIES[card.type],
+        columnIndex: index,
+        owner: card.owner
+      });
+    }
+  });
+
+  return found;
+}
+
+function sortHarmonizations(harmonizations) {
+  return harmonizations.sort((a, b) => {
+    const priority = HARMONIZATION_PRIORITY.indexOf(a.dragonType) - HARMONIZATION_PRIORITY.indexOf(b.dragonType);
+    return priority !== 0 ? priority : a.columnIndex - b.columnIndex;
+  });
+}
+
+// Queue new harmonizations and surface the next one if nothing is waiting on a player
+function queueHarmonizations(state, harmonizations) {
+  const queued = state.harmonizationQueue.filter(h => !harmonizations.some(n => n.cardId === h.cardId));
+  state.harmonizationQueue = sortHarmonizations([...queued, ...harmonizations]);
+  advanceHarmonization(state);
+}
+
+function advanceHarmonization(state) {
+  if (!state.pendingHarmonization && state.harmonizationQueue.length > 0) {
+    state.pendingHarmonization = state.harmonizationQueue.shift();
+  }
+}
+
+function clearBlocksForCard(board, cardId) {
+  [...board.playerFlow, ...board.opponentFlow].forEach(pos => {
+    if (pos.blockedBy === cardId) {
+      pos.isBlocked = false;
+      pos.blockedBy = null;
+    }
+  });
+}
+
+// Earth blocks only last while their dragon stays harmonized
+function validateEarthBlocks(board) {
+  [board.playerFlow, board.opponentFlow].forEach(flow => {
+    flow.forEach((pos, index) => {
+      if (pos.card && pos.card.type === 'earth' && !isHarmonized(flow, index)) {
+        clearBlocksForCard(board, pos.card.id);
+      }
+    });
+  });
+}
+
+function removeFromFlow(board, flow, column) {
+  const card = flow[column].card;
+  flow[column].card = null;
+  clearBlocksForCard(board, card.id);
+  validateEarthBlocks(board);
+  return card;
+}
+
+function drawCard(board, role) {
+  if (board.deck.length === 0) {
+    board.deck = shuffle(board.discardPile);
+    board.discardPile = [];
+  }
+  if (board.deck.length > 0) {
+    board[handKey(role)].push(board.deck.shift());
+  }
+}
+
+function spendAction(state, category) {
+  state.actionsUsed[category] += 1;
+  state.actionsRemaining -= 1;
+}
+
+function checkActionAvailable(state, category) {
+  if (state.pendingHarmonization) {
+    return 'Resolve the harmonization first';
+  }
+  if (state.actionsRemaining <= 0) {
+    return 'No actions remaining this turn';
+  }
+  if (state.actionsUsed[category] >= MAX_USES_PER_ACTION) {
+    return 'That action has already been used twice this turn';
+  }
+  return null;
+}
+
+function endGame(state, winner) {
+  state.phase = 'game-over';
+  state.winner = winner;
+  state.pendingHarmonization = null;
+  state.harmonizationQueue = [];
+}
+
+// ---- Turn actions ----
+
+function chooseStarter(state, role, { goFirst }) {
+  if (state.phase !== 'choose-starter') return 'The turn order has already been chosen';
+  if (state.choosingPlayer !== role) return 'Your opponent is choosing the turn order';
+
+  state.phase = 'playing';
+  state.currentTurn = goFirst ? role : otherRole(role);
+  return null;
+}
+
+function reorderHand(state, role, { from, to }) {
+  const hand = state.board[handKey(role)];
+  if (!Number.isInteger(from) || !Number.isInteger(to) || !hand[from] || to < 0 || to >= hand.length) {
+    return 'Invalid hand position';
+  }
+  const [card] = hand.splice(from, 1);
+  hand.splice(to, 0, card);
+  return null;
+}
+
+function summon(state, role, { cardId, column }) {
+  const error = checkActionAvailable(state, 'summon');
+  if (error) return error;
+  if (!isValidColumn(column)) return 'Invalid flow space';
+
+  const hand = state.board[handKey(role)];
+  const flow = state.board[flowKey(role)];
+  const cardIndex = hand.findIndex(card => card.id === cardId);
+  if (cardIndex === -1) return 'That card is not in your hand';
+  if (flow[column].card || flow[column].isBlocked) return 'That flow space is not available';
+
+  const [card] = hand.splice(cardIndex, 1);
+  flow[column].card = { ...card, owner: role };
+  spendAction(state, 'summon');
+  queueHarmonizations(state, findHarmonizations(state, flow, column));
+  return null;
+}
+
+function attack(state, role, { column }) {
+  const error = checkActionAvailable(state, 'attack');
+  if (error) return error;
+  if (!isValidColumn(column)) return 'Invalid flow space';
+
+  const attacker = state.board[flowKey(role)][column].card;
+  const targetFlow = state.board[flowKey(otherRole(role))];
+  const target = targetFlow[column].card;
+  if (!attacker) return 'You have no dragon in that space';
+  if (!target) return 'There is nothing to attack in that column';
+  if (COMBAT_RULES[attacker.type] !== target.type) return `A ${attacker.type} dragon cannot defeat a ${target.type} dragon`;
+
+  state.board.discardPile.push(removeFromFlow(state.board, targetFlow, column));
+  spendAction(state, 'attack');
+  return null;
+}
+
+function draw(state, role) {
+  const error = checkActionAvailable(state, 'draw');
+  if (error) return error;
+
+  drawCard(state.board, role);
+  spendAction(state, 'draw');
+  return null;
+}
+
+function gainOre(state, role) {
+  const error = checkActionAvailable(state, 'gainOre');
+  if (error) return error;
+
+  state.board[oreKey(role)] += 1;
+  spendAction(state, 'gainOre');
+  return null;
+}
+
+function endTurn(state, role) {
+  if (state.pendingHarmonization) return 'Resolve the harmonization first';
+
+  const board = state.board;
+  const hand = board[handKey(role)];
+  if (hand.length > HAND_LIMIT) {
+    board.discardPile.push(...hand.splice(HAND_LIMIT));
+  }
+
+  validateEarthBlocks(board);
+
+  const winner = checkWinCondition(board);
+  if (winner) {
+    endGame(state, winner);
+    return null;
+  }
+
+  state.currentTurn = otherRole(role);
+  state.actionsUsed = createActionCount();
+  state.actionsRemaining = ACTIONS_PER_TURN;
+  state.selectedCard = null;
+  state.selectedFlowPosition = null;
+  state.harmonizedThisTurn = [];
+  return null;
+}
+
+// ---- Ore abilities ----
+
+function spendOre(state, role, type) {
+  const error = checkActionAvailable(state, 'spendOre');
+  if (error) return error;
+  if (state.board[oreKey(role)] < ORE_COSTS[type]) return 'Not enough ore';
+  return null;
+}
+
+function payOre(state, role, type) {
+  state.board[oreKey(role)] -= ORE_COSTS[type];
+  spendAction(state, 'spendOre');
+}
+
+function oreMove(state, role, { from, to }) {
+  const error = spendOre(state, role, 'ore-move');
+  if (error) return error;
+  if (!isValidColumn(from) || !isValidColumn(to)) return 'Invalid flow space';
+
+  const flow = state.board[flowKey(role)];
+  if (!flow[from].card) return 'You have no dragon in that space';
+  if (flow[to].card || flow[to].isBlocked) return 'That flow space is not available';
+
+  flow[to].card = flow[from].card;
+  flow[from].card = null;
+  payOre(state, role, 'ore-move');
+  validateEarthBlocks(state.board);
+  queueHarmonizations(state, findHarmonizations(state, flow, to));
+  return null;
+}
+
+function oreReturn(state, role, { column }) {
+  const error = spendOre(state, role, 'ore-return');
+  if (error) return error;
+  if (!isValidColumn(column)) return 'Invalid flow space';
+
+  const flow = state.board[flowKey(role)];
+  if (!flow[column].card) return 'You have no dragon in that space';
+
+  const card = removeFromFlow(state.board, flow, column);
+  state.board[handKey(role)].push({ ...card, owner: null });
+  payOre(state, role, 'ore-return');
+  return null;
+}
+
+function oreConflict(state, role, { attackerColumn, targetColumn }) {
+  const error = spendOre(state, role, 'ore-conflict');
+  if (error) return error;
+  if (!isValidColumn(attackerColumn) || !isValidColumn(targetColumn)) return 'Invalid flow space';
+
+  const attacker = state.board[flowKey(role)][attackerColumn].card;
+  const targetFlow = state.board[flowKey(otherRole(role))];
+  const target = targetFlow[targetColumn].card;
+  if (!attacker) return 'You have no dragon in that space';
+  if (!target) return 'There is nothing to attack there';
+  if (COMBAT_RULES[attacker.type] !== target.type) return `A ${attacker.type} dragon cannot defeat a ${target.type} dragon`;
+
+  state.board.discardPile.push(removeFromFlow(state.board, targetFlow, targetColumn));
+  payOre(state, role, 'ore-conflict');
+  return null;
+}
+
+function oreReharmonize(state, role, { column }) {
+  const error = spendOre(state, role, 'ore-reharmonize');
+  if (error) return error;
+  if (!isValidColumn(column)) return 'Invalid flow space';
+
+  const flow = state.board[flowKey(role)];
+  if (!isHarmonized(flow, column)) return 'That dragon is not harmonized';
+
+  const card = flow[column].card;
+  payOre(state, role, 'ore-reharmonize');
+  state.pendingHarmonization = {
+    cardId: card.id,
+    dragonType: card.type,
+    effect: DRAGON_ABILITIES[card.type],
+    columnIndex: column,
+    owner: role
+  };
+  return null;
+}
+
+// Reveal cards from the top of the deck until one of the chosen type turns up. The rest of the
+// revealed cards are discarded. If the deck has none, the discard pile is shuffled back in and
+// nothing is spent.
+function oreSearch(state, role, { dragonType, column = null }) {
+  const error = spendOre(state, role, 'ore-search');
+  if (error) return error;
+  if (!DRAGON_TYPES.includes(dragonType)) return 'Unknown dragon type';
+
+  const board = state.board;
+  const flow = board[flowKey(role)];
+  if (column !== null) {
+    if (!isValidColumn(column)) return 'Invalid flow space';
+    if (flow[column].card || flow[column].isBlocked) return 'That flow space is not available';
+  }
+
+  const foundIndex = board.deck.findIndex(card => card.type === dragonType);
+  if (foundIndex === -1) {
+    board.deck = shuffle([...board.deck, ...board.discardPile]);
+    board.discardPile = [];
+    return null;
+  }
+
+  const revealed = board.deck.splice(0, foundIndex);
+  const card = board.deck.shift();
+  board.discardPile.push(...revealed);
+  payOre(state, role, 'ore-search');
+
+  if (column !== null) {
+    flow[column].card = { ...card, owner: role };
+    queueHarmonizations(state, findHarmonizations(state, flow, column));
+  } else {
+    board[handKey(role)].push(card);
+  }
+  return null;
+}
+
+// ---- Harmonization abilities ----
+
+function resolveHarmonization(state, role, target = {}) {
+  const harmony = state.pendingHarmonization;
+  if (!harmony) return 'There is no harmonization to resolve';
+  if (harmony.owner !== role) return 'That harmonization belongs to your opponent';
+
+  const board = state.board;
+  const enemyFlow = board[flowKey(otherRole(role))];
+  let newHarmonizations = [];
+
+  switch (harmony.dragonType) {
+    case 'wood':
+      drawCard(board, role);
+      break;
+    case 'metal':
+      board[oreKey(role)] += 2;
+      break;
+    case 'fire': {
+      const { column } = target;
+      if (!isValidColumn(column) || !enemyFlow[column].card) return 'Choose an enemy dragon to destroy';
+      board.discardPile.push(removeFromFlow(board, enemyFlow, column));
+      break;
+    }
+    case 'earth': {
+      const { column } = target;
+      if (!isValidColumn(column) || enemyFlow[column].card || enemyFlow[column].isBlocked) {
+        return 'Choose an empty enemy space to block';
+      }
+      enemyFlow[column].isBlocked = true;
+      enemyFlow[column].blockedBy = harmony.cardId;
+      break;
+    }
+    case 'water': {
+      const { first, second } = target;
+      const spaces = [first, second].map(space => space && ['player1', 'player2'].includes(space.owner) && isValidColumn(space.column)
+        ? board[flowKey(space.owner)][space.column]
+        : null);
+      if (!spaces[0] || !spaces[1] || !spaces[0].card || !spaces[1].card || spaces[0] === spaces[1]) {
+        return 'Choose two dragons to swap';
+      }
+      [spaces[0].card, spaces[1].card] = [spaces[1].card, spaces[0].card];
+      // A dragon swapped across the Flow now fights for that side
+      spaces[0].card.owner = first.owner;
+      spaces[1].card.owner = second.owner;
+      validateEarthBlocks(board);
+
+      const winner = checkWinCondition(board);
+      if (winner) {
+        endGame(state, winner);
+        return null;
+      }
+
+      newHarmonizations = [first, second].flatMap(space => findHarmonizations(state, board[flowKey(space.owner)], space.column));
+      break;
+    }
+    default:
+      return 'Unknown harmonization';
+  }
+
+  state.harmonizedThisTurn = [...state.harmonizedThisTurn, harmony.cardId];
+  state.pendingHarmonization = null;
+  queueHarmonizations(state, newHarmonizations.filter(h => h.cardId !== harmony.cardId));
+  return null;
+}
+
+function skipHarmonization(state, role) {
+  const harmony = state.pendingHarmonization;
+  if (!harmony) return 'There is no harmonization to resolve';
+  if (harmony.owner !== role) return 'That harmonization belongs to your opponent';
+
+  state.pendingHarmonization = null;
+  advanceHarmonization(state);
+  return null;
+}
+
+const TURN_ACTIONS = {
+  'summon': summon,
+  'attack': attack,
+  'draw': draw,
+  'gain-ore': gainOre,
+  'ore-move': oreMove,
+  'ore-return': oreReturn,
+  'ore-conflict': oreConflict,
+  'ore-reharmonize': oreReharmonize,
+  'ore-search': oreSearch,
+  'end-turn': endTurn
+};
+
+/**
+ * Apply one player intent. Returns { state } with the next state, or { error } if the rules
+ * reject it; the state passed in is never modified.
+ */
+function applyAction(currentState, role, action) {
+  if (!action || typeof action.type !== 'string') {
+    return { error: 'Invalid action' };
+  }
+  if (currentState.phase === 'game-over') {
+    return { error: 'The game is over' };
+  }
+
+  const state = JSON.parse(JSON.stringify(currentState));
+  let error;
+
+  if (action.type === 'choose-starter') {
+    error = chooseStarter(state, role, action);
+  } else if (state.phase !== 'playing') {
+    error = 'The game has not started yet';
+  } else if (action.type === 'reorder-hand') {
+    error = reorderHand(state, role, action);
+  } else if (action.type === 'use-harmony') {
+    error = resolveHarmonization(state, role, action.target);
+  } else if (action.type === 'skip-harmony') {
+    error = skipHarmonization(state, role);
+  } else if (TURN_ACTIONS[action.type]) {
+    error = state.currentTurn !== role
+      ? 'It is not your turn'
+      : TURN_ACTIONS[action.type](state, role, action);
+  } else {
+    error = `Unknown action: ${action.type}`;
+  }
+
+  return error ? { error } : { state };
+}
+
+/**
+ * The state as one player may see it: the deck order and the opponent's hand are hidden,
+ * leaving only their sizes.
+ */
+function getPlayerView(state, role) {
+  const { harmonizationQueue, ...visible } = state;
+  const opponentHand = handKey(otherRole(role));
+  return {
+    ...visible,
+    board: {
+      ...visible.board,
+      [opponentHand]: [],
+      deck: [],
+      deckCount: state.board.deck.length,
+      opponentHandCount: state.board[opponentHand].length
+    }
+  };
+}
+
+module.exports = {
+  DRAGON_TYPES,
+  HARMONIZATION_RULES,
+  COMBAT_RULES,
+  DRAGON_ABILITIES,
+  ORE_COSTS,
+  createGame,
+  applyAction,
+  checkWinCondition,
+  getPlayerView
+};
@@ -0,0 +1,1551 @@
+// Effect registry - maps every effect `type` used in heros.json to a single handler
+//
+// Handlers come in three phases:
+// - 'ability': resolved while an ability is being cast. `apply(ctx, effect, target)` runs once per
+//   effect after the attack roll; `resolveAbility(ctx, effect)` (optional) takes over the whole cast.
+// - 'special': resolved when a hero's Special fires or is consulted. GameManager's trigger points
+//   (taking damage, a death, the end of a turn, ...) call fireSpecial, which runs each effect's
+//   `trigger(ctx, effect, special)`; standing rules come from `modifiers(effect)` (see
+//   getSpecialModifiers) and `rollModifier(effect, isAbility)` (advantage / disadvantage). Conditional
+//   specials use `activate(hero, effect, special)` once their condition holds, and scaling ones use
+//   `scale(hero, effect, stacks)`.
+// - 'cost': what a special consumes when it fires (sacrificing summons, skipping attacks).
+//   `canPay(ctx, cost)` is checked before the effect resolves and `pay(ctx, cost)` runs after it.
+//
+// A type that shows up both in abilities and in specials (stat_modifier, grant_advantage) carries
+// the hooks of both phases.
+//
+// A new hero only needs an engine change when it introduces a brand new effect type.
+
+const {
+  calculateDamage,
+  rollDiceString,
+  parseDiceString,
+  applyStatusEffect,
+  calculateEffectiveDefense
+} = require('./utils');
+
+// Debug mode - set to false in production for better performance
+const DEBUG = process.env.DEBUG_GAME === 'true' || false;
+const debugLog = DEBUG ? console.log.bind(console) : () => {};
+
+const effectHandlers = new Map();
+
+function registerEffect(type, handler) {
+  if (effectHandlers.has(type)) {
+    throw new Error(`Effect type '${type}' is already registered`);
+  }
+  effectHandlers.set(type, { phase: 'ability', ...handler });
+}
+
+function getEffectHandler(type) {
+  return effectHandlers.get(type) || null;
+}
+
+function isKnownEffectType(type) {
+  return effectHandlers.has(type);
+}
+
+function getRegisteredEffectTypes() {
+  return Array.from(effectHandlers.keys());
+}
+
+// ---------------------------------------------------------------------------
+// Summon helpers
+// ---------------------------------------------------------------------------
+
+// Status key that tracks a summoned unit, e.g. 'Med Bot' -> 'med_bot_count'
+function summonCounterKey(effect) {
+  if (effect.flag) return effect.flag;
+  if (effect.counter) return effect.counter;
+  return `${String(effect.unit || 'summon').toLowerCase().replace(/\s+/g, '_')}_count`;
+}
+
+// All summon effects a hero can produce through its abilities (including conditional ones)
+function getSummonEffects(hero) {
+  const summons = [];
+  for (const ability of hero.Ability || []) {
+    const effects = [...(ability.primary_effects || []), ...(ability.secondary_effects || [])];
+    for (const effect of effects) {
+      if (effect.type === 'summon') {
+        summons.push(effect);
+      } else if (effect.type === 'conditional_action' && effect.action?.type === 'summon') {
+        summons.push(effect.action);
+      }
+    }
+  }
+  return summons;
+}
+
+function getSummonCount(hero, unit) {
+  const summon = getSummonEffects(hero).find(effect => effect.unit === unit);
+  if (!summon) return 0;
+  const value = hero.statusEffects?.[summonCounterKey(summon)];
+  if (summon.flag) return value ? 1 : 0;
+  return value || 0;
+}
+
+function summonLabel(effect) {
+  return effect.label || `${effect.unit}s`;
+}
+
+// Keep the summon count visible on the hero card right after it changes
+function upsertSummonBuff(hero, effect) {
+  if (!hero.passiveBuffs) hero.passiveBuffs = [];
+  const key = summonCounterKey(effect);
+  const count = getSummonCount(hero, effect.unit);
+  const label = effect.flag ? `${effect.unit} Active` : summonLabel(effect);
+  const existing = hero.passiveBuffs.find(buff => buff.summonKey === key);
+
+  if (count <= 0) {
+    if (existing) hero.passiveBuffs.splice(hero.passiveBuffs.indexOf(existing), 1);
+    return;
+  }
+
+  const buff = effect.flag
+    ? {
+        name: label,
+        sourceName: hero.name,
+        description: `${effect.unit} is summoned and ready to command`,
+        type: 'status',
+        summonKey: key
+      }
+    : {
+        name: `${label} (${count})`,
+        sourceName: hero.name,
+        description: `${count}${effect.max ? `/${effect.max}` : ''} ${count === 1 ? effect.unit : label} active`,
+        type: 'status',
+        value: count,
+        summonKey: key
+      };
+
+  if (existing) {
+    Object.assign(existing, buff);
+  } else {
+    hero.passiveBuffs.push(buff);
+  }
+}
+
+// Resolve values like '1D4_per_totem' against the hero's current summon count.
+// Returns null when nothing is summoned.
+function resolveScaledValue(hero, effect) {
+  if (!effect.scaling) return effect.value;
+
+  const count = effect.scaling === 'summon_count'
+    ? getSummonCount(hero, effect.unit)
+    : (hero.statusEffects?.[effect.scaling] || 0);
+  if (count <= 0) return null;
+
+  const parsed = parseDiceString(String(effect.value).split('_per_')[0]);
+  if (!parsed || parsed.count === 0) return null;
+  return `${parsed.count * count}D${parsed.sides}${parsed.modifier ? `+${parsed.modifier * count}` : ''}`;
+}
+
+// Conditions shared by conditional_action / conditional_damage / conditional_heal
+function evaluateEffectCondition(condition, ctx, target = null) {
+  const { caster, casterPlayer, attackRoll } = ctx;
+
+  if (condition.endsWith('_inactive')) {
+    return !caster.statusEffects?.[condition.replace(/_inactive$/, '_active')];
+  }
+  if (condition.endsWith('_active')) {
+    return !!caster.statusEffects?.[condition];
+  }
+
+  switch (condition) {
+    case 'no_allies_alive':
+      return !casterPlayer.team.some(hero => hero !== caster && hero.currentHP > 0);
+    case 'owner_at_full_hp':
+      return caster.currentHP >= caster.HP;
+    case 'target_ac_gt_8':
+      return !!target && calculateEffectiveDefense(target) > 8;
+    case 'target_ac_gte_9':
+      return !!target && calculateEffectiveDefense(target) >= 9;
+    case 'attack_roll_gt_14':
+      return !!attackRoll && attackRoll.roll > 14;
+    case 'target_defense_higher':
+      return !!target && calculateEffectiveDefense(target) > calculateEffectiveDefense(caster);
+  }
+
+  // Thresholds: self_hp_lt_10, target_defense_gt_8, target_defense_gte_9, ...
+  const selfHP = condition.match(/^self_hp_lt_(\d+)$/);
+  if (selfHP) {
+    return caster.currentHP > 0 && caster.currentHP < Number(selfHP[1]);
+  }
+  const targetDefense = condition.match(/^target_defense_(gt|gte)_(\d+)$/);
+  if (targetDefense) {
+    if (!target) return false;
+    const defense = calculateEffectiveDefense(target);
+    return targetDefense[1] === 'gt' ? defense > Number(targetDefense[2]) : defense >= Number(targetDefense[2]);
+  }
+
+  debugLog(` Unsupported effect condition '${condition}' - treating as not met`);
+  return false;
+}
+
+// Remove a vulnerability debuff (Cavalier's Ride Down) once a hero is back to full HP
+function clearRideDownIfFull(hero) {
+  if (hero.currentHP === hero.HP && hero.statusEffects && hero.statusEffects.rideDownDebuff) {
+    debugLog(` ${hero.name} healed to full HP - ${hero.statusEffects.rideDownDebuff.source}'s debuff removed`);
+    delete hero.statusEffects.rideDownDebuff;
+  }
+}
+
+// Take debuffs off a hero (Healer's Cleanse): scope 'all' or the one to remove. Returns what went
+function clearDebuffs(hero, scope = 'all') {
+  const effects = hero.statusEffects || {};
+  const removed = [];
+  const clear = (name, active, reset) => {
+    if (!active || (scope !== 'all' && scope !== name)) return;
+    reset();
+    removed.push(name);
+  };
+
+  clear('poison', effects.poison > 0, () => { effects.poison = 0; });
+  clear('taunt', !!effects.taunt, () => { effects.taunt = null; });
+  clear('silence', !!effects.silenced, () => { effects.silenced = false; });
+  clear('stun', !!effects.stun, () => { effects.stun = null; });
+  clear('disable_attack', !!effects.disableAttack, () => { effects.disableAttack = false; });
+  clear('grant_advantage', !!effects.grantAdvantage, () => { delete effects.grantAdvantage; });
+  clear('vulnerability', !!effects.rideDownDebuff, () => { delete effects.rideDownDebuff; });
+  clear('cannot_target_owner_with_ability', !!effects.cannotTargetWithAbility, () => { delete effects.cannotTargetWithAbility; });
+  const lowered = Object.keys(effects.statModifiers || {}).filter(stat => effects.statModifiers[stat] < 0);
+  clear('stat_modifier', lowered.length > 0, () => lowered.forEach(stat => { delete effects.statModifiers[stat]; }));
+  return removed;
+}
+
+// Save extra dice for a hero's next basic attack ('+3D6'); stacking bonuses add up, others replace
+function addNextAttackBonus(hero, value, stacking = false) {
+  if (!hero.statusEffects) hero.statusEffects = {};
+  const dice = String(value).replace(/^\+/, '');
+  const saved = stacking ? hero.statusEffects.nextAttackBonus || [] : [];
+  hero.statusEffects.nextAttackBonus = [...saved, dice];
+}
+
+// Did the ability's damage kill the originally selected target?
+function originalTargetDied(ctx) {
+  const { results, originalTarget } = ctx;
+  const damageResult = results.find(r =>
+    r.type === 'damage' &&
+    r.target === originalTarget?.name &&
+    r.hit === true &&
+    r.damage > 0
+  );
+  const targetDied = !!damageResult && !!originalTarget && originalTarget.currentHP <= 0;
+  debugLog(` Kill condition check: damageResult=${damageResult ? `${damageResult.damage} damage to ${damageResult.target}` : 'none'}, originalTarget HP=${originalTarget?.currentHP}, targetDied=${targetDied}`);
+  return targetDied;
+}
+
+// ---------------------------------------------------------------------------
+// Special helpers
+// ---------------------------------------------------------------------------
+
+// A hero's specials - none while they are switched off
+function getSpecials(hero) {
+  if (!hero || !hero.Special || hero.specialDisabled) return [];
+  return [].concat(hero.Special).filter(Boolean);
+}
+
+function hasSpecialEffect(hero, type) {
+  return getSpecials(hero).some(special => special.effects?.some(effect => effect.type === type));
+}
+
+// Standing rules from a hero's specials, e.g. { attacksPerTurn: 2, ignore_taunt: true }.
+// Conditional specials only count while their condition holds (see GameManager.checkHPConditions).
+function getSpecialModifiers(hero) {
+  const modifiers = {};
+  for (const special of getSpecials(hero)) {
+    if (special.condition && !hero.conditionalEffects?.[special.name]) continue;
+    for (const effect of special.effects || []) {
+      const handler = getEffectHandler(effect.type);
+      if (handler?.modifiers) Object.assign(modifiers, handler.modifiers(effect));
+    }
+  }
+  return modifiers;
+}
+
+// Does an advantage / disadvantage effect cover this roll?
+function rollScopeMatches(scope, isAbility) {
+  if (scope === 'attacks_only' || scope === 'next_attack') return !isAbility;
+  if (scope === 'abilities_only' || scope === 'next_ability') return isAbility;
+  return true;
+}
+
+// The ctx field that holds each hero a special can name as its target
+const SPECIAL_TARGET_FIELDS = {
+  attacker: 'attacker',
+  killer: 'killer',
+  dying_ally: 'dying',
+  fallen_hero: 'fallen',
+  triggering_ally: 'ally',
+  chosen_ally: 'chosen',
+  chosen_enemy: 'chosen',
+  hit_enemies: 'target',
+  same_as_ally_target: 'target'
+};
+
+// Heroes a special's effect lands on
+function getSpecialTargets(ctx, targetType) {
+  const { game, owner } = ctx;
+
+  switch (targetType) {
+    case undefined:
+    case 'self':
+      return [owner];
+    case 'all_heroes':
+      return game.players.flatMap(player => player.team).filter(hero => hero.currentHP > 0);
+    case 'lowest_health_ally': {
+      const ownerPlayer = game.players.find(player => player.team.includes(owner));
+      const lowest = (ownerPlayer?.team || [])
+        .filter(hero => hero.currentHP > 0)
+        .reduce((lowestHero, hero) =>
+          !lowestHero || hero.currentHP / hero.HP < lowestHero.currentHP / lowestHero.HP ? hero : lowestHero, null);
+      return lowest ? [lowest] : [];
+    }
+    default: {
+      const hero = ctx[SPECIAL_TARGET_FIELDS[targetType]];
+      return hero ? [hero] : [];
+    }
+  }
+}
+
+// Resolve a special that just fired: every effect's trigger, paying its cost if it has one.
+// Returns the log effects; handlers report anything else (damage negated, a revive) on ctx.
+function fireSpecial(ctx, special) {
+  const effects = [];
+  for (const effect of special.effects || []) {
+    const handler = getEffectHandler(effect.type);
+    if (!handler?.trigger) {
+      debugLog(` ${ctx.owner.name}'s ${special.name}: nothing to resolve for '${effect.type}' here`);
+      continue;
+    }
+
+    const cost = effect.cost && getEffectHandler(effect.cost.type);
+    if (cost && !cost.canPay(ctx, effect.cost)) {
+      debugLog(` ${ctx.owner.name} can't pay for ${special.name} (${effect.cost.type})`);
+      continue;
+    }
+
+    effects.push(...(handler.trigger(ctx, effect, special) || []));
+    if (cost) effects.push(...(cost.pay(ctx, effect.cost) || []));
+  }
+  return effects;
+}
+
+// Shared hit pipeline for damage dealt by an ability
+function dealAbilityDamage(ctx, target, damage) {
+  const { gm, game, caster, results } = ctx;
+
+  // Process damage reduction specials (like Wizard's Arcane Shield)
+  const damageReductionResult = gm.processDamageReductionSpecials(game, target, caster, damage);
+  damage = damageReductionResult.finalDamage;
+  results.push(...damageReductionResult.specialEffects);
+
+  target.currentHP = Math.max(0, target.currentHP - damage);
+
+  // Reflect damage to heroes health-linked to the target (Angel's Health Link)
+  if (damage > 0) {
+    gm.processHealthLinkReflection(game, target, damage);
+  }
+
+  // Trigger after-damage effects (like Ninja's Vanish)
+  results.push(...gm.processAfterDamageEffects(game, target, caster, damage));
+
+  // Trigger on_take_damage effects (like Shroomguard's Poison Aura)
+  results.push(...gm.processOnTakeDamageEffects(game, target, caster, damage));
+
+  return damage;
+}
+
+// ---------------------------------------------------------------------------
+// Ability-phase handlers
+// ---------------------------------------------------------------------------
+
+registerEffect('damage', {
+  apply(ctx, effect, target) {
+    const { gm, game, caster, ability, attackRoll, abilityHit, results } = ctx;
+
+    if (!(abilityHit && target && target.currentHP > 0)) {
+      results.push({
+        type: 'damage',
+        target: target.name,
+        damage: 0,
+        hit: false,
+        attackRoll: attackRoll?.roll ?? null,
+        attackTotal: attackRoll ? (attackRoll.displayTotal || attackRoll.total) : null,
+        advantageInfo: attackRoll?.advantageInfo || null,
+        isTimekeeperCommand: attackRoll?.isTimekeeperCommand || false,
+        commandingHero: attackRoll?.commandingHero || null,
+        targetHP: target.currentHP,
+        damageRoll: [], // Add empty array for consistency
+        damageTotal: 0
+      });
+      return;
+    }
+
+    // Scaled damage (like Shaman's 1D4 per totem) does nothing without summons
+    const damageValue = resolveScaledValue(caster, effect);
+    if (!damageValue) return;
+
+    const isCritical = attackRoll?.isCritical || false;
+    const damageRoll = calculateDamage(damageValue, isCritical, false, caster);
+    let damage = damageRoll.total;
+
+    // Check for conditional additional damage (like Piercer's +1D6 vs AC > 8)
+    if (effect.conditional_damage && evaluateEffectCondition(effect.condition, ctx, target)) {
+      const bonusDamageRoll = calculateDamage(effect.conditional_damage, isCritical, false, caster);
+      damage += bonusDamageRoll.total;
+      debugLog(` Conditional damage bonus: +${bonusDamageRoll.total} (${effect.condition})${isCritical ? ' [CRIT]' : ''}`);
+    }
+
+    // Check for crit bonus damage (like Ace's Stacked Deck +1D6 on crit)
+    if (isCritical && ability.crit_bonus) {
+      const critBonusDamageRoll = calculateDamage(ability.crit_bonus.value, true, false, caster);
+      damage += critBonusDamageRoll.total;
+      debugLog(` Crit bonus damage: +${critBonusDamageRoll.total} [CRIT]`);
+    }
+
+    const oldHP = target.currentHP;
+    damage = dealAbilityDamage(ctx, target, damage);
+
+    // Specials that follow up on a hit (Cavalier's Ride Down)
+    if (damage > 0) {
+      gm.processDamageDealtSpecials(game, caster, target);
+    }
+
+    // Check HP-based conditions after taking damage
+    gm.checkHPConditions(game, target);
+
+    debugLog(` Damage to ${target.name}: ${damage} HP (${oldHP} → ${target.currentHP})`);
+
+    // Let heroes next to the target react (Paladin's Shield of Faith)
+    gm.processAdjacentAllyDamagedSpecials(game, caster, target, damage);
+
+    // Process hit-confirmed triggers (like Elementalist's Wind Wall)
+    gm.processHitConfirmedTriggers(game, caster, target, 'ability');
+
+    if (target.currentHP <= 0 && !target.statusEffects?.justResurrected) {
+      gm.updatePassiveEffectsOnDeath(game, target, caster, 'damage');
+    }
+
+    results.push({
+      type: 'damage',
+      target: target.name,
+      damage,
+      hit: true,
+      isCritical,
+      damageRoll: damageRoll.rolls,
+      damageTotal: damage,
+      attackRoll: attackRoll?.roll || null,
+      attackTotal: attackRoll?.displayTotal || attackRoll?.total || null,
+      advantageInfo: attackRoll?.advantageInfo || null,
+      isTimekeeperCommand: attackRoll?.isTimekeeperCommand || false,
+      commandingHero: attackRoll?.commandingHero || null,
+      targetHP: target.currentHP,
+      scaledValue: effect.scaling ? damageValue : undefined
+    });
+  },
+
+  // Special form: Monk's Deflect hits back at the attacker, Bomber's Explosion at its killer
+  trigger(ctx, effect, special) {
+    const { gm, game, owner } = ctx;
+    const results = [];
+    for (const target of getSpecialTargets(ctx, effect.target)) {
+      if (target.currentHP <= 0) continue;
+      const damageRoll = calculateDamage(effect.value, false, false, owner);
+      debugLog(` ${owner.name}'s ${special.name} deals ${damageRoll.total} damage to ${target.name}`);
+      const triggered = gm.applyDamageToHero(game, target, damageRoll.total, owner, special.name);
+      results.push({
+        type: 'damage',
+        target: target.name,
+        damage: damageRoll.total,
+        damageRoll,
+        newHP: target.currentHP,
+        maxHP: target.HP
+      }, ...triggered);
+
+      if (target.currentHP <= 0 && !target.statusEffects?.justResurrected) {
+        gm.updatePassiveEffectsOnDeath(game, target, owner, ctx.deathCause || 'counter_attack');
+      }
+    }
+    return results;
+  }
+});
+
+registerEffect('conditional_damage', {
+  apply(ctx, effect, target) {
+    if (!ctx.abilityHit || !target || target.currentHP <= 0) return;
+    if (!evaluateEffectCondition(effect.condition, ctx, target)) {
+      debugLog(` ${ctx.caster.name}'s bonus damage condition '${effect.condition}' not met`);
+      return;
+    }
+    getEffectHandler('damage').apply(ctx, { ...effect, type: 'damage' }, target);
+  }
+});
+
+registerEffect('lifesteal_damage', {
+  apply(ctx, effect, target) {
+    const { gm, game, caster, attackRoll, abilityHit, results } = ctx;
+
+    if (!(abilityHit && target && target.currentHP > 0)) {
+      results.push({
+        type: 'lifesteal_damage',
+        target: target.name,
+        damage: 0,
+        healing: 0,
+        hit: false,
+        attackRoll: attackRoll.roll,
+        attackTotal: attackRoll.displayTotal || attackRoll.total,
+        advantageInfo: attackRoll.advantageInfo,
+        targetHP: target.currentHP,
+        casterHP: caster.currentHP,
+        damageRoll: [], // Add empty array for consistency
+        damageTotal: 0
+      });
+      return;
+    }
+
+    const damageRoll = calculateDamage(effect.value, attackRoll.isCritical, false, caster);
+    const damage = dealAbilityDamage(ctx, target, damageRoll.total);
+
+    // Process hit-confirmed triggers (like Elementalist's Wind Wall)
+    gm.processHitConfirmedTriggers(game, caster, target, 'ability');
+
+    // Check HP-based conditions after taking damage
+    gm.checkHPConditions(game, target);
+
+    if (target.currentHP <= 0 && !target.statusEffects?.justResurrected) {
+      gm.updatePassiveEffectsOnDeath(game, target, caster, 'damage');
+    }
+
+    const healing = damage; // Heal for full damage amount, not half
+    caster.currentHP = Math.min(caster.HP, caster.currentHP + healing);
+    clearRideDownIfFull(caster);
+
+    // Check HP-based conditions after lifesteal healing
+    gm.checkHPConditions(game, caster);
+
+    results.push({
+      type: 'lifesteal_damage',
+      target: target.name,
+      damage,
+      healing,
+      hit: true,
+      isCritical: attackRoll.isCritical,
+      damageRoll: damageRoll.rolls,
+      damageTotal: damage,
+      attackRoll: attackRoll.roll,
+      attackTotal: attackRoll.displayTotal || attackRoll.total,
+      advantageInfo: attackRoll.advantageInfo,
+      targetHP: target.currentHP,
+      casterHP: caster.currentHP
+    });
+  }
+});
+
+registerEffect('heal', {
+  apply(ctx, effect, target) {
+    const { gm, game, caster, abilityHit, needsAttackRoll, results } = ctx;
+
+    // For abilities with attack rolls, healing only happens if the ability hit
+    // For pure healing abilities (self-healing, etc.), they always work
+    if ((abilityHit || !needsAttackRoll) && target && target.currentHP > 0) {
+      const healValue = resolveScaledValue(caster, effect);
+      if (!healValue) return;
+
+      const healRoll = rollDiceString(healValue);
+      const healing = healRoll.total;
+      const oldHP = target.currentHP;
+      target.currentHP = Math.min(target.HP, target.currentHP + healing);
+      clearRideDownIfFull(target);
+
+      // Check HP-based conditions after healing
+      gm.checkHPConditions(game, target);
+
+      console.log(`💚 Healing ${target.name}: ${healing} HP (${oldHP} → ${target.currentHP}) - ability ${abilityHit ? 'hit' : 'auto-success'}`);
+
+      results.push({
+        type: 'heal',
+        target: target.name,
+        healing,
+        oldHP,
+        newHP: target.currentHP,
+        hit: abilityHit || !needsAttackRoll,
+        healRoll: healRoll.rolls
+      });
+    } else if (needsAttackRoll && !abilityHit && target) {
+      // Healing missed because the ability missed
+      console.log(`❌ Healing missed on ${target.name} (ability missed)`);
+      results.push({
+        type: 'heal_missed',
+        target: target.name,
+        healing: 0,
+        hit: false
+      });
+    }
+  },
+
+  // Special form: Druid's Healing Word tops up the most hurt ally. A scaling heal counts what an
+  // earlier effect of the special collected (Serpent's Absorb Venom)
+  trigger(ctx, effect, special) {
+    const { owner } = ctx;
+    const results = [];
+    for (const target of getSpecialTargets(ctx, effect.target)) {
+      if (target.currentHP >= target.HP) {
+        debugLog(` ${target.name} is already at full health, no healing needed`);
+        continue;
+      }
+      const healing = effect.scaling
+        ? (ctx[effect.scaling] || 0) * (effect.value_per_stack || 1)
+        : rollDiceString(effect.value).total;
+      if (healing <= 0) continue;
+      target.currentHP = Math.min(target.HP, target.currentHP + healing);
+      debugLog(` ${owner.name}'s ${special.name} heals ${target.name} for ${healing} HP`);
+      results.push({
+        type: 'heal',
+        target: target.name,
+        healing,
+        newHP: target.currentHP,
+        maxHP: target.HP,
+        message: `${owner.name} used ${special.name} and healed ${target.name} for ${healing}`
+      });
+    }
+    return results;
+  }
+});
+
+registerEffect('heal_to_full', {
+  apply(ctx, effect, target) {
+    const { gm, game, abilityHit, needsAttackRoll, results } = ctx;
+
+    // Special healing that restores target to full HP (like Reaper's Soul Harvest)
+    if (!((abilityHit || !needsAttackRoll) && target && target.currentHP > 0)) return;
+
+    const shouldHeal = effect.condition === 'target_dies_from_damage' ? originalTargetDied(ctx) : true;
+    if (!shouldHeal) {
+      if (effect.condition) {
+        console.log(`❌ ${target.name} heal to full - condition '${effect.condition}' not met`);
+      }
+      return;
+    }
+
+    const oldHP = target.currentHP;
+    const healing = target.HP - target.currentHP; // Calculate how much healing is needed
+    target.currentHP = target.HP; // Heal to full HP
+    clearRideDownIfFull(target);
+
+    // Check HP-based conditions after healing
+    gm.checkHPConditions(game, target);
+
+    console.log(`💚 Heal to Full ${target.name}: ${healing} HP (${oldHP} → ${target.currentHP}) - ${effect.condition ? 'condition met' : 'ability hit'}`);
+
+    results.push({
+      type: 'heal_to_full',
+      target: target.name,
+      healing,
+      oldHP,
+      newHP: target.currentHP,
+      hit: abilityHit || !needsAttackRoll,
+      condition: effect.condition,
+      conditionMet: shouldHeal
+    });
+  }
+});
+
+registerEffect('conditional_heal', {
+  apply(ctx, effect, target) {
+    const { abilityHit, needsAttackRoll, results } = ctx;
+
+    // Conditional healing that checks a condition before determining heal amount
+    // For abilities with attack rolls, healing only happens if the ability hit
+    if (abilityHit || !needsAttackRoll) {
+      if (!target || target.currentHP <= 0) return;
+
+      const conditionMet = effect.condition === 'target_dies_from_damage'
+        ? originalTargetDied(ctx)
+        : evaluateEffectCondition(effect.condition, { ...ctx, caster: target }, target);
+      const healValue = conditionMet ? (effect.value_true || '1D8') : (effect.value_false || '1D4');
+
+      const healRoll = rollDiceString(healValue);
+      const healing = healRoll.total;
+      const oldHP = target.currentHP;
+      target.currentHP = Math.min(target.HP, target.currentHP + healing);
+      clearRideDownIfFull(target);
+
+      console.log(`💚 Conditional Healing ${target.name}: ${healing} HP (${oldHP} → ${target.currentHP}) - ability ${abilityHit ? 'hit' : 'auto-success'}`);
+
+      results.push({
+        type: 'heal',
+        target: target.name,
+        healing,
+        oldHP,
+        newHP: target.currentHP,
+        hit: abilityHit || !needsAttackRoll,
+        healRoll: healRoll.rolls,
+        condition: effect.condition,
+        conditionMet
+      });
+    } else if (needsAttackRoll && !abilityHit && target) {
+      // Conditional healing missed because the ability missed
+      console.log(`❌ Conditional healing missed on ${target.name} (ability missed)`);
+      results.push({
+        type: 'heal_missed',
+        target: target.name,
+        healing: 0,
+        hit: false,
+        condition: effect.condition
+      });
+    }
+  }
+});
+
+registerEffect('apply_debuff', {
+  apply(ctx, effect, target) {
+    const { caster, ability, abilityHit, results } = ctx;
+    if (!target || !effect.effect) return;
+
+    if (!abilityHit) {
+      console.log(`❌ NOT applying debuff ${effect.effect} to ${target.name} (ability missed)`);
+      results.push({
+        type: 'status_missed',
+        target: target.name,
+        effect: effect.effect,
+        hit: false
+      });
+      return;
+    }
+
+    console.log(`✅ Applying debuff ${effect.effect} to ${target.name} (ability hit)`);
+
+    let effectValue = effect.stacks || effect.value || 1;
+
+    if (effect.effect === 'grant_advantage') {
+      // Mark target for next attack
+      target.statusEffects.grantAdvantage = {
+        duration: effect.duration || 1,
+        duration_unit: effect.duration_unit || 'attack',
+        source: caster.name
+      };
+      debugLog(` ${target.name} marked for advantage on next attack (from ${caster.name})`);
+    } else if (effect.effect === 'taunt' && effect.taunt_target === 'self') {
+      // Taunt needs the caster's name
+      effectValue = caster.name;
+      applyStatusEffect(target, effect.effect, effectValue, effect.duration, null, caster.name);
+    } else if (effect.effect === 'stat_modifier' && effect.stat) {
+      applyStatusEffect(target, effect.effect, effectValue, effect.duration, effect.stat, caster.name, effect.duration_unit, ability.name);
+    } else if (effect.effect === 'poison' && effect.value === 'match_damage') {
+      // Poison stacks match the damage that was just dealt in the same ability
+      const damageResult = results.find(r => r.type === 'damage' && r.target === target.name && r.hit);
+      const damageDealt = damageResult ? damageResult.damage : 0;
+      debugLog(` Applying ${damageDealt} poison stacks to ${target.name} (matching damage dealt)`);
+      applyStatusEffect(target, effect.effect, damageDealt, effect.duration);
+    } else if (effect.effect === 'cannot_target_owner_with_ability') {
+      // Hoarder's custom silence - prevent abilities against owner
+      target.statusEffects.cannotTargetWithAbility = {
+        owner: effect.owner || caster.name,
+        duration: effect.duration || 1,
+        duration_unit: effect.duration_unit || 'caster_turn',
+        source: caster.name
+      };
+      debugLog(` ${target.name} cannot use abilities against ${effect.owner || caster.name} (Bribed until start of their next turn)`);
+    } else if (effect.effect === 'health_link') {
+      // Angel's Health Link
+      target.statusEffects.health_link = {
+        source: caster.name,
+        duration: effect.duration || 999
+      };
+      debugLog(` ${target.name} is linked to ${caster.name} via Health Link`);
+    } else {
+      applyStatusEffect(target, effect.effect, effectValue, effect.duration);
+    }
+
+    results.push({
+      type: 'status_applied',
+      target: target.name,
+      effect: effect.effect,
+      value: effectValue,
+      duration: effect.duration,
+      stat: effect.stat || null,
+      hit: true
+    });
+  },
+
+  // Special form. Taunts wait for the attacker's turn to end (Paladin's Shield of Faith); anything
+  // else lands right away (Shroomguard's Poison Aura)
+  trigger(ctx, effect, special) {
+    const { game, owner } = ctx;
+
+    if (effect.effect === 'taunt') {
+      const { attacker, attackerPlayerIndex } = ctx;
+      if (!attacker) return [];
+      game.pendingTaunts = (game.pendingTaunts || []).filter(taunt => taunt.target !== attacker.name);
+      game.pendingTaunts.push({
+        target: attacker.name,
+        targetPlayerIndex: attackerPlayerIndex,
+        tauntTarget: owner.name,
+        duration: effect.duration || 1,
+        appliedBy: owner.name,
+        source: special.name
+      });
+      debugLog(` ${owner.name}'s ${special.name} will taunt ${attacker.name} at the end of the turn`);
+      return [];
+    }
+
+    const value = effect.value || 1;
+    const targets = getSpecialTargets(ctx, effect.target);
+    const affected = [];
+    for (const target of targets) {
+      if (!target.statusEffects) target.statusEffects = {};
+      if (target.Immunities && target.Immunities.includes(effect.effect)) {
+        debugLog(` ${target.name} is immune to ${effect.effect} - skipping`);
+        continue;
+      }
+      if (effect.effect === 'poison') {
+        target.statusEffects.poison = (target.statusEffects.poison || 0) + value;
+      } else {
+        applyStatusEffect(target, effect.effect, value, effect.duration);
+      }
+      affected.push(target.name);
+    }
+    debugLog(` ${owner.name}'s ${special.name} applies ${value} ${effect.effect} to ${affected.join(', ')}`);
+
+    const label = effect.effect === 'poison' ? `${value} Poison Stack${value === 1 ? '' : 's'}` : effect.effect;
+    if (effect.target === 'all_heroes') {
+      return [{ type: 'apply_debuff', target: 'all_heroes', targets: affected, effect: effect.effect, value, message: `gave EVERYONE ${label}` }];
+    }
+    return affected.map(name => ({ type: 'apply_debuff', target: name, effect: effect.effect, value, message: `gave ${name} ${label}` }));
+  }
+});
+
+registerEffect('apply_buff', {
+  apply(ctx, effect, target) {
+    const { abilityHit, results } = ctx;
+    if (!target || !effect.effect) return;
+    if (effect.effect === 'grant_advantage') {
+      // Bard's Song of Valor
+      getEffectHandler('grant_advantage').apply(ctx, effect, target);
+      return;
+    }
+
+    if (abilityHit) {
+      console.log(`✅ Applying buff ${effect.effect} to ${target.name} (ability hit)`);
+      applyStatusEffect(target, effect.effect, effect.value || 1);
+      results.push({
+        type: 'status_applied',
+        target: target.name,
+        effect: effect.effect,
+        value: effect.value || 1,
+        hit: true
+      });
+    } else {
+      console.log(`❌ NOT applying buff ${effect.effect} to ${target.name} (ability missed)`);
+      results.push({
+        type: 'status_missed',
+        target: target.name,
+        effect: effect.effect
+      });
+    }
+  }
+});
+
+registerEffect('stat_modifier', {
+  // Ability form (Pixie's Wish, Blacksmith's Reinforce); the aura form is read by applyPassiveEffects
+  phase: 'ability',
+  apply(ctx, effect, target) {
+    getEffectHandler('apply_debuff').apply(ctx, { ...effect, type: 'apply_debuff', effect: 'stat_modifier' }, target);
+  },
+
+  // Conditional special: the buff holds while the condition does
+  activate(hero, effect, special) {
+    if (!effect.stat) return;
+    if (!hero.conditionalBuffs) hero.conditionalBuffs = {};
+    if (!hero.conditionalBuffs[special.name]) hero.conditionalBuffs[special.name] = [];
+    hero.conditionalBuffs[special.name].push({ stat: effect.stat, value: effect.value, source: special.name });
+  },
+
+  // Scaling special (Champion's Last Stand)
+  scale(hero, effect, stacks) {
+    if (effect.stat === 'Defense') hero.scalingBuffs.defense = effect.value_per_stack * stacks;
+  }
+});
+
+registerEffect('remove_debuff', {
+  apply(ctx, effect, target) {
+    const { abilityHit, results } = ctx;
+
+    if (!target) {
+      debugLog(` No valid target found for debuff removal`);
+      return;
+    }
+    if (!abilityHit || !effect.effect) return;
+
+    // Remove debuffs from target (like Shroomguard's poison cleanse)
+    const effectToRemove = effect.effect;
+    const removeCount = effect.count; // 'all' or a number
+
+    if (!target.statusEffects || target.statusEffects[effectToRemove] === undefined) {
+      debugLog(` ${target.name} has no ${effectToRemove} to remove`);
+      return;
+    }
+
+    const oldValue = target.statusEffects[effectToRemove];
+    if (removeCount === 'all') {
+      target.statusEffects[effectToRemove] = 0;
+      debugLog(` Removed all ${effectToRemove} stacks from ${target.name} (was ${oldValue})`);
+    } else {
+      const removeAmount = parseInt(removeCount) || 0;
+      target.statusEffects[effectToRemove] = Math.max(0, target.statusEffects[effectToRemove] - removeAmount);
+      debugLog(` Removed ${removeAmount} ${effectToRemove} stacks from ${target.name} (${oldValue} → ${target.statusEffects[effectToRemove]})`);
+    }
+
+    results.push({
+      type: 'debuff_removed',
+      target: target.name,
+      effect: effectToRemove,
+      oldValue: oldValue,
+      newValue: target.statusEffects[effectToRemove],
+      hit: true
+    });
+  },
+
+  // Special form (Serpent's Absorb Venom): strips the stacks from every target and, with `collect`,
+  // leaves how many were removed on ctx for the effects after it
+  trigger(ctx, effect, special) {
+    let removed = 0;
+    for (const target of getSpecialTargets(ctx, effect.target)) {
+      const stacks = target.statusEffects?.[effect.effect] || 0;
+      if (stacks <= 0) continue;
+      const amount = effect.count && effect.count !== 'all' ? Math.min(stacks, parseInt(effect.count) || 0) : stacks;
+      target.statusEffects[effect.effect] = stacks - amount;
+      removed += amount;
+    }
+    if (effect.collect) ctx[effect.collect] = (ctx[effect.collect] || 0) + removed;
+    debugLog(` ${ctx.owner.name}'s ${special.name} removes ${removed} ${effect.effect} stacks`);
+    return [{ type: 'remove_debuffs', target: effect.target, removed: [effect.effect], message: `removed ${removed} ${effect.effect} stacks` }];
+  }
+});
+
+registerEffect('recoil_damage', {
+  apply(ctx, effect) {
+    const { gm, game, caster, abilityHit, results } = ctx;
+
+    if (!abilityHit) {
+      results.push({
+        type: 'recoil_damage',
+        target: caster.name,
+        damage: 0,
+        hit: false,
+        targetHP: caster.currentHP
+      });
+      return;
+    }
+
+    const recoilRoll = rollDiceString(effect.value);
+    const recoilDamage = recoilRoll.total;
+    caster.currentHP = Math.max(0, caster.currentHP - recoilDamage);
+
+    // Check HP-based conditions after taking recoil damage
+    gm.checkHPConditions(game, caster);
+
+    // Check if caster died from recoil
+    if (caster.currentHP <= 0 && !caster.statusEffects?.justResurrected) {
+      gm.updatePassiveEffectsOnDeath(game, caster, null, 'recoil');
+    }
+
+    results.push({
+      type: 'recoil_damage',
+      target: caster.name,
+      damage: recoilDamage,
+      targetHP: caster.currentHP,
+      hit: true
+    });
+  }
+});
+
+registerEffect('extra_action', {
+  selfTargeted: true,
+  apply(ctx, effect) {
+    // Granted after all effects resolve (Monk's One-Two Punch follow-up attack)
+    if (ctx.abilityHit && effect.action === 'basic_attack') {
+      ctx.grantsExtraAttack = true;
+    }
+  }
+});
+
+registerEffect('summon', {
+  selfTargeted: true,
+  apply(ctx, effect) {
+    const { caster, abilityHit, results } = ctx;
+    if (!abilityHit) return;
+
+    if (!caster.statusEffects) caster.statusEffects = {};
+    const key = summonCounterKey(effect);
+
+    if (effect.flag) {
+      caster.statusEffects[key] = true;
+      upsertSummonBuff(caster, effect);
+      results.push({
+        type: 'summon',
+        caster: caster.name,
+        target: caster.name,
+        unit: effect.unit,
+        count: 1,
+        message: `${caster.name} summons a ${effect.unit}`
+      });
+      return;
+    }
+
+    const count = caster.statusEffects[key] || 0;
+    if (effect.max && count >= effect.max) {
+      debugLog(` ${caster.name} already has the maximum of ${effect.max} ${summonLabel(effect)}`);
+      results.push({
+        type: 'summon_limit_reached',
+        caster: caster.name,
+        target: caster.name,
+        unit: effect.unit,
+        count,
+        max: effect.max
+      });
+      return;
+    }
+
+    caster.statusEffects[key] = count + 1;
+    upsertSummonBuff(caster, effect);
+    results.push({
+      type: 'summon',
+      caster: caster.name,
+      target: caster.name,
+      unit: effect.unit,
+      count: count + 1,
+      max: effect.max || null,
+      message: `${caster.name} summons a ${effect.unit}${effect.max ? ` (${count + 1}/${effect.max})` : ''}`
+    });
+  }
+});
+
+registerEffect('conditional_action', {
+  // Replaced by its `action` before the attack roll when the condition holds (Beast Tamer)
+  expand(ctx, effect) {
+    return evaluateEffectCondition(effect.condition, ctx) ? [effect.action] : [];
+  }
+});
+
+registerEffect('conditional_buff', {
+  // Gambler's Luck of the Dice: a buff for the caster when the condition holds after the roll
+  selfTargeted: true,
+  apply(ctx, effect, target) {
+    if (!evaluateEffectCondition(effect.condition, ctx, ctx.primaryTarget)) return;
+    getEffectHandler(effect.effect)?.apply?.(ctx, effect, target);
+  }
+});
+
+registerEffect('on_kill_splash', {
+  apply(ctx, effect) {
+    const { opponent, originalTarget } = ctx;
+    if (!ctx.abilityHit || !originalTargetDied(ctx)) return;
+
+    const targetIndex = opponent.team.indexOf(originalTarget);
+    const neighbours = [opponent.team[targetIndex - 1], opponent.team[targetIndex + 1]]
+      .filter(hero => hero && hero.currentHP > 0);
+    for (const neighbour of neighbours) {
+      getEffectHandler('damage').apply(ctx, { type: 'damage', value: effect.value, target: 'target' }, neighbour);
+    }
+  }
+});
+
+registerEffect('command_ally', {
+  resolveAbility(ctx) {
+    const { gm, ability, caster, primaryTarget, casterPlayer, opponent, game, allyTarget, commandContext } = ctx;
+    // Commanded abilities must not command again
+    if (commandContext && commandContext.preventRecursion) return null;
+    return gm.processTimekeeperAbility(ability, caster, primaryTarget, casterPlayer, opponent, game, allyTarget);
+  }
+});
+
+registerEffect('command_adjacent_allies', {
+  // Diplomat's Declare War: the living allies on either side make a free basic attack on the target
+  resolveAbility(ctx) {
+    const { gm, ability, caster, primaryTarget, casterPlayer, game } = ctx;
+    const results = [{
+      type: 'ability_comprehensive',
+      caster: caster.name,
+      abilityName: ability.name,
+      target: primaryTarget.name,
+      message: `${caster.name} used ${ability.name}`,
+      hit: true,
+      isCritical: false
+    }];
+
+    const casterIndex = casterPlayer.team.indexOf(caster);
+    const adjacentAllies = [casterPlayer.team[casterIndex - 1], casterPlayer.team[casterIndex + 1]]
+      .filter(ally => ally && ally.currentHP > 0);
+    if (adjacentAllies.length === 0) {
+      results.push({ type: 'ability_effect', message: 'No adjacent allies to command', caster: caster.name });
+      return results;
+    }
+
+    for (const ally of adjacentAllies) {
+      debugLog(` ${caster.name} commands ${ally.name} to attack ${primaryTarget.name}`);
+      results.push(...gm.performFreeBasicAttack(game, ally, primaryTarget, { commandedBy: caster.name }));
+    }
+    return results;
+  }
+});
+
+registerEffect('copy_and_use_ability', {
+  resolveAbility(ctx) {
+    const { gm, caster, primaryTarget, casterPlayer, opponent, game, allyTarget } = ctx;
+    const copied = primaryTarget?.Ability?.[0];
+    if (!copied || copied.primary_effects?.some(effect => effect.type === 'copy_and_use_ability')) {
+      return [];
+    }
+    debugLog(` ${caster.name} copies ${primaryTarget.name}'s ${copied.name}`);
+    return gm.processAbilityEffects(copied, caster, primaryTarget, casterPlayer, opponent, game, null, allyTarget, null, null);
+  }
+});
+
+// Abilities that hand the turn to another hero; a borrowed turn never uses them
+const TURN_GIVING_EFFECTS = ['command_ally', 'command_adjacent_allies', 'take_turn_as_enemy'];
+
+registerEffect('take_turn_as_enemy', {
+  // Hacker's Hack: the hacked enemy takes a turn for the caster's side, aimed at its own team
+  resolveAbility(ctx) {
+    const { gm, ability, caster, primaryTarget, casterPlayer, opponent, game, commandContext } = ctx;
+    if (commandContext && commandContext.preventRecursion) return null;
+    if (!primaryTarget || primaryTarget.currentHP <= 0 || !opponent.team.includes(primaryTarget)) return [];
+
+    // no_self_target: the hacked hero only ever hits its teammates
+    const victims = opponent.team.filter(hero => hero !== primaryTarget && hero.currentHP > 0);
+    const results = [{
+      type: 'ability_use',
+      message: `${caster.name} used ${ability.name}, taking over ${primaryTarget.name}'s turn!`,
+      caster: caster.name,
+      ally: primaryTarget.name
+    }];
+    if (victims.length === 0) return results;
+
+    const hacked = (primaryTarget.Ability || []).find(candidate =>
+      !(candidate.primary_effects || []).some(effect => TURN_GIVING_EFFECTS.includes(effect.type)));
+    if (!hacked) {
+      results.push(...gm.performFreeBasicAttack(game, primaryTarget, victims[0], { commandedBy: caster.name }));
+      return results;
+    }
+
+    debugLog(` ${caster.name} makes ${primaryTarget.name} use ${hacked.name}`);
+    const hackContext = { commandingHero: caster.name, preventRecursion: true };
+    const isAOE = hacked.target_type === 'all_enemies' ||
+      (hacked.primary_effects || []).some(effect => effect.target === 'all_enemies');
+    for (const victim of isAOE ? victims : [victims[0]]) {
+      results.push(...gm.processAbilityEffects(hacked, primaryTarget, victim, casterPlayer, opponent, game, null, null, null, hackContext));
+    }
+    return results;
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Special-phase handlers
+// ---------------------------------------------------------------------------
+
+registerEffect('passive_modifier', {
+  // Barbarian's Break the Line: ignore_taunt, ignore_deflect
+  phase: 'special',
+  modifiers: effect => ({ [effect.effect]: true })
+});
+
+registerEffect('disable_basic_attack', {
+  phase: 'special',
+  modifiers: () => ({ basicAttackDisabled: true })
+});
+
+registerEffect('modify_ability_usage', {
+  phase: 'special',
+  modifiers: effect => (effect.effect === 'use_twice_per_turn' ? { abilityUsesPerTurn: 2 } : {})
+});
+
+registerEffect('modify_attack_frequency', {
+  phase: 'special',
+  modifiers: effect => (effect.effect === 'attack_twice' ? { attacksPerTurn: 2 } : {})
+});
+
+registerEffect('extra_attack_per_turn', {
+  phase: 'special',
+  modifiers: () => ({ attacksPerTurn: 2 })
+});
+
+registerEffect('modify_crit_range', {
+  phase: 'special',
+  modifiers: effect => ({ critThreshold: effect.min_roll })
+});
+
+registerEffect('grant_advantage', {
+  phase: 'special',
+  rollModifier: (effect, isAbility) => (rollScopeMatches(effect.scope, isAbility) ? 'advantage' : null),
+
+  // Ability form (Arcanist's Enhance spells): the target's next roll in scope has advantage
+  apply(ctx, effect, target) {
+    const { caster, abilityHit, results } = ctx;
+    if (!abilityHit) return;
+    if (!target.statusEffects) target.statusEffects = {};
+    target.statusEffects.nextRollAdvantage = { scope: effect.scope, source: caster.name };
+    debugLog(` ${target.name} gains advantage on their next ${effect.scope || 'roll'} (from ${caster.name})`);
+    results.push({
+      type: 'status_applied',
+      target: target.name,
+      effect: 'grant_advantage',
+      value: 1,
+      hit: true
+    });
+  }
+});
+
+registerEffect('grant_disadvantage', {
+  phase: 'special',
+  rollModifier: (effect, isAbility) => (rollScopeMatches(effect.scope, isAbility) ? 'disadvantage' : null)
+});
+
+registerEffect('negate_damage', {
+  phase: 'special',
+  trigger(ctx, effect, special) {
+    const { owner, damage } = ctx;
+    const target = ctx.target || owner;
+    ctx.negated = true;
+    ctx.damage = 0;
+    debugLog(` ${owner.name}'s ${special.name} negates the damage to ${target.name}`);
+    return [{
+      type: 'negate_damage',
+      target: target.name,
+      originalDamage: damage,
+      finalDamage: 0,
+      message: `negated ${damage === undefined ? 'the' : damage} damage`
+    }];
+  }
+});
+
+registerEffect('conditional_repeat_cast', {
+  // Sorcerer's Twin Spell: a landed ability may be cast once more this turn
+  phase: 'special',
+  trigger(ctx) {
+    const { owner, casterPlayer } = ctx;
+    if (!casterPlayer || casterPlayer.twinSpellUsed) return [];
+
+    casterPlayer.twinSpellUsed = true;
+    casterPlayer.twinSpellActive = true;
+    debugLog(` ${owner.name}'s Twin Spell activated - can cast again this turn`);
+    return [{
+      type: 'grant_extra_action',
+      target: owner.name,
+      effect: 'extra_ability_use',
+      message: 'grants an additional ability use'
+    }];
+  }
+});
+
+registerEffect('apply_vulnerability_debuff', {
+  // Cavalier's Ride Down: attacks against the hit enemy have advantage until it's healed to full
+  phase: 'special',
+  trigger(ctx, effect, special) {
+    const { owner } = ctx;
+    for (const target of getSpecialTargets(ctx, effect.target)) {
+      if (!target.statusEffects) target.statusEffects = {};
+      target.statusEffects.rideDownDebuff = {
+        source: owner.name,
+        specialName: special.name,
+        maxHP: target.HP // Store original max HP to detect full healing
+      };
+      debugLog(` ${target.name} debuffed by ${owner.name}'s ${special.name} - attacks against them have advantage until healed to full HP`);
+    }
+    return [];
+  }
+});
+
+registerEffect('convert_to_critical_hit', {
+  phase: 'special',
+  trigger(ctx) {
+    ctx.attackRoll.isCritical = true;
+    ctx.attackRoll.crit = true;
+    return [];
+  }
+});
+
+registerEffect('force_hit', {
+  phase: 'special',
+  trigger(ctx) {
+    ctx.attackRoll.total = 999; // Guarantee hit
+    ctx.attackRoll.displayTotal = 20; // Show as natural 20 for display purposes
+    return [];
+  }
+});
+
+registerEffect('revive', {
+  phase: 'special',
+  trigger(ctx, effect, special) {
+    const results = [];
+    for (const hero of getSpecialTargets(ctx, effect.target)) {
+      const healing = Math.ceil(hero.HP * (effect.health_fraction || 0.5));
+      // Revived heroes come back clean
+      hero.statusEffects = { justResurrected: true };
+      hero.currentHP = healing;
+      hero.resurrected = true;
+      hero.resurrectionLogged = true;
+      ctx.revived = true;
+      debugLog(` ${ctx.owner.name}'s ${special.name} brings ${hero.name} back with ${healing} HP`);
+      results.push({ type: 'heal', target: hero.name, healing, newHP: hero.currentHP, maxHP: hero.HP });
+    }
+    return results;
+  }
+});
+
+registerEffect('inherit_attack_dice_from_fallen', {
+  // Hoarder's Collect Weapons
+  phase: 'special',
+  trigger(ctx, effect) {
+    const { owner } = ctx;
+    for (const fallen of getSpecialTargets(ctx, effect.target)) {
+      // Skip heroes without basic attacks (like Assassin with '—')
+      if (!fallen.BasicAttack || fallen.BasicAttack === '—' || fallen.BasicAttack === '-') {
+        debugLog(` ${owner.name}: ${fallen.name} has no basic attack to collect`);
+        continue;
+      }
+
+      // Include scaling damage the fallen hero had built up (like Champion's Last Stand)
+      let attackDice = fallen.BasicAttack;
+      if (fallen.scalingBuffs && fallen.scalingBuffs.damage) {
+        attackDice = `${attackDice}+${fallen.scalingBuffs.damage}D6`;
+      }
+
+      if (!owner.scalingBuffs) owner.scalingBuffs = {};
+      if (!owner.scalingBuffs.collectedDice) owner.scalingBuffs.collectedDice = [];
+      owner.scalingBuffs.collectedDice.push({
+        from: fallen.name,
+        dice: attackDice,
+        timestamp: Date.now()
+      });
+      debugLog(` ${owner.name} collects ${attackDice} from ${fallen.name}`);
+    }
+    return [];
+  }
+});
+
+registerEffect('damage_modifier', {
+  // Champion's Last Stand: each stack adds a D6, which calculateDamage rolls from scalingBuffs.damage
+  phase: 'special',
+  scale(hero, effect, stacks) {
+    hero.scalingBuffs.damage = stacks;
+  },
+
+  // Ability form (Blacksmith's Sharpen): extra dice on the target's next basic attack
+  apply(ctx, effect, target) {
+    const { caster, abilityHit, results } = ctx;
+    if (!abilityHit || effect.applies_to !== 'next_attack') return;
+    addNextAttackBonus(target, effect.value, true);
+    debugLog(` ${caster.name} sharpens ${target.name}'s next attack (${effect.value})`);
+    results.push({
+      type: 'status_applied',
+      target: target.name,
+      effect: 'next_attack_bonus',
+      value: effect.value,
+      hit: true
+    });
+  }
+});
+
+registerEffect('permanent_stat_modifier', {
+  // Dragon Rider's Dismount: kept even if the condition stops holding
+  phase: 'special',
+  activate(hero, effect, special) {
+    if (!effect.stat) return;
+    if (!hero.permanentBuffs) hero.permanentBuffs = {};
+    if (!hero.permanentBuffs[special.name]) hero.permanentBuffs[special.name] = [];
+    hero.permanentBuffs[special.name].push({ stat: effect.stat, value: effect.value, source: special.name });
+  }
+});
+
+registerEffect('disable_ability', {
+  phase: 'special',
+  activate(hero, effect) {
+    if (!effect.permanent) return;
+    if (!hero.permanentDisables) hero.permanentDisables = {};
+    hero.permanentDisables.abilities = true;
+  }
+});
+
+registerEffect('force_reroll', {
+  // Bard's Encore: the ally who just missed rolls again (GameManager.processMissSpecials)
+  phase: 'special',
+  trigger(ctx, effect, special) {
+    const results = [];
+    for (const hero of getSpecialTargets(ctx, effect.target)) {
+      ctx.reroll = true;
+      debugLog(` ${ctx.owner.name}'s ${special.name} lets ${hero.name} reroll`);
+      results.push({ type: 'force_reroll', target: hero.name, message: `let ${hero.name} reroll` });
+    }
+    return results;
+  }
+});
+
+registerEffect('disable_special', {
+  // Hacker's System Failure: the killer's Special stops working for the rest of the battle
+  phase: 'special',
+  trigger(ctx, effect, special) {
+    const { gm, game, owner } = ctx;
+    const results = [];
+    for (const hero of getSpecialTargets(ctx, effect.target)) {
+      if (hero.specialDisabled || getSpecials(hero).length === 0) continue;
+      hero.specialDisabled = true;
+      if (hero.statusEffects) hero.statusEffects.arcaneShieldAvailable = false;
+      gm.removeAuraBuffs(game, hero);
+      debugLog(` ${owner.name}'s ${special.name} disables ${hero.name}'s Special`);
+      results.push({ type: 'disable_special', target: hero.name, message: `disabled ${hero.name}'s Special` });
+    }
+    return results;
+  }
+});
+
+registerEffect('remove_debuffs', {
+  // Healer's Cleanse. scope is 'all' or the one status to remove
+  phase: 'special',
+  trigger(ctx, effect, special) {
+    const { gm } = ctx;
+    const results = [];
+    for (const hero of getSpecialTargets(ctx, effect.target)) {
+      const removed = clearDebuffs(hero, effect.scope);
+      gm.updateHeroDisplayStats(hero);
+      debugLog(` ${ctx.owner.name}'s ${special.name} cleanses ${hero.name}: ${removed.join(', ') || 'nothing to remove'}`);
+      results.push({ type: 'remove_debuffs', target: hero.name, removed, message: `cleansed ${hero.name}` });
+    }
+    return results;
+  }
+});
+
+registerEffect('next_attack_bonus', {
+  // Sniper's Lock In: extra dice for the hero's next basic attack (GameManager.applyNextAttackBonus)
+  phase: 'special',
+  trigger(ctx, effect, special) {
+    const results = [];
+    for (const hero of getSpecialTargets(ctx, effect.target)) {
+      addNextAttackBonus(hero, effect.value, effect.stacking);
+      debugLog(` ${ctx.owner.name}'s ${special.name}: ${hero.name}'s next attack deals ${hero.statusEffects.nextAttackBonus.join(' ')} more`);
+      results.push({ type: 'next_attack_bonus', target: hero.name, value: effect.value, message: `readied ${effect.value} damage for the next attack` });
+    }
+    return results;
+  }
+});
+
+registerEffect('set_stat', {
+  // Agent's Master Plan: the stat stays at the value for the rest of the battle
+  phase: 'special',
+  trigger(ctx, effect, special) {
+    const { gm } = ctx;
+    const results = [];
+    for (const hero of getSpecialTargets(ctx, effect.target)) {
+      if (!hero.statOverrides) hero.statOverrides = {};
+      hero.statOverrides[effect.stat] = effect.value;
+      gm.updateHeroDisplayStats(hero);
+      debugLog(` ${ctx.owner.name}'s ${special.name} sets ${hero.name}'s ${effect.stat} to ${effect.value}`);
+      results.push({ type: 'set_stat', target: hero.name, stat: effect.stat, value: effect.value, message: `set ${hero.name}'s ${effect.stat} to ${effect.value}` });
+    }
+    return results;
+  }
+});
+
+registerEffect('copy_special', {
+  // Mime's Unique Duplicate: the owner's Special becomes a copy of the chosen enemy's
+  phase: 'special',
+  trigger(ctx, effect, special) {
+    const { owner } = ctx;
+    const source = getSpecialTargets(ctx, effect.source)[0];
+    if (!source || getSpecials(source).length === 0) return [];
+
+    owner.originalSpecial = owner.Special;
+    owner.Special = JSON.parse(JSON.stringify(source.Special));
+    const copied = getSpecials(owner).map(copy => copy.name).join(', ');
+    debugLog(` ${owner.name}'s ${special.name} copies ${source.name}'s ${copied}`);
+    return [{ type: 'copy_special', target: source.name, message: `copied ${source.name}'s ${copied}` }];
+  }
+});
+
+registerEffect('perform_basic_attack', {
+  // Arcanist's Tether Ally: a free basic attack at whoever the ally just hit
+  phase: 'special',
+  trigger(ctx, effect, special) {
+    const { gm, game, owner } = ctx;
+    const results = [];
+    for (const target of getSpecialTargets(ctx, effect.target)) {
+      if (target.currentHP <= 0) continue;
+      debugLog(` ${owner.name}'s ${special.name}: attacking ${target.name}`);
+      results.push(...gm.performFreeBasicAttack(game, owner, target, { specialName: special.name }));
+    }
+    return results;
+  }
+});
+
+// ---------------------------------------------------------------------------
+// Cost effects - paid when the owning special fires
+// ---------------------------------------------------------------------------
+
+// Costs paid in summoned units; `verb` names what happens to them in the log
+function summonCost(type, verb) {
+  return {
+    phase: 'cost',
+    canPay(ctx, cost) {
+      return getSummonCount(ctx.owner, cost.unit) >= (cost.amount || 1);
+    },
+    pay(ctx, cost) {
+      const { owner } = ctx;
+      const summon = getSummonEffects(owner).find(effect => effect.unit === cost.unit);
+      const amount = cost.amount || 1;
+      const key = summonCounterKey(summon);
+      owner.statusEffects[key] = summon.flag ? false : owner.statusEffects[key] - amount;
+      upsertSummonBuff(owner, summon);
+      debugLog(` ${owner.name} ${verb} ${amount} ${cost.unit} (${getSummonCount(owner, cost.unit)} left)`);
+      const units = amount === 1 ? `a ${cost.unit}` : `${amount} ${summonLabel(summon)}`;
+      return [{ type, unit: cost.unit, amount, message: `${verb} ${units}` }];
+    }
+  };
+}
+
+// Engineer's Protective Gear gives up a summoned unit
+registerEffect('sacrifice', summonCost('sacrifice', 'sacrificed'));
+
+// Agent's Master Plan sends its Spies away
+registerEffect('dismiss_summons', summonCost('dismiss_summons', 'dismissed'));
+
+registerEffect('skip_current_attack', {
+  // Sniper's Lock In uses up this turn's basic attack
+  phase: 'cost',
+  canPay: ctx => !!ctx.casterPlayer && !ctx.casterPlayer.hasUsedAttack,
+  pay(ctx) {
+    ctx.casterPlayer.hasUsedAttack = true;
+    debugLog(` ${ctx.owner.name} gives up this turn's attack`);
+    return [];
+  }
+});
+
+registerEffect('self_destruct', {
+  phase: 'cost',
+  canPay: () => true,
+  pay(ctx) {
+    const { gm, game, owner } = ctx;
+    debugLog(` ${owner.name} self-destructs!`);
+    owner.currentHP = 0;
+    gm.updatePassiveEffectsOnDeath(game, owner, null, 'self_destruct');
+    return [];
+  }
+});
+
+module.exports = {
+  registerEffect,
+  getEffectHandler,
+  isKnownEffectType,
+  getRegisteredEffectTypes,
+  summonCounterKey,
+  getSummonEffects,
+  getSummonCount,
+  upsertSummonBuff,
+  resolveScaledValue,
+  evaluateEffectCondition,
+  getSpecials,
+  hasSpecialEffect,
+  getSpecialModifiers,
+  fireSpecial
+};
@@ -1,5 +1,7 @@
 const { v4: uuidv4 } = require('uuid');
 const { 
+  random,
+  withRandomSource,
   rollDice, 
   shuffleArray, 
   weightedShuffle,
@@ -7,15 +9,98 @@ const {
   calculateAttackRoll, 
   rollDiceString,
   applyStatusEffect,
-  hasSpecialEffect,
   processEndOfTurn,
   calculateEffectiveDefense
 } = require('./utils');
+const {
+  getEffectHandler,
+  getSummonEffects,
+  summonCounterKey,
+  getSummonCount,
+  upsertSummonBuff,
+  resolveScaledValue,
+  evaluateEffectCondition,
+  getSpecials,
+  hasSpecialEffect,
+  getSpecialModifiers,
+  fireSpecial
+} = require('./effectRegistry');
+const { createSeededRng, attachRng } = require('./rng');
+const { AI_DIFFICULTIES, planAIStep } = require('./aiPlayer');
+const { censorText } = require('./chatFilter');
+const { rankView } = require('./rating');
 
 // Debug mode - set to false in production for better performance
 const DEBUG = process.env.DEBUG_GAME === 'true' || false;
 const debugLog = DEBUG ? console.log.bind(console) : () => {};
 
+// Action clocks in seconds (0 disables a clock). Running out auto-plays the step for the
+// stalling player; in battle, repeated timeouts forfeit the game
+const TURN_TIME_LIMIT = parseInt(process.env.TURN_TIME_LIMIT_SECONDS || '60', 10);
+const DRAFT_TIME_LIMIT = parseInt(process.env.DRAFT_TIME_LIMIT_SECONDS || '45', 10);
+const MAX_TIMEOUTS_BEFORE_FORFEIT = parseInt(process.env.MAX_TIMEOUTS_BEFORE_FORFEIT || '3', 10);
+
+// Pause before each AI opponent move so the human can follow what happened
+const AI_ACTION_DELAY_MS = parseInt(process.env.AI_ACTION_DELAY_MS || '900', 10);
+
+// Spectators see every game update this many seconds late (0 = live)
+const SPECTATOR_DELAY_SECONDS = parseInt(process.env.SPECTATOR_DELAY_SECONDS || '0', 10);
+
+const SURVIVAL_TEAM_SIZE = 3;
+
+// Special categories players fire themselves from the Special button
+const ACTIVATED_SPECIAL_CATEGORIES = ['activated_aoe', 'activated_aoe_heal', 'activated'];
+
+// Abilities that make an ally act (Timekeeper's Chrono Shift)
+const commandsAlly = ability => (ability?.primary_effects || []).some(effect => effect.type === 'command_ally');
+
+// Ranked Draft matchmaking: a queued player takes opponents rated within this many points,
+// a window that widens the longer they wait. Two players match once each is within the other's
+const RANKED_BASE_WINDOW = 100;
+const RANKED_WINDOW_GROWTH_PER_SECOND = 10;
+
+// Battle chat: messages kept per game for late joiners, the longest free-text message, and
+// the preset emotes keyed by what clients send
+const BATTLE_CHAT_HISTORY = 50;
+const BATTLE_CHAT_MAX_LENGTH = 200;
+const BATTLE_EMOTES = {
+  'good-luck': 'Good luck',
+  'well-played': 'Well played',
+  'oops': 'Oops'
+};
+
+// Player actions that can roll dice or shuffle, keyed by the socket event that triggers them.
+// Each runs on the acting player's game stream; the ones made during battle are recorded for replays
+const SEEDED_ACTIONS = {
+  banCard: 'ban-card',
+  pickCard: 'pick-card',
+  autoDraft: 'auto-draft',
+  setAttackOrder: 'set-attack-order',
+  rollInitiative: 'roll-initiative',
+  chooseTurnOrder: 'choose-turn-order',
+  basicAttack: 'basic-attack',
+  useAbility: 'use-ability',
+  useTimekeeperSelectedAbility: 'use-timekeeper-selected-ability',
+  selectTarget: 'select-target',
+  activateSpecial: 'activate-special',
+  endTurn: 'end-turn',
+  surrenderGame: 'surrender-game'
+};
+
+// Socket event the room gets for each action an AI opponent takes (same as for human players)
+const AI_RESULT_EVENTS = {
+  banCard: 'ban-complete',
+  pickCard: 'pick-complete',
+  setAttackOrder: 'attack-order-set',
+  rollInitiative: 'initiative-rolled',
+  chooseTurnOrder: 'battle-start',
+  basicAttack: 'attack-result',
+  useAbility: 'ability-result',
+  useTimekeeperSelectedAbility: 'ability-result',
+  activateSpecial: 'special-activated',
+  endTurn: 'turn-ended'
+};
+
 class GameManager {
   constructor(heroes, database = null) {
     this.allHeroes = heroes; // Keep all heroes for reference
@@ -26,13 +111,61 @@ class GameManager {
     this.gauntletRuns = new Map(); // playerId -> gauntletRun state
     this.gauntletQueues = new Map(); // bracket -> array of players waiting
     this.draftQueue = []; // Array of players waiting for draft/random mode
+    this.rankedMatchingPaused = false; // Set by the server while a ranked season rolls over
     this.survivalQueue = []; // Array of players waiting for survival mode
     this.database = database; // Database instance for victory points
     this.userSessions = new Map(); // playerId -> userId mapping for database operations
+    this.handlingAction = false; // True while a player action is running (see SEEDED_ACTIONS)
+    this.actionTimeouts = new Map(); // gameId -> timeout for the current action clock
+    this.actionClocksEnabled = true; // Off for replay re-simulation
+    this.aiTimeouts = new Map(); // gameId -> timeout for the next AI opponent move
+    this.aiTurnsEnabled = true; // Off for replay re-simulation
+    this.autoActionHandler = null; // (socketEvent, result) callback set by server.js
+    this.dirtyGameIds = new Set(); // gameIds whose snapshot needs writing (see persistGame)
+    this.persistScheduled = false;
+    this.persistQueue = Promise.resolve(); // Snapshot writes, one at a time
+
+    Object.entries(SEEDED_ACTIONS).forEach(([method, event]) => {
+      const action = this[method];
+      this[method] = (playerId, ...args) => {
+        const game = this.games.get(this.playerGameMap.get(playerId));
+        // Actions triggered from inside another one (e.g. auto end turn) are not recorded;
+        // replaying the outer action repeats them
+        const nested = this.handlingAction;
+        const recording = game && game.replay && !nested;
+        this.handlingAction = true;
+        let result;
+        try {
+          result = this.withGameRng(game, () => action.call(this, playerId, ...args));
+        } finally {
+          this.handlingAction = nested;
+        }
+        if (recording && result && result.success) {
+          this.recordReplayAction(game, event, playerId, args);
+        }
+        if (game && result && result.success) {
+          // A new hero turn always gets a fresh clock, even when the same player acts again
+          this.refreshActionTimer(game, event === 'end-turn');
+          if (event !== 'select-target') {
+            this.scheduleAIAction(game);
+          }
+          this.persistGame(game.id);
+        }
+        return result;
+      };
+    });
     
     console.log(`Loaded ${this.allHeroes.length} total heroes, ${this.heroes.length} enabled for gameplay`);
   }
 
+  // Swap in new hero data (admin toggles or a heros.json reload). Running games keep the hero
+  // copies they already made
+  setHeroes(heroes) {
+    this.allHeroes = heroes;
+    this.heroes = heroes.filter(hero => !hero.disabled);
+    console.log(`Hero data updated: ${this.allHeroes.length} total heroes, ${this.heroes.length} enabled for gameplay`);
+  }
+
   // Helper function to reset a hero to its original pristine state
   resetHeroToOriginalState(hero) {
     // Create a deep copy of the original hero to avoid any reference issues
@@ -77,6 +210,15 @@ class GameManager {
     // Clear permanent modifications (Dragon Rider's Dismount, etc.)
     delete resetHero.permanentBuffs;
     delete resetHero.permanentDisables;
+    delete resetHero.statOverrides;
+    
+    // Specials come back unused and switched on, and a copied one goes back to the hero's own (Mime)
+    delete resetHero.spentSpecials;
+    delete resetHero.specialDisabled;
+    if (resetHero.originalSpecial) {
+      resetHero.Special = resetHero.originalSpecial;
+      delete resetHero.originalSpecial;
+    }
     
     // Reset companions/summons
     resetHero.companions = [];
@@ -95,35 +237,37 @@ class GameManager {
 
   // Centralized initiative rolling with automatic reroll on ties
   rollInitiativeWithReroll(game) {
-    let player1Roll = rollDice(20);
-    let player2Roll = rollDice(20);
-    let rerollCount = 0;
-    
-    // Keep rerolling while tied (max 10 attempts to prevent infinite loop)
-    while (player1Roll === player2Roll && rerollCount < 10) {
-      debugLog(` Initiative tie! (${player1Roll} vs ${player2Roll}) Rerolling...`);
-      player1Roll = rollDice(20);
-      player2Roll = rollDice(20);
-      rerollCount++;
-    }
-    
-    // Store the final rolls
-    game.players[0].initiativeRoll = player1Roll;
-    game.players[1].initiativeRoll = player2Roll;
-    
-    debugLog(` Final initiative rolls after ${rerollCount} reroll(s): Player 1: ${player1Roll}, Player 2: ${player2Roll}`);
-    
-    // Determine winner
-    const winner = player1Roll > player2Roll ? game.players[0] : game.players[1];
-    
-    return {
-      rolls: { player1: player1Roll, player2: player2Roll },
-      winner: winner.id,
-      needsChoice: true
-    };
+    return this.withGameRng(game, () => {
+      let player1Roll = rollDice(20);
+      let player2Roll = rollDice(20);
+      let rerollCount = 0;
+
+      // Keep rerolling while tied (max 10 attempts to prevent infinite loop)
+      while (player1Roll === player2Roll && rerollCount < 10) {
+        debugLog(` Initiative tie! (${player1Roll} vs ${player2Roll}) Rerolling...`);
+        player1Roll = rollDice(20);
+        player2Roll = rollDice(20);
+        rerollCount++;
+      }
+
+      // Store the final rolls
+      game.players[0].initiativeRoll = player1Roll;
+      game.players[1].initiativeRoll = player2Roll;
+
+      debugLog(` Final initiative rolls after ${rerollCount} reroll(s): Player 1: ${player1Roll}, Player 2: ${player2Roll}`);
+
+      // Determine winner
+      const winner = player1Roll > player2Roll ? game.players[0] : game.players[1];
+
+      return {
+        rolls: { player1: player1Roll, player2: player2Roll },
+        winner: winner.id,
+        needsChoice: true
+      };
+    });
   }
 
-  async addPlayer(playerId, playerName, mode = 'draft', profileIcon = 'Sorcerer', userId = null) {
+  async addPlayer(playerId, playerName, mode = 'draft', profileIcon = 'Sorcerer', userId = null, rating = null) {
     debugLog(` Player ${playerName} joining ${mode} queue...`);
     
     // Check if already in queue
@@ -132,46 +276,57 @@ class GameManager {
       return { success: false, error: 'Already in queue' };
     }
 
-    // Check if there's someone waiting in the queue with the SAME mode
-    const opponentIndex = this.draftQueue.findIndex(p => p.mode === mode);
+    // rating is the player's hidden skill rating for the mode (see rating.js), null for guests
+    const entry = { playerId, playerName, mode, profileIcon, userId, rating, queuedAt: Date.now() };
+
+    // Check if there's someone waiting in the queue with the SAME mode; ranked also needs
+    // close ratings
+    let opponentIndex;
+    if (mode === 'ranked') {
+      opponentIndex = this.rankedMatchingPaused ? -1 : this.findRankedOpponent(entry);
+    } else {
+      opponentIndex = this.draftQueue.findIndex(p => p.mode === mode);
+    }
     
     if (opponentIndex !== -1) {
       // Match with a player in queue who has the same mode
       const opponent = this.draftQueue.splice(opponentIndex, 1)[0];
       console.log(`✅ Matched ${playerName} (${mode}) with ${opponent.playerName} (${opponent.mode}) from queue!`);
       
-      // Create a new game with both players
-      const gameId = uuidv4();
-      const game = this.createNewGame(gameId, mode);
-      this.games.set(gameId, game);
+      const result = await this.createQueuedGame(opponent, entry, mode);
+      return { ...result, playerId };
+    } else {
+      // No one in queue, add this player to queue
+      this.draftQueue.push(entry);
+      debugLog(` ${playerName} added to ${mode} queue (waiting for opponent). Queue size: ${this.draftQueue.length}`);
       
-      // Add both players to the game
-      const player1 = {
-        id: opponent.playerId,
-        name: opponent.playerName,
-        userId: opponent.userId,
-        connected: true,
-        team: [],
-        draftCards: [],
-        bannedCard: null,
-        attackOrder: [],
-        currentHeroIndex: 0,
-        hasUsedAttack: false,
-        hasUsedAbility: false,
-        usedAbilities: [],
-        selectedTarget: null,
-        twinSpellUsed: false,
-        oneTwoPunchUsed: false,
-        monkAttacksRemaining: 1,
-        oneTwoPunchAttacksRemaining: 0,
-        profile_icon: opponent.profileIcon,
-        monkDeflectUsed: false
+      return {
+        success: true,
+        gameId: null,
+        playerId,
+        players: [],
+        gameReady: false,
+        waiting: true,
+        mode
       };
-      
-      const player2 = {
-        id: playerId,
-        name: playerName,
-        userId: userId,
+    }
+  }
+
+  // Start a game for two players taken off the queue. Ranked Draft games are draft games that
+  // count toward the ranked rating
+  async createQueuedGame(first, second, mode) {
+    const gameId = uuidv4();
+    const game = this.createNewGame(gameId, mode === 'ranked' ? 'draft' : mode);
+    game.ranked = mode === 'ranked';
+    this.games.set(gameId, game);
+    
+    // Add both players to the game
+    [first, second].forEach(entry => {
+      game.players.push({
+        id: entry.playerId,
+        name: entry.playerName,
+        userId: entry.userId,
+        rejoinToken: uuidv4(),
         connected: true,
         team: [],
         draftCards: [],
@@ -186,46 +341,73 @@ class GameManager {
         oneTwoPunchUsed: false,
         monkAttacksRemaining: 1,
         oneTwoPunchAttacksRemaining: 0,
-        profile_icon: profileIcon,
-        monkDeflectUsed: false
-      };
-      
-      game.players.push(player1, player2);
-      this.playerGameMap.set(opponent.playerId, gameId);
-      this.playerGameMap.set(playerId, gameId);
-      
-      // Start draft phase immediately
-      if (mode === 'draft') {
-        await this.startDraftPhase(game);
+        profile_icon: entry.profileIcon,
+        rank: entry.rating ? rankView(entry.rating) : null
+      });
+      this.playerGameMap.set(entry.playerId, gameId);
+    });
+    
+    // Start draft phase immediately
+    if (game.mode === 'draft') {
+      await this.startDraftPhase(game);
+    }
+    
+    return {
+      success: true,
+      gameId,
+      players: game.players.map(p => ({ id: p.id, name: p.name })),
+      gameReady: true,
+      draftCards: game.mode === 'draft' ? game.draftCards : null,
+      mode
+    };
+  }
+
+  rankedWindow(entry, now) {
+    return RANKED_BASE_WINDOW + RANKED_WINDOW_GROWTH_PER_SECOND * (now - entry.queuedAt) / 1000;
+  }
+
+  // Queue index of the closest-rated ranked player `entry` can be matched with, or -1
+  findRankedOpponent(entry, now = Date.now()) {
+    let bestIndex = -1;
+    let bestGap = Infinity;
+    this.draftQueue.forEach((other, index) => {
+      if (other.mode !== 'ranked' || other.playerId === entry.playerId) return;
+      const gap = Math.abs(other.rating.rating - entry.rating.rating);
+      if (gap <= Math.min(this.rankedWindow(entry, now), this.rankedWindow(other, now)) && gap < bestGap) {
+        bestIndex = index;
+        bestGap = gap;
       }
-      
-      return {
-        success: true,
-        gameId,
-        playerId,
-        players: game.players.map(p => ({ id: p.id, name: p.name })),
-        gameReady: true,
-        draftCards: mode === 'draft' ? game.draftCards : null,
-        mode
-      };
-    } else {
-      // No one in queue, add this player to queue
-      this.draftQueue.push({ playerId, playerName, mode, profileIcon, userId });
-      debugLog(` ${playerName} added to ${mode} queue (waiting for opponent). Queue size: ${this.draftQueue.length}`);
-      
-      return {
-        success: true,
-        gameId: null,
-        playerId,
-        players: [],
-        gameReady: false,
-        waiting: true,
-        mode
-      };
+    });
+    return bestIndex;
+  }
+
+  /**
+   * Pair up waiting Ranked Draft players whose windows have widened enough to meet. The
+   * longest waiting go first. Called periodically by the server
+   * @returns {Promise<Object[]>} - createQueuedGame results for the games started
+   */
+  async matchRankedQueue() {
+    const now = Date.now();
+    const started = [];
+    if (this.rankedMatchingPaused) return started;
+
+    for (const entry of this.draftQueue.filter(p => p.mode === 'ranked')) {
+      // Already taken by an earlier match in this sweep
+      if (!this.draftQueue.includes(entry)) continue;
+
+      const opponentIndex = this.findRankedOpponent(entry, now);
+      if (opponentIndex === -1) continue;
+
+      const opponent = this.draftQueue.splice(opponentIndex, 1)[0];
+      this.draftQueue.splice(this.draftQueue.indexOf(entry), 1);
+      console.log(`✅ Matched ${entry.playerName} with ${opponent.playerName} in ranked after ${Math.round((now - entry.queuedAt) / 1000)}s`);
+      started.push(await this.createQueuedGame(entry, opponent, 'ranked'));
     }
+
+    return started;
   }
 
-  async addPlayerToGame(gameId, playerId, playerName) {
+  async addPlayerToGame(gameId, playerId, playerName, userId = null) {
     const game = this.games.get(gameId);
     
     if (!game) {
@@ -253,6 +435,8 @@ class GameManager {
     const player = {
       id: playerId,
       name: playerName,
+      userId: userId,
+      rejoinToken: uuidv4(),
       connected: true,
       team: [],
       draftCards: [],
@@ -266,8 +450,7 @@ class GameManager {
       twinSpellUsed: false,
       oneTwoPunchUsed: false,
       monkAttacksRemaining: 1, // Monk starts with 1 attack, ability grants +1 more (max 2 total)
-      oneTwoPunchAttacksRemaining: 0, // Legacy field kept for compatibility
-      monkDeflectUsed: false
+      oneTwoPunchAttacksRemaining: 0 // Legacy field kept for compatibility
     };
 
     game.players.push(player);
@@ -289,13 +472,135 @@ class GameManager {
     };
   }
 
-  createNewGame(gameId, mode = 'draft') {
+  // Open a friendly room: a game holding only its host, outside the matchmaking queue, that
+  // waits for the second player to join through addPlayerToGame. Rooms made by name are draft
+  // games; accepted challenges may also be random
+  createFriendlyGame(playerId, playerName, roomName, userId = null, mode = 'draft') {
+    if (this.draftQueue.some(p => p.playerId === playerId)) {
+      return { success: false, error: 'Leave the matchmaking queue before creating a room' };
+    }
+
+    const gameId = uuidv4();
+    const game = this.createNewGame(gameId, mode);
+    game.roomName = roomName;
+    game.hostName = playerName;
+    this.games.set(gameId, game);
+
+    game.players.push({
+      id: playerId,
+      name: playerName,
+      userId: userId,
+      rejoinToken: uuidv4(),
+      connected: true,
+      team: [],
+      draftCards: [],
+      bannedCard: null,
+      attackOrder: [],
+      currentHeroIndex: 0,
+      hasUsedAttack: false,
+      hasUsedAbility: false,
+      usedAbilities: [],
+      selectedTarget: null,
+      twinSpellUsed: false,
+      oneTwoPunchUsed: false,
+      monkAttacksRemaining: 1,
+      oneTwoPunchAttacksRemaining: 0
+    });
+    this.playerGameMap.set(playerId, gameId);
+
+    return { success: true, gameId, playerId };
+  }
+
+  // Start a draft against a server-side AI opponent (no queue, no rewards)
+  async startPracticeGame(playerId, playerName, difficulty = 'normal', profileIcon = 'Sorcerer', userId = null) {
+    if (!AI_DIFFICULTIES.includes(difficulty)) {
+      return { success: false, error: 'Unknown AI difficulty' };
+    }
+
+    const gameId = uuidv4();
+    const game = this.createNewGame(gameId, 'practice');
+    this.games.set(gameId, game);
+
+    const player = {
+      id: playerId,
+      name: playerName,
+      userId: userId,
+      rejoinToken: uuidv4(),
+      connected: true,
+      team: [],
+      draftCards: [],
+      bannedCard: null,
+      attackOrder: [],
+      currentHeroIndex: 0,
+      hasUsedAttack: false,
+      hasUsedAbility: false,
+      usedAbilities: [],
+      selectedTarget: null,
+      twinSpellUsed: false,
+      oneTwoPunchUsed: false,
+      monkAttacksRemaining: 1,
+      oneTwoPunchAttacksRemaining: 0,
+      profile_icon: profileIcon
+    };
+
+    const aiPlayer = {
+      id: `ai-${uuidv4()}`,
+      name: `AI (${difficulty.charAt(0).toUpperCase()}${difficulty.slice(1)})`,
+      userId: null,
+      connected: true,
+      team: [],
+      draftCards: [],
+      bannedCard: null,
+      attackOrder: [],
+      currentHeroIndex: 0,
+      hasUsedAttack: false,
+      hasUsedAbility: false,
+      usedAbilities: [],
+      selectedTarget: null,
+      twinSpellUsed: false,
+      oneTwoPunchUsed: false,
+      monkAttacksRemaining: 1,
+      oneTwoPunchAttacksRemaining: 0,
+      profile_icon: 'Mech',
+      isAI: true,
+      aiDifficulty: difficulty
+    };
+    // The bot's own stream for its decisions, separate from the game's dice
+    attachRng(aiPlayer);
+
+    game.players.push(player, aiPlayer);
+    this.playerGameMap.set(playerId, gameId);
+    this.playerGameMap.set(aiPlayer.id, gameId);
+
+    await this.startDraftPhase(game);
+    if (game.phase !== 'draft' || !game.draftCards) {
+      this.releaseAIPlayers(game);
+      this.playerGameMap.delete(playerId);
+      this.games.delete(gameId);
+      return { success: false, error: 'You need at least 5 heroes to practice against the AI' };
+    }
+
+    console.log(`🤖 ${playerName} started a practice game vs ${aiPlayer.name}`);
+    this.scheduleAIAction(game);
+
     return {
+      success: true,
+      gameId,
+      playerId,
+      players: game.players.map(p => ({ id: p.id, name: p.name })),
+      gameReady: true,
+      draftCards: game.draftCards,
+      mode: 'practice'
+    };
+  }
+
+  createNewGame(gameId, mode = 'draft', seed = undefined) {
+    const game = {
       id: gameId,
       mode: mode, // 'draft' or 'random'
       phase: 'waiting', // waiting, draft, battle, ended
       players: [],
-      spectators: [], // Array of { socketId, username, spectatingPlayerId }
+      spectators: [], // Array of { socketId, username, spectatingPlayerId, role: 'viewer' | 'moderator' }
       draftCards: null,
       currentDraftPhase: 0, // 0: ban, 1-3: pick rounds
       draftTurn: 0, // whose turn to draft
@@ -304,34 +609,353 @@ class GameManager {
       winner: null,
       createdAt: Date.now(),
       roomName: null, // For friendly battles
+      hostName: null, // Friendly room creator, who can make spectators moderators
+      ranked: false, // Ranked Draft game, rated on its own ladder
       disconnectionTimers: new Map() // playerId -> { startTime, timeoutId, surrendered }
     };
+
+    // Seeded stream for every roll and shuffle in this game (hidden from serialized state)
+    attachRng(game, createSeededRng(seed));
+    debugLog(` Game ${gameId} seeded with ${game.rng.seed}`);
+    return game;
   }
 
-  // Survival mode methods
-  addSurvivalPlayer(playerId, playerName, selectedTeam, profileIcon = 'Sorcerer') {
-    debugLog(` Player ${playerName} joining survival queue...`);
-    
-    // Check if already in queue
-    if (this.survivalQueue.some(p => p.playerId === playerId)) {
-      console.log(`⚠️ Player ${playerId} already in survival queue`);
-      return { success: false, error: 'Already in queue' };
+  // Run fn with this game's seeded stream as the random source
+  withGameRng(game, fn) {
+    return withRandomSource(game && game.rng, fn);
+  }
+
+  getGameSeed(gameId) {
+    const game = this.games.get(gameId);
+    return game && game.rng ? game.rng.seed : null;
+  }
+
+  // Replay recording: snapshot the battle once teams are set up, then log every battle action.
+  // The seed, the stream position at the snapshot and the action list reproduce the whole battle
+  startReplayRecording(game) {
+    const { disconnectionTimers, spectators, actionTimer, ...state } = game;
+    Object.defineProperty(game, 'replay', {
+      value: {
+        seed: game.rng.seed,
+        rngState: game.rng.getState(),
+        initialState: JSON.stringify(state),
+        actions: [],
+        startedAt: Date.now(),
+        saved: false
+      },
+      enumerable: false,
+      writable: true,
+      configurable: true
+    });
+  }
+
+  recordReplayAction(game, event, playerId, args) {
+    const replay = game.replay;
+    if (!replay) return;
+
+    replay.actions.push({
+      event,
+      player: game.players.findIndex(p => p.id === playerId),
+      args,
+      at: Date.now() - replay.startedAt
+    });
+
+    if (game.phase === 'ended') {
+      this.saveReplay(game);
     }
+  }
 
-    // Check if there's someone waiting in the queue
-    if (this.survivalQueue.length > 0) {
-      // Match with the first player in queue
-      const opponent = this.survivalQueue.shift();
-      console.log(`✅ Matched ${playerName} with ${opponent.playerName} from survival queue!`);
-      
-      // Create a new game with both players
-      const gameId = uuidv4();
-      const game = this.createNewGame(gameId, 'survival');
-      this.games.set(gameId, game);
-      
-      // Reset and prepare teams for both players
-      const player1Team = opponent.selectedTeam.map(hero => this.resetHeroToOriginalState(hero));
-      const player2Team = selectedTeam.map(hero => this.resetHeroToOriginalState(hero));
+  saveReplay(game) {
+    const replay = game.replay;
+    if (!replay || replay.saved || !this.database) return;
+    replay.saved = true;
+
+    this.database.saveReplay({
+      id: game.id,
+      mode: game.mode,
+      seed: replay.seed,
+      rngState: replay.rngState,
+      players: game.players.map(p => ({
+        name: p.name,
+        userId: p.userId || this.userSessions.get(p.id) || null
+      })),
+      winnerIndex: game.players.findIndex(p => p.id === game.winner),
+      initialState: replay.initialState,
+      actions: replay.actions
+    }).catch(error => {
+      console.error(`❌ Error saving replay for game ${game.id}:`, error);
+    });
+  }
+
+  // Re-run a saved replay on a throwaway manager and capture the game state after each action.
+  // The battle log is returned once; each frame only stores how much of it existed at that point
+  buildReplayFrames(replay) {
+    const sandbox = new GameManager(this.allHeroes);
+    // Re-running the engine must not award points again or start real clocks
+    sandbox.handleGameCompletion = async () => ({ success: true });
+    sandbox.actionClocksEnabled = false;
+    sandbox.aiTurnsEnabled = false;
+
+    const game = JSON.parse(replay.initialState);
+    game.spectators = [];
+    game.disconnectionTimers = new Map();
+    attachRng(game, createSeededRng(replay.seed, replay.rngState));
+    sandbox.games.set(game.id, game);
+    game.players.forEach(p => sandbox.playerGameMap.set(p.id, game.id));
+
+    const methodsByEvent = {};
+    Object.entries(SEEDED_ACTIONS).forEach(([method, event]) => {
+      methodsByEvent[event] = method;
+    });
+
+    // getFullGameState hands out live hero objects, so each frame takes its own copy
+    const snapshot = (action) => {
+      const { battleLog, ...state } = sandbox.getFullGameState(game);
+      return { action, state: JSON.parse(JSON.stringify(state)), logLength: battleLog.length };
+    };
+
+    const frames = [snapshot(null)];
+    replay.actions.forEach(action => {
+      const player = game.players[action.player];
+      if (!player) return;
+
+      if (action.event === 'disconnect-forfeit') {
+        game.phase = 'ended';
+        game.winner = game.players[1 - action.player].id;
+      } else if (methodsByEvent[action.event]) {
+        const result = sandbox[methodsByEvent[action.event]](player.id, ...action.args);
+        if (!result || !result.success) {
+          console.warn(`⚠️ Replay ${game.id} diverged at ${action.event}: ${result && result.error}`);
+        }
+      }
+      // Target selection only matters for the attack that follows, so it gets no frame of its own
+      if (action.event !== 'select-target') {
+        frames.push(snapshot(action));
+      }
+    });
+
+    return { frames, battleLog: game.battleLog || [] };
+  }
+
+  // Persistence: every game in progress is snapshotted to SQLite after each action and loaded
+  // back by restoreActiveGames() at startup, where players pick it up through reconnect-game.
+  // Writes for the same tick are coalesced and run one at a time, so an older snapshot can never
+  // land on top of a newer one. Waiting and finished games are removed instead of saved
+  persistGame(gameId) {
+    if (!this.database) return;
+    this.dirtyGameIds.add(gameId);
+    if (this.persistScheduled) return;
+
+    this.persistScheduled = true;
+    setImmediate(() => {
+      this.persistScheduled = false;
+      this.flushPersistedGames();
+    });
+  }
+
+  // Write out every pending snapshot; resolves once they are all on disk
+  flushPersistedGames() {
+    this.persistQueue = this.persistQueue.then(async () => {
+      const gameIds = [...this.dirtyGameIds];
+      this.dirtyGameIds.clear();
+
+      for (const gameId of gameIds) {
+        const game = this.games.get(gameId);
+        try {
+          if (game && game.phase !== 'waiting' && game.phase !== 'ended') {
+            await this.database.saveActiveGame(gameId, game.mode, this.serializeGame(game));
+          } else {
+            await this.database.deleteActiveGame(gameId);
+          }
+        } catch (error) {
+          console.error(`❌ Error persisting game ${gameId}:`, error);
+        }
+      }
+    });
+    return this.persistQueue;
+  }
+
+  // Everything needed to resume the game: its state, the position of each random stream, the
+  // replay recorded so far and the gauntlet runs riding on the battle. Timers are rebuilt on load.
+  // Every player keeps their account id: after a restart it is the only way back into a seat
+  serializeGame(game) {
+    const { disconnectionTimers, spectators, actionTimer, ...state } = game;
+    const rngState = (target) => target && target.rng
+      ? { seed: target.rng.seed, state: target.rng.getState() }
+      : null;
+
+    return JSON.stringify({
+      savedAt: Date.now(),
+      game: {
+        ...state,
+        players: game.players.map(p => ({ ...p, userId: p.userId || this.userSessions.get(p.id) || null }))
+      },
+      rng: rngState(game),
+      playerRngs: game.players.map(rngState),
+      replay: game.replay || null,
+      gauntletRuns: game.players.map(p => {
+        const run = this.gauntletRuns.get(p.id);
+        return run ? { ...run, dead_hero_ids: [...run.dead_hero_ids], rng: rngState(run) } : null;
+      })
+    });
+  }
+
+  deserializeGame(serialized) {
+    const snapshot = JSON.parse(serialized);
+    const game = snapshot.game;
+    game.spectators = [];
+    game.disconnectionTimers = new Map();
+    game.actionTimer = null;
+
+    const restoreRng = (target, saved) => {
+      if (saved) attachRng(target, createSeededRng(saved.seed, saved.state));
+    };
+    restoreRng(game, snapshot.rng);
+    game.players.forEach((player, index) => restoreRng(player, snapshot.playerRngs[index]));
+
+    if (snapshot.replay) {
+      Object.defineProperty(game, 'replay', {
+        value: snapshot.replay,
+        enumerable: false,
+        writable: true,
+        configurable: true
+      });
+    }
+
+    const gauntletRuns = (snapshot.gauntletRuns || []).map(saved => {
+      if (!saved) return null;
+      const { rng, dead_hero_ids, ...run } = saved;
+      run.dead_hero_ids = new Set(dead_hero_ids);
+      restoreRng(run, rng);
+      return run;
+    });
+
+    return { game, gauntletRuns };
+  }
+
+  // Load the games that were in progress when the server last stopped. Every human player
+  // starts out disconnected and has the usual grace period to come back through reconnect-game,
+  // signed in as the account saved with their seat; a seat saved without one can't be reclaimed.
+  // Gauntlet runs between battles come back from their own save (see saveGauntletRun), and
+  // Dragonflow games aren't kept at all: they end as soon as either player disconnects, which a
+  // restart does to everyone
+  async restoreActiveGames() {
+    if (!this.database) return 0;
+
+    let rows;
+    try {
+      rows = await this.database.getActiveGames();
+    } catch (error) {
+      console.error('❌ Error loading saved games:', error);
+      return 0;
+    }
+
+    let restored = 0;
+    for (const row of rows) {
+      try {
+        const { game, gauntletRuns } = this.deserializeGame(row.state);
+        this.games.set(game.id, game);
+
+        game.players.forEach((player, index) => {
+          this.playerGameMap.set(player.id, game.id);
+          if (gauntletRuns[index]) {
+            this.gauntletRuns.set(player.id, gauntletRuns[index]);
+          }
+          if (!player.isAI) {
+            player.connected = false;
+          }
+        });
+
+        this.refreshActionTimer(game, true);
+        this.scheduleAIAction(game);
+        if (game.phase === 'battle') {
+          game.players.filter(p => !p.isAI).forEach(p => this.startDisconnectionCountdown(game, p.id));
+        }
+        restored++;
+      } catch (error) {
+        console.error(`❌ Could not restore game ${row.gameId}, discarding it:`, error);
+        this.database.deleteActiveGame(row.gameId).catch(() => {});
+      }
+    }
+
+    if (rows.length > 0) {
+      console.log(`♻️ Restored ${restored}/${rows.length} in-flight game(s) from the last run`);
+    }
+    return restored;
+  }
+
+  // Survival mode methods
+
+  /**
+   * Build a survival team from the hero names a client picked. Heroes come from heros.json,
+   * never from the client, and every pick must be owned, unused this run and unique.
+   */
+  async buildSurvivalTeam(playerId, heroNames) {
+    if (!Array.isArray(heroNames) || heroNames.length !== SURVIVAL_TEAM_SIZE) {
+      return { success: false, error: `Survival teams must have exactly ${SURVIVAL_TEAM_SIZE} heroes` };
+    }
+    if (heroNames.some(name => typeof name !== 'string') || new Set(heroNames).size !== heroNames.length) {
+      return { success: false, error: 'Invalid survival team' };
+    }
+
+    const userId = this.userSessions.get(playerId);
+    if (!userId || !this.database) {
+      return { success: false, error: 'You must be logged in to play survival' };
+    }
+
+    let user;
+    try {
+      user = await this.database.getUserById(userId);
+    } catch (error) {
+      console.error(`❌ Error loading heroes for survival player ${playerId}:`, error);
+      return { success: false, error: 'Failed to load your heroes' };
+    }
+    if (!user) {
+      return { success: false, error: 'User not found' };
+    }
+
+    const survivalState = await this.getSurvivalState(playerId);
+    const team = [];
+    for (const name of heroNames) {
+      const template = this.heroes.find(h => h.name === name);
+      if (!template) {
+        return { success: false, error: `${name} is not available` };
+      }
+      if (!(user.available_heroes || []).includes(name)) {
+        return { success: false, error: `You do not own ${name}` };
+      }
+      if (survivalState.usedHeroes.includes(name)) {
+        return { success: false, error: `${name} has already been used this survival run` };
+      }
+      team.push(this.resetHeroToOriginalState(template));
+    }
+
+    return { success: true, team };
+  }
+
+  addSurvivalPlayer(playerId, playerName, selectedTeam, profileIcon = 'Sorcerer') {
+    debugLog(` Player ${playerName} joining survival queue...`);
+    
+    // Check if already in queue
+    if (this.survivalQueue.some(p => p.playerId === playerId)) {
+      console.log(`⚠️ Player ${playerId} already in survival queue`);
+      return { success: false, error: 'Already in queue' };
+    }
+
+    // Check if there's someone waiting in the queue
+    if (this.survivalQueue.length > 0) {
+      // Match with the first player in queue
+      const opponent = this.survivalQueue.shift();
+      console.log(`✅ Matched ${playerName} with ${opponent.playerName} from survival queue!`);
+      
+      // Create a new game with both players
+      const gameId = uuidv4();
+      const game = this.createNewGame(gameId, 'survival');
+      this.games.set(gameId, game);
+      
+      // Reset and prepare teams for both players
+      const player1Team = opponent.selectedTeam.map(hero => this.resetHeroToOriginalState(hero));
+      const player2Team = selectedTeam.map(hero => this.resetHeroToOriginalState(hero));
       
       // Create both players
       const player1 = {
@@ -351,9 +975,10 @@ class GameManager {
         oneTwoPunchUsed: false,
         monkAttacksRemaining: 1,
         oneTwoPunchAttacksRemaining: 0,
-        monkDeflectUsed: false,
         isSurvivalPlayer: true,
-        profile_icon: opponent.profileIcon
+        profile_icon: opponent.profileIcon,
+        userId: this.userSessions.get(opponent.playerId) || null,
+        rejoinToken: uuidv4()
       };
       
       const player2 = {
@@ -373,9 +998,10 @@ class GameManager {
         oneTwoPunchUsed: false,
         monkAttacksRemaining: 1,
         oneTwoPunchAttacksRemaining: 0,
-        monkDeflectUsed: false,
         isSurvivalPlayer: true,
-        profile_icon: profileIcon
+        profile_icon: profileIcon,
+        userId: this.userSessions.get(playerId) || null,
+        rejoinToken: uuidv4()
       };
       
       game.players.push(player1, player2);
@@ -425,7 +1051,7 @@ class GameManager {
       if (player.team.length === 0) {
         // This shouldn't happen for survival players, but fallback to random team
         console.warn(`⚠️ Survival player ${player.name} has no team, assigning random team`);
-        const randomTeam = this.getRandomTeam(3);
+        const randomTeam = this.withGameRng(game, () => this.getRandomTeam(3));
         player.team = randomTeam.map(hero => this.resetHeroToOriginalState(hero));
         player.attackOrder = player.team.map(h => h.name);
       }
@@ -486,6 +1112,11 @@ class GameManager {
       return { success: false, message: 'Game not found' };
     }
 
+    // Only allow cancellation if game is still in waiting phase
+    if (game.phase !== 'waiting') {
+      return { success: false, message: 'Cannot cancel search - game already started' };
+    }
+
     // Remove player from game
     game.players = game.players.filter(p => p.id !== playerId);
     this.playerGameMap.delete(playerId);
@@ -550,8 +1181,8 @@ class GameManager {
     
     // Get both players' owned heroes from database
     debugLog(` Loading heroes for draft - Player 1 userId: ${game.players[0].userId}, Player 2 userId: ${game.players[1].userId}`);
-    const user1 = await this.database.getUserById(game.players[0].userId);
-    const user2 = await this.database.getUserById(game.players[1].userId);
+    const user1 = await this.getDraftCollection(game.players[0]);
+    const user2 = await this.getDraftCollection(game.players[1]);
     
     if (!user1 || !user2) {
       console.error('Could not load user data for draft');
@@ -591,13 +1222,13 @@ class GameManager {
     }
     
     // Player 1 bans from Player 2's heroes
-    const shuffledPlayer2Heroes = shuffleArray([...player2OwnedHeroes]);
+    const shuffledPlayer2Heroes = this.withGameRng(game, () => shuffleArray([...player2OwnedHeroes]));
     const player1DraftPool = shuffledPlayer2Heroes.slice(0, 5);
     
     // Player 2 bans from Player 1's heroes (excluding heroes already in Player 1's pool)
     const player1PoolNames = player1DraftPool.map(h => h.name);
     const player1HeroesAvailable = player1OwnedHeroes.filter(h => !player1PoolNames.includes(h.name));
-    const shuffledPlayer1Heroes = shuffleArray([...player1HeroesAvailable]);
+    const shuffledPlayer1Heroes = this.withGameRng(game, () => shuffleArray([...player1HeroesAvailable]));
     const player2DraftPool = shuffledPlayer1Heroes.slice(0, 5);
     
     console.log('🎴 Player 1 draft pool (from Player 2 heroes):', player1DraftPool.map(h => `${h.name} (HP: ${h.HP})`));
@@ -618,6 +1249,17 @@ class GameManager {
     
     console.log('Draft started - Player 1 cards:', game.draftCards.player1);
     console.log('Draft started - Player 2 cards:', game.draftCards.player2);
+
+    this.refreshActionTimer(game);
+    this.persistGame(game.id);
+  }
+
+  // Username and owned heroes for a drafting player; AI opponents own every enabled hero
+  async getDraftCollection(player) {
+    if (player.isAI) {
+      return { username: player.name, available_heroes: this.heroes.map(h => h.name) };
+    }
+    return this.database.getUserById(player.userId);
   }
 
   async startRandomMode(gameId) {
@@ -653,8 +1295,8 @@ class GameManager {
     }
     
     // Select 3 random heroes for each player from their own collection
-    const shuffledPlayer1Heroes = shuffleArray([...player1OwnedHeroes]);
-    const shuffledPlayer2Heroes = shuffleArray([...player2OwnedHeroes]);
+    const shuffledPlayer1Heroes = this.withGameRng(game, () => shuffleArray([...player1OwnedHeroes]));
+    const shuffledPlayer2Heroes = this.withGameRng(game, () => shuffleArray([...player2OwnedHeroes]));
     const selectedHeroes = [
       ...shuffledPlayer1Heroes.slice(0, 3),
       ...shuffledPlayer2Heroes.slice(0, 3)
@@ -685,9 +1327,9 @@ class GameManager {
       player.hasUsedAttack = false;
       player.hasUsedAbility = false;
       player.usedAbilities = [];
-      // Initialize Monk's attack count properly - only for the current active hero
+      // Initialize the follow-up attack count (Monk) - only for the current active hero
       const currentHero = player.team[player.currentHeroIndex];
-      player.monkAttacksRemaining = currentHero && currentHero.name === 'Monk' ? 1 : 0;
+      player.monkAttacksRemaining = this.grantsFollowUpAttacks(currentHero) ? 1 : 0;
     });
 
     // Initialize new turn system  
@@ -697,16 +1339,21 @@ class GameManager {
 
     console.log('🎲 startRandomMode - Initialized turn system: Player', firstPlayerIndex, 'goes first');
 
-    // Apply passive effects from specials
-    this.applyPassiveEffects(game);
+    this.withGameRng(game, () => {
+      // Apply passive effects from specials
+      this.applyPassiveEffects(game);
 
-    // Apply first player disadvantage - disable first hero's ability
-    this.applyFirstPlayerDisadvantage(game, firstPlayerIndex);
+      // Apply first player disadvantage - disable first hero's ability
+      this.applyFirstPlayerDisadvantage(game, firstPlayerIndex);
 
-    // Process turn start effects for the first hero to go (important for heroes like Plague Spreader)
-    const firstPlayer = game.players[firstPlayerIndex];
-    const firstHero = firstPlayer.team[0];
-    this.processTurnStartEffects(game, firstHero, firstPlayer);
+      // Process turn start effects for the first hero to go (important for heroes like Plague Spreader)
+      const firstPlayer = game.players[firstPlayerIndex];
+      const firstHero = firstPlayer.team[0];
+      this.processTurnStartEffects(game, firstHero, firstPlayer);
+    });
+
+    this.startReplayRecording(game);
+    this.refreshActionTimer(game);
 
     console.log('Random mode started - Player 1 heroes:', game.players[0].team.map(h => h.name));
     console.log('Random mode started - Player 2 heroes:', game.players[1].team.map(h => h.name));
@@ -1004,9 +1651,9 @@ class GameManager {
       player.hasUsedAttack = false;
       player.hasUsedAbility = false;
       player.usedAbilities = [];
-      // Initialize Monk's attack count properly - only for the current active hero
+      // Initialize the follow-up attack count (Monk) - only for the current active hero
       const currentHero = player.team[player.currentHeroIndex];
-      player.monkAttacksRemaining = currentHero && currentHero.name === 'Monk' ? 1 : 0;
+      player.monkAttacksRemaining = this.grantsFollowUpAttacks(currentHero) ? 1 : 0;
     });
 
     // Initialize new turn system
@@ -1016,6 +1663,9 @@ class GameManager {
 
     console.log('🎲 chooseTurnOrder - Initialized turn system: Player', firstPlayerIndex, 'goes first');
 
+    // Specials that settle something before the first turn (Mime's Unique Duplicate)
+    this.processMatchStartSpecials(game);
+
     // Apply passive effects from specials
     this.applyPassiveEffects(game);
 
@@ -1027,6 +1677,8 @@ class GameManager {
     const firstHero = firstPlayer.team[0];
     this.processTurnStartEffects(game, firstHero, firstPlayer);
 
+    this.startReplayRecording(game);
+
     return {
       success: true,
       gameId,
@@ -1054,11 +1706,8 @@ class GameManager {
       player.team.forEach(sourceHero => {
         if (sourceHero.currentHP <= 0) return; // Dead heroes don't provide buffs (except permanent ones)
         
-        // Handle Special being either an array or a single object
-        const specials = Array.isArray(sourceHero.Special) ? sourceHero.Special : [sourceHero.Special];
-        
-        specials.forEach(special => {
-          if (!special || !special.effects) return; // Skip if no special or no effects
+        getSpecials(sourceHero).forEach(special => {
+          if (!special.effects) return;
           
           debugLog(` Processing ${sourceHero.name}'s special: ${special.name} (category: ${special.category})`);
           
@@ -1092,10 +1741,8 @@ class GameManager {
       player.team.forEach(sourceHero => {
         if (sourceHero.currentHP <= 0) return; // Dead heroes don't provide buffs
         
-        const specials = Array.isArray(sourceHero.Special) ? sourceHero.Special : [sourceHero.Special];
-        
-        specials.forEach(special => {
-          if (!special || !special.effects) return;
+        getSpecials(sourceHero).forEach(special => {
+          if (!special.effects) return;
           
           special.effects.forEach(effect => {
             if (effect.type === 'apply_buff' && effect.aura === true && effect.effect === 'set_defense_to_self') {
@@ -1112,74 +1759,17 @@ class GameManager {
       player.team.forEach(hero => {
         if (hero.currentHP <= 0) return; // Skip dead heroes
         
-        // Add Beast Active buff
-        if (hero.name === 'Beast Tamer' && hero.statusEffects && hero.statusEffects.beast_active) {
-          if (!hero.passiveBuffs) hero.passiveBuffs = [];
-          hero.passiveBuffs.push({
-            name: 'Beast Active',
-            sourceName: 'Beast Tamer',
-            description: 'Beast is summoned and ready to command',
-            type: 'status'
-          });
-        }
-        
-        // Add Totem Count buff
-        if (hero.name === 'Shaman' && hero.statusEffects && hero.statusEffects.totem_count > 0) {
-          if (!hero.passiveBuffs) hero.passiveBuffs = [];
-          const totemCount = hero.statusEffects.totem_count;
-          hero.passiveBuffs.push({
-            name: `Totems (${totemCount})`,
-            sourceName: 'Shaman',
-            description: `${totemCount} Totem${totemCount > 1 ? 's' : ''} summoned - next ability deals ${totemCount}D4 damage`,
-            type: 'status',
-            value: totemCount
-          });
-        }
-
-        // Add Turret Count buff for Engineer (handled in processEngineerAbility now)
-        // Keeping this for backward compatibility in case turrets exist without immediate buff
-        if (hero.name === 'Engineer' && hero.statusEffects && hero.statusEffects.turret_count > 0) {
-          if (!hero.passiveBuffs) hero.passiveBuffs = [];
-          
-          // Check if turret buff already exists (added by processEngineerAbility)
-          const existingTurretBuff = hero.passiveBuffs.find(buff => buff.name && buff.name.startsWith('Turrets'));
-          if (!existingTurretBuff) {
-            const turretCount = hero.statusEffects.turret_count;
-            hero.passiveBuffs.push({
-              name: `Turrets (${turretCount})`,
-              sourceName: 'Engineer',
-              description: `${turretCount} Mechanical Turret${turretCount > 1 ? 's' : ''} active - deal${turretCount === 1 ? 's' : ''} 1D4 damage per turret at end of turn`,
-              type: 'status',
-              value: turretCount
-            });
-          }
-        }
-        
-        // Add Med Bot buff for Medic (backward compatibility)
-        if (hero.name === 'Medic' && hero.statusEffects && hero.statusEffects.med_bot_count > 0) {
-          if (!hero.passiveBuffs) hero.passiveBuffs = [];
-          
-          // Check if med bot buff already exists (added by processMedicAbility)
-          const existingMedBotBuff = hero.passiveBuffs.find(buff => buff.name && buff.name.startsWith('Med Bots'));
-          if (!existingMedBotBuff) {
-            const medBotCount = hero.statusEffects.med_bot_count;
-            hero.passiveBuffs.push({
-              name: `Med Bots (${medBotCount})`,
-              sourceName: 'Medic',
-              description: `${medBotCount} med bot${medBotCount > 1 ? 's' : ''} active - heal${medBotCount === 1 ? 's' : ''} lowest HP ally ${medBotCount}D4 at end of turn`,
-              type: 'status',
-              value: medBotCount
-            });
-          }
+        // Add summon buffs (like Beast Active, Totems, Turrets, Med Bots)
+        for (const summon of getSummonEffects(hero)) {
+          upsertSummonBuff(hero, summon);
         }
         
-        // Add Arcane Shield available status for Wizard
-        if (hero.name === 'Wizard' && hero.currentHP > 0) {
-          // Initialize Arcane Shield status if not already set
+        // Show a once-per-battle damage shield (Wizard's Arcane Shield) until it's spent
+        const shield = getSpecials(hero).find(special =>
+          special.frequency === 'once_per_battle' && special.effects?.some(effect => effect.type === 'negate_damage'));
+        if (shield && !this.isSpecialSpent(hero, shield)) {
           if (!hero.statusEffects) hero.statusEffects = {};
-          if (!hero.statusEffects.arcaneShieldUsed) {
-            hero.statusEffects.arcaneShieldAvailable = true;
-          }
+          hero.statusEffects.arcaneShieldAvailable = true;
         }
       });
     });
@@ -1524,6 +2114,12 @@ class GameManager {
       }
     }
 
+    // A stat set outright (Agent's Master Plan) ignores every modifier above
+    if (hero.statOverrides && hero.statOverrides.Defense !== undefined) {
+      hero.modifiedDefense = hero.statOverrides.Defense;
+      debugLog(` ${hero.name} Defense set to ${hero.modifiedDefense}`);
+    }
+
     // If no other buffs, return early after Defense processing
     if (!hero.passiveBuffs || hero.passiveBuffs.length === 0) return;
 
@@ -1551,29 +2147,6 @@ class GameManager {
     }
   }
 
-  // Helper method to check if a hero has a specific special effect
-  hasSpecialEffect(hero, effectName) {
-    if (!hero.Special) return false;
-    
-    const specials = Array.isArray(hero.Special) ? hero.Special : [hero.Special];
-    
-    return specials.some(special => {
-      if (!special.effects) return false;
-      return special.effects.some(effect => {
-        switch (effectName) {
-          case 'disable_basic_attack':
-            return effect.type === 'disable_basic_attack';
-          case 'use_twice_per_turn':
-            return effect.type === 'modify_ability_usage' && effect.effect === 'use_twice_per_turn';
-          case 'attack_twice':
-            return effect.type === 'modify_attack_frequency' && effect.effect === 'attack_twice';
-          default:
-            return false;
-        }
-      });
-    });
-  }
-
   // Check if an attack should have advantage/disadvantage based on hero abilities and status effects
   hasAdvantageDisadvantage(attacker, target = null, isAbility = false, game = null, excludeAdvantageFrom = null) {
     let advantageCount = 0;
@@ -1581,107 +2154,31 @@ class GameManager {
     const advantageReasons = [];
     const disadvantageReasons = [];
 
-    // Handle Special being either an array or a single object
-    const specials = Array.isArray(attacker.Special) ? attacker.Special : [attacker.Special];
-    
-    specials.forEach(special => {
-      if (!special || !special.effects) return;
-      
-      // Skip conditional effects - they should only be processed in the conditional section
-      if (special.condition) return;
-      
-      special.effects.forEach(effect => {
-        // Persistent advantage (like Ranger's Eagle Eye)
-        if (effect.type === 'grant_advantage') {
-          // Skip effects that target others (like Timekeeper's Haste which targets adjacent_allies)
-          if (effect.target && effect.target !== 'self' && effect.target !== 'self_only') {
-            return;
-          }
-          // Check if this effect is restricted to attacks only
-          if (effect.scope === 'attacks_only' && isAbility) {
-            // This advantage only applies to attacks, not abilities
-            return;
-          }
-          // Check if this effect is restricted to abilities only
-          if (effect.scope === 'abilities_only' && !isAbility) {
-            // This advantage only applies to abilities, not attacks
-            return;
-          }
-          advantageCount++;
-          advantageReasons.push(`${special.name} (persistent)`);
-        }
-        
-        // Persistent disadvantage
-        if (effect.type === 'grant_disadvantage') {
-          // Skip effects that target others
-          if (effect.target && effect.target !== 'self' && effect.target !== 'self_only') {
-            return;
-          }
-          // Check if this effect is restricted to attacks only
-          if (effect.scope === 'attacks_only' && isAbility) {
-            // This disadvantage only applies to attacks, not abilities
-            return;
-          }
-          // Check if this effect is restricted to abilities only
-          if (effect.scope === 'abilities_only' && !isAbility) {
-            // This disadvantage only applies to abilities, not attacks
-            return;
-          }
-          disadvantageCount++;
-          disadvantageReasons.push(`${special.name} (persistent)`);
-        }
-      });
-    });
+    // Count the advantage / disadvantage from one hero's specials whose effects aim at
+    // `effectTargets`, while the special's (and effect's) condition holds for that hero
+    const countSpecials = (owner, opponent, effectTargets, describe) => {
+      for (const special of getSpecials(owner)) {
+        if (special.condition && !evaluateEffectCondition(special.condition, { caster: owner }, opponent)) continue;
 
-    // Conditional advantage based on hero state
-    specials.forEach(special => {
-      if (!special || !special.condition) return;
-      
-      // Fighter's Desperate Blows: Below 10 HP, ONLY attacks have advantage (not abilities)
-      if (special.condition === 'self_hp_lt_10' && attacker.currentHP < 10) {
-        special.effects.forEach(effect => {
-          if (effect.type === 'grant_advantage') {
-            // Check if this effect is restricted to attacks only
-            if (effect.scope === 'attacks_only' && isAbility) {
-              // This advantage only applies to attacks, not abilities
-              return;
-            }
-            advantageCount++;
-            advantageReasons.push(`${special.name} (low HP)`);
-          }
-          if (effect.type === 'grant_disadvantage') {
-            // Check if this effect is restricted to attacks only
-            if (effect.scope === 'attacks_only' && isAbility) {
-              // This disadvantage only applies to attacks, not abilities
-              return;
-            }
-            disadvantageCount++;
-            disadvantageReasons.push(`${special.name} (low HP)`);
-          }
-        });
-      }
-      
-      // Piercer's Armor Breaker: Against high Defense targets, gain advantage
-      if ((special.condition === 'target_defense_gte_9' && target && calculateEffectiveDefense(target) >= 9) ||
-          (special.condition === 'target_defense_gt_8' && target && calculateEffectiveDefense(target) > 8)) {
-        special.effects.forEach(effect => {
-          if (effect.type === 'grant_advantage') {
+        for (const effect of special.effects || []) {
+          const handler = getEffectHandler(effect.type);
+          if (!handler?.rollModifier || !effectTargets.includes(effect.target)) continue;
+          if (effect.condition && !evaluateEffectCondition(effect.condition, { caster: owner }, opponent)) continue;
+
+          const modifier = handler.rollModifier(effect, isAbility);
+          if (modifier === 'advantage') {
             advantageCount++;
-            advantageReasons.push(`${special.name} (high AC target)`);
-          }
-          if (effect.type === 'grant_disadvantage') {
+            advantageReasons.push(describe(special));
+          } else if (modifier === 'disadvantage') {
             disadvantageCount++;
-            disadvantageReasons.push(`${special.name} (high AC target)`);
+            disadvantageReasons.push(describe(special));
           }
-        });
+        }
       }
-    });
+    };
 
-    // Beast Tamer's Pack Tactics: Basic attacks (not abilities) have advantage while the beast is summoned
-    if (!isAbility && attacker.name === 'Beast Tamer' && attacker.statusEffects && attacker.statusEffects.beast_active) {
-      advantageCount++;
-      advantageReasons.push('Pack Tactics (beast active)');
-    }
+    // The attacker's own specials (Ranger's Eagle Eye, Fighter's Desperate Blows, Piercer's Armor Breaker)
+    countSpecials(attacker, target, [undefined, 'self', 'self_only'], special => special.name);
 
     // Check for temporary advantage from status effects (like Cleric's Guiding Bolt)
     if (target && target.statusEffects && target.statusEffects.grantAdvantage) {
@@ -1689,28 +2186,19 @@ class GameManager {
       advantageReasons.push(`Guiding Bolt effect (from ${target.statusEffects.grantAdvantage.source})`);
     }
 
-    // Silencer's Anti-Magic Field: Enemies attacking Silencer have disadvantage on their ability rolls
-    if (isAbility && target && target.name === 'Silencer' && target.currentHP > 0 && game) {
-      // Check if attacker is an enemy of Silencer (not the same player)
-      const silencerPlayer = game.players.find(p => p.team.some(h => h.name === 'Silencer'));
-      const attackerPlayer = game.players.find(p => p.team.some(h => h.name === attacker.name));
-      
-      debugLog(` Anti-Magic Field check: ${attacker.name} → ${target.name}`);
-      debugLog(` Silencer player: ${silencerPlayer?.id}, Attacker player: ${attackerPlayer?.id}`);
-      debugLog(` Same player? ${silencerPlayer === attackerPlayer}`);
-      
-      if (silencerPlayer && attackerPlayer && silencerPlayer !== attackerPlayer) {
-        const silencerSpecial = Array.isArray(target.Special) ? target.Special : [target.Special];
-        for (const special of silencerSpecial) {
-          if (special && special.name === 'Anti-Magic Field') {
-            debugLog(` Anti-Magic Field activated: ${attacker.name} has disadvantage against ${target.name}`);
-            disadvantageCount++;
-            disadvantageReasons.push(`${target.name}'s Anti-Magic Field (enemy ability targeted at Silencer)`);
-            break;
-          }
-        }
-      } else {
-        debugLog(` Anti-Magic Field NOT activated: Same player or missing player data`);
+    // Advantage an ally granted for the attacker's next roll (Bard's Song of Valor, Arcanist's Enhance spells)
+    const nextRoll = attacker.statusEffects?.nextRollAdvantage;
+    if (nextRoll && getEffectHandler('grant_advantage').rollModifier(nextRoll, isAbility)) {
+      advantageCount++;
+      advantageReasons.push(`next roll advantage (from ${nextRoll.source})`);
+    }
+
+    // The target's specials aimed at whoever attacks it (Silencer's Anti-Magic Field)
+    if (target && target.currentHP > 0 && game) {
+      const targetPlayer = game.players.find(p => p.team.includes(target));
+      const attackerPlayer = game.players.find(p => p.team.includes(attacker));
+      if (targetPlayer && attackerPlayer && targetPlayer !== attackerPlayer) {
+        countSpecials(target, attacker, ['attacker', 'enemies_targeting_owner'], special => `${target.name}'s ${special.name}`);
       }
     }
 
@@ -1731,40 +2219,18 @@ class GameManager {
                 return;
               }
               
-              // Check if adjacent ally has team aura that grants advantage
-              const allySpecials = Array.isArray(adjacentAlly.Special) ? adjacentAlly.Special : [adjacentAlly.Special];
-              allySpecials.forEach(special => {
-                if (special && special.category === 'team_aura' && special.effects) {
-                  special.effects.forEach(effect => {
-                    if (effect.type === 'grant_advantage' && effect.target === 'adjacent_allies') {
-                      // Check if this effect is restricted to abilities only
-                      if (effect.scope === 'abilities_only' && !isAbility) {
-                        return;
-                      }
-                      advantageCount++;
-                      advantageReasons.push(`${adjacentAlly.name}'s ${special.name} (adjacent ally)`);
-                    }
-                    if (effect.type === 'grant_disadvantage' && effect.target === 'adjacent_allies') {
-                      // Check if this effect is restricted to abilities only
-                      if (effect.scope === 'abilities_only' && !isAbility) {
-                        return;
-                      }
-                      disadvantageCount++;
-                      disadvantageReasons.push(`${adjacentAlly.name}'s ${special.name} (adjacent ally)`);
-                    }
-                  });
-                }
-              });
+              countSpecials(adjacentAlly, target, ['adjacent_allies'], special => `${adjacentAlly.name}'s ${special.name} (adjacent ally)`);
             }
           }
         });
       }
     }
 
-    // Cavalier's Ride Down: All attacks (not abilities) against debuffed enemies have advantage
+    // Vulnerability debuffs (Cavalier's Ride Down): all attacks (not abilities) against the target have advantage
     if (!isAbility && target && target.statusEffects && target.statusEffects.rideDownDebuff) {
+      const debuff = target.statusEffects.rideDownDebuff;
       advantageCount++;
-      advantageReasons.push(`Cavalier's Ride Down (target debuffed)`);
+      advantageReasons.push(`${debuff.source}'s ${debuff.specialName || 'debuff'} (target debuffed)`);
     }
 
     // Calculate net advantage/disadvantage
@@ -1803,7 +2269,7 @@ class GameManager {
   }
 
   // Consume advantage effects after an attack
-  consumeAdvantageEffects(attacker, target) {
+  consumeAdvantageEffects(attacker, target, isAbility = false) {
     if (target && target.statusEffects && target.statusEffects.grantAdvantage) {
       const effect = target.statusEffects.grantAdvantage;
       if (effect.duration_unit === 'attack' || effect.duration_unit === 'any_roll') {
@@ -1811,6 +2277,12 @@ class GameManager {
         delete target.statusEffects.grantAdvantage;
       }
     }
+    
+    const nextRoll = attacker.statusEffects?.nextRollAdvantage;
+    if (nextRoll && getEffectHandler('grant_advantage').rollModifier(nextRoll, isAbility)) {
+      debugLog(` ${attacker.name} used the advantage from ${nextRoll.source}`);
+      delete attacker.statusEffects.nextRollAdvantage;
+    }
   }
 
   // Method to reapply passive effects when a hero dies (to remove non-permanent buffs)
@@ -1830,96 +2302,72 @@ class GameManager {
     }
     deadHero.deathProcessed = true;
     
-    // Check for Angel's Resurrection FIRST - before any death processing
-    // Don't resurrect Angel itself, and exclude certain death causes
-    if (deadHero.name !== 'Angel' && deathCause !== 'health_link_reflection') {
-      const wasResurrected = this.processAngelResurrection(game, deadHero, killer);
+    // Check for revive specials FIRST - before any death processing (Angel's Resurrect)
+    if (deathCause !== 'health_link_reflection') {
+      const wasResurrected = this.processReviveSpecials(game, deadHero);
       if (wasResurrected) {
-        debugLog(` ${deadHero.name} was resurrected by Angel - aborting death processing`);
+        debugLog(` ${deadHero.name} was resurrected - aborting death processing`);
         deadHero.deathProcessed = false; // Reset flag since hero was resurrected
         return; // Hero was resurrected, don't process death
       }
     }
     
-    // Reset totem count if Shaman dies
-    if (deadHero.name === 'Shaman' && deadHero.statusEffects && deadHero.statusEffects.totem_count > 0) {
-      console.log(`🏺 ${deadHero.name} died - all ${deadHero.statusEffects.totem_count} totems are destroyed`);
-      deadHero.statusEffects.totem_count = 0;
-    }
-
-    // Reset turret count if Engineer dies
-    if (deadHero.name === 'Engineer' && deadHero.statusEffects && deadHero.statusEffects.turret_count > 0) {
-      console.log(`🔧 ${deadHero.name} died - all ${deadHero.statusEffects.turret_count} turrets are destroyed`);
-      deadHero.statusEffects.turret_count = 0;
-    }
-    
-    // Reset med bot count if Medic dies
-    if (deadHero.name === 'Medic' && deadHero.statusEffects && deadHero.statusEffects.med_bot_count > 0) {
-      console.log(`💉 ${deadHero.name} died - all ${deadHero.statusEffects.med_bot_count} med bots are destroyed`);
-      deadHero.statusEffects.med_bot_count = 0;
+    // Summoned units (totems, turrets, med bots, ...) are destroyed with their owner
+    if (deadHero.statusEffects) {
+      for (const summon of getSummonEffects(deadHero)) {
+        const key = summonCounterKey(summon);
+        if (deadHero.statusEffects[key]) {
+          console.log(`🏺 ${deadHero.name} died - all summoned ${summon.unit} units are destroyed`);
+          deadHero.statusEffects[key] = summon.flag ? false : 0;
+        }
+      }
     }
     
-    // Check for death trigger effects (like Bomber's Self Destruct)
-    if (deadHero.Special && killer && deathCause !== 'poison') {
-      const specials = Array.isArray(deadHero.Special) ? deadHero.Special : [deadHero.Special];
-      
-      for (const special of specials) {
-        if (special.trigger === 'on_death') {
-          debugLog(` ${deadHero.name}'s ${special.name} activated on death!`);
-          
-          for (const effect of special.effects) {
-            if (effect.type === 'damage' && effect.target === 'killer') {
-              // Deal damage to the killer
-              const { rollDiceString } = require('./utils');
-              const damageRoll = rollDiceString(effect.value);
-              const actualDamage = Math.max(0, damageRoll.total || 0);
-              
-              debugLog(` ${special.name}: ${deadHero.name} deals ${actualDamage} damage to ${killer.name} from beyond the grave!`);
-              
-              // Ensure currentHP is a number before calculation
-              const currentHP = typeof killer.currentHP === 'number' ? killer.currentHP : 0;
-              killer.currentHP = Math.max(0, currentHP - actualDamage);
-              
-              // Check HP-based conditions after taking damage
-              this.checkHPConditions(game, killer);
-              
-              // Create simple comprehensive entry for death trigger
-              const deathTriggerLogEntry = {
-                type: 'special_damage',
-                caster: deadHero.name,
-                specialName: special.name,
-                target: killer.name,
-                message: `${deadHero.name}'s ${special.name} deals ${actualDamage} damage to ${killer.name}`,
-                hit: true,
-                damage: actualDamage,
-                damageRoll: damageRoll.rolls,
-                isSpecial: true
-              };
-              
-              // Add battle log entry for death trigger special
-              if (!game.deathTriggerEffects) {
-                game.deathTriggerEffects = [];
-              }
-              game.deathTriggerEffects.push(deathTriggerLogEntry);
-              
-              // Also add to main battle log for persistence
-              if (!game.battleLog) {
-                game.battleLog = [];
-              }
-              game.battleLog.push(deathTriggerLogEntry);
-              
-              if (killer.currentHP <= 0) {
-                debugLog(` ${killer.name} died from ${deadHero.name}'s ${special.name}!`);
-                // Mark that this death was from Bomber explosion (so we don't auto-advance turn)
-                killer.diedFromBomberExplosion = true;
-                // Recursively handle killer's death (but prevent infinite loops)
-                if (killer.name !== deadHero.name) {
-                  this.updatePassiveEffectsOnDeath(game, killer, null, 'retaliation');
-                }
-              }
-            }
+    // Check for death trigger effects aimed at the killer (like Bomber's Explosion)
+    if (killer && deathCause !== 'poison') {
+      const special = getSpecials(deadHero).find(s => s.trigger === 'on_death');
+      if (special) {
+        debugLog(` ${deadHero.name}'s ${special.name} activated on death!`);
+        const killerWasAlive = killer.currentHP > 0;
+        const ctx = { gm: this, game, owner: deadHero, killer, deathCause: 'retaliation' };
+        const effects = fireSpecial(ctx, { ...special, effects: (special.effects || []).filter(effect => effect.target === 'killer') });
+        const deathTriggerLogEntries = effects.filter(effect => effect.type === 'damage').map(result => ({
+          // Create simple comprehensive entry for death trigger
+          type: 'special_damage',
+          caster: deadHero.name,
+          specialName: special.name,
+          target: result.target,
+          message: `${deadHero.name}'s ${special.name} deals ${result.damage} damage to ${result.target}`,
+          hit: true,
+          damage: result.damage,
+          damageRoll: result.damageRoll.rolls,
+          isSpecial: true
+        }));
+        
+        // Anything else the special did to the killer (Hacker's System Failure)
+        const otherEffects = effects.filter(effect => effect.type !== 'damage');
+        if (otherEffects.length > 0) {
+          deathTriggerLogEntries.push(this.createSpecialLogEntry(deadHero, special.name, null, null, otherEffects));
+        }
+
+        for (const deathTriggerLogEntry of deathTriggerLogEntries) {
+          // Add battle log entry for death trigger special
+          if (!game.deathTriggerEffects) {
+            game.deathTriggerEffects = [];
           }
-          break; // Only trigger once
+          game.deathTriggerEffects.push(deathTriggerLogEntry);
+
+          // Also add to main battle log for persistence
+          if (!game.battleLog) {
+            game.battleLog = [];
+          }
+          game.battleLog.push(deathTriggerLogEntry);
+        }
+
+        if (killerWasAlive && killer.currentHP <= 0) {
+          debugLog(` ${killer.name} died from ${deadHero.name}'s ${special.name}!`);
+          // Mark that this death was from a death trigger (so we don't auto-advance turn)
+          killer.diedFromBomberExplosion = true;
         }
       }
     }
@@ -1933,182 +2381,47 @@ class GameManager {
     });
 
     if (deadHeroTeam) {
-      // Check for Champion's Last Stand scaling
+      // Specials that scale with fallen allies (Champion's Last Stand)
       deadHeroTeam.forEach(hero => {
-        if (hero.currentHP > 0 && hero.Special && hero.name !== deadHero.name) {
-          const specials = Array.isArray(hero.Special) ? hero.Special : [hero.Special];
-          const lastStandSpecial = specials.find(special => 
-            special.name === 'Last Stand' && special.scale_with === 'fallen_allies'
-          );
-          
-          if (lastStandSpecial) {
-            // Count fallen allies (excluding the champion itself)
-            const fallenAllies = deadHeroTeam.filter(ally => ally.currentHP <= 0 && ally !== hero).length;
-            
-            debugLog(` ${hero.name}'s Last Stand: ${fallenAllies} fallen allies`);
-            
-            // Initialize scaling buffs if not present
-            if (!hero.scalingBuffs) {
-              hero.scalingBuffs = {};
-            }
-            
-            // Apply scaling buffs based on fallen allies
-            for (const effect of lastStandSpecial.effects) {
-              if (effect.type === 'stat_modifier' && effect.stat === 'Defense') {
-                const defenseBonus = effect.value_per_stack * fallenAllies;
-                hero.scalingBuffs.defense = defenseBonus;
-                console.log(`  🛡️ ${hero.name} gains +${defenseBonus} Defense from Last Stand`);
-              } else if (effect.type === 'damage_modifier') {
-                const damageBonus = fallenAllies; // Each fallen ally adds 1D6
-                hero.scalingBuffs.damage = damageBonus;
-                console.log(`  ⚔️ ${hero.name} gains +${damageBonus}D6 damage from Last Stand`);
-              }
-            }
-            
-            // Update hero's display stats to show the new damage
-            this.updateHeroDisplayStats(hero);
+        if (hero.currentHP <= 0 || hero === deadHero) return;
+        for (const special of getSpecials(hero)) {
+          if (special.scale_with !== 'fallen_allies') continue;
+
+          // Count fallen allies (excluding the hero itself)
+          const fallenAllies = deadHeroTeam.filter(ally => ally.currentHP <= 0 && ally !== hero).length;
+          debugLog(` ${hero.name}'s ${special.name}: ${fallenAllies} fallen allies`);
+
+          if (!hero.scalingBuffs) {
+            hero.scalingBuffs = {};
           }
-        }
-      });
-      
-      // Check for Hoarder's Collect Weapons - copy attack dice from any fallen hero (not just allies)
-      debugLog(` Checking for Hoarder in same team as ${deadHero.name}...`);
-      deadHeroTeam.forEach(hero => {
-        console.log(`  🔍 Checking ${hero.name}: alive=${hero.currentHP > 0}, isHoarder=${hero.name === 'Hoarder'}`);
-        if (hero.currentHP > 0 && hero.name === 'Hoarder' && hero.Special) {
-          const specials = Array.isArray(hero.Special) ? hero.Special : [hero.Special];
-          const collectWeaponsSpecial = specials.find(special => 
-            special.name === 'Collect Weapons' && special.trigger === 'on_any_death'
-          );
-          
-          console.log(`  🔍 Hoarder found! Has Collect Weapons special: ${!!collectWeaponsSpecial}`);
-          
-          if (collectWeaponsSpecial && deadHero.name !== 'Hoarder') {
-            // Skip heroes without basic attacks (like Assassin with '—')
-            if (!deadHero.BasicAttack || deadHero.BasicAttack === '—' || deadHero.BasicAttack === '-') {
-              debugLog(` ${hero.name}'s Collect Weapons: ${deadHero.name} has no basic attack to collect`);
-              return;
-            }
-            
-            debugLog(` ${hero.name}'s Collect Weapons: ${deadHero.name} has fallen!`);
-            
-            // Initialize scaling buffs if not present
-            if (!hero.scalingBuffs) {
-              hero.scalingBuffs = {};
-            }
-            if (!hero.scalingBuffs.collectedDice) {
-              hero.scalingBuffs.collectedDice = [];
-            }
-            
-            // Get the dead hero's current attack dice (including any buffs like Champion's stacks)
-            let attackDice = deadHero.BasicAttack;
-            
-            // If the dead hero has scaling damage buffs (like Champion with Last Stand), include them
-            if (deadHero.scalingBuffs && deadHero.scalingBuffs.damage) {
-              const bonusDice = deadHero.scalingBuffs.damage;
-              console.log(`  💎 ${deadHero.name} had +${bonusDice}D6 from scaling buffs - Hoarder copies all dice!`);
-              // Add the bonus dice to the base attack
-              attackDice = `${attackDice}+${bonusDice}D6`;
-            }
-            
-            // Store the collected dice
-            hero.scalingBuffs.collectedDice.push({
-              from: deadHero.name,
-              dice: attackDice,
-              timestamp: Date.now()
-            });
-            
-            console.log(`  ⚔️ ${hero.name} collects ${attackDice} from ${deadHero.name}! Total collected: ${hero.scalingBuffs.collectedDice.length}`);
-            console.log(`  📋 Current collected dice:`, hero.scalingBuffs.collectedDice.map(c => `${c.dice} from ${c.from}`).join(', '));
-            
-            // Update hero's display stats to show the new damage
-            this.updateHeroDisplayStats(hero);
+          for (const effect of special.effects || []) {
+            getEffectHandler(effect.type)?.scale?.(hero, effect, fallenAllies);
           }
+
+          // Update hero's display stats to show the new damage
+          this.updateHeroDisplayStats(hero);
         }
       });
     }
-    
-    // Also check opponent's team for Hoarder (cross-team collection)
-    debugLog(` Checking for Hoarder in opponent's team for ${deadHero.name}'s death...`);
+
+    // Specials that react to any hero falling, on either team (Hoarder's Collect Weapons)
     game.players.forEach(player => {
       player.team.forEach(hero => {
-        if (hero.currentHP > 0 && hero.name === 'Hoarder') {
-          console.log(`  🔍 Found Hoarder in opponent team, checking if should collect from ${deadHero.name}...`);
-          console.log(`    - Hoarder !== deadHero: ${hero !== deadHero}`);
-          console.log(`    - Not in same team: ${!deadHeroTeam.includes(hero)}`);
-        }
-        if (hero.currentHP > 0 && hero.name === 'Hoarder' && hero.Special) {
-          const specials = Array.isArray(hero.Special) ? hero.Special : [hero.Special];
-          const collectWeaponsSpecial = specials.find(special => 
-            special.name === 'Collect Weapons' && special.trigger === 'on_any_death'
-          );
-          
-          if (collectWeaponsSpecial && deadHero.name !== 'Hoarder' && hero !== deadHero && !deadHeroTeam.includes(hero)) {
-            // Skip heroes without basic attacks (like Assassin with '—')
-            if (!deadHero.BasicAttack || deadHero.BasicAttack === '—' || deadHero.BasicAttack === '-') {
-              debugLog(` ${hero.name}'s Collect Weapons: Enemy ${deadHero.name} has no basic attack to collect`);
-              return;
-            }
-            
-            debugLog(` ${hero.name}'s Collect Weapons: Enemy ${deadHero.name} has fallen!`);
-            
-            // Initialize scaling buffs if not present
-            if (!hero.scalingBuffs) {
-              hero.scalingBuffs = {};
-            }
-            if (!hero.scalingBuffs.collectedDice) {
-              hero.scalingBuffs.collectedDice = [];
-            }
-            
-            // Get the dead hero's current attack dice (including any buffs like Champion's stacks)
-            let attackDice = deadHero.BasicAttack;
-            
-            // If the dead hero has scaling damage buffs (like Champion with Last Stand), include them
-            if (deadHero.scalingBuffs && deadHero.scalingBuffs.damage) {
-              const bonusDice = deadHero.scalingBuffs.damage;
-              console.log(`  💎 ${deadHero.name} had +${bonusDice}D6 from scaling buffs - Hoarder copies all dice!`);
-              // Add the bonus dice to the base attack
-              attackDice = `${attackDice}+${bonusDice}D6`;
-            }
-            
-            // Store the collected dice
-            hero.scalingBuffs.collectedDice.push({
-              from: deadHero.name,
-              dice: attackDice,
-              timestamp: Date.now()
-            });
-            
-            console.log(`  ⚔️ ${hero.name} collects ${attackDice} from ${deadHero.name}! Total collected: ${hero.scalingBuffs.collectedDice.length}`);
-            
-            // Update hero's display stats to show the new damage
-            this.updateHeroDisplayStats(hero);
-          }
+        if (hero.currentHP <= 0 || hero === deadHero) return;
+        for (const special of getSpecials(hero)) {
+          if (special.trigger !== 'on_any_death') continue;
+          debugLog(` ${hero.name}'s ${special.name}: ${deadHero.name} has fallen!`);
+          fireSpecial({ gm: this, game, owner: hero, fallen: deadHero }, special);
+          this.updateHeroDisplayStats(hero);
         }
       });
     });
     
+    // Remove non-permanent buffs from the dead hero
+    this.removeAuraBuffs(game, deadHero);
+    
     game.players.forEach(player => {
       player.team.forEach(hero => {
-        if (hero.passiveBuffs) {
-          const originalBuffCount = hero.passiveBuffs.length;
-          
-          // Remove non-permanent buffs from the dead hero
-          hero.passiveBuffs = hero.passiveBuffs.filter(buff => {
-            if (!buff.permanent && buff.sourceHero === deadHero.name) {
-              console.log(`  🚫 Removing ${buff.sourceName} buff (${buff.stat} +${buff.value}) from ${hero.name}`);
-              return false;
-            }
-            return true;
-          });
-          
-          const removedBuffs = originalBuffCount - hero.passiveBuffs.length;
-          if (removedBuffs > 0) {
-            console.log(`  ✨ Updated ${hero.name}: removed ${removedBuffs} aura buffs from ${deadHero.name}`);
-            // Recalculate modified stats after removing buffs
-            this.updateHeroDisplayStats(hero);
-          }
-        }
-        
         // Remove taunt effects applied by the dead hero
         if (hero.statusEffects?.taunt) {
           const taunt = hero.statusEffects.taunt;
@@ -2118,15 +2431,15 @@ class GameManager {
           }
         }
         
-        // Remove Cavalier's Ride Down debuff if the Cavalier died
+        // Remove vulnerability debuffs (Cavalier's Ride Down) once the hero who applied them dies
         if (hero.statusEffects?.rideDownDebuff && hero.statusEffects.rideDownDebuff.source === deadHero.name) {
-          debugLog(` Removing Cavalier's Ride Down debuff from ${hero.name} (Cavalier ${deadHero.name} died)`);
+          debugLog(` Removing ${deadHero.name}'s debuff from ${hero.name} (${deadHero.name} died)`);
           delete hero.statusEffects.rideDownDebuff;
         }
         
-        // Remove Dual Defender's Defense sharing if the Dual Defender died
-        if (deadHero.name === 'Dual Defender' && hero.sharedDefense && hero.sharedDefense.source === deadHero.name) {
-          debugLog(` Removing Dual Defender's Defense sharing from ${hero.name} (Dual Defender died) - restoring original Defense from ${hero.sharedDefense.sharedValue} back to ${hero.sharedDefense.originalDefense}`);
+        // Remove Defense sharing (Dual Defender's Defend) if the hero sharing it died
+        if (hero.sharedDefense && hero.sharedDefense.source === deadHero.name) {
+          debugLog(` Removing ${deadHero.name}'s Defense sharing from ${hero.name} - restoring original Defense from ${hero.sharedDefense.sharedValue} back to ${hero.sharedDefense.originalDefense}`);
           // Restore the original base Defense
           if (hero.Defense !== undefined) {
             hero.Defense = hero.sharedDefense.originalDefense;
@@ -2138,7 +2451,7 @@ class GameManager {
           // Remove the passive buff entry for visual display
           if (hero.passiveBuffs) {
             hero.passiveBuffs = hero.passiveBuffs.filter(buff => 
-              !(buff.sourceHero === deadHero.name && buff.sourceName === 'Defend' && buff.stat === 'Defense')
+              !(buff.sourceHero === deadHero.name && buff.stat === 'Defense')
             );
           }
           
@@ -2150,6 +2463,31 @@ class GameManager {
     });
   }
 
+  // Take away the aura buffs a hero gives while alive and able (its death, Hacker's System Failure)
+  removeAuraBuffs(game, sourceHero) {
+    game.players.forEach(player => {
+      player.team.forEach(hero => {
+        if (!hero.passiveBuffs) return;
+        const originalBuffCount = hero.passiveBuffs.length;
+        
+        hero.passiveBuffs = hero.passiveBuffs.filter(buff => {
+          if (!buff.permanent && buff.sourceHero === sourceHero.name) {
+            console.log(`  🚫 Removing ${buff.sourceName} buff (${buff.stat} +${buff.value}) from ${hero.name}`);
+            return false;
+          }
+          return true;
+        });
+        
+        const removedBuffs = originalBuffCount - hero.passiveBuffs.length;
+        if (removedBuffs > 0) {
+          console.log(`  ✨ Updated ${hero.name}: removed ${removedBuffs} aura buffs from ${sourceHero.name}`);
+          // Recalculate modified stats after removing buffs
+          this.updateHeroDisplayStats(hero);
+        }
+      });
+    });
+  }
+
   basicAttack(playerId, targetId) {
     const gameId = this.playerGameMap.get(playerId);
     const game = this.games.get(gameId);
@@ -2166,19 +2504,18 @@ class GameManager {
     const player = currentTurnInfo.player;
     const currentHero = currentTurnInfo.hero;
     
-    // For Monks, use their specific attack tracking system
-    if (currentHero.name === 'Monk') {
+    const modifiers = getSpecialModifiers(currentHero);
+    
+    // Heroes with follow-up attacks (Monk's One-Two Punch) count the attacks they have left
+    if (this.grantsFollowUpAttacks(currentHero)) {
       if (player.monkAttacksRemaining <= 0) {
         return { success: false, error: 'Cannot use basic attack - no attacks remaining' };
       }
     } else {
-      // For non-Monk heroes, use standard attack tracking
+      // Everyone else uses standard attack tracking
       if (!currentHero || player.hasUsedAttack) {
-        // Check if hero has extra attack per turn (like Berserker's Frenzy or Brawler's Iron Fists)
-        const hasExtraAttack = this.hasConditionalEffect(currentHero, 'extra_attack_per_turn');
-        const hasAttackTwice = this.hasSpecialEffect(currentHero, 'attack_twice');
-        
-        if (!hasExtraAttack && !hasAttackTwice) {
+        // Check if hero can attack more than once per turn (like Berserker's Frenzy or Brawler's Iron Fists)
+        if (!(modifiers.attacksPerTurn > 1)) {
           return { success: false, error: 'Cannot use basic attack' };
         }
         // If hero has extra attack, allow the attack even if hasUsedAttack is true
@@ -2186,7 +2523,7 @@ class GameManager {
     }
 
     // Check if basic attack is disabled
-    if (currentHero.BasicAttack === "—" || hasSpecialEffect(currentHero, 'disable_basic_attack')) {
+    if (currentHero.BasicAttack === "—" || modifiers.basicAttackDisabled) {
       return { success: false, error: 'This hero cannot use basic attacks' };
     }
 
@@ -2227,78 +2564,28 @@ class GameManager {
       }
     }
 
+    // Initialize statusEffects array early to collect all special effects
+    let statusEffects = [];
+    
     // Calculate attack
-    const advantageDisadvantage = this.hasAdvantageDisadvantage(currentHero, target, false, game);
-    const attackRoll = calculateAttackRoll(currentHero.modifiedAccuracy, advantageDisadvantage.advantage, advantageDisadvantage.disadvantage, currentHero);
+    let attackRoll = this.rollAttack(game, currentHero, target, false);
+    let hit = attackRoll.total >= calculateEffectiveDefense(target);
     
-    // Check for Ace's "Ace Up The Sleeve" - convert roll of 1 to auto-hit crit
-    if (currentHero.name === 'Ace' && attackRoll.roll === 1) {
-      console.log(`🃏 ${currentHero.name}'s Ace Up The Sleeve activated! Auto-hit critical!`);
-      attackRoll.total = 999; // Guarantee hit
-      attackRoll.displayTotal = 20; // Show as natural 20 for display purposes
-      attackRoll.isCritical = true;
-      attackRoll.crit = true;
+    // An ally may let a missed attack be rolled again (Bard's Encore)
+    const reroll = hit ? null : this.processMissSpecials(game, currentHero);
+    if (reroll) {
+      statusEffects.push(reroll);
+      attackRoll = this.rollAttack(game, currentHero, target, false);
+      hit = attackRoll.total >= calculateEffectiveDefense(target);
     }
     
-    const hit = attackRoll.total >= calculateEffectiveDefense(target);
-    
-    // Initialize statusEffects array early to collect all special effects
-    let statusEffects = [];
-    
-    // Check for Monk's Deflect protection before damage is dealt
-    let monkDeflected = false;
-    let deflectCounterDamage = 0;
-    let deflectingMonk = null;
-    
-    if (hit && game) {
-      const targetPlayer = game.players.find(p => p.team.some(h => h.name === target.name));
-      if (targetPlayer) {
-        // Look for Monk ally who can deflect this attack
-        const monk = targetPlayer.team.find(h => h.name === 'Monk' && h.currentHP > 0);
-        // Check if attacker can ignore deflect (like Barbarian's Break the Line)
-        const canIgnoreDeflect = this.hasPassiveModifier(currentHero, 'ignore_deflect');
-        // Monk cannot deflect attacks from itself or from heroes with ignore_deflect
-        if (monk && monk.name !== currentHero.name && !canIgnoreDeflect && attackRoll.total < calculateEffectiveDefense(monk) && !targetPlayer.monkDeflectUsed) {
-          // Monk deflects the attack
-          monkDeflected = true;
-          deflectingMonk = monk;
-          targetPlayer.monkDeflectUsed = true; // Mark deflect as used this round
-          
-          // Counter-attack the attacker using centralized damage application
-          const counterDamageRoll = calculateDamage('1D4', false, false, monk);
-          deflectCounterDamage = counterDamageRoll.total;
-          
-          // Use centralized damage application to trigger on_take_damage effects (like Shroomguard's Poison Aura)
-          const onDamageTriggers = this.applyDamageToHero(game, currentHero, deflectCounterDamage, monk, 'Monk Deflect');
-          
-          debugLog(` ${monk.name} deflects attack on ${target.name} (${attackRoll.total} < ${calculateEffectiveDefense(monk)}) and counters for ${deflectCounterDamage} damage`);
-          
-          // Add comprehensive special log entry for Monk Deflect
-          const deflectSpecialLogEntry = this.createSpecialLogEntry(
-            monk, 
-            'Deflect', 
-            null, // No trigger context to avoid "Monk used Deflect" redundancy
-            counterDamageRoll,
-            [
-              {
-                type: 'damage',
-                target: currentHero.name,
-                damage: deflectCounterDamage,
-                damageRoll: counterDamageRoll,
-                newHP: currentHero.currentHP,
-                maxHP: currentHero.HP
-              },
-              ...onDamageTriggers
-            ]
-          );
-          statusEffects.push(deflectSpecialLogEntry);
-          
-          if (currentHero.currentHP <= 0 && !currentHero.statusEffects?.justResurrected) {
-            this.updatePassiveEffectsOnDeath(game, currentHero, monk, 'counter_attack');
-            // Mark that the attacker died from Monk Deflect so we can auto-advance turn
-            currentHero.diedFromCounterAttack = true;
-          }
-        }
+    // Check for an ally protecting the target before damage is dealt (Monk's Deflect)
+    const protection = hit ? this.processHitProtectionSpecials(game, currentHero, target, attackRoll) : null;
+    if (protection) {
+      statusEffects.push(protection.logEntry);
+      if (currentHero.currentHP <= 0) {
+        // Mark that the attacker died from the counter so we can auto-advance turn
+        currentHero.diedFromCounterAttack = true;
       }
     }
     
@@ -2308,8 +2595,9 @@ class GameManager {
     let damage = 0;
     let damageRollResult = null;
     
-    if (hit && !monkDeflected) {
+    if (hit && !protection) {
       damageRollResult = calculateDamage(currentHero.BasicAttack, attackRoll.isCritical, false, currentHero, true);
+      this.applyNextAttackBonus(currentHero, damageRollResult, attackRoll.isCritical);
       damage = damageRollResult.total;
       
       // Process damage reduction specials (like Wizard's Arcane Shield)
@@ -2322,13 +2610,13 @@ class GameManager {
       // Check HP-based conditions after taking damage
       this.checkHPConditions(game, target);
       
-      // Process Angel's Health Link reflection if target is Angel
-      if (target.name === 'Angel' && damage > 0) {
+      // Reflect damage to heroes health-linked to the target (Angel's Health Link)
+      if (damage > 0) {
         this.processHealthLinkReflection(game, target, damage);
       }
       
-      // Check for Paladin Shield of Faith (basic attacks)
-      this.checkPaladinShieldOfFaith(game, currentHero, target, damage);
+      // Let heroes next to the target react (Paladin's Shield of Faith)
+      this.processAdjacentAllyDamagedSpecials(game, currentHero, target, damage);
       
       // Trigger after-damage effects (like Ninja's Vanish)
       const afterDamageSpecials = this.processAfterDamageEffects(game, target, currentHero, damage);
@@ -2338,19 +2626,17 @@ class GameManager {
       const onTakeDamageSpecials = this.processOnTakeDamageEffects(game, target, currentHero, damage);
       statusEffects.push(...onTakeDamageSpecials);
       
-      // Cavalier's Ride Down: Apply debuff to enemies hit by Cavalier (basic attacks and abilities)
-      if (currentHero.name === 'Cavalier' && damage > 0) {
-        if (!target.statusEffects) target.statusEffects = {};
-        target.statusEffects.rideDownDebuff = {
-          source: currentHero.name,
-          maxHP: target.HP // Store original max HP to detect full healing
-        };
-        debugLog(` ${target.name} debuffed by Cavalier's Ride Down (basic attack) - all attacks against them have advantage until healed to full HP`);
+      // Specials that follow up on a hit (Cavalier's Ride Down)
+      if (damage > 0) {
+        this.processDamageDealtSpecials(game, currentHero, target);
       }
       
       // Process hit-confirmed triggers (like Elementalist's Wind Wall)
       this.processHitConfirmedTriggers(game, currentHero, target, 'basic_attack');
       
+      // Allies joining in on the landed attack (Arcanist's Tether Ally)
+      statusEffects.push(...this.processAllyHitSpecials(game, currentHero, target));
+      
       // Check HP-based conditions after taking damage
       this.checkHPConditions(game, target);
       
@@ -2368,28 +2654,27 @@ class GameManager {
     }
 
     // Handle attack usage tracking
-    if (currentHero.name === 'Monk') {
-      // Monk logic: Track total attacks remaining (starts at 1, ability adds 1 more)
+    if (this.grantsFollowUpAttacks(currentHero)) {
+      // Track total attacks remaining (starts at 1, One-Two Punch adds 1 more)
       player.monkAttacksRemaining--;
-      debugLog(` Monk used basic attack. ${player.monkAttacksRemaining} attacks remaining this turn.`);
+      debugLog(` ${currentHero.name} used basic attack. ${player.monkAttacksRemaining} attacks remaining this turn.`);
       
-      // Don't set hasUsedAttack for Monks - they use their own tracking system
+      // Don't set hasUsedAttack here - the counter does the tracking
       // Only set it if they truly have no attacks left (shouldn't happen normally)
       if (player.monkAttacksRemaining <= 0) {
         player.hasUsedAttack = true;
       }
     } else {
-      // Check if hero can attack multiple times (like Berserker's Frenzy or Brawler's Iron Fists)
-      const hasExtraAttack = this.hasConditionalEffect(currentHero, 'extra_attack_per_turn');
-      const hasAttackTwice = this.hasSpecialEffect(currentHero, 'attack_twice');
+      // Check if hero can attack multiple times (like Berserker's Frenzy or Brawler's Iron Fists).
+      // Read again: the attack may have changed the attacker's HP
+      const { attacksPerTurn = 1 } = getSpecialModifiers(currentHero);
       
-      if (hasExtraAttack || hasAttackTwice) {
+      if (attacksPerTurn > 1) {
         // For multiple attacks, track usage per attack
         if (!player.usedAttacks) player.usedAttacks = 0;
         player.usedAttacks++;
         
-        // Allow up to 2 attacks for multiple attack heroes
-        if (player.usedAttacks >= 2) {
+        if (player.usedAttacks >= attacksPerTurn) {
           player.hasUsedAttack = true;
         }
       } else {
@@ -2448,9 +2733,9 @@ class GameManager {
       autoAdvanced,
       winner: game.winner,
       gameState: this.getFullGameState(game),
-      monkDeflected,
-      deflectCounterDamage,
-      deflectingMonk: deflectingMonk ? deflectingMonk.name : null,
+      monkDeflected: !!protection,
+      deflectCounterDamage: protection ? protection.counterDamage : 0,
+      deflectingMonk: protection ? protection.protector.name : null,
       deathTriggerEffects
     };
   }
@@ -2513,9 +2798,8 @@ class GameManager {
     }
     
     // Check if already used ability (unless hero can use multiple)
-    const canUseTwice = hasSpecialEffect(currentHero, 'use_ability_twice') || 
-                       hasSpecialEffect(currentHero, 'use_twice_per_turn') ||
-                       (currentHero.name === 'Sorcerer' && player.twinSpellActive);
+    const abilityUsesPerTurn = this.getAbilityUsesPerTurn(currentHero, player);
+    const canUseTwice = abilityUsesPerTurn > 1;
     
     // For heroes that can use abilities multiple times, track individual usage
     if (canUseTwice) {
@@ -2532,7 +2816,7 @@ class GameManager {
       } else {
         // Heroes with single ability (like Assassin or Twin Spell Sorcerer) - same ability twice
         const usageCount = player.usedAbilities.filter(name => name === ability.name).length;
-        const maxUses = (currentHero.name === 'Sorcerer' && player.twinSpellActive) ? 2 : 2;
+        const maxUses = abilityUsesPerTurn;
         if (usageCount >= maxUses) {
           return { success: false, error: `${ability.name} already used ${maxUses === 2 ? 'twice' : 'maximum times'} this turn` };
         }
@@ -2654,10 +2938,8 @@ class GameManager {
     player.hasUsedAbility = true;
     
     // For heroes that can use abilities multiple times, track specific ability usage
-    const hasMultipleAbilityUse = hasSpecialEffect(currentHero, 'use_ability_twice') || 
-                                 hasSpecialEffect(currentHero, 'use_twice_per_turn') ||
-                                 (currentHero.name === 'Sorcerer' && player.twinSpellActive);
-    if (hasMultipleAbilityUse) {
+    const usesThisTurn = this.getAbilityUsesPerTurn(currentHero, player);
+    if (usesThisTurn > 1) {
       // Initialize usedAbilities if it doesn't exist (for backward compatibility)
       if (!player.usedAbilities) {
         player.usedAbilities = [];
@@ -2668,12 +2950,12 @@ class GameManager {
       // until they've used it twice
       if (currentHero.Ability && currentHero.Ability.length === 1) {
         const usageCount = player.usedAbilities.filter(name => name === ability.name).length;
-        if (usageCount < 2) {
+        if (usageCount < usesThisTurn) {
           player.hasUsedAbility = false; // Allow them to use it again
         }
         
-        // Special handling for Sorcerer Twin Spell
-        if (currentHero.name === 'Sorcerer' && player.twinSpellActive && usageCount >= 2) {
+        // A repeat cast (Sorcerer's Twin Spell) is spent after the second use
+        if (player.twinSpellActive && usageCount >= 2) {
           player.twinSpellActive = false; // Clear the flag after second use
         }
       }
@@ -2740,8 +3022,9 @@ class GameManager {
     const player = currentTurnInfo.player;
     const timekeeper = currentTurnInfo.hero;
     
-    if (!timekeeper || timekeeper.name !== 'Timekeeper') {
-      return { success: false, error: 'Only Timekeeper can use this method' };
+    const chronoShiftAbility = (timekeeper?.Ability || []).find(commandsAlly);
+    if (!chronoShiftAbility) {
+      return { success: false, error: 'This hero cannot command an ally' };
     }
 
     // Find the ally and enemy targets
@@ -2758,11 +3041,6 @@ class GameManager {
     }
 
     const opponent = game.players.find(p => p.id !== playerId);
-    const chronoShiftAbility = timekeeper.Ability.find(a => a.name === 'Chrono Shift');
-    
-    if (!chronoShiftAbility) {
-      return { success: false, error: 'Timekeeper does not have Chrono Shift ability' };
-    }
 
     // Process the Timekeeper ability with the selected ability index
     const results = this.processTimekeeperSelectedAbility(chronoShiftAbility, timekeeper, primaryTarget, player, opponent, game, allyToCommand, selectedAbilityIndex);
@@ -2834,8 +3112,13 @@ class GameManager {
     let totalDamage = 0;
     let totalHealing = 0;
     let statusEffectsApplied = [];
+    const summonedUnits = [];
     
     for (const result of results) {
+      if (result.type === 'summon' && result.unit) {
+        summonedUnits.push(result.unit);
+        continue;
+      }
       if (result.target === target?.name || (!target && result.type !== 'ability_activation')) {
         switch (result.type) {
           case 'damage':
@@ -2871,6 +3154,11 @@ class GameManager {
       logMessage += ` → healed ${totalHealing} HP`;
     }
     
+    // Add summoned units
+    if (summonedUnits.length > 0) {
+      logMessage += ` and summoned ${summonedUnits.join(' and ')}`;
+    }
+    
     // Add status effects
     if (statusEffectsApplied.length > 0) {
       const effectTexts = statusEffectsApplied.map(se => {
@@ -2935,7 +3223,7 @@ class GameManager {
           }
           break;
         case 'summon':
-          specialEffects.push('summoned Beast');
+          specialEffects.push(`summoned ${result.unit || 'a companion'}`);
           break;
         case 'status_effect':
           if (result.effect === 'untargetable') {
@@ -2946,6 +3234,20 @@ class GameManager {
             specialEffects.push(`applied ${result.effect}`);
           }
           break;
+        case 'negate_damage':
+        case 'sacrifice':
+        case 'dismiss_summons':
+        case 'apply_debuff':
+        case 'force_reroll':
+        case 'disable_special':
+        case 'remove_debuffs':
+        case 'next_attack_bonus':
+        case 'set_stat':
+        case 'copy_special':
+          if (result.message) {
+            specialEffects.push(result.message);
+          }
+          break;
       }
     }
     
@@ -2963,832 +3265,201 @@ class GameManager {
         } else {
           effectsText.push(`dealt damage to all heroes`);
         }
-      } else if (damageTargets.length === 1) {
-        // Single target
-        effectsText.push(`dealt ${totalDamage} damage to ${damageTargets[0]}`);
-      } else if (damageTargets.length > 1) {
-        // Few targets
-        effectsText.push(`dealt damage to ${damageTargets.join(', ')}`);
-      }
-    }
-    
-    // Don't add healing to effectsText - let the frontend display it to avoid redundancy
-    // if (totalHealing > 0) {
-    //   effectsText.push(`healed ${totalHealing} HP`);
-    // }
-    
-    if (specialEffects.length > 0) {
-      effectsText.push(...specialEffects);
-    }
-    
-    // Add trigger context for reactive specials after the main message
-    if (triggerContext) {
-      if (triggerContext.deflectedAttack) {
-        logMessage = `${hero.name}'s ${specialName} activated → deflected ${triggerContext.attacker}'s ${triggerContext.attackName}`;
-        if (effectsText.length > 0) {
-          logMessage += ` and ${effectsText.join(' and ')}`;
-        }
-      } else if (effectsText.length > 0) {
-        logMessage += ` and ${effectsText.join(' and ')}`;
-      }
-    } else if (effectsText.length > 0) {
-      logMessage += ` and ${effectsText.join(' and ')}`;
-    }
-    
-    // Add roll information if applicable
-    let rollInfo = null;
-    if (attackRoll) {
-      rollInfo = {
-        attackRoll: attackRoll.roll,
-        attackTotal: attackRoll.displayTotal || attackRoll.total,
-        advantageInfo: attackRoll.advantageInfo,
-        accuracy: attackRoll.accuracy || null
-      };
-    }
-    
-    return {
-      type: 'special_comprehensive',
-      caster: hero.name,
-      specialName: specialName,
-      target: triggerContext?.target || (damageTargets.length > 0 ? damageTargets[0] : null),
-      message: logMessage,
-      hit: attackRoll ? true : null, // null for auto-success, true for attack rolls
-      isCritical: attackRoll?.isCritical || false,
-      damage: totalDamage > 0 ? totalDamage : undefined,
-      healing: totalHealing > 0 ? totalHealing : undefined,
-      specialEffects,
-      triggerContext,
-      ...rollInfo
-    };
-  }
-
-  processAbilityEffects(ability, caster, primaryTarget, casterPlayer, opponent, game, specificTarget = null, allyTarget = null, excludeAdvantageFrom = null, commandContext = null) {
-    const results = [];
-    
-    // Special handling for Beast Tamer conditional summoning/commanding
-    if (caster.name === 'Beast Tamer' && ability.name === 'Call Beast / Command Attack') {
-      return this.processBeastTamerAbility(ability, caster, primaryTarget, casterPlayer, opponent, game);
-    }
-    
-    // Special handling for Engineer's Call Turret (summon turrets)
-    if (caster.name === 'Engineer' && ability.name === 'Call Turret') {
-      return this.processEngineerAbility(ability, caster, primaryTarget, casterPlayer, opponent, game);
-    }
-
-    // Special handling for Medic's Med Bots (summon med bots)
-    if (caster.name === 'Medic' && ability.name === 'Med Bots') {
-      return this.processMedicAbility(ability, caster, primaryTarget, casterPlayer, opponent, game);
-    }
-
-    // Special handling for Shaman's Elemental Strike (summon totems and deal damage per totem)
-    if (caster.name === 'Shaman' && ability.name === 'Elemental Strike') {
-      return this.processShamanAbility(ability, caster, primaryTarget, casterPlayer, opponent, game);
-    }
-    
-    // Special handling for Timekeeper ally command ability
-    if (caster.name === 'Timekeeper' && ability.name === 'Chrono Shift' && (!commandContext || !commandContext.preventRecursion)) {
-      return this.processTimekeeperAbility(ability, caster, primaryTarget, casterPlayer, opponent, game, allyTarget);
-    }
-    
-    // Special handling for Diplomat's Declare War (command adjacent allies to attack)
-    if (caster.name === 'Diplomat' && ability.name === 'Declare War') {
-      return this.processDiplomatAbility(ability, caster, primaryTarget, casterPlayer, opponent, game);
-    }
-    
-    // Get all effects from both primary and secondary effects
-    const allEffects = [
-      ...(ability.primary_effects || []),
-      ...(ability.secondary_effects || [])
-    ];
-    
-    // Check if any effect grants advantage
-    const hasAdvantage = allEffects.some(effect => effect.advantage === true);
-    
-    // Determine if this ability needs an attack roll
-    // Self-healing and self-buff abilities don't need attack rolls
-    const needsAttackRoll = ability.category !== 'heal_self' && 
-                           ability.category !== 'apply_buff' && 
-                           ability.target_type !== 'self_only' &&
-                           allEffects.some(effect => 
-                             effect.type === 'damage' || 
-                             effect.type === 'lifesteal_damage' ||
-                             (effect.type === 'apply_debuff' && effect.target !== 'self')
-                           );
-    
-    let attackRoll = null;
-    let abilityHit = true; // Default to true for abilities that don't need rolls
-    
-    // Use the specific target for attack roll calculations if provided, otherwise use primary target
-    const targetForRoll = specificTarget || primaryTarget;
-    
-    if (needsAttackRoll) {
-      // Check if this is a commanded ability from Timekeeper
-      if (commandContext && commandContext.isCommandedByTimekeeper) {
-        // Commanded abilities use the ally's own accuracy and roll normally
-        const advantageDisadvantageForAbility = this.hasAdvantageDisadvantage(caster, targetForRoll, true, game, excludeAdvantageFrom);
-        attackRoll = calculateAttackRoll(caster.modifiedAccuracy, advantageDisadvantageForAbility.advantage, advantageDisadvantageForAbility.disadvantage, caster);
-        attackRoll.isTimekeeperCommand = true; // Flag to identify this as a Timekeeper commanded ability
-        attackRoll.commandingHero = commandContext.commandingHero;
-        
-        // Check for Ace's "Ace Up The Sleeve" - convert roll of 1 to auto-hit crit
-        if (caster.name === 'Ace' && attackRoll.roll === 1) {
-          console.log(`🃏 ${caster.name}'s Ace Up The Sleeve activated on ${ability.name} (commanded by ${commandContext.commandingHero})! Auto-hit critical!`);
-          attackRoll.total = 999; // Guarantee hit
-          attackRoll.displayTotal = 20; // Show as natural 20 for display purposes
-          attackRoll.isCritical = true;
-          attackRoll.crit = true;
-        }
-        
-        abilityHit = attackRoll.total >= calculateEffectiveDefense(targetForRoll);
-        
-        const rollText = attackRoll.advantageInfo 
-          ? `${attackRoll.advantageInfo.roll1} and ${attackRoll.advantageInfo.roll2} (${attackRoll.advantageInfo.type}, chose ${attackRoll.advantageInfo.chosen})`
-          : attackRoll.roll;
-        debugLog(` ${caster.name} uses ${ability.name} (commanded by ${commandContext.commandingHero}): Roll ${rollText}+${caster.modifiedAccuracy} = ${attackRoll.total} vs Defense ${calculateEffectiveDefense(targetForRoll)} → ${abilityHit ? 'HIT' : 'MISS'}${attackRoll.crit ? ' (CRITICAL!)' : ''}`);
-      } else {
-        // Normal ability roll calculation
-        const advantageDisadvantageForAbility = this.hasAdvantageDisadvantage(caster, targetForRoll, true, game, excludeAdvantageFrom);
-        attackRoll = calculateAttackRoll(caster.modifiedAccuracy, advantageDisadvantageForAbility.advantage, advantageDisadvantageForAbility.disadvantage, caster);
-        
-        // Check for Ace's "Ace Up The Sleeve" - convert roll of 1 to auto-hit crit
-        if (caster.name === 'Ace' && attackRoll.roll === 1) {
-          console.log(`🃏 ${caster.name}'s Ace Up The Sleeve activated on ${ability.name}! Auto-hit critical!`);
-          attackRoll.total = 999; // Guarantee hit
-          attackRoll.displayTotal = 20; // Show as natural 20 for display purposes
-          attackRoll.isCritical = true;
-          attackRoll.crit = true;
-        }
-        
-        abilityHit = attackRoll.total >= calculateEffectiveDefense(targetForRoll);
-        
-        const rollText = attackRoll.advantageInfo 
-          ? `${attackRoll.advantageInfo.roll1} and ${attackRoll.advantageInfo.roll2} (${attackRoll.advantageInfo.type}, chose ${attackRoll.advantageInfo.chosen})`
-          : attackRoll.roll;
-        debugLog(` ${caster.name} uses ${ability.name}: Roll ${rollText}+${caster.modifiedAccuracy} = ${attackRoll.total} vs Defense ${calculateEffectiveDefense(targetForRoll)} → ${abilityHit ? 'HIT' : 'MISS'}${attackRoll.crit ? ' (CRITICAL!)' : ''}`);
-      }
-      
-      // Check for Monk's Deflect protection before ability damage is dealt
-      let monkDeflected = false;
-      if (abilityHit && game && targetForRoll) {
-        const targetPlayer = game.players.find(p => p.team.some(h => h.name === targetForRoll.name));
-        if (targetPlayer) {
-          // Look for Monk ally who can deflect this ability
-          const monk = targetPlayer.team.find(h => h.name === 'Monk' && h.currentHP > 0);
-          // Check if caster can ignore deflect (like Barbarian's Break the Line)
-          const canIgnoreDeflect = this.hasPassiveModifier(caster, 'ignore_deflect');
-          if (monk && !canIgnoreDeflect && attackRoll.total < calculateEffectiveDefense(monk) && !targetPlayer.monkDeflectUsed) {
-            // Monk deflects the ability
-            monkDeflected = true;
-            abilityHit = false; // Prevent ability effects from happening
-            targetPlayer.monkDeflectUsed = true; // Mark deflect as used this round
-            
-            // Counter-attack the caster using centralized damage application
-            const counterDamageRoll = calculateDamage('1D4', false, false, monk);
-            const counterDamage = counterDamageRoll.total;
-            
-            // Use centralized damage application to trigger on_take_damage effects (like Shroomguard's Poison Aura)
-            const onDamageTriggers = this.applyDamageToHero(game, caster, counterDamage, monk, 'Monk Deflect');
-            
-            debugLog(` ${monk.name} deflects ability ${ability.name} on ${targetForRoll.name} (${attackRoll.total} < ${calculateEffectiveDefense(monk)}) and counters for ${counterDamage} damage`);
-            
-            // Add comprehensive special log entry for Monk deflect during ability
-            const deflectSpecialLogEntry = this.createSpecialLogEntry(
-              monk, 
-              'Deflect', 
-              null, // No trigger context to avoid "Monk used Deflect" redundancy
-              counterDamageRoll,
-              [
-                {
-                  type: 'damage',
-                  target: caster.name,
-                  damage: counterDamage,
-                  damageRoll: counterDamageRoll,
-                  newHP: caster.currentHP,
-                  maxHP: caster.HP
-                },
-                ...onDamageTriggers
-              ]
-            );
-            results.push(deflectSpecialLogEntry);
-            
-            if (caster.currentHP <= 0 && !caster.statusEffects?.justResurrected) {
-              this.updatePassiveEffectsOnDeath(game, caster, monk, 'counter_attack');
-            }
-          }
-        }
-      }
-      
-      debugLog(` Ability ${ability.name} by ${caster.name}: Roll ${attackRoll.roll}+${caster.modifiedAccuracy} = ${attackRoll.total} vs Defense ${calculateEffectiveDefense(targetForRoll)} → ${abilityHit ? 'HIT' : (monkDeflected ? 'DEFLECTED' : 'MISS')}`);
-      
-      // Consume advantage effects after the attack roll
-      this.consumeAdvantageEffects(caster, targetForRoll);
-    } else {
-      debugLog(` Ability ${ability.name} by ${caster.name}: Auto-success (no attack roll needed)`);
-    }
-    
-    // Process all effects based on whether the ability hit or missed
-    const originalTarget = primaryTarget; // Store the original target for conditional effects
-    
-    for (const effect of allEffects) {
-      // Resolve the correct target for this effect
-      let target = this.resolveEffectTarget(effect, primaryTarget, caster, casterPlayer, opponent, game, allyTarget);
-      if (!target) continue; // Skip if no valid target found
-      
-      // If we're processing for a specific target, only process effects that affect that target
-      if (specificTarget && target !== specificTarget) continue;
-      switch (effect.type) {
-        case 'damage':
-          if (abilityHit && target && target.currentHP > 0) {
-            const damageRoll = calculateDamage(effect.value, attackRoll?.isCritical || false, false, caster);
-            let damage = damageRoll.total;
-            
-            // Check for conditional additional damage (like Piercer's +1D6 vs AC > 8)
-            if (effect.conditional_damage && 
-                ((effect.condition === 'target_ac_gte_9' && calculateEffectiveDefense(target) >= 9) ||
-                 (effect.condition === 'target_ac_gt_8' && calculateEffectiveDefense(target) > 8))) {
-              const bonusDamageRoll = calculateDamage(effect.conditional_damage, attackRoll?.isCritical || false, false, caster);
-              damage += bonusDamageRoll.total;
-              const conditionText = effect.condition === 'target_ac_gt_8' ? 'AC > 8' : 'AC >= 9';
-              debugLog(` Conditional damage bonus: +${bonusDamageRoll.total} (${conditionText})${attackRoll?.isCritical ? ' [CRIT]' : ''}`);
-            }
-            
-            // Check for crit bonus damage (like Ace's Stacked Deck +1D6 on crit)
-            if (attackRoll?.isCritical && ability.crit_bonus) {
-              const critBonusDamageRoll = calculateDamage(ability.crit_bonus.value, true, false, caster);
-              damage += critBonusDamageRoll.total;
-              debugLog(` Crit bonus damage: +${critBonusDamageRoll.total} [CRIT]`);
-            }
-            
-            const oldHP = target.currentHP;
-            
-            // Process damage reduction specials (like Wizard's Arcane Shield)
-            const damageReductionResult = this.processDamageReductionSpecials(game, target, caster, damage);
-            damage = damageReductionResult.finalDamage;
-            results.push(...damageReductionResult.specialEffects);
-            
-            target.currentHP = Math.max(0, target.currentHP - damage);
-            
-            // Process Angel's Health Link reflection if target is Angel
-            if (target.name === 'Angel' && damage > 0) {
-              this.processHealthLinkReflection(game, target, damage);
-            }
-            
-            // Trigger after-damage effects (like Ninja's Vanish)
-            const afterDamageSpecials = this.processAfterDamageEffects(game, target, caster, damage);
-            results.push(...afterDamageSpecials);
-            
-            // Trigger on_take_damage effects (like Shroomguard's Poison Aura)
-            const onTakeDamageSpecials = this.processOnTakeDamageEffects(game, target, caster, damage);
-            results.push(...onTakeDamageSpecials);
-            
-            // Cavalier's Ride Down: Apply debuff to enemies hit by Cavalier
-            if (caster.name === 'Cavalier' && damage > 0) {
-              if (!target.statusEffects) target.statusEffects = {};
-              target.statusEffects.rideDownDebuff = {
-                source: caster.name,
-                maxHP: target.HP // Store original max HP to detect full healing
-              };
-              debugLog(` ${target.name} debuffed by Cavalier's Ride Down - all attacks against them have advantage until healed to full HP`);
-            }
-            
-            // Check HP-based conditions after taking damage
-            this.checkHPConditions(game, target);
-            
-            debugLog(` Damage to ${target.name}: ${damage} HP (${oldHP} → ${target.currentHP})`);
-            
-            // Check for Paladin's Shield of Faith - taunt enemies who damage adjacent allies
-            this.checkPaladinShieldOfFaith(game, caster, target, damage);
-            
-            // Process hit-confirmed triggers (like Elementalist's Wind Wall)
-            this.processHitConfirmedTriggers(game, caster, target, 'ability');
-            
-            if (target.currentHP <= 0 && !target.statusEffects?.justResurrected) {
-              this.updatePassiveEffectsOnDeath(game, target, caster, 'damage');
-            }
-            
-            results.push({
-              type: 'damage',
-              target: target.name,
-              damage,
-              hit: true,
-              isCritical: attackRoll?.isCritical || false,
-              damageRoll: damageRoll.rolls,
-              damageTotal: damage,
-              attackRoll: attackRoll?.roll || null,
-              attackTotal: attackRoll?.displayTotal || attackRoll?.total || null,
-              advantageInfo: attackRoll?.advantageInfo || null,
-              isTimekeeperCommand: attackRoll?.isTimekeeperCommand || false,
-              commandingHero: attackRoll?.commandingHero || null,
-              targetHP: target.currentHP
-            });
-          } else {
-            results.push({
-              type: 'damage',
-              target: target.name,
-              damage: 0,
-              hit: false,
-              attackRoll: attackRoll.roll,
-              attackTotal: attackRoll.displayTotal || attackRoll.total,
-              advantageInfo: attackRoll.advantageInfo,
-              isTimekeeperCommand: attackRoll.isTimekeeperCommand || false,
-              commandingHero: attackRoll.commandingHero || null,
-              targetHP: target.currentHP,
-              damageRoll: [], // Add empty array for consistency
-              damageTotal: 0
-            });
-          }
-          break;
-
-        case 'lifesteal_damage':
-          if (abilityHit && target && target.currentHP > 0) {
-            const damageRoll = calculateDamage(effect.value, attackRoll.isCritical, false, caster);
-            let damage = damageRoll.total;
-            
-            // Process damage reduction specials (like Wizard's Arcane Shield)
-            const damageReductionResult = this.processDamageReductionSpecials(game, target, caster, damage);
-            damage = damageReductionResult.finalDamage;
-            results.push(...damageReductionResult.specialEffects);
-            
-            target.currentHP = Math.max(0, target.currentHP - damage);
-            
-            // Process Angel's Health Link reflection if target is Angel
-            if (target.name === 'Angel' && damage > 0) {
-              this.processHealthLinkReflection(game, target, damage);
-            }
-            
-            // Trigger after-damage effects (like Ninja's Vanish)
-            const afterDamageSpecials = this.processAfterDamageEffects(game, target, caster, damage);
-            results.push(...afterDamageSpecials);
-            
-            // Trigger on_take_damage effects (like Shroomguard's Poison Aura)
-            const onTakeDamageSpecials = this.processOnTakeDamageEffects(game, target, caster, damage);
-            results.push(...onTakeDamageSpecials);
-            
-            // Process hit-confirmed triggers (like Elementalist's Wind Wall)
-            this.processHitConfirmedTriggers(game, caster, target, 'ability');
-            
-            // Check HP-based conditions after taking damage
-            this.checkHPConditions(game, target);
-            
-            if (target.currentHP <= 0 && !target.statusEffects?.justResurrected) {
-              this.updatePassiveEffectsOnDeath(game, target, caster, 'damage');
-            }
-            
-            const healing = damage; // Heal for full damage amount, not half
-            caster.currentHP = Math.min(caster.HP, caster.currentHP + healing);
-            
-            // Remove Cavalier's Ride Down debuff if healed to full HP
-            if (caster.currentHP === caster.HP && caster.statusEffects && caster.statusEffects.rideDownDebuff) {
-              delete caster.statusEffects.rideDownDebuff;
-              debugLog(` ${caster.name} healed to full HP via lifesteal - Cavalier's Ride Down debuff removed`);
-            }
-            
-            // Check HP-based conditions after lifesteal healing
-            this.checkHPConditions(game, caster);
-            
-            results.push({
-              type: 'lifesteal_damage',
-              target: target.name,
-              damage,
-              healing,
-              hit: true,
-              isCritical: attackRoll.isCritical,
-              damageRoll: damageRoll.rolls,
-              damageTotal: damage,
-              attackRoll: attackRoll.roll,
-              attackTotal: attackRoll.displayTotal || attackRoll.total,
-              advantageInfo: attackRoll.advantageInfo,
-              targetHP: target.currentHP,
-              casterHP: caster.currentHP
-            });
-          } else {
-            results.push({
-              type: 'lifesteal_damage',
-              target: target.name,
-              damage: 0,
-              healing: 0,
-              hit: false,
-              attackRoll: attackRoll.roll,
-              attackTotal: attackRoll.displayTotal || attackRoll.total,
-              advantageInfo: attackRoll.advantageInfo,
-              targetHP: target.currentHP,
-              casterHP: caster.currentHP,
-              damageRoll: [], // Add empty array for consistency
-              damageTotal: 0
-            });
-          }
-          break;
-
-        case 'heal':
-          // For abilities with attack rolls, healing only happens if the ability hit
-          // For pure healing abilities (self-healing, etc.), they always work
-          if ((abilityHit || !needsAttackRoll) && target && target.currentHP > 0) {
-            const healRoll = rollDiceString(effect.value);
-            const healing = healRoll.total;
-            const oldHP = target.currentHP;
-            target.currentHP = Math.min(target.HP, target.currentHP + healing);
-            
-            // Remove Cavalier's Ride Down debuff if healed to full HP
-            if (target.currentHP === target.HP && target.statusEffects && target.statusEffects.rideDownDebuff) {
-              delete target.statusEffects.rideDownDebuff;
-              debugLog(` ${target.name} healed to full HP - Cavalier's Ride Down debuff removed`);
-            }
-            
-            // Check HP-based conditions after healing
-            this.checkHPConditions(game, target);
-            
-            console.log(`💚 Healing ${target.name}: ${healing} HP (${oldHP} → ${target.currentHP}) - ability ${abilityHit ? 'hit' : 'auto-success'}`);
-            
-            results.push({
-              type: 'heal',
-              target: target.name,
-              healing,
-              oldHP,
-              newHP: target.currentHP,
-              hit: abilityHit || !needsAttackRoll,
-              healRoll: healRoll.rolls
-            });
-          } else if (needsAttackRoll && !abilityHit && target) {
-            // Healing missed because the ability missed
-            console.log(`❌ Healing missed on ${target.name} (ability missed)`);
-            results.push({
-              type: 'heal_missed',
-              target: target.name,
-              healing: 0,
-              hit: false
-            });
-          }
-          break;
-
-        case 'heal_to_full':
-          // Special healing that restores target to full HP (like Reaper's Soul Harvest)
-          if ((abilityHit || !needsAttackRoll) && target && target.currentHP > 0) {
-            let shouldHeal = true;
-            
-            // Check if there's a condition that needs to be met
-            if (effect.condition === 'target_dies_from_damage') {
-              // Check if the original target died from the damage effects of this ability
-              const damageResult = results.find(r => 
-                r.type === 'damage' && 
-                r.target === originalTarget?.name && 
-                r.hit === true &&
-                r.damage > 0
-              );
-              
-              // Target died if: damage was dealt, hit was successful, and target is now at 0 HP
-              const targetDied = damageResult && originalTarget && originalTarget.currentHP <= 0;
-              
-              debugLog(` Soul Harvest condition check: damageResult=${damageResult ? `${damageResult.damage} damage to ${damageResult.target}` : 'none'}, originalTarget HP=${originalTarget?.currentHP}, targetDied=${targetDied}`);
-              
-              shouldHeal = targetDied;
-            }
-            
-            if (shouldHeal) {
-              const oldHP = target.currentHP;
-              const healing = target.HP - target.currentHP; // Calculate how much healing is needed
-              target.currentHP = target.HP; // Heal to full HP
-              
-              // Remove Cavalier's Ride Down debuff if healed to full HP
-              if (target.statusEffects && target.statusEffects.rideDownDebuff) {
-                delete target.statusEffects.rideDownDebuff;
-                debugLog(` ${target.name} healed to full HP - Cavalier's Ride Down debuff removed`);
-              }
-              
-              // Check HP-based conditions after healing
-              this.checkHPConditions(game, target);
-              
-              console.log(`💚 Heal to Full ${target.name}: ${healing} HP (${oldHP} → ${target.currentHP}) - ${effect.condition ? 'condition met' : 'ability hit'}`);
-              
-              results.push({
-                type: 'heal_to_full',
-                target: target.name,
-                healing,
-                oldHP,
-                newHP: target.currentHP,
-                hit: abilityHit || !needsAttackRoll,
-                condition: effect.condition,
-                conditionMet: shouldHeal
-              });
-            } else if (effect.condition) {
-              console.log(`❌ ${target.name} heal to full - condition '${effect.condition}' not met`);
-            }
-          }
-          break;
-
-        case 'conditional_heal':
-          // Conditional healing that checks a condition before determining heal amount
-          // For abilities with attack rolls, healing only happens if the ability hit
-          if ((abilityHit || !needsAttackRoll)) {
-            let shouldHeal = true; // Always heal for conditional_heal, just choose the value
-            let healValue = effect.value_false || '1D4'; // Default value
-            let conditionMet = false;
-            
-            // Check different conditions
-            if (effect.condition === 'self_hp_lt_11' && target && target.currentHP > 0 && target.currentHP < 11) {
-              healValue = effect.value_true || '1D8';
-              conditionMet = true;
-            } else if (effect.condition === 'self_hp_lt_11' && target && target.currentHP > 0) {
-              // Condition not met (HP >= 11), use value_false
-              healValue = effect.value_false || '1D4';
-              conditionMet = false;
-            } else if (effect.condition === 'target_dies_from_damage') {
-              // Check if the original target died from the damage effects of this ability
-              // Find the damage result for the original target from this ability
-              const damageResult = results.find(r => 
-                r.type === 'damage' && 
-                r.target === originalTarget?.name && 
-                r.hit === true &&
-                r.damage > 0
-              );
-              
-              // Target died if: damage was dealt, hit was successful, and target is now at 0 HP
-              const targetDied = damageResult && originalTarget && originalTarget.currentHP <= 0;
-              
-              debugLog(` Soul Harvest condition check: damageResult=${damageResult ? `${damageResult.damage} damage to ${damageResult.target}` : 'none'}, originalTarget HP=${originalTarget?.currentHP}, targetDied=${targetDied}`);
-              
-              if (targetDied && target && target.currentHP > 0) {
-                conditionMet = true;
-                // Use heal_to_full for Soul Harvest when target dies
-                if (effect.type === 'heal_to_full') {
-                  const oldHP = target.currentHP;
-                  const healing = target.HP - target.currentHP;
-                  target.currentHP = target.HP;
-                  
-                  // Remove Cavalier's Ride Down debuff if healed to full HP
-                  if (target.statusEffects && target.statusEffects.rideDownDebuff) {
-                    delete target.statusEffects.rideDownDebuff;
-                    debugLog(` ${target.name} healed to full HP - Cavalier's Ride Down debuff removed`);
-                  }
-                  
-                  console.log(`💚 Soul Harvest Heal to Full ${target.name}: ${healing} HP (${oldHP} → ${target.currentHP}) - target died from damage`);
-                  
-                  results.push({
-                    type: 'heal',
-                    target: target.name,
-                    healing,
-                    oldHP,
-                    newHP: target.currentHP,
-                    hit: abilityHit || !needsAttackRoll,
-                    condition: effect.condition,
-                    conditionMet: true
-                  });
-                }
-                shouldHeal = false; // Already handled heal_to_full above
-              }
-            }
-            
-            // Apply regular conditional healing if condition met and not already handled
-            if (shouldHeal && target && target.currentHP > 0) {
-              const healRoll = rollDiceString(healValue);
-              const healing = healRoll.total;
-              const oldHP = target.currentHP;
-              target.currentHP = Math.min(target.HP, target.currentHP + healing);
-              
-              // Remove Cavalier's Ride Down debuff if healed to full HP
-              if (target.currentHP === target.HP && target.statusEffects && target.statusEffects.rideDownDebuff) {
-                delete target.statusEffects.rideDownDebuff;
-                debugLog(` ${target.name} healed to full HP - Cavalier's Ride Down debuff removed`);
-              }
-              
-              console.log(`💚 Conditional Healing ${target.name}: ${healing} HP (${oldHP} → ${target.currentHP}) - ability ${abilityHit ? 'hit' : 'auto-success'}`);
-              
-              results.push({
-                type: 'heal',
-                target: target.name,
-                healing,
-                oldHP,
-                newHP: target.currentHP,
-                hit: abilityHit || !needsAttackRoll,
-                healRoll: healRoll.rolls,
-                condition: effect.condition,
-                conditionMet: conditionMet
-              });
-            }
-          } else if (needsAttackRoll && !abilityHit && target) {
-            // Conditional healing missed because the ability missed
-            console.log(`❌ Conditional healing missed on ${target.name} (ability missed)`);
-            results.push({
-              type: 'heal_missed',
-              target: target.name,
-              healing: 0,
-              hit: false,
-              condition: effect.condition
-            });
-          }
-          break;
-
-        case 'apply_debuff':
-          if (abilityHit && target && effect.effect) {
-            console.log(`✅ Applying debuff ${effect.effect} to ${target.name} (ability hit)`);
-            
-            // Special handling for grant_advantage - mark target for next attack
-            let effectValue = effect.stacks || effect.value || 1; // Initialize effectValue for all cases
-            
-            if (effect.effect === 'grant_advantage') {
-              target.statusEffects.grantAdvantage = {
-                duration: effect.duration || 1,
-                duration_unit: effect.duration_unit || 'attack',
-                source: caster.name
-              };
-              debugLog(` ${target.name} marked for advantage on next attack (from ${caster.name})`);
-            }
-            // Special handling for taunt - need to pass caster's name
-            else if (effect.effect === 'taunt' && effect.taunt_target === 'self') {
-              effectValue = caster.name;
-              applyStatusEffect(target, effect.effect, effectValue, effect.duration, null, caster.name);
-            }
-            // Special handling for stat_modifier - pass the stat and value
-            else if (effect.effect === 'stat_modifier' && effect.stat) {
-              applyStatusEffect(target, effect.effect, effectValue, effect.duration, effect.stat, caster.name, effect.duration_unit, ability.name);
-            }
-            // Special handling for poison with match_damage
-            else if (effect.effect === 'poison' && effect.value === 'match_damage') {
-              // Find the damage that was just dealt in the same ability
-              let damageDealt = 0;
-              for (const prevResult of results) {
-                if (prevResult.type === 'damage' && prevResult.target === target.name && prevResult.hit) {
-                  damageDealt = prevResult.damage;
-                  break;
-                }
-              }
-              debugLog(` Applying ${damageDealt} poison stacks to ${target.name} (matching damage dealt)`);
-              applyStatusEffect(target, effect.effect, damageDealt, effect.duration);
-            }
-            // Special handling for Hoarder's custom silence - prevent abilities against owner
-            else if (effect.effect === 'cannot_target_owner_with_ability') {
-              target.statusEffects.cannotTargetWithAbility = {
-                owner: effect.owner || caster.name,
-                duration: effect.duration || 1,
-                duration_unit: effect.duration_unit || 'caster_turn',
-                source: caster.name
-              };
-              debugLog(` ${target.name} cannot use abilities against ${effect.owner || caster.name} (Bribed until start of their next turn)`);
-            }
-            // Special handling for Angel's health_link
-            else if (effect.effect === 'health_link') {
-              target.statusEffects.health_link = {
-                source: caster.name,
-                duration: effect.duration || 999
-              };
-              debugLog(` ${target.name} is linked to ${caster.name} via Health Link`);
-            }
-            else {
-              applyStatusEffect(target, effect.effect, effectValue, effect.duration);
-            }
-            
-            results.push({
-              type: 'status_applied',
-              target: target.name,
-              effect: effect.effect,
-              value: effectValue,
-              duration: effect.duration,
-              stat: effect.stat || null,
-              hit: true
-            });
-          } else if (target && effect.effect) {
-            console.log(`❌ NOT applying debuff ${effect.effect} to ${target.name} (ability missed)`);
-            results.push({
-              type: 'status_missed',
-              target: target.name,
-              effect: effect.effect,
-              hit: false
-            });
-          }
-          break;
-
-        case 'apply_buff':
-          if (abilityHit && target && effect.effect) {
-            console.log(`✅ Applying buff ${effect.effect} to ${target.name} (ability hit)`);
-            applyStatusEffect(target, effect.effect, effect.value || 1);
-            results.push({
-              type: 'status_applied',
-              target: target.name,
-              effect: effect.effect,
-              value: effect.value || 1,
-              hit: true
-            });
-          } else if (target && effect.effect) {
-            console.log(`❌ NOT applying buff ${effect.effect} to ${target.name} (ability missed)`);
-            results.push({
-              type: 'status_missed',
-              target: target.name,
-              effect: effect.effect
-            });
-          }
-          break;
-
-        case 'remove_debuff':
-          // Remove debuffs from target (like Shroomguard's poison cleanse)
-          if (abilityHit && target && effect.effect) {
-            const effectToRemove = effect.effect;
-            const removeCount = effect.count; // 'all' or a number
-            
-            if (target.statusEffects && target.statusEffects[effectToRemove] !== undefined) {
-              const oldValue = target.statusEffects[effectToRemove];
-              
-              if (removeCount === 'all') {
-                target.statusEffects[effectToRemove] = 0;
-                debugLog(` Removed all ${effectToRemove} stacks from ${target.name} (was ${oldValue})`);
-              } else {
-                const removeAmount = parseInt(removeCount) || 0;
-                target.statusEffects[effectToRemove] = Math.max(0, target.statusEffects[effectToRemove] - removeAmount);
-                debugLog(` Removed ${removeAmount} ${effectToRemove} stacks from ${target.name} (${oldValue} → ${target.statusEffects[effectToRemove]})`);
-              }
-              
-              results.push({
-                type: 'debuff_removed',
-                target: target.name,
-                effect: effectToRemove,
-                oldValue: oldValue,
-                newValue: target.statusEffects[effectToRemove],
-                hit: true
-              });
-            } else {
-              debugLog(` ${target.name} has no ${effectToRemove} to remove`);
-            }
-          } else if (!target) {
-            debugLog(` No valid target found for debuff removal`);
-          }
-          break;
-
-        case 'recoil_damage':
-          if (abilityHit) {
-            const recoilRoll = rollDiceString(effect.value);
-            const recoilDamage = recoilRoll.total;
-            caster.currentHP = Math.max(0, caster.currentHP - recoilDamage);
-            
-            // Check HP-based conditions after taking recoil damage
-            this.checkHPConditions(game, caster);
-            
-            // Check if caster died from recoil
-            if (caster.currentHP <= 0 && !caster.statusEffects?.justResurrected) {
-              this.updatePassiveEffectsOnDeath(game, caster, null, 'recoil');
-            }
-            
-            results.push({
-              type: 'recoil_damage',
-              target: caster.name,
-              damage: recoilDamage,
-              targetHP: caster.currentHP,
-              hit: true
-            });
-          } else {
-            results.push({
-              type: 'recoil_damage',
-              target: caster.name,
-              damage: 0,
-              hit: false,
-              targetHP: caster.currentHP
-            });
-          }
-          break;
-          
-        case 'extra_action':
-          // This is now handled by the One-Two Punch system above
-          console.log(`Extra action effect processed by One-Two Punch system`);
-          break;
+      } else if (damageTargets.length === 1) {
+        // Single target
+        effectsText.push(`dealt ${totalDamage} damage to ${damageTargets[0]}`);
+      } else if (damageTargets.length > 1) {
+        // Few targets
+        effectsText.push(`dealt damage to ${damageTargets.join(', ')}`);
+      }
+    }
+    
+    // Don't add healing to effectsText - let the frontend display it to avoid redundancy
+    // if (totalHealing > 0) {
+    //   effectsText.push(`healed ${totalHealing} HP`);
+    // }
+    
+    if (specialEffects.length > 0) {
+      effectsText.push(...specialEffects);
+    }
+    
+    // Add trigger context for reactive specials after the main message
+    if (triggerContext) {
+      if (triggerContext.deflectedAttack) {
+        logMessage = `${hero.name}'s ${specialName} activated → deflected ${triggerContext.attacker}'s ${triggerContext.attackName}`;
+        if (effectsText.length > 0) {
+          logMessage += ` and ${effectsText.join(' and ')}`;
+        }
+      } else if (effectsText.length > 0) {
+        logMessage += ` and ${effectsText.join(' and ')}`;
+      }
+    } else if (effectsText.length > 0) {
+      logMessage += ` and ${effectsText.join(' and ')}`;
+    }
+    
+    // Add roll information if applicable
+    let rollInfo = null;
+    if (attackRoll) {
+      rollInfo = {
+        attackRoll: attackRoll.roll,
+        attackTotal: attackRoll.displayTotal || attackRoll.total,
+        advantageInfo: attackRoll.advantageInfo,
+        accuracy: attackRoll.accuracy || null
+      };
+    }
+    
+    return {
+      type: 'special_comprehensive',
+      caster: hero.name,
+      specialName: specialName,
+      target: triggerContext?.target || (damageTargets.length > 0 ? damageTargets[0] : null),
+      message: logMessage,
+      hit: attackRoll ? true : null, // null for auto-success, true for attack rolls
+      isCritical: attackRoll?.isCritical || false,
+      damage: totalDamage > 0 ? totalDamage : undefined,
+      healing: totalHealing > 0 ? totalHealing : undefined,
+      specialEffects,
+      triggerContext,
+      ...rollInfo
+    };
+  }
 
-        // Add more effect types as needed
-        default:
-          console.log(`Unhandled effect type: ${effect.type}`);
+  processAbilityEffects(ability, caster, primaryTarget, casterPlayer, opponent, game, specificTarget = null, allyTarget = null, excludeAdvantageFrom = null, commandContext = null) {
+    const results = [];
+    
+    // Effects that take over the whole cast (commanding allies, copying abilities) resolve first
+    const declaredEffects = [
+      ...(ability.primary_effects || []),
+      ...(ability.secondary_effects || [])
+    ];
+    const baseContext = {
+      gm: this, ability, caster, primaryTarget, originalTarget: primaryTarget, casterPlayer, opponent, game,
+      allyTarget, commandContext, attackRoll: null, abilityHit: true, needsAttackRoll: false, results
+    };
+    for (const effect of declaredEffects) {
+      const handler = getEffectHandler(effect.type);
+      if (handler && handler.resolveAbility) {
+        const takeoverResults = handler.resolveAbility(baseContext, effect);
+        if (takeoverResults) return takeoverResults;
       }
     }
     
-    // Check for Twin Spell (Sorcerer's special ability)
-    const specials = Array.isArray(caster.Special) ? caster.Special : [caster.Special];
-    const hasTwinSpell = caster.Special && specials.some(special => 
-      special && special.name === 'Twin Spell' && 
-      special.trigger === 'on_ability_hit' &&
-      special.effects && special.effects.some(effect => effect.type === 'conditional_repeat_cast')
-    );
+    // Conditional actions (like Beast Tamer's summon-or-command) collapse into the effect that applies
+    const allEffects = declaredEffects.flatMap(effect => {
+      const handler = getEffectHandler(effect.type);
+      return handler && handler.expand ? handler.expand(baseContext, effect) : [effect];
+    });
+    
+    // Check if any effect grants advantage
+    const hasAdvantage = allEffects.some(effect => effect.advantage === true);
+    
+    // Determine if this ability needs an attack roll
+    // Self-healing and self-buff abilities don't need attack rolls
+    const needsAttackRoll = ability.category !== 'heal_self' && 
+                           ability.category !== 'apply_buff' && 
+                           ability.target_type !== 'self_only' &&
+                           allEffects.some(effect => 
+                             effect.type === 'damage' || 
+                             effect.type === 'lifesteal_damage' ||
+                             (effect.type === 'apply_debuff' && effect.target !== 'self')
+                           );
+    
+    let attackRoll = null;
+    let abilityHit = true; // Default to true for abilities that don't need rolls
     
-    // Check for Monk's One-Two Punch follow-up attacks
-    const hasOneTwoPunch = caster.name === 'Monk' && ability.name === 'One-Two Punch' && abilityHit;
+    // Use the specific target for attack roll calculations if provided, otherwise use primary target
+    const targetForRoll = specificTarget || primaryTarget;
     
-    // Check if ability hit and Twin Spell should trigger
-    if (hasTwinSpell && abilityHit) {
-      // Check if Twin Spell has been used this round
-      if (!casterPlayer.twinSpellUsed) {
-        debugLog(` Twin Spell: ${caster.name}'s ability hit - can cast ability again!`);
+    if (needsAttackRoll) {
+      // Check if this is a commanded ability from Timekeeper
+      if (commandContext && commandContext.isCommandedByTimekeeper) {
+        // Commanded abilities use the ally's own accuracy and roll normally
+        attackRoll = this.rollAttack(game, caster, targetForRoll, true, excludeAdvantageFrom);
+        attackRoll.isTimekeeperCommand = true; // Flag to identify this as a Timekeeper commanded ability
+        attackRoll.commandingHero = commandContext.commandingHero;
         
-        casterPlayer.twinSpellUsed = true; // Mark as used this round
-        casterPlayer.twinSpellActive = true; // Grant extra ability use
+        abilityHit = attackRoll.total >= calculateEffectiveDefense(targetForRoll);
         
-        // Add comprehensive special log entry for Twin Spell
-        const twinSpellLogEntry = this.createSpecialLogEntry(
-          caster, 
-          'Twin Spell', 
-          `reactive to successful ability hit`, 
-          null, // no attack roll for reactive abilities
-          [{
-            type: 'grant_extra_action',
-            target: caster.name,
-            effect: 'extra_ability_use',
-            message: `grants an additional ability use`
-          }]
-        );
-        results.push(twinSpellLogEntry);
+        const rollText = attackRoll.advantageInfo 
+          ? `${attackRoll.advantageInfo.roll1} and ${attackRoll.advantageInfo.roll2} (${attackRoll.advantageInfo.type}, chose ${attackRoll.advantageInfo.chosen})`
+          : attackRoll.roll;
+        debugLog(` ${caster.name} uses ${ability.name} (commanded by ${commandContext.commandingHero}): Roll ${rollText}+${caster.modifiedAccuracy} = ${attackRoll.total} vs Defense ${calculateEffectiveDefense(targetForRoll)} → ${abilityHit ? 'HIT' : 'MISS'}${attackRoll.crit ? ' (CRITICAL!)' : ''}`);
+      } else {
+        // Normal ability roll calculation
+        attackRoll = this.rollAttack(game, caster, targetForRoll, true, excludeAdvantageFrom);
+        
+        abilityHit = attackRoll.total >= calculateEffectiveDefense(targetForRoll);
+        
+        const rollText = attackRoll.advantageInfo 
+          ? `${attackRoll.advantageInfo.roll1} and ${attackRoll.advantageInfo.roll2} (${attackRoll.advantageInfo.type}, chose ${attackRoll.advantageInfo.chosen})`
+          : attackRoll.roll;
+        debugLog(` ${caster.name} uses ${ability.name}: Roll ${rollText}+${caster.modifiedAccuracy} = ${attackRoll.total} vs Defense ${calculateEffectiveDefense(targetForRoll)} → ${abilityHit ? 'HIT' : 'MISS'}${attackRoll.crit ? ' (CRITICAL!)' : ''}`);
+      }
+      
+      // An ally may let a missed ability be rolled again (Bard's Encore)
+      const reroll = abilityHit ? null : this.processMissSpecials(game, caster);
+      if (reroll) {
+        results.push(reroll);
+        const rerolled = this.rollAttack(game, caster, targetForRoll, true, excludeAdvantageFrom);
+        if (attackRoll.isTimekeeperCommand) {
+          rerolled.isTimekeeperCommand = true;
+          rerolled.commandingHero = attackRoll.commandingHero;
+        }
+        attackRoll = rerolled;
+        abilityHit = attackRoll.total >= calculateEffectiveDefense(targetForRoll);
+        debugLog(` ${caster.name} rerolls ${ability.name}: ${attackRoll.total} → ${abilityHit ? 'HIT' : 'MISS'}`);
+      }
+      
+      // Check for an ally protecting the target before ability damage is dealt (Monk's Deflect)
+      const protection = abilityHit && targetForRoll ? this.processHitProtectionSpecials(game, caster, targetForRoll, attackRoll) : null;
+      if (protection) {
+        abilityHit = false; // Prevent ability effects from happening
+        results.push(protection.logEntry);
+      }
+      
+      debugLog(` Ability ${ability.name} by ${caster.name}: Roll ${attackRoll.roll}+${caster.modifiedAccuracy} = ${attackRoll.total} vs Defense ${calculateEffectiveDefense(targetForRoll)} → ${abilityHit ? 'HIT' : (protection ? 'DEFLECTED' : 'MISS')}`);
+      
+      // Consume advantage effects after the attack roll
+      this.consumeAdvantageEffects(caster, targetForRoll, true);
+    } else {
+      debugLog(` Ability ${ability.name} by ${caster.name}: Auto-success (no attack roll needed)`);
+    }
+    
+    // Process all effects based on whether the ability hit or missed
+    const context = { ...baseContext, attackRoll, abilityHit, needsAttackRoll, grantsExtraAttack: false };
+    
+    for (const effect of allEffects) {
+      const handler = getEffectHandler(effect.type);
+      if (!handler) {
+        console.log(`Unhandled effect type: ${effect.type}`);
+        continue;
+      }
+      if (!handler.apply) {
+        debugLog(` ${effect.type} is a ${handler.phase} effect - nothing to resolve during ${ability.name}`);
+        continue;
       }
+      
+      // Resolve the correct target for this effect
+      const target = handler.selfTargeted ? caster : this.resolveEffectTarget(effect, primaryTarget, caster, casterPlayer, opponent, game, allyTarget);
+      if (!target) continue; // Skip if no valid target found
+      
+      // If we're processing for a specific target, only process effects that affect that target
+      if (specificTarget && target !== specificTarget) continue;
+      
+      handler.apply(context, effect, target);
+    }
+    
+    // Check for One-Two Punch style follow-up attacks (extra_action effects)
+    const hasOneTwoPunch = context.grantsExtraAttack;
+    
+    // Specials that react to a landed ability (Sorcerer's Twin Spell)
+    if (abilityHit) {
+      results.push(...this.processAbilityHitSpecials(game, caster, casterPlayer));
+    }
+    
+    // Allies joining in on an ability that landed on an enemy (Arcanist's Tether Ally)
+    if (abilityHit && needsAttackRoll && targetForRoll) {
+      results.push(...this.processAllyHitSpecials(game, caster, targetForRoll));
     }
     
     // Check for Monk's One-Two Punch follow-up basic attacks
@@ -3811,51 +3482,28 @@ class GameManager {
       });
     }
     
-    // Skip general comprehensive logging for heroes that handle their own logging
-    const skipGeneralLogging = (caster.name === 'Engineer' && ability.name === 'Call Turret') ||
-                              (caster.name === 'Medic' && ability.name === 'Med Bots') ||
-                              (caster.name === 'Beast Tamer' && ability.name === 'Call Beast / Command Attack') ||
-                              (caster.name === 'Shaman' && ability.name === 'Elemental Strike');
-    
-    let filteredResults;
-    
-    if (skipGeneralLogging) {
-      // For special abilities that handle their own comprehensive logging, return results as-is
-      filteredResults = results.filter(result => 
-        result.type === 'special' ||
-        result.type === 'special_comprehensive' ||
-        result.type === 'twin_spell_activated' ||
-        result.type === 'one_two_punch_activated' ||
-        result.type === 'summon' ||
-        result.type === 'damage' ||
-        result.type === 'heal' ||
-        result.type === 'lifesteal_healing' ||
-        result.type === 'status_applied' ||
-        result.type === 'attack_roll'
-      );
-    } else {
-      // Add comprehensive ability log entry and filter out old-style entries to avoid duplicates
-      const comprehensiveLogEntry = this.createAbilityLogEntry(ability, caster, primaryTarget, attackRoll, abilityHit, results, commandContext);
-      
-      // Filter results to only keep:
-      // 1. The comprehensive entry
-      // 2. Special comprehensive entries (from after-damage effects, Twin Spell, etc.)
-      // 3. Essential system entries (like attack_roll, damage, heal, etc. for game state)
-      filteredResults = results.filter(result => 
-        result.type === 'special_comprehensive' ||
-        result.type === 'twin_spell_activated' ||
-        result.type === 'one_two_punch_activated' ||
-        result.type === 'summon' ||
-        result.type === 'damage' ||
-        result.type === 'heal' ||
-        result.type === 'lifesteal_healing' ||
-        result.type === 'status_applied' ||
-        result.type === 'attack_roll'
-      );
-      
-      // Add comprehensive entry at the beginning
-      filteredResults.unshift(comprehensiveLogEntry);
-    }
+    // Add comprehensive ability log entry and filter out old-style entries to avoid duplicates
+    const logTarget = ability.target_type === 'self_only' ? null : primaryTarget;
+    const comprehensiveLogEntry = this.createAbilityLogEntry(ability, caster, logTarget, attackRoll, abilityHit, results, commandContext);
+    
+    // Filter results to only keep:
+    // 1. The comprehensive entry
+    // 2. Special comprehensive entries (from after-damage effects, Twin Spell, etc.)
+    // 3. Essential system entries (like attack_roll, damage, heal, etc. for game state)
+    const filteredResults = results.filter(result => 
+      result.type === 'special_comprehensive' ||
+      result.type === 'twin_spell_activated' ||
+      result.type === 'one_two_punch_activated' ||
+      result.type === 'summon' ||
+      result.type === 'damage' ||
+      result.type === 'heal' ||
+      result.type === 'lifesteal_healing' ||
+      result.type === 'status_applied' ||
+      result.type === 'attack_roll'
+    );
+    
+    // Add comprehensive entry at the beginning
+    filteredResults.unshift(comprehensiveLogEntry);
     
     return filteredResults;
   }
@@ -3890,7 +3538,18 @@ class GameManager {
         debugLog(` Lowest health ally selected for healing: ${allyToHeal.name} (${allyToHeal.currentHP}/${allyToHeal.HP} HP)`);
         return allyToHeal;
       
+      case 'ally_left':
+      case 'left_ally':
+      case 'ally_right':
+      case 'right_ally': {
+        // The ally next to the caster (Bard's Song of Valor, Arcanist's Enhance spells)
+        const step = effect.target.includes('left') ? -1 : 1;
+        const neighbour = casterPlayer.team[casterPlayer.team.indexOf(caster) + step];
+        return neighbour && neighbour.currentHP > 0 ? neighbour : null;
+      }
+      
       case 'selected_ally':
+      case 'chosen_ally':
         // For player-selected ally healing (Paladin, Druid)
         if (allyTarget) {
           return casterPlayer.team.find(hero => hero.name === allyTarget);
@@ -3912,7 +3571,7 @@ class GameManager {
         }
         
         // Pick random ally with poison
-        const randomIndex = Math.floor(Math.random() * alliesWithPoison.length);
+        const randomIndex = Math.floor(random() * alliesWithPoison.length);
         const allyToCleanse = alliesWithPoison[randomIndex];
         
         debugLog(` Random ally with poison selected for cleansing: ${allyToCleanse.name} (${allyToCleanse.statusEffects.poison} poison stacks)`);
@@ -3994,11 +3653,7 @@ class GameManager {
   
   processHitConfirmedTriggers(game, caster, target, actionType) {
     // Process triggers that activate when the caster successfully hits with an attack or ability
-    if (!caster.Special) return;
-    
-    const specials = Array.isArray(caster.Special) ? caster.Special : [caster.Special];
-    
-    for (const special of specials) {
+    for (const special of getSpecials(caster)) {
       if (special.trigger === 'on_self_hit_confirmed' && special.effects) {
         debugLog(` ${caster.name}'s ${special.name} activated after successful ${actionType}!`);
         
@@ -4109,95 +3764,46 @@ class GameManager {
     });
   }
 
-  // Check if a hero has a conditional effect that's currently active
-  hasConditionalEffect(hero, effectType) {
-    if (!hero || !hero.Special || !hero.conditionalEffects) return false;
-
-    const specials = Array.isArray(hero.Special) ? hero.Special : [hero.Special];
-    
-    for (const special of specials) {
-      // Check if this special is currently active
-      if (hero.conditionalEffects[special.name] && special.effects) {
-        for (const effect of special.effects) {
-          if (effect.type === effectType) {
-            return true;
-          }
-        }
-      }
-    }
-    return false;
-  }
-
   // Check if a hero has a passive modifier (like ignore_taunt)
   hasPassiveModifier(hero, modifierType) {
-    if (!hero || !hero.Special) return false;
-
-    const specials = Array.isArray(hero.Special) ? hero.Special : [hero.Special];
-    
-    for (const special of specials) {
-      if (special.effects) {
-        for (const effect of special.effects) {
-          if (effect.type === 'passive_modifier' && effect.effect === modifierType) {
-            return true;
-          }
-        }
-      }
-    }
-    return false;
+    return !!getSpecialModifiers(hero)[modifierType];
   }
 
-  // Check if hero has a specific special effect
-  hasSpecialEffect(hero, effectName) {
-    if (!hero.Special) return false;
-    
-    // Handle both array and object formats
-    const specials = Array.isArray(hero.Special) ? hero.Special : [hero.Special];
-    
-    return specials.some(special => 
-      special.effects?.some(effect => 
-        effect.effect === effectName || effect.type === effectName
-      )
-    );
+  // Heroes whose ability grants follow-up basic attacks (Monk's One-Two Punch) count the attacks
+  // they have left each turn instead of using the single hasUsedAttack flag
+  grantsFollowUpAttacks(hero) {
+    return !!hero && (hero.Ability || []).some(ability =>
+      [...(ability.primary_effects || []), ...(ability.secondary_effects || [])]
+        .some(effect => effect.type === 'extra_action' && effect.action === 'basic_attack'));
   }
 
-  // Helper method to check if hero has a special effect
-  hasSpecialEffect(hero, effectType) {
-    if (!hero.Special) return false;
-    
-    const specials = Array.isArray(hero.Special) ? hero.Special : [hero.Special];
-    
-    return specials.some(special => {
-      if (!special.effects) return false;
-      return special.effects.some(effect => effect.effect === effectType);
-    });
+  // How many times a hero may use its ability this turn: twice with Assassin's Twin Daggers, or once
+  // more after a landed Twin Spell
+  getAbilityUsesPerTurn(hero, player) {
+    if (player.twinSpellActive && hasSpecialEffect(hero, 'conditional_repeat_cast')) return 2;
+    return getSpecialModifiers(hero).abilityUsesPerTurn || 1;
   }
 
   processTurnStartEffects(game, hero, player) {
-    // Clean up Wind Wall AC bonus at the start of Elementalist's turn
-    if (hero.name === 'Elementalist' && hero.statusEffects?.windWallAC) {
+    // Clean up Wind Wall AC bonus at the start of its owner's turn
+    if (hero.statusEffects?.windWallAC) {
       debugLog(` ${hero.name}'s Wind Wall AC bonus expires at turn start`);
       delete hero.statusEffects.windWallAC;
       this.updateHeroDisplayStats(hero);
     }
     
-    // Clean up Hoarder's custom silence debuff at the start of Hoarder's turn
-    if (hero.name === 'Hoarder') {
-      game.players.forEach(p => {
-        p.team.forEach(h => {
-          if (h.statusEffects?.cannotTargetWithAbility && 
-              h.statusEffects.cannotTargetWithAbility.owner === 'Hoarder') {
-            debugLog(` ${h.name} can now use abilities against Hoarder (Bribe expired)`);
-            delete h.statusEffects.cannotTargetWithAbility;
-          }
-        });
+    // Clean up custom silence debuffs (Hoarder's Bribe) at the start of the caster's turn
+    game.players.forEach(p => {
+      p.team.forEach(h => {
+        if (h.statusEffects?.cannotTargetWithAbility && 
+            h.statusEffects.cannotTargetWithAbility.source === hero.name) {
+          debugLog(` ${h.name} can now use abilities against ${hero.name} (Bribe expired)`);
+          delete h.statusEffects.cannotTargetWithAbility;
+        }
       });
-    }
-    
-    if (!hero || !hero.Special) return;
-    
-    const specials = Array.isArray(hero.Special) ? hero.Special : [hero.Special];
+    });
     
-    for (const special of specials) {
+    for (const special of getSpecials(hero)) {
       if (special.trigger === 'owner_turn_start') {
         debugLog(` Turn start: ${hero.name}'s ${special.name} activating...`);
         
@@ -4286,31 +3892,103 @@ class GameManager {
   }
 
   // Function to check and update HP-based conditional abilities
+  // Run everything a hero's summoned units do on a trigger: summon `behavior` blocks
+  // (Engineer's turrets) and specials that scale with the summon count (Medic's Emergency Heal)
+  processSummonTriggers(game, hero, player, trigger) {
+    const logEntries = [];
+    const opponent = game.players.find(p => p.id !== player.id);
+    
+    for (const summon of getSummonEffects(hero)) {
+      const behavior = summon.behavior;
+      const count = getSummonCount(hero, summon.unit);
+      if (!behavior || behavior.trigger !== trigger || count === 0) continue;
+      
+      console.log(`🔧 ${hero.name}'s ${count} ${summon.unit}(s) activate`);
+      
+      for (let i = 0; i < count; i++) {
+        const aliveEnemies = opponent.team.filter(h => h.currentHP > 0);
+        if (behavior.action !== 'damage' || aliveEnemies.length === 0) break;
+        
+        const target = behavior.target === 'random_enemy'
+          ? aliveEnemies[Math.floor(random() * aliveEnemies.length)]
+          : aliveEnemies[0];
+        const damageAmount = rollDiceString(behavior.value).total;
+        
+        // Use centralized damage application (triggers Shroomguard's Poison Aura and Ninja's Vanish)
+        logEntries.push(...this.applyDamageToHero(game, target, damageAmount, hero, summon.unit));
+        logEntries.push({
+          type: 'summon_attack',
+          caster: hero.name,
+          unit: summon.unit,
+          target: target.name,
+          damage: damageAmount,
+          newHP: target.currentHP,
+          maxHP: target.HP,
+          message: `${hero.name}'s ${summon.unit} attacked ${target.name} for ${damageAmount} damage`,
+          timestamp: Date.now()
+        });
+        
+        if (target.currentHP <= 0 && !target.statusEffects?.justResurrected) {
+          this.updatePassiveEffectsOnDeath(game, target, hero, summon.unit);
+        }
+      }
+    }
+    
+    for (const special of getSpecials(hero)) {
+      if (special.trigger !== trigger) continue;
+      
+      for (const effect of special.effects || []) {
+        if (effect.scaling !== 'summon_count' || effect.type !== 'heal') continue;
+        
+        const healValue = resolveScaledValue(hero, effect);
+        if (!healValue) continue;
+        
+        // Damaged allies only (including the owner)
+        const damagedAllies = player.team.filter(h => h.currentHP > 0 && h.currentHP < h.HP);
+        if (damagedAllies.length === 0) {
+          debugLog(` No damaged allies found for ${special.name}`);
+          continue;
+        }
+        const lowestHealthAlly = damagedAllies.reduce((lowest, current) => 
+          current.currentHP < lowest.currentHP ? current : lowest
+        );
+        
+        const healRoll = rollDiceString(healValue);
+        const oldHP = lowestHealthAlly.currentHP;
+        lowestHealthAlly.currentHP = Math.min(lowestHealthAlly.currentHP + healRoll.total, lowestHealthAlly.HP);
+        const actualHealing = lowestHealthAlly.currentHP - oldHP;
+        
+        console.log(`💉 ${hero.name} used ${special.name}: Healed ${lowestHealthAlly.name} for ${actualHealing} HP (rolled ${healValue} = ${healRoll.total})`);
+        
+        logEntries.push({
+          type: 'summon_heal',
+          caster: hero.name,
+          specialName: special.name,
+          target: lowestHealthAlly.name,
+          healing: actualHealing,
+          totalRolled: healRoll.total,
+          summonCount: getSummonCount(hero, effect.unit),
+          newHP: lowestHealthAlly.currentHP,
+          maxHP: lowestHealthAlly.HP,
+          message: `${hero.name} used ${special.name} and healed ${lowestHealthAlly.name} for ${actualHealing}`,
+          timestamp: Date.now()
+        });
+      }
+    }
+    
+    return logEntries;
+  }
+
   checkHPConditions(game, hero) {
-    if (!hero || !hero.Special || hero.currentHP <= 0) return;
+    if (!hero || hero.currentHP <= 0) return;
 
-    const specials = Array.isArray(hero.Special) ? hero.Special : [hero.Special];
     let conditionsChanged = false;
 
-    for (const special of specials) {
+    for (const special of getSpecials(hero)) {
       if (!special.condition) continue;
 
       const wasActive = hero.conditionalEffects?.[special.name] || false;
-      let isActive = false;
-
-      // Check different HP-based conditions
-      if (special.condition === 'self_hp_lt_10') {
-        isActive = hero.currentHP < 10;
-      } else if (special.condition === 'self_hp_lt_11') {
-        isActive = hero.currentHP < 11;
-      } else if (special.condition === 'self_hp_lt_9') {
-        isActive = hero.currentHP <= 8; // Dragon Rider dismounts at 8 HP or below
-      } else if (special.condition === 'beast_active') {
-        isActive = hero.statusEffects && hero.statusEffects.beast_active;
-      } else if (special.condition === 'beast_inactive') {
-        isActive = !hero.statusEffects || !hero.statusEffects.beast_active;
-      }
-      // Add more conditions as needed for other thresholds
+      const isActive = evaluateEffectCondition(special.condition, { caster: hero });
 
       // If condition status changed, update the hero
       if (wasActive !== isActive) {
@@ -4325,57 +4003,21 @@ class GameManager {
         if (isActive) {
           debugLog(` ${hero.name}'s ${special.name} activated (HP: ${hero.currentHP})`);
           
-          // Apply conditional effects
-          if (special.effects) {
-            for (const effect of special.effects) {
-              if (effect.type === 'stat_modifier' && effect.stat) {
-                // Add stat modifier buffs
-                if (!hero.conditionalBuffs) hero.conditionalBuffs = {};
-                if (!hero.conditionalBuffs[special.name]) {
-                  hero.conditionalBuffs[special.name] = [];
-                }
-                hero.conditionalBuffs[special.name].push({
-                  stat: effect.stat,
-                  value: effect.value,
-                  source: special.name
-                });
-              } else if (effect.type === 'permanent_stat_modifier' && effect.stat) {
-                // For Dragon Rider's permanent AC loss
-                if (!hero.permanentBuffs) hero.permanentBuffs = {};
-                if (!hero.permanentBuffs[special.name]) {
-                  hero.permanentBuffs[special.name] = [];
-                }
-                hero.permanentBuffs[special.name].push({
-                  stat: effect.stat,
-                  value: effect.value,
-                  source: special.name
-                });
-                debugLog(` ${hero.name} permanently loses ${Math.abs(effect.value)} ${effect.stat} from ${special.name}`);
-              } else if (effect.type === 'disable_ability' && effect.permanent) {
-                // For Dragon Rider's permanent ability disable
-                if (!hero.permanentDisables) hero.permanentDisables = {};
-                hero.permanentDisables.abilities = true;
-                debugLog(` ${hero.name}'s abilities permanently disabled by ${special.name}`);
-              }
-            }
+          // Apply conditional effects (stat buffs, Dragon Rider's permanent Defense loss and ability disable)
+          for (const effect of special.effects || []) {
+            getEffectHandler(effect.type)?.activate?.(hero, effect, special);
           }
-        } else {
-          // Check if this is a permanent condition that should never be reverted
-          const isPermanentCondition = special.category === 'conditional_permanent' || 
-                                     (special.name === 'Dismount' && hero.name === 'Dragon Rider');
+        } else if (special.category !== 'conditional_permanent') {
+          debugLog(` ${hero.name}'s ${special.name} deactivated (HP: ${hero.currentHP})`);
           
-          if (!isPermanentCondition) {
-            debugLog(` ${hero.name}'s ${special.name} deactivated (HP: ${hero.currentHP})`);
-            
-            // Remove conditional effects
-            if (hero.conditionalBuffs && hero.conditionalBuffs[special.name]) {
-              delete hero.conditionalBuffs[special.name];
-            }
-          } else {
-            debugLog(` ${hero.name}'s ${special.name} remains permanently active (cannot be restored by healing)`);
-            // Keep the condition active even if HP is restored
-            hero.conditionalEffects[special.name] = true;
+          // Remove conditional effects
+          if (hero.conditionalBuffs && hero.conditionalBuffs[special.name]) {
+            delete hero.conditionalBuffs[special.name];
           }
+        } else {
+          debugLog(` ${hero.name}'s ${special.name} remains permanently active (cannot be restored by healing)`);
+          // Keep the condition active even if HP is restored
+          hero.conditionalEffects[special.name] = true;
         }
       }
     }
@@ -4504,7 +4146,6 @@ class GameManager {
       nextTurnInfo.player.twinSpellActive = false;
       nextTurnInfo.player.oneTwoPunchUsed = false;
       nextTurnInfo.player.oneTwoPunchAttacksRemaining = 0;
-      // Don't reset monkDeflectUsed here - it only resets on Monk's turn
       
       // Initialize or reset usedAbilities array
       if (!nextTurnInfo.player.usedAbilities) {
@@ -4518,11 +4159,11 @@ class GameManager {
       debugLog(` Reset action flags for player ${game.currentPlayerTurn}`);
     }
     
-    // Reset Monk attack count for the new hero
+    // Reset the follow-up attack count (Monk) for the new hero
     if (nextTurnInfo && nextTurnInfo.hero) {
-      if (nextTurnInfo.hero.name === 'Monk') {
+      if (this.grantsFollowUpAttacks(nextTurnInfo.hero)) {
         nextTurnInfo.player.monkAttacksRemaining = 1;
-        debugLog(` Reset Monk attacks to 1 for ${nextTurnInfo.hero.name}'s turn`);
+        debugLog(` Reset attacks to 1 for ${nextTurnInfo.hero.name}'s turn`);
       } else {
         nextTurnInfo.player.monkAttacksRemaining = 0;
       }
@@ -4611,91 +4252,44 @@ class GameManager {
     };
   }
 
-  checkPaladinShieldOfFaith(game, attacker, damagedAlly, damage) {
+  // Reactions to an enemy damaging the hero next to a special's owner (Paladin's Shield of Faith)
+  processAdjacentAllyDamagedSpecials(game, attacker, damagedAlly, damage) {
     // Only proceed if damage was dealt by an enemy to an ally (not self-damage, recoil, etc.)
     if (!attacker || !damagedAlly || damage <= 0) return;
     
-    debugLog(` Shield of Faith check: ${attacker.name} damaged ${damagedAlly.name} for ${damage} HP`);
-    
-    // Find which team the damaged ally belongs to
-    let damagedAllyPlayerIndex = -1;
-    let attackerPlayerIndex = -1;
-    
-    for (let i = 0; i < game.players.length; i++) {
-      if (game.players[i].team.some(h => h.name === damagedAlly.name)) {
-        damagedAllyPlayerIndex = i;
-        debugLog(` ${damagedAlly.name} found on team ${i}`);
-      }
-      if (game.players[i].team.some(h => h.name === attacker.name)) {
-        attackerPlayerIndex = i;
-        debugLog(` ${attacker.name} found on team ${i}`);
-      }
-    }
+    const attackerPlayerIndex = game.players.findIndex(p => p.team.includes(attacker));
+    const defendingPlayer = game.players.find(p => p.team.includes(damagedAlly));
     
     // Only trigger if attacker and damaged ally are on different teams (enemy damage)
-    if (damagedAllyPlayerIndex === -1 || attackerPlayerIndex === -1 || 
-        damagedAllyPlayerIndex === attackerPlayerIndex) {
-      debugLog(` Shield of Faith: Not enemy damage - ally player ${damagedAllyPlayerIndex}, attacker player ${attackerPlayerIndex} - SKIPPING`);
+    if (attackerPlayerIndex === -1 || !defendingPlayer || game.players[attackerPlayerIndex] === defendingPlayer) {
+      debugLog(` ${attacker.name} damaging ${damagedAlly.name} is not enemy damage - no adjacent-ally reactions`);
       return;
     }
     
-    const defendingPlayer = game.players[damagedAllyPlayerIndex];
-    
-    debugLog(` Shield of Faith: ${attacker.name} (P${attackerPlayerIndex}) damaged ${damagedAlly.name} (P${damagedAllyPlayerIndex}) for ${damage} HP`);
-    
-    // Find living Paladins with Shield of Faith on the damaged ally's team
-    const paladins = defendingPlayer.team.filter(hero => {
-      if (hero.name !== 'Paladin' || hero.currentHP <= 0) return false;
-      
-      const specials = Array.isArray(hero.Special) ? hero.Special : [hero.Special];
-      return specials.some(special => special.name === 'Shield of Faith');
-    });
-    
-    debugLog(` Found ${paladins.length} living Paladins with Shield of Faith on damaged ally's team`);
-    
-    if (paladins.length === 0) return;
-    
-    // Check if the damaged ally is adjacent to any Paladin
-    for (const paladin of paladins) {
-      const paladinIndex = defendingPlayer.team.indexOf(paladin);
-      const allyIndex = defendingPlayer.team.indexOf(damagedAlly);
+    const allyIndex = defendingPlayer.team.indexOf(damagedAlly);
+    for (const guardian of defendingPlayer.team) {
+      if (guardian.currentHP <= 0) continue;
+      const special = getSpecials(guardian).find(s => s.trigger === 'ally_attacked_adjacent');
+      if (!special) continue;
       
-      debugLog(` ${paladin.name} at position ${paladinIndex}, ${damagedAlly.name} at position ${allyIndex}`);
-      debugLog(` Distance: |${paladinIndex} - ${allyIndex}| = ${Math.abs(paladinIndex - allyIndex)}`);
+      // Check if ally is adjacent to the guardian (index difference of 1)
+      if (Math.abs(defendingPlayer.team.indexOf(guardian) - allyIndex) !== 1) {
+        debugLog(` ${guardian.name} is not adjacent to ${damagedAlly.name} - ${special.name} not triggered`);
+        continue;
+      }
       
-      // Check if ally is adjacent to Paladin (index difference of 1)
-      if (Math.abs(paladinIndex - allyIndex) === 1) {
-        // Check if attacker is already taunted by this Paladin
-        const currentTaunt = attacker.statusEffects?.taunt;
-        if (currentTaunt && currentTaunt.target === paladin.name && currentTaunt.appliedBy === paladin.name) {
-          debugLog(` ${attacker.name} is already taunted by ${paladin.name} - Shield of Faith will not trigger again`);
-          break; // Skip queuing another taunt from the same Paladin
-        }
-        
-        // Queue taunt to be applied at end of attacker's turn (not immediately)
-        if (!game.pendingTaunts) {
-          game.pendingTaunts = [];
-        }
-        
-        // Remove any existing pending taunts for this attacker (new taunt replaces old)
-        game.pendingTaunts = game.pendingTaunts.filter(pendingTaunt => pendingTaunt.target !== attacker.name);
-        
-        game.pendingTaunts.push({
-          target: attacker.name,
-          targetPlayerIndex: attackerPlayerIndex, // Track which team the target is on
-          tauntTarget: paladin.name,
-          duration: 1, // Lasts until end of attacker's NEXT turn (1 turn duration)
-          appliedBy: paladin.name,
-          source: 'Shield of Faith'
-        });
-        
-        debugLog(` ${paladin.name}'s Shield of Faith queued! ${attacker.name} will be taunted at end of turn for damaging adjacent ally ${damagedAlly.name}`);
-        
-        // Only one Paladin can trigger per damage instance
+      // Check if attacker is already taunted by this guardian
+      const currentTaunt = attacker.statusEffects?.taunt;
+      if (currentTaunt && currentTaunt.target === guardian.name && currentTaunt.appliedBy === guardian.name) {
+        debugLog(` ${attacker.name} is already taunted by ${guardian.name} - ${special.name} will not trigger again`);
         break;
-      } else {
-        debugLog(` ${paladin.name} is not adjacent to ${damagedAlly.name} - no taunt triggered`);
       }
+      
+      debugLog(` ${guardian.name}'s ${special.name} triggered by ${attacker.name} damaging adjacent ally ${damagedAlly.name}`);
+      fireSpecial({ gm: this, game, owner: guardian, attacker, attackerPlayerIndex, target: damagedAlly }, special);
+      
+      // Only one hero can react per damage instance
+      break;
     }
   }
 
@@ -4728,7 +4322,7 @@ class GameManager {
     return { valid: true };
   }
 
-  activateSpecial(playerId) {
+  activateSpecial(playerId, targetId = null) {
     const gameId = this.playerGameMap.get(playerId);
     const game = this.games.get(gameId);
     
@@ -4749,13 +4343,16 @@ class GameManager {
     }
 
     // Check if the special is an activated type
-    const special = Array.isArray(currentHero.Special) 
-      ? currentHero.Special.find(s => s.category === 'activated_aoe' || s.category === 'activated_aoe_heal')
-      : (currentHero.Special.category === 'activated_aoe' || currentHero.Special.category === 'activated_aoe_heal' ? currentHero.Special : null);
+    const special = getSpecials(currentHero).find(s => ACTIVATED_SPECIAL_CATEGORIES.includes(s.category));
     
     if (!special) {
       return { success: false, error: 'Special ability is not manually activatable' };
     }
+    
+    // Specials aimed at a chosen hero follow their own frequency and costs
+    if (special.category === 'activated') {
+      return this.activateChosenSpecial(game, currentTurnInfo, special, targetId);
+    }
 
     // Check if already used (at hero level, persists through resurrection)
     if (!currentHero.permanentDisables) {
@@ -4791,8 +4388,7 @@ class GameManager {
           targetPlayer.team.forEach(target => {
             if (target.currentHP > 0) {
               // Roll attack for this target (each hero gets their own attack roll)
-              const advantageDisadvantage = this.hasAdvantageDisadvantage(currentHero, target, false, game);
-              const attackRoll = calculateAttackRoll(currentHero.modifiedAccuracy, advantageDisadvantage.advantage, advantageDisadvantage.disadvantage, currentHero);
+              const attackRoll = this.rollAttack(game, currentHero, target, false);
               const hit = attackRoll.total >= calculateEffectiveDefense(target);
               
               debugLog(` ${special.name} targeting ${target.name}: Roll ${attackRoll.roll}+${currentHero.modifiedAccuracy} = ${attackRoll.total} vs AC ${calculateEffectiveDefense(target)} → ${hit ? 'HIT' : 'MISS'}`);
@@ -4894,12 +4490,9 @@ class GameManager {
           });
         });
 
-        // If the special has a self-destruct cost, kill the caster
-        if (effect.cost?.type === 'self_destruct') {
-          debugLog(` ${currentHero.name} self-destructs!`);
-          currentHero.currentHP = 0;
-          
-          this.updatePassiveEffectsOnDeath(game, currentHero, null, 'self_destruct');
+        // Pay the special's cost (Mech's Self Destruct kills the caster)
+        if (effect.cost) {
+          getEffectHandler(effect.cost.type).pay({ gm: this, game, owner: currentHero }, effect.cost);
         }
       } else if (effect.type === 'heal' && effect.target === 'all_heroes') {
         // Diplomat's Peace Treaty - heal ALL heroes (both teams)
@@ -4994,6 +4587,55 @@ class GameManager {
     };
   }
 
+  // Fire a special at the hero the player picked (Healer's Cleanse, Agent's Master Plan) or at nobody
+  // (Sniper's Lock In). Enemies come from targetId or the selected target; allies default to the hero.
+  activateChosenSpecial(game, currentTurnInfo, special, targetId) {
+    const { player, hero, playerIndex } = currentTurnInfo;
+    const opponent = game.players[1 - playerIndex];
+    
+    if (this.isSpecialSpent(hero, special)) {
+      return { success: false, error: `${special.name} has already been used` };
+    }
+    
+    const effects = special.effects || [];
+    let chosen = null;
+    if (effects.some(effect => effect.target === 'chosen_enemy')) {
+      chosen = opponent.team.find(h => h.name === (targetId || player.selectedTarget));
+      if (!chosen || chosen.currentHP <= 0) {
+        return { success: false, error: 'Must select an enemy target first' };
+      }
+    } else if (effects.some(effect => effect.target === 'chosen_ally')) {
+      chosen = targetId ? player.team.find(h => h.name === targetId) : hero;
+      if (!chosen || chosen.currentHP <= 0) {
+        return { success: false, error: 'Invalid ally target' };
+      }
+    }
+    
+    const ctx = { gm: this, game, owner: hero, casterPlayer: player, chosen };
+    for (const effect of effects) {
+      const cost = effect.cost && getEffectHandler(effect.cost.type);
+      if (cost && !cost.canPay(ctx, effect.cost)) {
+        return { success: false, error: `Cannot pay for ${special.name} right now` };
+      }
+    }
+    
+    debugLog(` ${hero.name} activating ${special.name}${chosen ? ` on ${chosen.name}` : ''}!`);
+    const logEntry = this.createSpecialLogEntry(hero, special.name, null, null, fireSpecial(ctx, special));
+    this.markSpecialSpent(hero, special);
+    
+    if (!game.battleLog) {
+      game.battleLog = [];
+    }
+    game.battleLog.push(logEntry);
+    
+    return {
+      success: true,
+      gameId: game.id,
+      results: [logEntry],
+      gameState: this.getFullGameState(game)
+    };
+  }
+
   endTurn(playerId) {
     const gameId = this.playerGameMap.get(playerId);
     const game = this.games.get(gameId);
@@ -5021,11 +4663,9 @@ class GameManager {
         this.updateHeroDisplayStats(currentTurnInfo.hero);
       }
       
-      // Check if Shroomguard took poison damage and trigger Poison Aura
-      if (poisonDamageEffect && currentTurnInfo.hero.name === 'Shroomguard' && currentTurnInfo.hero.currentHP > 0) {
-        debugLog(` Shroomguard took ${poisonDamageEffect.damage} poison damage - triggering Poison Aura`);
-        const poisonAuraEffects = this.processOnTakeDamageEffects(game, currentTurnInfo.hero, null, poisonDamageEffect.damage);
-        endTurnEffects.push(...poisonAuraEffects);
+      // Poison damage counts as taking damage (Shroomguard's Poison Aura)
+      if (poisonDamageEffect && currentTurnInfo.hero.currentHP > 0) {
+        endTurnEffects.push(...this.processOnTakeDamageEffects(game, currentTurnInfo.hero, null, poisonDamageEffect.damage));
       }
       
       // Check if hero died from poison and trigger death effects (Hoarder's Collect Weapons, remove passive effects, etc.)
@@ -5034,166 +4674,16 @@ class GameManager {
         this.updatePassiveEffectsOnDeath(game, currentTurnInfo.hero, null, 'poison');
       }
       
-      // Druid Healing Word special: Heal lowest health ally at end of turn
-      if (currentTurnInfo.hero.name === 'Druid' && currentTurnInfo.hero.currentHP > 0) {
-        const druidSpecial = Array.isArray(currentTurnInfo.hero.Special) 
-          ? currentTurnInfo.hero.Special.find(s => s.name === 'Healing Word' && s.trigger === 'end_of_turn')
-          : (currentTurnInfo.hero.Special?.name === 'Healing Word' && currentTurnInfo.hero.Special?.trigger === 'end_of_turn' ? currentTurnInfo.hero.Special : null);
-        
-        if (druidSpecial) {
-          // Debug logging
-          debugLog(` Druid Healing Word triggered for ${currentTurnInfo.hero.name}`);
-          debugLog(` Current player index: ${currentTurnInfo.playerIndex}`);
-          debugLog(` Current player team:`, currentTurnInfo.player.team.map(h => `${h.name}(${h.currentHP}/${h.HP})`));
-          
-          // Find lowest health ally (including Druid)
-          const aliveAllies = currentTurnInfo.player.team.filter(hero => hero.currentHP > 0);
-          debugLog(` Alive allies:`, aliveAllies.map(h => `${h.name}(${h.currentHP}/${h.HP})`));
-          
-          if (aliveAllies.length > 0) {
-            const lowestHealthAlly = aliveAllies.reduce((lowest, current) => {
-              const currentHealthPercent = current.currentHP / current.HP;
-              const lowestHealthPercent = lowest.currentHP / lowest.HP;
-              return currentHealthPercent < lowestHealthPercent ? current : lowest;
-            });
-            
-            debugLog(` Lowest health ally found: ${lowestHealthAlly.name} (${lowestHealthAlly.currentHP}/${lowestHealthAlly.HP})`);
-            
-            // Only heal if not at full health
-            if (lowestHealthAlly.currentHP < lowestHealthAlly.HP) {
-              const { rollDiceString } = require('./utils');
-              const healingRoll = rollDiceString('1D4');
-              const healingAmount = healingRoll.total;
-              const oldHP = lowestHealthAlly.currentHP;
-              lowestHealthAlly.currentHP = Math.min(lowestHealthAlly.HP, lowestHealthAlly.currentHP + healingAmount);
-              
-              debugLog(` ${currentTurnInfo.hero.name}'s Healing Word heals ${lowestHealthAlly.name} for ${healingAmount} HP (${oldHP} → ${lowestHealthAlly.currentHP})`);
-              
-              // Add comprehensive log entry for Healing Word with "used" in message
-              const healingWordLogEntry = {
-                type: 'healing_word',
-                caster: currentTurnInfo.hero.name,
-                target: lowestHealthAlly.name,
-                healing: healingAmount,
-                newHP: lowestHealthAlly.currentHP,
-                maxHP: lowestHealthAlly.HP,
-                message: `${currentTurnInfo.hero.name} used Healing Word and healed ${lowestHealthAlly.name} for ${healingAmount}`,
-                timestamp: Date.now()
-              };
-              
-              endTurnEffects.push(healingWordLogEntry);
-            } else {
-              debugLog(` ${lowestHealthAlly.name} is already at full health, no healing needed`);
-            }
-          } else {
-            debugLog(` No alive allies found for healing`);
-          }
-        }
+      // End-of-turn specials (Druid's Healing Word)
+      if (currentTurnInfo.hero.currentHP > 0) {
+        endTurnEffects.push(...this.processEndOfTurnSpecials(game, currentTurnInfo.hero));
       }
 
-      // Engineer Turret Damage: Deal damage to random enemies for each active turret at end of turn
-      if (currentTurnInfo.hero.name === 'Engineer' && currentTurnInfo.hero.currentHP > 0 && 
-          currentTurnInfo.hero.statusEffects && currentTurnInfo.hero.statusEffects.turret_count > 0) {
-        
-        const turretCount = currentTurnInfo.hero.statusEffects.turret_count;
-        console.log(`🔧 ${currentTurnInfo.hero.name}'s ${turretCount} turret(s) activate at end of turn`);
-        
-        // Get all alive enemies
-        const opponent = game.players.find(p => p.id !== currentTurnInfo.player.id);
-        const aliveEnemies = opponent.team.filter(hero => hero.currentHP > 0);
-        
-        if (aliveEnemies.length > 0) {
-          // Each turret deals 1D4 damage to a random enemy
-          for (let i = 0; i < turretCount; i++) {
-            const randomEnemy = aliveEnemies[Math.floor(Math.random() * aliveEnemies.length)];
-            const { rollDiceString } = require('./utils');
-            const damageRoll = rollDiceString('1D4');
-            const damageAmount = damageRoll.total;
-            const oldHP = randomEnemy.currentHP;
-            
-            // Use centralized damage application (triggers Shroomguard's Poison Aura and Ninja's Vanish)
-            const triggeredEffects = this.applyDamageToHero(game, randomEnemy, damageAmount, currentTurnInfo.hero, 'Engineer Turret');
-            endTurnEffects.push(...triggeredEffects);
-            
-            // Simple turret attack log entry
-            const turretAttackLogEntry = {
-              type: 'turret_attack',
-              caster: currentTurnInfo.hero.name,
-              target: randomEnemy.name,
-              damage: damageAmount,
-              newHP: randomEnemy.currentHP,
-              maxHP: randomEnemy.HP,
-              message: `${currentTurnInfo.hero.name} used Deploy Turret - Turret attacked ${randomEnemy.name} for ${damageAmount} damage`,
-              timestamp: Date.now()
-            };
-            
-            endTurnEffects.push(turretAttackLogEntry);
-            
-            // Check if target died from turret damage
-            if (randomEnemy.currentHP <= 0 && !randomEnemy.statusEffects?.justResurrected) {
-              this.updatePassiveEffectsOnDeath(game, randomEnemy, currentTurnInfo.hero, 'Engineer Turret');
-            }
-          }
-        } else {
-          console.log(`🔧 No alive enemies found for turret damage`);
-        }
+      // Summoned units act at the end of their owner's turn (Engineer's turrets, Medic's Emergency Heal)
+      if (currentTurnInfo.hero.currentHP > 0) {
+        endTurnEffects.push(...this.processSummonTriggers(game, currentTurnInfo.hero, currentTurnInfo.player, 'owner_turn_end'));
       }
 
-      // Medic Emergency Heal: Heal lowest health ally for 1D4 per med bot at end of turn
-      if (currentTurnInfo.hero.name === 'Medic' && currentTurnInfo.hero.currentHP > 0 && 
-          currentTurnInfo.hero.statusEffects && currentTurnInfo.hero.statusEffects.med_bot_count > 0) {
-        
-        const medBotCount = currentTurnInfo.hero.statusEffects.med_bot_count;
-        console.log(`💉 ${currentTurnInfo.hero.name}'s ${medBotCount} med bot(s) activate Emergency Heal at end of turn`);
-        
-        // Get all damaged allies (including Medic themselves)
-        const aliveAllies = currentTurnInfo.player.team.filter(hero => hero.currentHP > 0 && hero.currentHP < hero.HP);
-        
-        if (aliveAllies.length > 0) {
-          // Find lowest health ally
-          let lowestHealthAlly = aliveAllies[0];
-          for (const ally of aliveAllies) {
-            if (ally.currentHP < lowestHealthAlly.currentHP) {
-              lowestHealthAlly = ally;
-            }
-          }
-          
-          // Heal 1D4 for each med bot
-          const { rollDiceString } = require('./utils');
-          let totalHealing = 0;
-          const healRolls = [];
-          
-          for (let i = 0; i < medBotCount; i++) {
-            const healRoll = rollDiceString('1D4');
-            totalHealing += healRoll.total;
-            healRolls.push(healRoll.total);
-          }
-          
-          const oldHP = lowestHealthAlly.currentHP;
-          lowestHealthAlly.currentHP = Math.min(lowestHealthAlly.currentHP + totalHealing, lowestHealthAlly.HP);
-          const actualHealing = lowestHealthAlly.currentHP - oldHP;
-          
-          console.log(`💉 ${currentTurnInfo.hero.name} used Emergency Heal: Healed ${lowestHealthAlly.name} for ${actualHealing} HP (rolled ${healRolls.join(' + ')} = ${totalHealing})`);
-          
-          // Create heal log entry
-          const emergencyHealLogEntry = {
-            type: 'emergency_heal',
-            caster: currentTurnInfo.hero.name,
-            target: lowestHealthAlly.name,
-            healing: actualHealing,
-            totalRolled: totalHealing,
-            medBotCount: medBotCount,
-            newHP: lowestHealthAlly.currentHP,
-            maxHP: lowestHealthAlly.HP,
-            message: `${currentTurnInfo.hero.name} used Emergency Heal and healed ${lowestHealthAlly.name} for ${actualHealing}`,
-            timestamp: Date.now()
-          };
-          
-          endTurnEffects.push(emergencyHealLogEntry);
-        } else {
-          console.log(`💉 No damaged allies found for Emergency Heal`);
-        }
-      }
     }
 
     // Reset turn actions
@@ -5203,13 +4693,10 @@ class GameManager {
     currentTurnInfo.player.twinSpellUsed = false; // Reset Twin Spell usage for this player (legacy)
     currentTurnInfo.player.twinSpellActive = false; // Reset Twin Spell active state for this player
     currentTurnInfo.player.oneTwoPunchUsed = false; // Reset One-Two Punch usage for this player
-    currentTurnInfo.player.monkAttacksRemaining = currentTurnInfo.hero.name === 'Monk' ? 1 : 0; // Reset Monk attack count
+    currentTurnInfo.player.monkAttacksRemaining = this.grantsFollowUpAttacks(currentTurnInfo.hero) ? 1 : 0; // Reset follow-up attack count
     currentTurnInfo.player.oneTwoPunchAttacksRemaining = 0; // Legacy field for compatibility
-    // Only reset Monk Deflect at the start of Monk's turn
-    if (currentTurnInfo.hero.name === 'Monk') {
-      currentTurnInfo.player.monkDeflectUsed = false;
-      debugLog(` Reset Monk Deflect for ${currentTurnInfo.hero.name}'s turn`);
-    }
+    // Once-per-round specials (Monk's Deflect) come back when their owner's turn ends
+    this.refreshRoundSpecials(currentTurnInfo.hero);
     
 
     
@@ -5228,7 +4715,7 @@ class GameManager {
       debugLog(` First Pick Silence removed from ${currentTurnInfo.hero.name} at end of turn`);
     }
 
-    // Apply queued taunts from Paladin Shield of Faith
+    // Apply queued taunts (Paladin's Shield of Faith)
     if (game.pendingTaunts && game.pendingTaunts.length > 0) {
       debugLog(` Applying ${game.pendingTaunts.length} queued taunts at end of ${currentTurnInfo.hero.name}'s turn`);
       
@@ -5247,7 +4734,7 @@ class GameManager {
           
           if (existingTaunt) {
             if (existingTaunt.appliedBy === pendingTaunt.appliedBy && existingTaunt.target === pendingTaunt.tauntTarget) {
-              // Same Paladin trying to taunt again - don't log
+              // Same hero trying to taunt again - don't log
               shouldLog = false;
               debugLog(` ${targetHero.name} already taunted by ${pendingTaunt.appliedBy} - no log entry added`);
             } else {
@@ -5263,14 +4750,14 @@ class GameManager {
             source: pendingTaunt.source
           };
           
-          debugLog(` ${pendingTaunt.appliedBy}'s Shield of Faith applied! ${targetHero.name} is now taunted to target ${pendingTaunt.tauntTarget}`);
+          debugLog(` ${pendingTaunt.appliedBy}'s ${pendingTaunt.source} applied! ${targetHero.name} is now taunted to target ${pendingTaunt.tauntTarget}`);
           
-          // Add comprehensive special log entry for Shield of Faith taunt
+          // Add comprehensive special log entry for the taunt
           if (shouldLog) {
-            const paladinHero = this.findHeroByName(game, pendingTaunt.appliedBy);
-            const shieldOfFaithLogEntry = this.createSpecialLogEntry(
-              paladinHero,
-              'Shield of Faith', 
+            const tauntingHero = this.findHeroByName(game, pendingTaunt.appliedBy);
+            const tauntLogEntry = this.createSpecialLogEntry(
+              tauntingHero,
+              pendingTaunt.source, 
               null, 
               null,
               [{
@@ -5281,7 +4768,7 @@ class GameManager {
                 message: `taunted ${targetHero.name}`
               }]
             );
-            endTurnEffects.push(shieldOfFaithLogEntry);
+            endTurnEffects.push(tauntLogEntry);
           }
         }
       }
@@ -5405,21 +4892,33 @@ class GameManager {
     };
   }
 
-  reconnectPlayer(socketId, gameId, playerName) {
+  /**
+   * Hand a player's seat to their new socket. The seat is found by the signed-in user - or, for a
+   * player who isn't signed in, by their rejoin token - never by the name the client sends, and
+   * isn't handed over while the socket holding it is still live.
+   */
+  reconnectPlayer(socketId, gameId, userId, rejoinToken = null) {
     const game = this.games.get(gameId);
     if (!game) {
       return { success: false, error: 'Game not found' };
     }
 
-    const player = game.players.find(p => p.name === playerName);
+    // Players who aren't signed in prove their seat with the token handed out in their game state
+    const player = userId
+      ? game.players.find(p => !p.isAI && p.userId === userId)
+      : game.players.find(p => !p.isAI && !p.userId && rejoinToken && p.rejoinToken === rejoinToken);
     if (!player) {
       return { success: false, error: 'Player not found in game' };
     }
 
+    const heldSocket = this.io && this.io.sockets.sockets.get(player.id);
+    if (player.id !== socketId && player.connected && heldSocket && heldSocket.connected) {
+      return { success: false, error: 'This game is still open in another session' };
+    }
+
     // Check if player already surrendered from disconnection timeout
-    const oldPlayerId = game.players.find(p => p.name === playerName)?.id;
-    if (oldPlayerId && game.disconnectionTimers && game.disconnectionTimers.has(oldPlayerId)) {
-      const timerData = game.disconnectionTimers.get(oldPlayerId);
+    if (game.disconnectionTimers && game.disconnectionTimers.has(player.id)) {
+      const timerData = game.disconnectionTimers.get(player.id);
       if (timerData.surrendered) {
         return { success: false, error: 'You have already been surrendered due to disconnection' };
       }
@@ -5430,6 +4929,21 @@ class GameManager {
     player.id = socketId;
     player.connected = true;
     this.playerGameMap.set(socketId, gameId);
+
+    // Anything else keyed by the old socket id follows the player to the new one
+    if (oldId !== socketId) {
+      [this.gauntletRuns, this.survivalStates].forEach(map => {
+        if (map.has(oldId)) {
+          map.set(socketId, map.get(oldId));
+          map.delete(oldId);
+        }
+      });
+      const run = this.gauntletRuns.get(socketId);
+      if (run) run.playerId = socketId;
+      if (game.actionTimer) {
+        game.actionTimer.playerIds = game.actionTimer.playerIds.map(id => id === oldId ? socketId : id);
+      }
+    }
     
     // Cancel disconnection countdown if it exists
     if (game.disconnectionTimers && game.disconnectionTimers.has(oldId)) {
@@ -5438,11 +4952,14 @@ class GameManager {
         clearTimeout(timerData.timeoutId);
       }
       game.disconnectionTimers.delete(oldId);
-      console.log(`✅ Player ${playerName} reconnected - cancelled disconnection countdown`);
+      console.log(`✅ Player ${player.name} reconnected - cancelled disconnection countdown`);
     }
     
     // Update the playerGameMap entry
-    this.playerGameMap.delete(oldId);
+    if (oldId !== socketId) {
+      this.playerGameMap.delete(oldId);
+    }
+    this.persistGame(gameId);
 
     return {
       success: true,
@@ -5484,7 +5001,7 @@ class GameManager {
     const availableHeroes = this.heroes.filter(hero => !bannedCards.includes(hero.name));
     
     // Use regular shuffle for equal probability
-    const shuffled = shuffle(availableHeroes);
+    const shuffled = shuffleArray(availableHeroes);
     
     // Assign 3 random heroes to each player - properly reset each hero
     game.players[0].team = shuffled.slice(0, 3).map(hero => this.resetHeroToOriginalState(hero));
@@ -5575,10 +5092,12 @@ class GameManager {
       game.winner = opponentPlayer.id;
 
       console.log(`🏆 ${opponentPlayer.name} wins by disconnection forfeit`);
+      this.recordReplayAction(game, 'disconnect-forfeit', playerId, []);
+      this.clearActionTimer(game);
 
       // Update database stats for disconnected player (loss)
       const disconnectedUserId = this.userSessions.get(playerId);
-      if (disconnectedUserId && this.database) {
+      if (disconnectedUserId && this.database && game.mode !== 'practice') {
         try {
           await this.database.updatePlayerStats(disconnectedUserId, false, game.mode);
           debugLog(` Updated loss for disconnected player ${player.name} (userId: ${disconnectedUserId})`);
@@ -5589,7 +5108,7 @@ class GameManager {
 
       // Update database stats for winner
       const winnerUserId = this.userSessions.get(opponentPlayer.id);
-      if (winnerUserId && this.database) {
+      if (winnerUserId && this.database && game.mode !== 'practice') {
         try {
           await this.database.updatePlayerStats(winnerUserId, true, game.mode);
           debugLog(` Updated win for ${opponentPlayer.name} (userId: ${winnerUserId})`);
@@ -5600,7 +5119,7 @@ class GameManager {
 
       // Notify both players via socket service (will be handled in server.js)
       if (this.io) {
-        this.io.to(game.id).emit('game-ended-by-disconnection', {
+        this.emitToGame(game.id, 'game-ended-by-disconnection', {
           winner: opponentPlayer.id,
           winnerName: opponentPlayer.name,
           disconnectedPlayer: playerId,
@@ -5612,6 +5131,241 @@ class GameManager {
 
     // Clean up the timer
     game.disconnectionTimers.delete(playerId);
+    this.persistGame(game.id);
+  }
+
+  // Which step the game is waiting on and from whom, or null if nothing is on the clock
+  getPendingActionStep(game) {
+    if (game.phase === 'draft') {
+      const waiting = game.currentDraftPhase === 0
+        ? game.players.filter(p => !p.bannedCard)
+        : game.players.filter(p => (p.team || []).length < game.currentDraftPhase);
+      return {
+        kind: 'draft',
+        key: `draft-${game.currentDraftPhase}`,
+        playerIds: waiting.map(p => p.id),
+        duration: DRAFT_TIME_LIMIT
+      };
+    }
+
+    if (game.phase === 'setup') {
+      return {
+        kind: 'setup',
+        key: 'setup',
+        playerIds: game.players.filter(p => !p.isReady).map(p => p.id),
+        duration: DRAFT_TIME_LIMIT
+      };
+    }
+
+    if (game.phase === 'battle') {
+      const turnInfo = this.getCurrentTurnInfo(game);
+      if (!turnInfo) return null;
+      return {
+        kind: 'turn',
+        key: `turn-${turnInfo.playerIndex}-${turnInfo.heroIndex}`,
+        playerIds: [turnInfo.player.id],
+        duration: TURN_TIME_LIMIT
+      };
+    }
+
+    return null;
+  }
+
+  // Start, keep or stop the action clock to match the game's current step
+  refreshActionTimer(game, forceRestart = false) {
+    if (!this.actionClocksEnabled) return;
+
+    const step = this.getPendingActionStep(game);
+    if (!step || step.duration <= 0 || step.playerIds.length === 0) {
+      if (game.actionTimer) {
+        this.clearActionTimer(game);
+        this.emitActionTimer(game);
+      }
+      return;
+    }
+
+    const current = game.actionTimer;
+    if (current && current.key === step.key && !forceRestart) {
+      // Same step, someone acted (e.g. one player banned) - they are off the clock
+      if (current.playerIds.length !== step.playerIds.length) {
+        current.playerIds = step.playerIds;
+        this.emitActionTimer(game);
+      }
+      return;
+    }
+
+    this.clearActionTimer(game);
+    game.actionTimer = {
+      kind: step.kind,
+      key: step.key,
+      playerIds: step.playerIds,
+      duration: step.duration,
+      startTime: Date.now()
+    };
+    this.actionTimeouts.set(game.id, setTimeout(() => {
+      this.handleActionTimeout(game, step.key);
+    }, step.duration * 1000));
+
+    debugLog(` Action clock started for game ${game.id}: ${step.kind} (${step.duration}s)`);
+    this.emitActionTimer(game);
+  }
+
+  clearActionTimer(game) {
+    const timeoutId = this.actionTimeouts.get(game.id);
+    if (timeoutId) {
+      clearTimeout(timeoutId);
+      this.actionTimeouts.delete(game.id);
+    }
+    game.actionTimer = null;
+  }
+
+  getActionTimerState(game) {
+    const timer = game.actionTimer;
+    if (!timer) return null;
+
+    const elapsed = (Date.now() - timer.startTime) / 1000;
+    return {
+      kind: timer.kind,
+      playerIds: timer.playerIds,
+      duration: timer.duration,
+      remainingTime: Math.max(0, Math.ceil(timer.duration - elapsed))
+    };
+  }
+
+  emitActionTimer(game) {
+    if (this.io) {
+      this.io.to(game.id).emit('action-timer', {
+        gameId: game.id,
+        timer: this.getActionTimerState(game)
+      });
+    }
+  }
+
+  handleActionTimeout(game, stepKey) {
+    this.actionTimeouts.delete(game.id);
+    const timer = game.actionTimer;
+    if (this.games.get(game.id) !== game || !timer || timer.key !== stepKey) return;
+
+    const stallingPlayers = game.players.filter(p => timer.playerIds.includes(p.id));
+    stallingPlayers.forEach(player => {
+      player.timeoutCount = (player.timeoutCount || 0) + 1;
+      console.log(`⏰ ${player.name} ran out of time on ${timer.kind} (${player.timeoutCount}/${MAX_TIMEOUTS_BEFORE_FORFEIT})`);
+    });
+
+    const notify = (event, result, player) => {
+      if (result && result.success) {
+        this.notifyAutoAction(event, { ...result, timedOut: true, timedOutPlayerId: player.id });
+      }
+    };
+
+    if (timer.kind === 'turn') {
+      const player = stallingPlayers[0];
+      if (!player) return;
+      if (MAX_TIMEOUTS_BEFORE_FORFEIT > 0 && player.timeoutCount >= MAX_TIMEOUTS_BEFORE_FORFEIT) {
+        console.log(`🏳️ ${player.name} forfeits after ${player.timeoutCount} timeouts`);
+        notify('game-surrendered', this.surrenderGame(player.id), player);
+      } else {
+        notify('turn-ended', this.endTurn(player.id), player);
+      }
+    } else if (timer.kind === 'draft') {
+      // autoDraft finishes both teams at once, so one call covers every stalling player
+      const player = stallingPlayers[0];
+      if (!player) return;
+      notify('auto-draft-complete', this.autoDraft(player.id), player);
+    } else if (timer.kind === 'setup') {
+      // Lock in the order the stalling player's heroes are already in
+      stallingPlayers.forEach(player => {
+        notify('attack-order-set', this.setAttackOrder(player.id, player.team.map(h => h.name)), player);
+      });
+    }
+  }
+
+  // The AI opponent the game is currently waiting on, if any
+  getWaitingAIPlayer(game) {
+    const aiPlayers = game.players.filter(p => p.isAI);
+    if (aiPlayers.length === 0) return null;
+
+    if (game.phase === 'initiative') {
+      const unrolled = aiPlayers.find(p => p.initiativeRoll === undefined);
+      if (unrolled) return unrolled;
+      if (game.players.some(p => p.initiativeRoll === undefined)) return null;
+      // Initiative winner picks the turn order
+      const [first, second] = game.players;
+      const winner = first.initiativeRoll > second.initiativeRoll ? first : second;
+      return winner.isAI ? winner : null;
+    }
+
+    const step = this.getPendingActionStep(game);
+    if (!step) return null;
+    return aiPlayers.find(p => step.playerIds.includes(p.id)) || null;
+  }
+
+  // Queue the next AI opponent move after a short pause (replaces any move already queued)
+  scheduleAIAction(game) {
+    if (!this.aiTurnsEnabled || !game.players.some(p => p.isAI)) return;
+
+    const pending = this.aiTimeouts.get(game.id);
+    if (pending) {
+      clearTimeout(pending);
+      this.aiTimeouts.delete(game.id);
+    }
+
+    if (game.phase === 'ended') {
+      this.releaseAIPlayers(game);
+      return;
+    }
+
+    const aiPlayer = this.getWaitingAIPlayer(game);
+    if (!aiPlayer) return;
+
+    this.aiTimeouts.set(game.id, setTimeout(() => {
+      this.aiTimeouts.delete(game.id);
+      if (this.games.get(game.id) !== game) return;
+      this.runAIStep(game, aiPlayer);
+    }, AI_ACTION_DELAY_MS));
+  }
+
+  // Play the AI's preferred move, falling through its plan until the rules accept one.
+  // The successful action reschedules the next move through the SEEDED_ACTIONS wrapper
+  runAIStep(game, aiPlayer) {
+    const turnInfo = game.phase === 'battle' ? this.getCurrentTurnInfo(game) : null;
+    if (turnInfo && turnInfo.player !== aiPlayer) return;
+
+    const plan = withRandomSource(aiPlayer.rng, () => planAIStep(game, aiPlayer, aiPlayer.aiDifficulty, turnInfo));
+
+    for (const move of plan) {
+      if (move.target && !this.selectTarget(aiPlayer.id, move.target).success) {
+        continue;
+      }
+
+      let result = this[move.method](aiPlayer.id, ...move.args);
+      if (!result || !result.success) continue;
+
+      // Commanding an ally with several abilities needs a follow-up choice; take the first
+      const selection = move.method === 'useAbility' && (result.results || []).find(r => r.type === 'ability_selection_required');
+      if (selection) {
+        const commanded = this.useTimekeeperSelectedAbility(aiPlayer.id, selection.timekeeperTarget, selection.ally, 0);
+        if (commanded && commanded.success) {
+          result = commanded;
+        }
+      }
+
+      debugLog(` AI ${aiPlayer.name} played ${move.method}(${move.args.join(', ')})`);
+      this.notifyAutoAction(AI_RESULT_EVENTS[move.method], result);
+      return;
+    }
+
+    console.warn(`⚠️ AI ${aiPlayer.name} found no legal move in game ${game.id} (${game.phase})`);
+  }
+
+  // Forget AI opponents once their game is over
+  releaseAIPlayers(game) {
+    const pending = this.aiTimeouts.get(game.id);
+    if (pending) {
+      clearTimeout(pending);
+      this.aiTimeouts.delete(game.id);
+    }
+    game.players.filter(p => p.isAI).forEach(p => this.playerGameMap.delete(p.id));
   }
 
   getDisconnectionTimer(gameId, playerId) {
@@ -5632,7 +5386,25 @@ class GameManager {
     };
   }
 
+  // Callback for actions the server plays itself (clock timeouts, AI opponent moves)
+  setAutoActionHandler(handler) {
+    this.autoActionHandler = handler;
+  }
+
+  // Nothing awaits a timer callback, so a failing (async) handler is logged here rather than
+  // left as an unhandled rejection that would take the process down
+  notifyAutoAction(event, result) {
+    if (!this.autoActionHandler) return;
+    const logError = error => console.error(`❌ Error handling automatic ${event}:`, error);
+    try {
+      Promise.resolve(this.autoActionHandler(event, result)).catch(logError);
+    } catch (error) {
+      logError(error);
+    }
+  }
+
   // Method to inject the io instance for socket communication
+
   setIo(io) {
     this.io = io;
   }
@@ -5695,11 +5467,16 @@ class GameManager {
         usedAttacks: p.usedAttacks || 0,
         selectedTarget: p.selectedTarget || null,
         bannedCard: p.bannedCard,
+        hasBanned: !!p.bannedCard,
         attackOrder: p.attackOrder || [],
         initiativeRoll: p.initiativeRoll,
         monkAttacksRemaining: p.monkAttacksRemaining || 0,
         oneTwoPunchAttacksRemaining: p.oneTwoPunchAttacksRemaining || 0,
         profile_icon: p.profile_icon || 'Sorcerer',
+        rank: p.rank || null,
+        isAI: !!p.isAI,
+        aiDifficulty: p.aiDifficulty,
+        timeoutCount: p.timeoutCount || 0,
         disconnectionTimer: game.disconnectionTimers ? this.getDisconnectionTimer(game.id, p.id) : null
       })),
       currentTurn: game.currentTurn,
@@ -5712,20 +5489,115 @@ class GameManager {
       currentDraftPhase: game.currentDraftPhase || 0,
       draftTurn: game.draftTurn || 0,
       winner: game.winner,
+      roomName: game.roomName || null,
+      hostName: game.hostName || null,
+      ranked: !!game.ranked,
       draftCards: game.draftCards,
+      actionTimer: this.getActionTimerState(game),
       battleLog: game.battleLog || [] // Include battle log for spectators and reconnection
     };
   }
 
+  // Hidden information: a player's draft hand is theirs alone, and so is their ban until both
+  // players have banned. Strips the other hands from a payload (a game state, or an event result
+  // carrying one) for one recipient; a viewerId that isn't a player in the game - spectators,
+  // the REST API - gets the public view with no hands at all. Each player also gets their own
+  // rejoin token, and nobody else's
+  getViewerPayload(game, payload, viewerId = null) {
+    if (!payload || typeof payload !== 'object') return payload;
+
+    const viewerIndex = game.players.findIndex(p => p.id === viewerId);
+    const bansRevealed = game.players.every(p => p.bannedCard);
+
+    const redactPlayer = (player) => {
+      if (!player || typeof player !== 'object') {
+        return player;
+      }
+      if (viewerIndex !== -1 && player.id === viewerId) {
+        return { ...player, rejoinToken: game.players[viewerIndex].rejoinToken };
+      }
+      const redacted = { ...player };
+      delete redacted.rejoinToken;
+      if ('draftCards' in redacted) redacted.draftCards = [];
+      if ('bannedCard' in redacted && !bansRevealed) redacted.bannedCard = null;
+      return redacted;
+    };
+
+    // { player1: [names], player2: [names] }
+    const redactHands = (hands) => {
+      if (!hands || typeof hands !== 'object' || !('player1' in hands)) return hands;
+      return {
+        player1: viewerIndex === 0 ? hands.player1 : [],
+        player2: viewerIndex === 1 ? hands.player2 : []
+      };
+    };
+
+    const redactState = (state) => {
+      const redacted = { ...state };
+      if (Array.isArray(state.players)) redacted.players = state.players.map(redactPlayer);
+      if ('draftCards' in state) redacted.draftCards = redactHands(state.draftCards);
+      return redacted;
+    };
+
+    const view = redactState(payload);
+    if (payload.gameState && typeof payload.gameState === 'object') {
+      view.gameState = redactState(payload.gameState);
+    }
+    if ('newHands' in payload) {
+      view.newHands = redactHands(payload.newHands);
+    }
+    return view;
+  }
+
+  getGameStateForViewer(gameId, viewerId) {
+    const game = this.games.get(gameId);
+    return game ? this.getViewerPayload(game, this.getFullGameState(game), viewerId) : null;
+  }
+
+  // Send one socket its view of a game event; spectators get it SPECTATOR_DELAY_SECONDS late
+  emitToViewer(gameId, socketId, event, payload) {
+    if (!this.io) return;
+    const game = this.games.get(gameId);
+    if (!game) {
+      this.io.to(socketId).emit(event, payload);
+      return;
+    }
+
+    const isPlayer = game.players.some(p => p.id === socketId);
+    const view = this.getViewerPayload(game, payload, isPlayer ? socketId : null);
+    if (isPlayer || SPECTATOR_DELAY_SECONDS <= 0) {
+      this.io.to(socketId).emit(event, view);
+      return;
+    }
+
+    // Heroes in the payload are live objects; freeze what the spectator will see now
+    const delayedView = JSON.parse(JSON.stringify(view));
+    setTimeout(() => this.io.to(socketId).emit(event, delayedView), SPECTATOR_DELAY_SECONDS * 1000);
+  }
+
+  // Send a game event to everyone in the game's room, each with their own view of it
+  emitToGame(gameId, event, payload) {
+    if (!this.io) return;
+    const room = this.io.sockets.adapter.rooms.get(gameId);
+    if (!room) return;
+    [...room].forEach(socketId => this.emitToViewer(gameId, socketId, event, payload));
+  }
+
+  // Send an event to the game's spectators only, never its players
+  emitToSpectators(gameId, event, payload) {
+    if (!this.io) return;
+    const game = this.games.get(gameId);
+    if (!game || !game.spectators) return;
+    game.spectators.forEach(spectator => this.io.to(spectator.socketId).emit(event, payload));
+  }
+
   processCounterAttacks(game, defender, attacker, trigger) {
     const results = [];
     
     // Check if the defender has any counter-attack abilities
-    if (!defender.Special || defender.currentHP <= 0) return results;
+    if (defender.currentHP <= 0) return results;
 
-    const specials = Array.isArray(defender.Special) ? defender.Special : [defender.Special];
-    
-    for (const special of specials) {
+    for (const special of getSpecials(defender)) {
       if (special.trigger === trigger) {
         debugLog(` ${defender.name}'s ${special.name} activated! Counter-attacking ${attacker.name}`);
         
@@ -5775,96 +5647,240 @@ class GameManager {
         break; // Only trigger one counter-attack per miss
       }
     }
-    
-    return results;
+    
+    return results;
+  }
+
+  // Once-only specials (Angel's Resurrect, Wizard's Arcane Shield, Monk's Deflect until its owner's
+  // turn ends) are tracked on the hero
+  isSpecialSpent(hero, special) {
+    return !!hero.spentSpecials?.[special.name];
+  }
+
+  markSpecialSpent(hero, special) {
+    if (!['once', 'once_per_battle', 'once_per_round'].includes(special.frequency)) return;
+    if (!hero.spentSpecials) hero.spentSpecials = {};
+    hero.spentSpecials[special.name] = true;
+  }
+
+  refreshRoundSpecials(hero) {
+    for (const special of getSpecials(hero)) {
+      if (special.frequency === 'once_per_round' && hero.spentSpecials?.[special.name]) {
+        debugLog(` ${hero.name}'s ${special.name} is ready again`);
+        delete hero.spentSpecials[special.name];
+      }
+    }
+  }
+
+  // Roll an attack or ability: advantage and disadvantage, the roller's crit range, then the
+  // roller's roll specials (Ace Up The Sleeve turns a natural 1 into a critical hit)
+  rollAttack(game, attacker, target, isAbility, excludeAdvantageFrom = null) {
+    const { advantage, disadvantage } = this.hasAdvantageDisadvantage(attacker, target, isAbility, game, excludeAdvantageFrom);
+    const attackRoll = calculateAttackRoll(attacker.modifiedAccuracy, advantage, disadvantage, getSpecialModifiers(attacker).critThreshold);
+
+    for (const special of getSpecials(attacker)) {
+      if (special.trigger !== `on_roll_natural_${attackRoll.roll}`) continue;
+      console.log(`🃏 ${attacker.name}'s ${special.name} activated on a natural ${attackRoll.roll}!`);
+      fireSpecial({ gm: this, game, owner: attacker, attackRoll }, special);
+    }
+    return attackRoll;
+  }
+
+  // An ally of the target stops a low-rolled hit and strikes back (Monk's Deflect).
+  // Returns { protector, counterDamage, logEntry } or null when nobody steps in.
+  processHitProtectionSpecials(game, attacker, target, attackRoll) {
+    const targetPlayer = game.players.find(p => p.team.includes(target));
+    if (!targetPlayer || targetPlayer.team.includes(attacker)) return null;
+    // Check if attacker can ignore deflect (like Barbarian's Break the Line)
+    if (this.hasPassiveModifier(attacker, 'ignore_deflect')) return null;
+
+    for (const protector of targetPlayer.team) {
+      if (protector.currentHP <= 0) continue;
+      const special = getSpecials(protector).find(s => s.trigger === 'on_ally_hit_by_low_roll');
+      if (!special || this.isSpecialSpent(protector, special)) continue;
+      if (attackRoll.total >= calculateEffectiveDefense(protector)) continue;
+
+      debugLog(` ${protector.name}'s ${special.name} stops ${attacker.name}'s hit on ${target.name} (${attackRoll.total} < ${calculateEffectiveDefense(protector)})`);
+      this.markSpecialSpent(protector, special);
+      const effects = fireSpecial({ gm: this, game, owner: protector, attacker, target }, special);
+      const counterAttacks = effects.filter(effect => effect.type === 'damage' && effect.target === attacker.name);
+      const counterDamage = counterAttacks.reduce((total, effect) => total + effect.damage, 0);
+
+      return {
+        protector,
+        counterDamage,
+        // No trigger context to avoid "Monk used Deflect" redundancy
+        logEntry: this.createSpecialLogEntry(protector, special.name, null, counterAttacks[0]?.damageRoll || null, effects)
+      };
+    }
+    return null;
+  }
+
+  // An ally lets a missed attack or ability be rolled again (Bard's Encore).
+  // Returns the log entry, or null when nobody steps in.
+  processMissSpecials(game, attacker) {
+    const attackerPlayer = game.players.find(p => p.team.includes(attacker));
+    if (!attackerPlayer) return null;
+
+    for (const ally of attackerPlayer.team) {
+      if (ally === attacker || ally.currentHP <= 0) continue;
+      const special = getSpecials(ally).find(s => s.trigger === 'on_ally_miss');
+      if (!special || this.isSpecialSpent(ally, special)) continue;
+
+      const ctx = { gm: this, game, owner: ally, ally: attacker };
+      const effects = fireSpecial(ctx, special);
+      if (!ctx.reroll) continue;
+
+      this.markSpecialSpent(ally, special);
+      return this.createSpecialLogEntry(ally, special.name, null, null, effects);
+    }
+    return null;
+  }
+
+  // Allies who follow up when a teammate lands a hit on an enemy (Arcanist's Tether Ally).
+  // Returns the log entries of what they did.
+  processAllyHitSpecials(game, attacker, target) {
+    const attackerPlayer = game.players.find(p => p.team.includes(attacker));
+    if (!attackerPlayer || attackerPlayer.team.includes(target) || target.currentHP <= 0) return [];
+
+    const logEntries = [];
+    for (const ally of attackerPlayer.team) {
+      if (ally === attacker || ally.currentHP <= 0) continue;
+      const special = getSpecials(ally).find(s => s.trigger === 'on_ally_hit');
+      if (!special || this.isSpecialSpent(ally, special)) continue;
+
+      debugLog(` ${ally.name}'s ${special.name} follows up on ${attacker.name}'s hit on ${target.name}`);
+      this.markSpecialSpent(ally, special);
+      logEntries.push(...fireSpecial({ gm: this, game, owner: ally, ally: attacker, target }, special));
+    }
+    return logEntries;
+  }
+
+  // Specials resolved once before the first turn (Mime's Unique Duplicate copies the Special of
+  // the enemy across from it)
+  processMatchStartSpecials(game) {
+    game.players.forEach((player, playerIndex) => {
+      const opponent = game.players[1 - playerIndex];
+      player.team.forEach((hero, heroIndex) => {
+        for (const special of getSpecials(hero)) {
+          if (special.trigger !== 'match_start') continue;
+
+          const enemies = opponent.team.filter(enemy => enemy.currentHP > 0);
+          const chosen = opponent.team[heroIndex]?.currentHP > 0 ? opponent.team[heroIndex] : enemies[0];
+          const effects = fireSpecial({ gm: this, game, owner: hero, chosen }, special);
+          if (effects.length > 0) {
+            if (!game.battleLog) game.battleLog = [];
+            game.battleLog.push(this.createSpecialLogEntry(hero, special.name, 'activated at battle start', null, effects));
+          }
+        }
+      });
+    });
+  }
+
+  // Extra dice saved up for the attacker's next basic attack (Sniper's Lock In, Blacksmith's Sharpen),
+  // added to the damage roll and used up
+  applyNextAttackBonus(attacker, damageRoll, isCritical) {
+    const bonuses = attacker.statusEffects?.nextAttackBonus;
+    if (!bonuses || bonuses.length === 0) return;
+
+    for (const dice of bonuses) {
+      const bonus = calculateDamage(dice, isCritical);
+      damageRoll.total += bonus.total;
+      damageRoll.rolls.push(...bonus.rolls);
+    }
+    debugLog(` ${attacker.name}'s saved bonus (${bonuses.join(' + ')}) adds to the attack: ${damageRoll.total} total`);
+    delete attacker.statusEffects.nextAttackBonus;
+  }
+
+  // Specials that follow up on the attacker dealing damage (Cavalier's Ride Down)
+  processDamageDealtSpecials(game, attacker, target) {
+    for (const special of getSpecials(attacker)) {
+      if (special.condition !== 'after_hitting_target') continue;
+      fireSpecial({ gm: this, game, owner: attacker, target }, special);
+    }
+  }
+
+  // Specials that react to the caster landing an ability (Sorcerer's Twin Spell)
+  processAbilityHitSpecials(game, caster, casterPlayer) {
+    const logEntries = [];
+    for (const special of getSpecials(caster)) {
+      if (special.trigger !== 'on_ability_hit') continue;
+      const effects = fireSpecial({ gm: this, game, owner: caster, casterPlayer }, special);
+      if (effects.length > 0) {
+        logEntries.push(this.createSpecialLogEntry(caster, special.name, `reactive to successful ability hit`, null, effects));
+      }
+    }
+    return logEntries;
+  }
+
+  // End-of-turn specials (Druid's Healing Word)
+  processEndOfTurnSpecials(game, hero) {
+    const logEntries = [];
+    for (const special of getSpecials(hero)) {
+      if (special.trigger !== 'end_of_turn') continue;
+      debugLog(` ${hero.name}'s ${special.name} triggered at end of turn`);
+      for (const effect of fireSpecial({ gm: this, game, owner: hero }, special)) {
+        logEntries.push({
+          ...effect,
+          type: `special_${effect.type}`,
+          caster: hero.name,
+          specialName: special.name,
+          timestamp: Date.now()
+        });
+      }
+    }
+    return logEntries;
+  }
+
+  // Does a special stop damage before it lands? (Engineer's Protective Gear, Wizard's Arcane Shield above 5)
+  isDamageReductionTrigger(special, damage) {
+    if (special.trigger_timing === 'before_damage_applied') return true;
+    const threshold = special.trigger?.match(/^on_take_damage_gt_(\d+)$/);
+    return !!threshold && damage > Number(threshold[1]);
   }
 
   processDamageReductionSpecials(game, target, attacker, damage) {
     // Check if target has any damage reduction/negation effects (like Wizard's Arcane Shield)
-    if (!target.Special || target.currentHP <= 0 || damage <= 0) {
+    if (target.currentHP <= 0 || damage <= 0) {
       return { finalDamage: damage, specialEffects: [] };
     }
 
-    const specials = Array.isArray(target.Special) ? target.Special : [target.Special];
     const specialLogEntries = [];
     let finalDamage = damage;
     
-    for (const special of specials) {
-      // Check for Wizard's Arcane Shield
-      if (special.trigger === 'on_take_damage_gt_5' && special.name === 'Arcane Shield') {
-        // Check if damage is greater than 5 and shield hasn't been used
-        if (damage > 5 && !target.statusEffects?.arcaneShieldUsed) {
-          debugLog(` ${target.name}'s ${special.name} activated! Damage ${damage} reduced to 0`);
-          
-          // Mark shield as used for the battle
-          if (!target.statusEffects) target.statusEffects = {};
-          target.statusEffects.arcaneShieldUsed = true;
-          
-          // Remove the available status (hide the buff indicator)
-          target.statusEffects.arcaneShieldAvailable = false;
-          
-          // Negate all damage
-          finalDamage = 0;
-          
-          // Create comprehensive special log entry
-          const specialLogEntry = this.createSpecialLogEntry(
-            target, 
-            special.name, 
-            `defensive reaction to incoming damage of ${damage}`, 
-            null, // no attack roll for defensive abilities
-            [{
-              type: 'negate_damage',
-              target: target.name,
-              originalDamage: damage,
-              finalDamage: 0,
-              message: `negates all damage with ${special.name}`
-            }]
-          );
-          
-          specialLogEntries.push(specialLogEntry);
-          
-          // Add to battle log
-          if (game && game.battleLog) {
-            game.battleLog.push(specialLogEntry);
-          }
-          
-          break; // Only one damage reduction per attack
-        }
+    for (const special of getSpecials(target)) {
+      if (!this.isDamageReductionTrigger(special, damage) || this.isSpecialSpent(target, special)) continue;
+
+      const ctx = { gm: this, game, owner: target, target, attacker, damage };
+      const effects = fireSpecial(ctx, special);
+      // Nothing happened (e.g. no Turret left to sacrifice)
+      if (!ctx.negated) continue;
+
+      debugLog(` ${target.name}'s ${special.name} activated! Damage ${damage} reduced to ${ctx.damage}`);
+      this.markSpecialSpent(target, special);
+      if (special.frequency === 'once_per_battle' && target.statusEffects) {
+        // Remove the available status (hide the buff indicator)
+        target.statusEffects.arcaneShieldAvailable = false;
       }
+      finalDamage = ctx.damage;
+
+      // Create comprehensive special log entry
+      const specialLogEntry = this.createSpecialLogEntry(
+        target, 
+        special.name, 
+        `defensive reaction to incoming damage of ${damage}`, 
+        null, // no attack roll for defensive abilities
+        effects
+      );
       
-      // Check for Engineer's Protective Gear (turret sacrifice)
-      if (special.trigger === 'on_take_damage' && special.name === 'Protective Gear') {
-        // Check if Engineer has turrets to sacrifice
-        const turretCount = target.statusEffects?.turret_count || 0;
-        if (turretCount > 0) {
-          console.log(`🔧 ${target.name}'s ${special.name} activated! Sacrificing turret to negate ${damage} damage`);
-          
-          // Sacrifice one turret
-          target.statusEffects.turret_count = turretCount - 1;
-          
-          // Negate all damage
-          finalDamage = 0;
-          
-          // Create clean log entry for turret sacrifice
-          const protectiveGearLogEntry = {
-            type: 'protective_gear',
-            caster: target.name,
-            target: attacker.name,
-            message: `${target.name} sacrificed turret to negate ${attacker.name}'s damage`,
-            isSpecial: true,
-            timestamp: Date.now()
-          };
-          
-          specialLogEntries.push(protectiveGearLogEntry);
-          
-          // Add to battle log
-          if (game && game.battleLog) {
-            game.battleLog.push(protectiveGearLogEntry);
-          }
-          
-          break; // Only one damage reduction per attack
-        }
+      specialLogEntries.push(specialLogEntry);
+      
+      // Add to battle log
+      if (game && game.battleLog) {
+        game.battleLog.push(specialLogEntry);
       }
+      
+      break; // Only one damage reduction per attack
     }
     
     return { finalDamage, specialEffects: specialLogEntries };
@@ -5872,12 +5888,11 @@ class GameManager {
 
   processAfterDamageEffects(game, target, attacker, damage) {
     // Check if target has any after-damage effects (like Ninja's Vanish)
-    if (!target.Special || target.currentHP <= 0 || damage <= 0) return [];
+    if (target.currentHP <= 0 || damage <= 0) return [];
 
-    const specials = Array.isArray(target.Special) ? target.Special : [target.Special];
     const specialLogEntries = [];
     
-    for (const special of specials) {
+    for (const special of getSpecials(target)) {
       if (special.trigger === 'on_take_damage_after') {
         debugLog(` ${target.name}'s ${special.name} activated after taking ${damage} damage from ${attacker.name}`);
         debugLog(` processAfterDamageEffects - target:`, target.name, `attacker:`, attacker.name);
@@ -5932,74 +5947,34 @@ class GameManager {
 
   processOnTakeDamageEffects(game, target, attacker, damage) {
     // Process on_take_damage triggers (like Shroomguard's Poison Aura)
-    if (!target.Special || target.currentHP <= 0 || damage <= 0) return [];
+    if (target.currentHP <= 0 || damage <= 0) return [];
 
-    const specials = Array.isArray(target.Special) ? target.Special : [target.Special];
     const specialLogEntries = [];
     
-    for (const special of specials) {
-      if (special.trigger === 'on_take_damage' && special.name === 'Poison Aura') {
-        debugLog(` ${target.name}'s ${special.name} activated after taking ${damage} damage!`);
-        
-        // Collect all alive heroes from both teams
-        const allHeroes = [];
-        game.players.forEach(player => {
-          player.team.forEach(hero => {
-            if (hero.currentHP > 0) {
-              allHeroes.push(hero);
-            }
-          });
-        });
-        
-        // Apply poison to all alive heroes
-        const poisonResults = [];
-        allHeroes.forEach(hero => {
-          if (!hero.statusEffects) {
-            hero.statusEffects = {};
-          }
-          if (hero.statusEffects.poison === undefined) {
-            hero.statusEffects.poison = 0;
-          }
-          
-          // Skip if hero is immune to poison
-          if (hero.Immunities && hero.Immunities.includes('poison')) {
-            debugLog(` ${hero.name} is immune to poison - skipping`);
-            return;
-          }
-          
-          hero.statusEffects.poison += 1;
-          debugLog(` ${hero.name} received 1 poison stack (total: ${hero.statusEffects.poison})`);
-          
-          poisonResults.push({
-            type: 'apply_debuff',
-            target: hero.name,
-            effect: 'poison',
-            value: 1,
-            message: `receives 1 Poison stack`
-          });
-        });
-        
-        // Create comprehensive special log entry
-        const specialLogEntry = this.createSpecialLogEntry(
-          target, 
-          special.name, 
-          `reactive to taking damage`, 
-          null, // no attack roll for reactive abilities
-          poisonResults
-        );
-        
-        // Override the message to match the requested format
-        specialLogEntry.message = `${target.name}'s Poison Aura gave EVERYONE 1 Poison Stack`;
-        
-        specialLogEntries.push(specialLogEntry);
-        
-        // Add to battle log
-        if (game && game.battleLog) {
-          game.battleLog.push(specialLogEntry);
-        }
-        
-        break; // Only trigger once per damage instance
+    for (const special of getSpecials(target)) {
+      // Damage-stopping specials already had their turn in processDamageReductionSpecials
+      if (special.trigger !== 'on_take_damage' || special.trigger_timing === 'before_damage_applied') continue;
+
+      debugLog(` ${target.name}'s ${special.name} activated after taking ${damage} damage!`);
+      const effects = fireSpecial({ gm: this, game, owner: target, attacker, damage }, special);
+      
+      // Create comprehensive special log entry
+      const specialLogEntry = this.createSpecialLogEntry(
+        target, 
+        special.name, 
+        `reactive to taking damage`, 
+        null, // no attack roll for reactive abilities
+        effects
+      );
+      
+      specialLogEntries.push(specialLogEntry);
+      
+      // Add to battle log
+      if (game && game.battleLog) {
+        game.battleLog.push(specialLogEntry);
       }
+      
+      break; // Only trigger once per damage instance
     }
     
     return specialLogEntries;
@@ -6035,18 +6010,16 @@ class GameManager {
     return triggeredEffects;
   }
 
-  processHealthLinkReflection(game, angel, actualDamageTaken) {
-    // Find all enemies with health_link debuff
-    if (!angel || !game || actualDamageTaken <= 0) return;
-
-    debugLog(` Angel (${angel.name}) took ${actualDamageTaken} damage - checking for Health Link targets`);
+  processHealthLinkReflection(game, linkedHero, actualDamageTaken) {
+    // Find all enemies with a health_link debuff tied to the damaged hero
+    if (!linkedHero || !game || actualDamageTaken <= 0) return;
 
     const reflectionTargets = [];
     
     // Check all players and their teams for health_link debuff
     game.players.forEach(player => {
       player.team.forEach(hero => {
-        if (hero.currentHP > 0 && hero.statusEffects?.health_link) {
+        if (hero.currentHP > 0 && hero.statusEffects?.health_link?.source === linkedHero.name) {
           debugLog(` Found Health Link target: ${hero.name}`);
           reflectionTargets.push(hero);
         }
@@ -6063,7 +6036,7 @@ class GameManager {
       const oldHP = target.currentHP;
       
       // Use centralized damage application (triggers Shroomguard's Poison Aura and Ninja's Vanish)
-      this.applyDamageToHero(game, target, actualDamageTaken, angel, 'Health Link reflection');
+      this.applyDamageToHero(game, target, actualDamageTaken, linkedHero, 'Health Link reflection');
       
       debugLog(` Health Link reflected ${actualDamageTaken} damage to ${target.name}: ${oldHP} → ${target.currentHP} HP`);
       
@@ -6074,14 +6047,14 @@ class GameManager {
       if (game.battleLog) {
         game.battleLog.push({
           type: 'health_link_reflection',
-          source: angel.name,
+          source: linkedHero.name,
           target: target.name,
           damage: actualDamageTaken,
           newHP: target.currentHP,
           maxHP: target.HP,
           specialName: 'Health Link',
           isSpecial: true,
-          message: `Health Link reflected ${actualDamageTaken} damage from ${angel.name} to ${target.name}`,
+          message: `Health Link reflected ${actualDamageTaken} damage from ${linkedHero.name} to ${target.name}`,
           timestamp: Date.now()
         });
       }
@@ -6089,19 +6062,19 @@ class GameManager {
       // Check if target died from reflection
       if (target.currentHP <= 0 && !target.statusEffects?.justResurrected) {
         debugLog(` ${target.name} died from Health Link reflection`);
-        this.updatePassiveEffectsOnDeath(game, target, angel, 'health_link_reflection');
+        this.updatePassiveEffectsOnDeath(game, target, linkedHero, 'health_link_reflection');
       }
     });
   }
 
-  processAngelResurrection(game, dyingHero, killer) {
-    // Find Angel on the dying hero's team
+  // Revive specials: the dying hero's own first, then an ally's (Angel's Resurrect)
+  processReviveSpecials(game, dyingHero) {
     if (!dyingHero || !game) return false;
 
     // CRITICAL: Prevent resurrection if already resurrected this action
     if (dyingHero.statusEffects?.justResurrected) {
       console.log(`⚠️ ${dyingHero.name} already resurrected this turn - cannot resurrect again`);
-      return false; // Return false to allow death processing (Angel can't resurrect twice)
+      return false;
     }
     
     // Prevent duplicate resurrection logs if already logged
@@ -6110,59 +6083,48 @@ class GameManager {
       return false;
     }
 
-    // Find which player owns the dying hero
-    let angelHero = null;
-    let angelOwner = null;
+    const canRevive = (hero, trigger) => special =>
+      special.trigger === trigger &&
+      !this.isSpecialSpent(hero, special) &&
+      special.effects?.some(effect => effect.type === 'revive');
 
-    game.players.forEach(player => {
-      player.team.forEach(hero => {
-        // Check if this is Angel, is alive, on same team as dying hero, and hasn't used resurrect yet
-        if (hero.name === 'Angel' && 
-            hero.currentHP > 0 && 
-            hero !== dyingHero &&
-            player.team.includes(dyingHero) &&
-            !hero.statusEffects?.resurrectUsed) {
-          angelHero = hero;
-          angelOwner = player;
+    let reviver = null;
+    let reviveSpecial = getSpecials(dyingHero).find(canRevive(dyingHero, 'on_death'));
+    if (reviveSpecial) {
+      reviver = dyingHero;
+    } else {
+      const team = game.players.find(player => player.team.includes(dyingHero))?.team || [];
+      for (const hero of team) {
+        if (hero === dyingHero || hero.currentHP <= 0) continue;
+        const special = getSpecials(hero).find(canRevive(hero, 'on_ally_death'));
+        if (special) {
+          reviver = hero;
+          reviveSpecial = special;
         }
-      });
-    });
+      }
+    }
 
-    if (!angelHero) {
-      debugLog(` No Angel available to resurrect ${dyingHero.name}`);
+    if (!reviver) {
+      debugLog(` Nobody can revive ${dyingHero.name}`);
       return false;
     }
 
-    debugLog(` Angel found! Resurrecting ${dyingHero.name}...`);
-
-    // Mark Angel's resurrect as used
-    if (!angelHero.statusEffects) angelHero.statusEffects = {};
-    angelHero.statusEffects.resurrectUsed = true;
-
-    // Clear all status effects from the dying hero EXCEPT the resurrection flag
-    dyingHero.statusEffects = {
-      justResurrected: true // Flag to prevent infinite loop - persists until end of turn
-    };
-
-    // Resurrect at half health (rounded up)
-    const halfHealth = Math.ceil(dyingHero.HP / 2);
-    dyingHero.currentHP = halfHealth;
-
-    debugLog(` ${dyingHero.name} resurrected at ${halfHealth} HP by Angel`);
+    const ctx = { gm: this, game, owner: reviver, dying: dyingHero };
+    const effects = fireSpecial(ctx, reviveSpecial);
+    if (!ctx.revived) return false;
+    this.markSpecialSpent(reviver, reviveSpecial);
 
-    // Add resurrection animation flag
-    dyingHero.resurrected = true;
-    dyingHero.resurrectionLogged = true; // Flag to prevent duplicate logs
+    const healing = effects.find(effect => effect.type === 'heal')?.healing || dyingHero.currentHP;
 
     // Add to battle log - ensure it's visible
     const resurrectionEntry = {
       type: 'special_comprehensive',
-      caster: angelHero.name,
-      specialName: 'Resurrection',
+      caster: reviver.name,
+      specialName: reviveSpecial.name,
       target: dyingHero.name,
-      message: `${angelHero.name} used Resurrection and restored ${dyingHero.name} to ${halfHealth} HP`,
+      message: `${reviver.name} used ${reviveSpecial.name} and restored ${dyingHero.name} to ${healing} HP`,
       hit: true,
-      healing: halfHealth,
+      healing,
       newHP: dyingHero.currentHP,
       maxHP: dyingHero.HP,
       isSpecial: true,
@@ -6173,121 +6135,17 @@ class GameManager {
       game.battleLog = [];
     }
     game.battleLog.push(resurrectionEntry);
-    
-    console.log(`📜 Added resurrection entry to battle log:`, resurrectionEntry);
 
     return true; // Resurrection successful, prevent death
   }
 
-  processBeastTamerAbility(ability, caster, primaryTarget, casterPlayer, opponent, game) {
-    const results = [];
-    
-    // Check if beast is active (status effect)
-    const beastActive = caster.statusEffects && caster.statusEffects.beast_active;
-    if (!beastActive) {
-      // Summon beast
-      if (!caster.statusEffects) caster.statusEffects = {};
-      caster.statusEffects.beast_active = true;
-      
-      // Add comprehensive special log entry for beast summoning
-      console.log('🔍 Beast Tamer debug - caster:', caster?.name, 'type:', typeof caster);
-      const summonSpecialLogEntry = this.createSpecialLogEntry(
-        caster, 
-        'Call Beast', 
-        null, // no trigger context for summoning
-        null, // no attack roll for summoning
-        [{
-          type: 'summon',
-          caster: caster.name,
-          message: 'summons a Beast companion',
-          beastSummoned: true
-        }]
-      );
-      results.push(summonSpecialLogEntry);
-    } else {
-      // Command beast to attack
-      const advantageDisadvantageForAbility = this.hasAdvantageDisadvantage(caster, primaryTarget, true, game);
-      const attackRoll = calculateAttackRoll(caster.Accuracy, advantageDisadvantageForAbility.advantage, advantageDisadvantageForAbility.disadvantage, caster);
-      const abilityHit = attackRoll.total >= calculateEffectiveDefense(primaryTarget);
-      
-      // Add comprehensive special log entry for beast command attack  
-      console.log('🔍 Beast Tamer debug - caster:', caster?.name, 'type:', typeof caster);
-      const damageAmount = Math.max(0, calculateDamage('2D8', attackRoll.isCritical, advantageDisadvantageForAbility.advantage, caster).total);
-      const commandSpecialLogEntry = this.createSpecialLogEntry(
-        caster, 
-        'Command Beast', 
-        { target: primaryTarget.name }, // Include target in trigger context
-        attackRoll,
-        abilityHit ? [{
-          type: 'damage',
-          target: primaryTarget.name,
-          damage: damageAmount,
-          damageRoll: calculateDamage('2D8', attackRoll.isCritical, advantageDisadvantageForAbility.advantage, caster),
-          newHP: primaryTarget.currentHP - damageAmount,
-          maxHP: primaryTarget.HP
-        }] : []
-      );
-      results.push(commandSpecialLogEntry);
-      
-      results.push({
-        type: 'attack_roll',
-        caster: caster.name,
-        target: primaryTarget.name,
-        roll: attackRoll,
-        accuracy: caster.Accuracy,
-        targetAC: calculateEffectiveDefense(primaryTarget),
-        hit: abilityHit,
-        hasAdvantage: advantageDisadvantageForAbility.advantage,
-        isCritical: attackRoll.isCritical
-      });
-      if (abilityHit) {
-        const damage = calculateDamage('2D8', attackRoll.isCritical, advantageDisadvantageForAbility.advantage, caster);
-        const actualDamage = Math.max(0, damage.total);
-        primaryTarget.currentHP = Math.max(0, primaryTarget.currentHP - actualDamage);
-        
-        // Check HP-based conditions after taking damage
-        this.checkHPConditions(game, primaryTarget);
-        
-        results.push({
-          type: 'damage',
-          caster: caster.name,
-          target: primaryTarget.name,
-          damage: actualDamage,
-          damageRoll: damage,
-          newHP: primaryTarget.currentHP,
-          maxHP: primaryTarget.HP,
-          message: `Beast deals ${actualDamage} damage to ${primaryTarget.name}!`
-        });
-      } else {
-        results.push({
-          type: 'miss',
-          caster: caster.name,
-          target: primaryTarget.name,
-          message: `Beast's attack misses ${primaryTarget.name}!`
-        });
-      }
-    }
-    
-    // Return only special comprehensive entries and essential system entries to avoid duplicates
-    const filteredResults = results.filter(result => 
-      result.type === 'special_comprehensive' ||
-      result.type === 'attack_roll' ||
-      result.type === 'damage' ||
-      result.type === 'miss' ||
-      result.type === 'summon'
-    );
-    
-    return filteredResults;
-  }
-
   processTimekeeperAbility(ability, caster, primaryTarget, casterPlayer, opponent, game, allyTarget) {
     const results = [];
     console.log(`🕐 Processing Timekeeper ability: ${ability.name}, allyTarget: ${allyTarget || 'none'}`);
     
     // Step 1: Timekeeper must first hit with Chrono Shift before commanding an ally
     // Use Timekeeper's modified accuracy to include the +2 accuracy bonus
-    const advantageDisadvantageForAbility = this.hasAdvantageDisadvantage(caster, primaryTarget, true, game);
-    const chronoShiftAttackRoll = calculateAttackRoll(caster.modifiedAccuracy, advantageDisadvantageForAbility.advantage, advantageDisadvantageForAbility.disadvantage, caster);
+    const chronoShiftAttackRoll = this.rollAttack(game, caster, primaryTarget, true);
     const abilityHit = chronoShiftAttackRoll.total >= calculateEffectiveDefense(primaryTarget);
     
     const rollText = chronoShiftAttackRoll.advantageInfo 
@@ -6375,11 +6233,11 @@ class GameManager {
     // The ally automatically succeeds and inherits crit status from Timekeeper's roll
     const timekeeperCrit = chronoShiftAttackRoll.isCritical;
     
-    // Prevent infinite recursion by blocking Timekeeper from commanding another Timekeeper
-    if (allyToCommand.name === 'Timekeeper') {
+    // Prevent infinite recursion by blocking a commanded ally from commanding in turn
+    if (commandsAlly(allyAbility)) {
       results.push({
         type: 'error',
-        message: 'Timekeeper cannot command another Timekeeper to avoid paradoxes!'
+        message: `${caster.name} cannot command another commander to avoid paradoxes!`
       });
       return results;
     }
@@ -6484,7 +6342,7 @@ class GameManager {
     // Add the initial Timekeeper ability use message
     results.push({
       type: 'ability_use',
-      message: `${caster.name} used Chrono Shift, causing ${allyToCommand.name} to use ${selectedAbility.name}!`,
+      message: `${caster.name} used ${ability.name}, causing ${allyToCommand.name} to use ${selectedAbility.name}!`,
       caster: caster.name,
       ally: allyToCommand.name,
       abilityName: selectedAbility.name
@@ -6555,525 +6413,157 @@ class GameManager {
     
     // Filter command results to get comprehensive entries for the ally's ability
     const commandComprehensiveEntries = commandResults.filter(result => 
-      result.type === 'ability_comprehensive'
-    );
-    
-    // Create a comprehensive log entry for Timekeeper using Chrono Shift
-    const chronoShiftEntry = {
-      type: 'ability_comprehensive',
-      caster: caster.name,
-      abilityName: ability.name,
-      target: '', // Don't show a target for Chrono Shift activation
-      message: `${caster.name} used ${ability.name}`,
-      hit: true, // Chrono Shift always succeeds
-      isCritical: false
-    };
-    
-    // Return Timekeeper's log first, then the ally's ability results
-    const finalResults = [chronoShiftEntry, ...commandComprehensiveEntries];
-    
-    return finalResults;
-  }
-
-  processEngineerAbility(ability, caster, primaryTarget, casterPlayer, opponent, game) {
-    console.log(`🔧 processEngineerAbility called: ${caster.name} uses ${ability.name}`);
-    const results = [];
-    
-    // Initialize turret count if needed
-    if (!caster.statusEffects) caster.statusEffects = {};
-    if (!caster.statusEffects.turret_count) caster.statusEffects.turret_count = 0;
-
-    // Initialize passiveBuffs for immediate visual display
-    if (!caster.passiveBuffs) caster.passiveBuffs = [];
-
-    // Determine if turret can be summoned (max 2)
-    const canSummonTurret = caster.statusEffects.turret_count < 2;
-    let effects = [];
-    let summaryMessage = '';
-
-    if (canSummonTurret) {
-      caster.statusEffects.turret_count++;
-      
-      // Add/update immediate visual buff for turret count
-      const existingTurretBuff = caster.passiveBuffs.find(buff => buff.name && buff.name.startsWith('Turrets'));
-      if (existingTurretBuff) {
-        // Update existing buff
-        existingTurretBuff.name = `Turrets (${caster.statusEffects.turret_count})`;
-        existingTurretBuff.description = `${caster.statusEffects.turret_count} mechanical turret${caster.statusEffects.turret_count > 1 ? 's' : ''} active - deal${caster.statusEffects.turret_count === 1 ? 's' : ''} 1D4 damage per turret at end of turn`;
-        existingTurretBuff.value = caster.statusEffects.turret_count;
-      } else {
-        // Add new visual buff
-        caster.passiveBuffs.push({
-          name: `Turrets (${caster.statusEffects.turret_count})`,
-          sourceName: 'Engineer',
-          description: `${caster.statusEffects.turret_count} mechanical turret${caster.statusEffects.turret_count > 1 ? 's' : ''} active - deal${caster.statusEffects.turret_count === 1 ? 's' : ''} 1D4 damage per turret at end of turn`,
-          type: 'status',
-          value: caster.statusEffects.turret_count
-        });
-      }
-      
-      // Create comprehensive log entry
-      summaryMessage = `Summoned mechanical turret (${caster.statusEffects.turret_count}/2)`;
-      
-      effects.push({
-        type: 'summon',
-        description: `Summoned turret ${caster.statusEffects.turret_count}`,
-        details: `${caster.statusEffects.turret_count} mechanical turret${caster.statusEffects.turret_count > 1 ? 's' : ''} active`
-      });
-      
-      // Add turret effect result for other systems
-      results.push({
-        type: 'summon',
-        caster: caster.name,
-        turretSummoned: true,
-        turretCount: caster.statusEffects.turret_count
-      });
-    } else {
-      summaryMessage = 'Maximum turrets already deployed (2/2)';
-      
-      effects.push({
-        type: 'limit_reached',
-        description: 'Cannot summon more turrets',
-        details: 'Maximum of 2 turrets already active'
-      });
-    }
-
-    // Create comprehensive log entry
-    const comprehensiveLogEntry = {
-      type: 'ability_comprehensive',
-      caster: caster.name,
-      ability: ability.name,
-      target: null, // Self-targeting ability
-      message: `${caster.name} used ${ability.name}`,
-      summary: summaryMessage,
-      effects: effects,
-      hitStatus: null, // Auto-success ability
-      rollInfo: null,
-      timestamp: Date.now()
-    };
-    
-    results.unshift(comprehensiveLogEntry);
-    
-    // Force immediate game state update via socket
-    console.log(`🔧 Engineer ability used - forcing immediate socket update for turret buff visibility`);
-    
-    console.log(`🔧 processEngineerAbility returning ${results.length} results:`, results);
-    return results;
-  }
-
-  processMedicAbility(ability, caster, primaryTarget, casterPlayer, opponent, game) {
-    console.log(`💉 processMedicAbility called: ${caster.name} uses ${ability.name}`);
-    const results = [];
-    
-    // Initialize med bot count if needed
-    if (!caster.statusEffects) caster.statusEffects = {};
-    if (!caster.statusEffects.med_bot_count) caster.statusEffects.med_bot_count = 0;
-
-    // Initialize passiveBuffs for immediate visual display
-    if (!caster.passiveBuffs) caster.passiveBuffs = [];
-
-    // Determine if med bot can be summoned (max 3)
-    const canSummonMedBot = caster.statusEffects.med_bot_count < 3;
-    let effects = [];
-    let summaryMessage = '';
-
-    if (canSummonMedBot) {
-      caster.statusEffects.med_bot_count++;
-      
-      // Add/update immediate visual buff for med bot count
-      const existingMedBotBuff = caster.passiveBuffs.find(buff => buff.name && buff.name.startsWith('Med Bots'));
-      if (existingMedBotBuff) {
-        // Update existing buff
-        existingMedBotBuff.name = `Med Bots (${caster.statusEffects.med_bot_count})`;
-        existingMedBotBuff.description = `${caster.statusEffects.med_bot_count} med bot${caster.statusEffects.med_bot_count > 1 ? 's' : ''} active - heal${caster.statusEffects.med_bot_count === 1 ? 's' : ''} lowest HP ally ${caster.statusEffects.med_bot_count}D4 at end of turn`;
-        existingMedBotBuff.value = caster.statusEffects.med_bot_count;
-      } else {
-        // Add new visual buff
-        caster.passiveBuffs.push({
-          name: `Med Bots (${caster.statusEffects.med_bot_count})`,
-          sourceName: 'Medic',
-          description: `${caster.statusEffects.med_bot_count} med bot${caster.statusEffects.med_bot_count > 1 ? 's' : ''} active - heal${caster.statusEffects.med_bot_count === 1 ? 's' : ''} lowest HP ally ${caster.statusEffects.med_bot_count}D4 at end of turn`,
-          type: 'status',
-          value: caster.statusEffects.med_bot_count
-        });
-      }
-      
-      // Create comprehensive log entry
-      summaryMessage = `Summoned med bot (${caster.statusEffects.med_bot_count}/3)`;
-      
-      effects.push({
-        type: 'summon',
-        description: `Summoned med bot ${caster.statusEffects.med_bot_count}`,
-        details: `${caster.statusEffects.med_bot_count} med bot${caster.statusEffects.med_bot_count > 1 ? 's' : ''} active`
-      });
-      
-      // Add med bot effect result for other systems
-      results.push({
-        type: 'summon',
-        caster: caster.name,
-        medBotSummoned: true,
-        medBotCount: caster.statusEffects.med_bot_count
-      });
-    } else {
-      summaryMessage = 'Maximum med bots already deployed (3/3)';
-      
-      effects.push({
-        type: 'limit_reached',
-        description: 'Cannot summon more med bots',
-        details: 'Maximum of 3 med bots already active'
-      });
-    }
-
-    // Create comprehensive log entry
-    const comprehensiveLogEntry = {
-      type: 'ability_comprehensive',
-      caster: caster.name,
-      ability: ability.name,
-      target: null, // Self-targeting ability
-      message: `${caster.name} used ${ability.name}`,
-      summary: summaryMessage,
-      effects: effects,
-      hitStatus: null, // Auto-success ability
-      rollInfo: null,
-      timestamp: Date.now()
-    };
-    
-    results.unshift(comprehensiveLogEntry);
-    
-    // Force immediate game state update via socket
-    console.log(`💉 Medic ability used - forcing immediate socket update for med bot buff visibility`);
-    
-    console.log(`💉 processMedicAbility returning ${results.length} results:`, results);
-    return results;
-  }
-
-  processShamanAbility(ability, caster, primaryTarget, casterPlayer, opponent, game) {
-    const results = [];
-    
-    // Initialize totem count if needed
-    if (!caster.statusEffects) caster.statusEffects = {};
-    if (!caster.statusEffects.totem_count) caster.statusEffects.totem_count = 0;
-    
-    // First, make the attack roll to see if ability hits
-    const advantageDisadvantageForAbility = this.hasAdvantageDisadvantage(caster, primaryTarget, true, game);
-    const attackRoll = calculateAttackRoll(caster.Accuracy, advantageDisadvantageForAbility.advantage, advantageDisadvantageForAbility.disadvantage, caster);
-    const abilityHit = attackRoll.total >= calculateEffectiveDefense(primaryTarget);
-    
-    // Always show the attack roll
-    results.push({
-      type: 'attack_roll',
-      caster: caster.name,
-      target: primaryTarget.name,
-      roll: attackRoll,
-      accuracy: caster.Accuracy,
-      targetAC: calculateEffectiveDefense(primaryTarget),
-      hit: abilityHit,
-      hasAdvantage: advantageDisadvantageForAbility.advantage,
-      hasDisadvantage: advantageDisadvantageForAbility.disadvantage,
-      isCritical: attackRoll.isCritical
-    });
-    
-    if (abilityHit) {
-      // Only summon totem and deal damage if ability hits
-      
-      // Summon a totem (max 3)
-      if (caster.statusEffects.totem_count < 3) {
-        caster.statusEffects.totem_count++;
-        results.push({
-          type: 'summon',
-          caster: caster.name,
-          message: `${caster.name} summons a Totem! (${caster.statusEffects.totem_count}/3)`,
-          totemSummoned: true,
-          totemCount: caster.statusEffects.totem_count
-        });
-      }
-      
-      // Deal 1D4 damage for each totem
-      const totemCount = caster.statusEffects.totem_count;
-      if (totemCount > 0) {
-        // Roll 1D4 for each totem
-        let totalDamage = 0;
-        const damageRolls = [];
-        for (let i = 0; i < totemCount; i++) {
-          const damageRoll = calculateDamage('1D4', attackRoll.isCritical, advantageDisadvantageForAbility.advantage, caster);
-          totalDamage += damageRoll.total;
-          damageRolls.push(damageRoll);
-        }
-        
-        const actualDamage = Math.max(0, totalDamage);
-        
-        // Use centralized damage application to trigger on_take_damage effects (like Shroomguard's Poison Aura)
-        const onDamageTriggers = this.applyDamageToHero(game, primaryTarget, actualDamage, caster, 'Elemental Strike');
-        
-        results.push({
-          type: 'damage',
-          caster: caster.name,
-          target: primaryTarget.name,
-          damage: actualDamage,
-          hit: true,
-          damageRoll: { total: totalDamage, rolls: damageRolls },
-          newHP: primaryTarget.currentHP,
-          maxHP: primaryTarget.HP,
-          message: `${caster.name}'s ${totemCount} Totem${totemCount > 1 ? 's' : ''} deal${totemCount === 1 ? 's' : ''} ${actualDamage} damage to ${primaryTarget.name}!`,
-          totemCount: totemCount
-        });
-        
-        // Add any on_take_damage trigger results (like Poison Aura)
-        if (onDamageTriggers && onDamageTriggers.length > 0) {
-          results.push(...onDamageTriggers);
-        }
-        
-        // Check if target died from Elemental Strike damage
-        if (primaryTarget.currentHP <= 0 && !primaryTarget.statusEffects?.justResurrected) {
-          this.updatePassiveEffectsOnDeath(game, primaryTarget, caster, 'Elemental Strike');
-        }
-      }
-    } else {
-      results.push({
-        type: 'miss',
-        caster: caster.name,
-        target: primaryTarget.name,
-        message: `${caster.name}'s Elemental Strike misses ${primaryTarget.name}!`
-      });
-    }
-    
-    // Create comprehensive log entry for Shaman ability
-    const comprehensiveLogEntry = this.createAbilityLogEntry(ability, caster, primaryTarget, attackRoll, abilityHit, results, null);
-    
-    // Return only essential system entries plus comprehensive entry
-    const filteredResults = results.filter(result => 
-      result.type === 'attack_roll' ||
-      result.type === 'damage' ||
-      result.type === 'miss' ||
-      result.type === 'summon' ||
-      result.type === 'status_applied'
-    );
-    
-    // Add comprehensive entry at the beginning
-    filteredResults.unshift(comprehensiveLogEntry);
-    
-    return filteredResults;
-  }
-
-  processDiplomatAbility(ability, caster, primaryTarget, casterPlayer, opponent, game) {
-    const results = [];
-    console.log(`🤝 processDiplomatAbility called: ${caster.name} uses ${ability.name} on ${primaryTarget.name}`);
+      result.type === 'ability_comprehensive'
+    );
     
-    // Create initial comprehensive log entry for Diplomat using Declare War
-    const declareWarEntry = {
+    // Create a comprehensive log entry for Timekeeper using Chrono Shift
+    const chronoShiftEntry = {
       type: 'ability_comprehensive',
       caster: caster.name,
       abilityName: ability.name,
-      target: primaryTarget.name,
+      target: '', // Don't show a target for Chrono Shift activation
       message: `${caster.name} used ${ability.name}`,
-      hit: true,
+      hit: true, // Chrono Shift always succeeds
       isCritical: false
     };
-    results.push(declareWarEntry);
     
-    // Find Diplomat's position in the team
-    const diplomatIndex = casterPlayer.team.findIndex(h => h.name === caster.name);
-    console.log(`🤝 Diplomat position: ${diplomatIndex}`);
-    
-    // Find adjacent allies (position ±1)
-    const adjacentAllies = [];
+    // Return Timekeeper's log first, then the ally's ability results
+    const finalResults = [chronoShiftEntry, ...commandComprehensiveEntries];
     
-    // Check left ally (index - 1)
-    if (diplomatIndex > 0) {
-      const leftAlly = casterPlayer.team[diplomatIndex - 1];
-      if (leftAlly && leftAlly.currentHP > 0 && leftAlly.name !== caster.name) {
-        adjacentAllies.push({ ally: leftAlly, position: 'left' });
-        console.log(`🤝 Found left ally: ${leftAlly.name}`);
-      }
-    }
+    return finalResults;
+  }
+
+  // A basic attack made outside the attacker's own action: commanded by an ally (Diplomat's Declare
+  // War) or granted by a special (Arcanist's Tether Ally). Returns the log entries.
+  performFreeBasicAttack(game, attacker, target, { commandedBy = null, specialName = null } = {}) {
+    const results = [];
+    const reason = commandedBy ? `commanded by ${commandedBy}` : specialName;
     
-    // Check right ally (index + 1)
-    if (diplomatIndex < casterPlayer.team.length - 1) {
-      const rightAlly = casterPlayer.team[diplomatIndex + 1];
-      if (rightAlly && rightAlly.currentHP > 0 && rightAlly.name !== caster.name) {
-        adjacentAllies.push({ ally: rightAlly, position: 'right' });
-        console.log(`🤝 Found right ally: ${rightAlly.name}`);
-      }
+    // Check if the attacker can attack (not stunned, has basic attack)
+    if (attacker.statusEffects?.disable_attack) {
+      console.log(`❌ ${attacker.name} cannot attack (stunned)`);
+      results.push({
+        type: 'attack_prevented',
+        message: `${attacker.name} is stunned and cannot attack`,
+        attacker: attacker.name
+      });
+      return results;
     }
     
-    console.log(`🤝 Total adjacent allies found: ${adjacentAllies.length}`);
-    
-    // If no adjacent allies, ability still succeeds but does nothing
-    if (adjacentAllies.length === 0) {
+    // Check if the attacker has a basic attack
+    if (attacker.BasicAttack === '—' || attacker.BasicAttack === '-') {
+      console.log(`❌ ${attacker.name} has no basic attack`);
       results.push({
-        type: 'ability_effect',
-        message: 'No adjacent allies to command',
-        caster: caster.name
+        type: 'attack_prevented',
+        message: `${attacker.name} has no basic attack`,
+        attacker: attacker.name
       });
       return results;
     }
     
-    // Make each adjacent ally perform a basic attack on the primary target
-    for (const { ally, position } of adjacentAllies) {
-      console.log(`🤝 Commanding ${ally.name} (${position} of Diplomat) to attack ${primaryTarget.name}`);
+    // Perform the attack using the attacker's own accuracy
+    const attackRoll = this.rollAttack(game, attacker, target, false);
+    const attackHit = attackRoll.total >= calculateEffectiveDefense(target);
+    
+    const rollText = attackRoll.advantageInfo 
+      ? `${attackRoll.advantageInfo.roll1} and ${attackRoll.advantageInfo.roll2} (${attackRoll.advantageInfo.type}, chose ${attackRoll.advantageInfo.chosen})`
+      : attackRoll.roll;
+    debugLog(` ${attacker.name} attacks ${target.name}: Roll ${rollText}+${attacker.modifiedAccuracy} = ${attackRoll.total} vs Defense ${calculateEffectiveDefense(target)} → ${attackHit ? 'HIT' : 'MISS'}${attackRoll.crit ? ' (CRITICAL!)' : ''}`);
+    
+    // Create attack result
+    if (attackHit && target.currentHP > 0) {
+      // Calculate damage
+      const damageRoll = calculateDamage(attacker.BasicAttack, attackRoll.isCritical, false, attacker);
+      this.applyNextAttackBonus(attacker, damageRoll, attackRoll.isCritical);
+      let damage = damageRoll.total;
       
-      // Check if ally can attack (not stunned, has basic attack)
-      if (ally.statusEffects?.disable_attack) {
-        console.log(`❌ ${ally.name} cannot attack (stunned)`);
-        results.push({
-          type: 'attack_prevented',
-          message: `${ally.name} is stunned and cannot attack`,
-          attacker: ally.name
-        });
-        continue;
+      const oldHP = target.currentHP;
+      
+      // Apply damage
+      const onDamageTriggers = this.applyDamageToHero(game, target, damage, attacker, 'Basic Attack');
+      
+      debugLog(` ${attacker.name} deals ${damage} damage to ${target.name} (${oldHP} → ${target.currentHP})`);
+      
+      // Check for on-attack special triggers (like Cavalier's Ride Down)
+      if (damage > 0) {
+        this.processDamageDealtSpecials(game, attacker, target);
       }
       
-      // Check if ally has a basic attack
-      if (ally.BasicAttack === '—' || ally.BasicAttack === '-') {
-        console.log(`❌ ${ally.name} has no basic attack`);
-        results.push({
-          type: 'attack_prevented',
-          message: `${ally.name} has no basic attack`,
-          attacker: ally.name
-        });
-        continue;
+      // Process hit-confirmed triggers (like Elementalist's Wind Wall)
+      this.processHitConfirmedTriggers(game, attacker, target, 'attack');
+      
+      // Check if target died
+      if (target.currentHP <= 0 && !target.statusEffects?.justResurrected) {
+        this.updatePassiveEffectsOnDeath(game, target, attacker, 'damage');
       }
       
-      // Perform the attack using the ally's own accuracy
-      const advantageDisadvantage = this.hasAdvantageDisadvantage(ally, primaryTarget, false, game);
-      const attackRoll = calculateAttackRoll(ally.modifiedAccuracy, advantageDisadvantage.advantage, advantageDisadvantage.disadvantage, ally);
-      const attackHit = attackRoll.total >= calculateEffectiveDefense(primaryTarget);
+      // Create a visible battle log entry for the attacker's attack
+      const allyAttackLog = {
+        type: 'attack',
+        attacker: attacker.name,
+        target: target.name,
+        damage: damage,
+        hit: true,
+        isCritical: attackRoll.isCritical,
+        damageRoll: damageRoll.rolls,
+        damageTotal: damage,
+        attackRoll: attackRoll.roll,
+        attackTotal: attackRoll.displayTotal || attackRoll.total,
+        advantageInfo: attackRoll.advantageInfo,
+        targetHP: target.currentHP,
+        commandedBy,
+        specialName,
+        action: `${attacker.name} used Basic Attack (attack: ${attackRoll.roll}+${attacker.modifiedAccuracy} = ${attackRoll.total})`,
+        message: `${attacker.name} used Basic Attack (${reason})`
+      };
       
-      const rollText = attackRoll.advantageInfo 
-        ? `${attackRoll.advantageInfo.roll1} and ${attackRoll.advantageInfo.roll2} (${attackRoll.advantageInfo.type}, chose ${attackRoll.advantageInfo.chosen})`
-        : attackRoll.roll;
-      debugLog(` ${ally.name} attacks ${primaryTarget.name}: Roll ${rollText}+${ally.modifiedAccuracy} = ${attackRoll.total} vs Defense ${calculateEffectiveDefense(primaryTarget)} → ${attackHit ? 'HIT' : 'MISS'}${attackRoll.crit ? ' (CRITICAL!)' : ''}`);
+      results.push(allyAttackLog);
       
-      // Create attack result
-      if (attackHit && primaryTarget.currentHP > 0) {
-        // Calculate damage
-        const damageRoll = calculateDamage(ally.BasicAttack, attackRoll.isCritical, false, ally);
-        let damage = damageRoll.total;
-        
-        const oldHP = primaryTarget.currentHP;
-        
-        // Apply damage
-        const onDamageTriggers = this.applyDamageToHero(game, primaryTarget, damage, ally, 'Basic Attack');
-        
-        debugLog(` ${ally.name} deals ${damage} damage to ${primaryTarget.name} (${oldHP} → ${primaryTarget.currentHP})`);
-        
-        // Check for on-attack special triggers (like Cavalier's Ride Down)
-        if (ally.name === 'Cavalier' && damage > 0) {
-          if (!primaryTarget.statusEffects) primaryTarget.statusEffects = {};
-          primaryTarget.statusEffects.rideDownDebuff = {
-            source: ally.name,
-            maxHP: primaryTarget.HP
-          };
-          debugLog(` ${primaryTarget.name} debuffed by Cavalier's Ride Down`);
-        }
-        
-        // Process hit-confirmed triggers (like Elementalist's Wind Wall)
-        this.processHitConfirmedTriggers(game, ally, primaryTarget, 'attack');
-        
-        // Check if target died
-        if (primaryTarget.currentHP <= 0 && !primaryTarget.statusEffects?.justResurrected) {
-          this.updatePassiveEffectsOnDeath(game, primaryTarget, ally, 'damage');
-        }
-        
-        // Create a visible battle log entry for the ally's attack
-        const allyAttackLog = {
-          type: 'attack',
-          attacker: ally.name,
-          target: primaryTarget.name,
-          damage: damage,
-          hit: true,
-          isCritical: attackRoll.isCritical,
-          damageRoll: damageRoll.rolls,
-          damageTotal: damage,
-          attackRoll: attackRoll.roll,
-          attackTotal: attackRoll.displayTotal || attackRoll.total,
-          advantageInfo: attackRoll.advantageInfo,
-          targetHP: primaryTarget.currentHP,
-          commandedBy: caster.name,
-          action: `${ally.name} used Basic Attack (attack: ${attackRoll.roll}+${ally.modifiedAccuracy} = ${attackRoll.total})`,
-          message: `${ally.name} used Basic Attack (commanded by ${caster.name})`
-        };
-        
-        results.push(allyAttackLog);
-        
-        // Also add to battle log for immediate visibility
-        if (game.battleLog) {
-          game.battleLog.push(allyAttackLog);
-        }
-        
-        // Add any on_take_damage trigger results
-        if (onDamageTriggers && onDamageTriggers.length > 0) {
-          results.push(...onDamageTriggers);
-        }
-      } else {
-        // Attack missed
-        const allyMissLog = {
-          type: 'attack',
-          attacker: ally.name,
-          target: primaryTarget.name,
-          damage: 0,
-          hit: false,
-          attackRoll: attackRoll.roll,
-          attackTotal: attackRoll.displayTotal || attackRoll.total,
-          advantageInfo: attackRoll.advantageInfo,
-          targetHP: primaryTarget.currentHP,
-          damageRoll: [],
-          damageTotal: 0,
-          commandedBy: caster.name,
-          action: `${ally.name} used Basic Attack (attack: ${attackRoll.roll}+${ally.modifiedAccuracy} = ${attackRoll.total})`,
-          message: `${ally.name} used Basic Attack (commanded by ${caster.name})`
-        };
-        
-        results.push(allyMissLog);
-        
-        // Also add to battle log for immediate visibility
-        if (game.battleLog) {
-          game.battleLog.push(allyMissLog);
-        }
-        
-        // Check for Shield Bash if attack missed by AC
-        const targetPlayer = game.players.find(p => p.team.some(h => h.name === primaryTarget.name));
-        if (targetPlayer) {
-          const warden = targetPlayer.team.find(h => h.name === 'Warden' && h.currentHP > 0);
-          if (warden && primaryTarget.name === warden.name && attackRoll.total < calculateEffectiveDefense(warden)) {
-            // Warden's Shield Bash counter
-            const counterDamageRoll = calculateDamage('1D6', false, false, warden);
-            const counterDamage = counterDamageRoll.total;
-            
-            const onDamageTriggers = this.applyDamageToHero(game, ally, counterDamage, warden, 'Shield Bash');
-            
-            debugLog(` ${warden.name}'s Shield Bash counters ${ally.name} for ${counterDamage} damage`);
-            
-            const shieldBashEntry = this.createSpecialLogEntry(
-              warden,
-              'Shield Bash',
-              { target: ally.name },
-              counterDamageRoll,
-              [
-                {
-                  type: 'damage',
-                  target: ally.name,
-                  damage: counterDamage,
-                  damageRoll: counterDamageRoll,
-                  newHP: ally.currentHP,
-                  maxHP: ally.HP
-                },
-                ...onDamageTriggers
-              ]
-            );
-            results.push(shieldBashEntry);
-            
-            if (ally.currentHP <= 0 && !ally.statusEffects?.justResurrected) {
-              this.updatePassiveEffectsOnDeath(game, ally, warden, 'counter_attack');
-            }
-          }
-        }
+      // Also add to battle log for immediate visibility
+      if (game.battleLog) {
+        game.battleLog.push(allyAttackLog);
+      }
+      
+      // Add any on_take_damage trigger results
+      if (onDamageTriggers && onDamageTriggers.length > 0) {
+        results.push(...onDamageTriggers);
+      }
+      
+      // Allies joining in on the landed attack (Arcanist's Tether Ally)
+      results.push(...this.processAllyHitSpecials(game, attacker, target));
+    } else {
+      // Attack missed
+      const allyMissLog = {
+        type: 'attack',
+        attacker: attacker.name,
+        target: target.name,
+        damage: 0,
+        hit: false,
+        attackRoll: attackRoll.roll,
+        attackTotal: attackRoll.displayTotal || attackRoll.total,
+        advantageInfo: attackRoll.advantageInfo,
+        targetHP: target.currentHP,
+        damageRoll: [],
+        damageTotal: 0,
+        commandedBy,
+        specialName,
+        action: `${attacker.name} used Basic Attack (attack: ${attackRoll.roll}+${attacker.modifiedAccuracy} = ${attackRoll.total})`,
+        message: `${attacker.name} used Basic Attack (${reason})`
+      };
+      
+      results.push(allyMissLog);
+      
+      // Also add to battle log for immediate visibility
+      if (game.battleLog) {
+        game.battleLog.push(allyMissLog);
       }
       
-      // Consume advantage effects after the attack
-      this.consumeAdvantageEffects(ally, primaryTarget);
+      // The target may counter a miss (Warden's Shield Bash)
+      results.push(...this.processCounterAttacks(game, target, attacker, 'on_miss_by_ac'));
     }
     
+    // Consume advantage effects after the attack
+    this.consumeAdvantageEffects(attacker, target);
     return results;
   }
 
@@ -7342,6 +6832,10 @@ class GameManager {
 
     console.log(`🎮 Processing game completion for game ${gameId}, winner: ${winnerId}, mode: ${game.mode}, reason: ${reason}`);
 
+    if (game.mode === 'practice') {
+      return { success: true, message: 'Practice game - no victory points' };
+    }
+
     // For survival mode, victory points are handled differently
     if (game.mode === 'survival') {
       console.log(`🏆 Survival mode detected - victory points will be handled when run ends, not per battle`);
@@ -7486,9 +6980,12 @@ class GameManager {
     game.players = game.players.filter(p => p.id !== playerId);
     this.playerGameMap.delete(playerId);
 
-    // If no players left, delete the game
-    if (game.players.length === 0) {
+    // If no players left (an AI opponent doesn't count), delete the game
+    if (game.players.every(p => p.isAI)) {
+      this.releaseAIPlayers(game);
+      this.clearActionTimer(game);
       this.games.delete(gameId);
+      this.persistGame(gameId);
       console.log(`🗑️ Deleted empty game ${gameId}`);
     }
 
@@ -7545,11 +7042,13 @@ class GameManager {
       return { success: false, error: 'Already spectating this game' };
     }
 
-    // Add spectator
+    // Add spectator; moderators keep their role if they leave and come back
+    const moderators = game.spectatorChat ? game.spectatorChat.moderators : null;
     game.spectators.push({
       socketId: spectatorSocketId,
       username: spectatorUsername,
-      spectatingPlayerId: spectatingPlayerId
+      spectatingPlayerId: spectatingPlayerId,
+      role: moderators && moderators.has(spectatorUsername) ? 'moderator' : 'viewer'
     });
 
     console.log(`👁️ ${spectatorUsername} started spectating game ${gameId} (watching ${spectatingPlayerId}). Total spectators: ${game.spectators.length}`);
@@ -7690,6 +7189,291 @@ class GameManager {
     return null;
   }
 
+  /**
+   * Describe what a player is doing, for friend presence
+   * @param {string} playerId - The player's socket ID
+   * @returns {Object|null} - { status, ... } or null when the player isn't in a game, queue or
+   *   spectator seat. `canWatch` says whether friends can spectate right now
+   */
+  getPlayerActivity(playerId) {
+    const game = this.games.get(this.playerGameMap.get(playerId));
+    if (game && game.phase !== 'ended') {
+      const canWatch = game.phase === 'battle';
+
+      if (game.phase === 'waiting') {
+        return { status: 'searching', mode: game.roomName ? 'friendly' : game.mode, roomName: game.roomName || null, canWatch };
+      }
+      if (game.mode === 'survival') {
+        const state = this.survivalStates.get(playerId) || { wins: 0, losses: 0 };
+        return { status: 'survival', wins: state.wins, losses: state.losses, canWatch };
+      }
+      if (game.mode === 'gauntlet') {
+        const run = this.gauntletRuns.get(playerId);
+        return { status: 'gauntlet', trial: run ? run.current_trial : null, canWatch };
+      }
+      return { status: 'in-game', mode: game.ranked ? 'ranked' : game.mode, roomName: game.roomName || null, canWatch };
+    }
+
+    if (this.isSpectating(playerId)) {
+      return { status: 'spectating', canWatch: false };
+    }
+
+    const queued = this.draftQueue.find(p => p.playerId === playerId);
+    if (queued) {
+      return { status: 'searching', mode: queued.mode, canWatch: false };
+    }
+    if (this.survivalQueue.some(p => p.playerId === playerId)) {
+      return { status: 'searching', mode: 'survival', canWatch: false };
+    }
+
+    // A run waiting in preparation may have been left on the menu, so only a queued run counts
+    const run = this.gauntletRuns.get(playerId);
+    if (run && run.isActive && run.phase === 'queueing') {
+      return { status: 'gauntlet', trial: run.current_trial, searching: true, canWatch: false };
+    }
+
+    return null;
+  }
+
+  // =================================================================
+  // BATTLE CHAT
+  // =================================================================
+
+  // The chat log rides on the game but isn't enumerable, so it stays out of game updates and
+  // persisted snapshots; it is lost on restart
+  getBattleChatLog(game) {
+    if (!game.battleChat) {
+      Object.defineProperty(game, 'battleChat', {
+        value: { nextId: 1, messages: [] },
+        enumerable: false,
+        writable: true,
+        configurable: true
+      });
+    }
+    return game.battleChat;
+  }
+
+  /**
+   * Post a chat line or a preset emote from a player to their game
+   * @param {string} socketId - The posting player's socket ID
+   * @param {Object} data - { text } for free text or { emote } with a BATTLE_EMOTES key
+   * @returns {Object} - { success, gameId, message } or { success: false, error }
+   */
+  addBattleChatMessage(socketId, { text, emote } = {}) {
+    const gameId = this.playerGameMap.get(socketId);
+    const game = gameId && this.games.get(gameId);
+    const player = game && game.players.find(p => p.id === socketId);
+    if (!player) {
+      const error = this.isSpectating(socketId) ? 'Spectators cannot post in battle chat' : 'You are not in a game';
+      return { success: false, error };
+    }
+
+    let content;
+    if (emote !== undefined) {
+      if (!Object.prototype.hasOwnProperty.call(BATTLE_EMOTES, emote)) {
+        return { success: false, error: 'Unknown emote' };
+      }
+      content = { text: BATTLE_EMOTES[emote], emote };
+    } else {
+      const trimmed = typeof text === 'string' ? text.trim() : '';
+      if (!trimmed) {
+        return { success: false, error: 'Message cannot be empty' };
+      }
+      if (trimmed.length > BATTLE_CHAT_MAX_LENGTH) {
+        return { success: false, error: `Messages can be at most ${BATTLE_CHAT_MAX_LENGTH} characters` };
+      }
+      content = { text: censorText(trimmed).text, emote: null };
+    }
+
+    const log = this.getBattleChatLog(game);
+    const message = {
+      id: log.nextId++,
+      senderId: socketId,
+      senderName: player.name,
+      ...content,
+      sentAt: Date.now()
+    };
+    log.messages.push(message);
+    if (log.messages.length > BATTLE_CHAT_HISTORY) {
+      log.messages.shift();
+    }
+
+    return { success: true, gameId, message };
+  }
+
+  /**
+   * Chat history for the game a socket is playing or spectating. Spectators only get what
+   * they would have seen by now on the spectator delay
+   * @param {string} socketId - The socket ID asking
+   * @returns {Object} - { gameId, messages }
+   */
+  getBattleChat(socketId) {
+    const spectating = this.isSpectating(socketId);
+    const gameId = this.playerGameMap.get(socketId) || (spectating && spectating.gameId);
+    const game = gameId && this.games.get(gameId);
+    if (!game || !game.battleChat) {
+      return { gameId: game ? gameId : null, messages: [] };
+    }
+
+    const isPlayer = game.players.some(p => p.id === socketId);
+    const cutoff = Date.now() - SPECTATOR_DELAY_SECONDS * 1000;
+    const messages = isPlayer ? game.battleChat.messages : game.battleChat.messages.filter(m => m.sentAt <= cutoff);
+    return { gameId, messages };
+  }
+
+  // =================================================================
+  // SPECTATOR CHAT
+  // =================================================================
+
+  // A chat channel only the game's spectators can read or post in, so nobody watching can pass
+  // information to a player. Moderators (made by the friendly room's host) can mute spectators.
+  // Roles and mutes are kept by username so they survive a spectator leaving and coming back
+  getSpectatorChatLog(game) {
+    if (!game.spectatorChat) {
+      Object.defineProperty(game, 'spectatorChat', {
+        value: { nextId: 1, messages: [], moderators: new Set(), muted: new Set() },
+        enumerable: false,
+        writable: true,
+        configurable: true
+      });
+    }
+    return game.spectatorChat;
+  }
+
+  findSpectator(socketId) {
+    const spectating = this.isSpectating(socketId);
+    if (!spectating) return null;
+    const game = this.games.get(spectating.gameId);
+    const spectator = game.spectators.find(s => s.socketId === socketId);
+    return { game, gameId: spectating.gameId, spectator };
+  }
+
+  /**
+   * Post a message to the spectator chat of the game a socket is spectating
+   * @param {string} socketId - The spectator's socket ID
+   * @param {string} text - The message
+   * @returns {Object} - { success, gameId, message } or { success: false, error }
+   */
+  addSpectatorChatMessage(socketId, text) {
+    const found = this.findSpectator(socketId);
+    if (!found) {
+      return { success: false, error: 'Only spectators can use the spectator chat' };
+    }
+
+    const { game, gameId, spectator } = found;
+    const log = this.getSpectatorChatLog(game);
+    if (log.muted.has(spectator.username)) {
+      return { success: false, error: 'A moderator has muted you in this spectator chat' };
+    }
+
+    const trimmed = typeof text === 'string' ? text.trim() : '';
+    if (!trimmed) {
+      return { success: false, error: 'Message cannot be empty' };
+    }
+    if (trimmed.length > BATTLE_CHAT_MAX_LENGTH) {
+      return { success: false, error: `Messages can be at most ${BATTLE_CHAT_MAX_LENGTH} characters` };
+    }
+
+    const message = {
+      id: log.nextId++,
+      senderName: spectator.username,
+      senderRole: spectator.role,
+      text: censorText(trimmed).text,
+      sentAt: Date.now()
+    };
+    log.messages.push(message);
+    if (log.messages.length > BATTLE_CHAT_HISTORY) {
+      log.messages.shift();
+    }
+
+    return { success: true, gameId, message };
+  }
+
+  /**
+   * Spectator chat history and mute list for the game a socket is spectating
+   * @param {string} socketId - The spectator's socket ID
+   * @returns {Object} - { success, gameId, messages, muted } or { success: false, error }
+   */
+  getSpectatorChat(socketId) {
+    const found = this.findSpectator(socketId);
+    if (!found) {
+      return { success: false, error: 'Only spectators can use the spectator chat' };
+    }
+
+    const log = this.getSpectatorChatLog(found.game);
+    return { success: true, gameId: found.gameId, messages: log.messages, muted: [...log.muted] };
+  }
+
+  /**
+   * Make a spectator a moderator of the spectator chat, or back to a viewer. Only the host of
+   * a friendly room can do this
+   * @param {string} socketId - The host's socket ID
+   * @param {string} username - The spectator to change
+   * @param {boolean} moderator - true to promote, false to demote
+   * @returns {Object} - { success, gameId, spectatorCount, spectatorList } or { success: false, error }
+   */
+  setSpectatorModerator(socketId, username, moderator) {
+    const gameId = this.playerGameMap.get(socketId);
+    const game = gameId && this.games.get(gameId);
+    const player = game && game.players.find(p => p.id === socketId);
+    if (!player || !game.hostName || player.name !== game.hostName) {
+      return { success: false, error: 'Only the host of a friendly room can choose moderators' };
+    }
+
+    const spectator = game.spectators.find(s => s.username === username);
+    if (!spectator) {
+      return { success: false, error: 'That spectator is not watching this game' };
+    }
+
+    const log = this.getSpectatorChatLog(game);
+    if (moderator) {
+      log.moderators.add(username);
+      log.muted.delete(username);
+    } else {
+      log.moderators.delete(username);
+    }
+    game.spectators
+      .filter(s => s.username === username)
+      .forEach(s => { s.role = moderator ? 'moderator' : 'viewer'; });
+
+    return {
+      success: true,
+      gameId,
+      spectatorCount: game.spectators.length,
+      spectatorList: game.spectators
+    };
+  }
+
+  /**
+   * Mute or unmute a spectator in the spectator chat. Only moderators can, and not each other
+   * @param {string} socketId - The moderator's socket ID
+   * @param {string} username - The spectator to mute or unmute
+   * @param {boolean} muted - true to mute, false to unmute
+   * @returns {Object} - { success, gameId, username, muted, by } or { success: false, error }
+   */
+  setSpectatorChatMute(socketId, username, muted) {
+    const found = this.findSpectator(socketId);
+    if (!found || found.spectator.role !== 'moderator') {
+      return { success: false, error: 'Only moderators can mute spectators' };
+    }
+
+    const { game, gameId, spectator } = found;
+    const log = this.getSpectatorChatLog(game);
+    if (username === spectator.username || log.moderators.has(username)) {
+      return { success: false, error: 'Moderators cannot be muted' };
+    }
+    if (muted && !game.spectators.some(s => s.username === username)) {
+      return { success: false, error: 'That spectator is not watching this game' };
+    }
+
+    if (muted) {
+      log.muted.add(username);
+    } else {
+      log.muted.delete(username);
+    }
+    return { success: true, gameId, username, muted, by: spectator.username };
+  }
+
   // =================================================================
   // GAUNTLET MODE METHODS
   // =================================================================
@@ -7707,48 +7491,57 @@ class GameManager {
   }
 
   /**
-   * Initialize a new Gauntlet run for a player
+   * Hero names a Gauntlet run may offer: the player's collection, or every hero for guests
    */
-  async initializeGauntletRun(playerId, playerName) {
-    const { GAUNTLET_STARTER_HEROES } = require('./database');
-    
-    // Get player's available heroes
+  async getGauntletHeroPool(playerId) {
     const userId = this.userSessions.get(playerId);
-    let availableHeroes = [];
-    
     if (userId && this.database) {
       try {
         const user = await this.database.getUserById(userId);
-        availableHeroes = user.available_heroes || [];
+        return user.available_heroes || [];
       } catch (error) {
         console.error('Error getting user heroes:', error);
-        availableHeroes = this.heroes.map(h => h.name);
       }
-    } else {
-      availableHeroes = this.heroes.map(h => h.name);
     }
+    return this.heroes.map(h => h.name);
+  }
+
+  /**
+   * Build a Gauntlet roster entry from heros.json
+   */
+  createGauntletHeroInstance(heroTemplate) {
+    const heroInstance = this.resetHeroToOriginalState(heroTemplate);
+    return {
+      hero_id: heroTemplate.name,
+      heroData: heroInstance,
+      current_hp: heroInstance.currentHP,
+      max_hp: heroInstance.HP,
+      alive: true,
+      temporary_resurrection_active: false
+    };
+  }
+
+  /**
+   * Initialize a new Gauntlet run for a player
+   */
+  async initializeGauntletRun(playerId, playerName) {
+    const { GAUNTLET_STARTER_HEROES } = require('./database');
+    
+    // Get player's available heroes
+    const availableHeroes = await this.getGauntletHeroPool(playerId);
 
     // Select 6 random starter heroes from the GAUNTLET_STARTER_HEROES list
     const starterPool = GAUNTLET_STARTER_HEROES.filter(name => 
       this.heroes.some(h => h.name === name && !h.disabled)
     );
-    const shuffledStarters = shuffleArray([...starterPool]);
+    const runRng = createSeededRng();
+    const shuffledStarters = withRandomSource(runRng, () => shuffleArray([...starterPool]));
     const selectedStarterNames = shuffledStarters.slice(0, 6);
 
     // Create HeroInstances for the initial roster
     const initialRoster = selectedStarterNames.map(heroName => {
       const heroTemplate = this.heroes.find(h => h.name === heroName);
-      if (!heroTemplate) return null;
-      
-      const heroInstance = this.resetHeroToOriginalState(heroTemplate);
-      return {
-        hero_id: heroTemplate.name,
-        heroData: heroInstance,
-        current_hp: heroInstance.currentHP,
-        max_hp: heroInstance.HP,
-        alive: true,
-        temporary_resurrection_active: false
-      };
+      return heroTemplate ? this.createGauntletHeroInstance(heroTemplate) : null;
     }).filter(Boolean);
 
     // Create the run state
@@ -7766,7 +7559,11 @@ class GameManager {
       isActive: true
     };
 
+    // Offers for the rest of the run keep drawing from the starter shuffle's stream
+    attachRng(runState, runRng);
+
     this.gauntletRuns.set(playerId, runState);
+    this.saveGauntletRun(playerId);
     console.log(`🎮 Initialized Gauntlet run for ${playerName}: 6 starter heroes selected`);
 
     return {
@@ -7775,6 +7572,57 @@ class GameManager {
     };
   }
 
+  /**
+   * Resume a saved Gauntlet run. Only hero names and HP are taken from the save: heroes are
+   * rebuilt from heros.json and everything else is clamped to what a real run can reach.
+   */
+  async restoreGauntletRun(playerId, playerName, savedState) {
+    const roster = (Array.isArray(savedState.roster) ? savedState.roster : [])
+      .slice(0, 6)
+      .map(saved => {
+        const heroTemplate = this.heroes.find(h => h.name === saved.hero_id);
+        if (!heroTemplate) return null;
+
+        const instance = this.createGauntletHeroInstance(heroTemplate);
+        const savedHP = Number.isInteger(saved.current_hp) ? saved.current_hp : instance.max_hp;
+        instance.current_hp = Math.max(0, Math.min(savedHP, instance.max_hp));
+        instance.alive = saved.alive !== false && instance.current_hp > 0;
+        instance.heroData.currentHP = instance.current_hp;
+        return instance;
+      })
+      .filter(Boolean);
+
+    if (roster.length === 0) {
+      return { success: false, error: 'Saved Gauntlet run is no longer valid' };
+    }
+
+    const clamp = (value, min, max) => Number.isInteger(value) ? Math.max(min, Math.min(value, max)) : min;
+
+    const runState = {
+      playerId,
+      playerName,
+      current_trial: clamp(savedState.current_trial, 1, 13),
+      roster,
+      // Sacrificed heroes aren't saved, so only the fallen ones still in the roster are known
+      dead_hero_ids: new Set(roster.filter(instance => !instance.alive).map(instance => instance.hero_id)),
+      rerolls_remaining: clamp(savedState.rerolls_remaining, 0, 3),
+      shop_actions_remaining: clamp(savedState.shop_actions_remaining, 0, 1),
+      battle_team_indices: [],
+      phase: 'preparation',
+      availableHeroPool: await this.getGauntletHeroPool(playerId),
+      isActive: true
+    };
+    attachRng(runState, createSeededRng());
+
+    this.gauntletRuns.set(playerId, runState);
+    console.log(`📂 Restored Gauntlet run for ${playerName} at Trial ${runState.current_trial}`);
+
+    return {
+      success: true,
+      runState: this.serializeGauntletRunState(runState)
+    };
+  }
+
   /**
    * Serialize gauntlet run state for sending to client
    */
@@ -7797,6 +7645,30 @@ class GameManager {
     };
   }
 
+  /**
+   * Keep the player's saved run in step with the live one, so a run between battles survives a
+   * server restart or a dropped connection: "start gauntlet run" picks the save back up
+   */
+  saveGauntletRun(playerId) {
+    const runState = this.gauntletRuns.get(playerId);
+    const userId = this.userSessions.get(playerId);
+    if (!runState || !userId || !this.database) return;
+
+    this.database.saveGauntletState(userId, this.serializeGauntletRunState(runState)).catch(error => {
+      console.error(`❌ Error saving Gauntlet run for user ${userId}:`, error);
+    });
+  }
+
+  // A finished run must not come back from its save
+  clearSavedGauntletRun(playerId) {
+    const userId = this.userSessions.get(playerId);
+    if (!userId || !this.database) return;
+
+    this.database.clearGauntletState(userId).catch(error => {
+      console.error(`❌ Error clearing saved Gauntlet run for user ${userId}:`, error);
+    });
+  }
+
   /**
    * Get current Gauntlet run state
    */
@@ -7846,6 +7718,7 @@ class GameManager {
 
     if (result.success) {
       runState.shop_actions_remaining = 0;
+      this.saveGauntletRun(playerId);
     }
 
     return {
@@ -8012,7 +7885,7 @@ class GameManager {
     }
 
     // Randomly select 2
-    const shuffled = shuffleArray([...candidatePool]);
+    const shuffled = withRandomSource(runState.rng, () => shuffleArray([...candidatePool]));
     const offer = shuffled.slice(0, 2).map(heroName => {
       const heroTemplate = this.heroes.find(h => h.name === heroName);
       return heroTemplate ? { name: heroName, data: heroTemplate } : null;
@@ -8153,7 +8026,9 @@ class GameManager {
       usedAbilities: [],
       selectedTarget: null,
       isGauntletPlayer: true,
-      gauntletTrial: player1Run.current_trial
+      gauntletTrial: player1Run.current_trial,
+      userId: this.userSessions.get(player1Data.playerId) || null,
+      rejoinToken: uuidv4()
     };
 
     const player2 = {
@@ -8168,7 +8043,9 @@ class GameManager {
       usedAbilities: [],
       selectedTarget: null,
       isGauntletPlayer: true,
-      gauntletTrial: player2Run.current_trial
+      gauntletTrial: player2Run.current_trial,
+      userId: this.userSessions.get(player2Data.playerId) || null,
+      rejoinToken: uuidv4()
     };
 
     game.players = [player1, player2];
@@ -8180,11 +8057,12 @@ class GameManager {
 
     player1Run.phase = 'battle';
     player2Run.phase = 'battle';
+    this.persistGame(gameId);
 
     debugLog(` Matched Gauntlet battle: ${player1Data.playerName} (Trial ${player1Run.current_trial}) vs ${player2Data.playerName} (Trial ${player2Run.current_trial})`);
 
     // Auto-roll initiative
-    const initiative = this.autoRollGauntletInitiative(game);
+    const initiative = this.withGameRng(game, () => this.autoRollGauntletInitiative(game));
 
     return {
       success: true,
@@ -8311,6 +8189,7 @@ class GameManager {
 
     if (runEnded) {
       console.log(`🏁 Gauntlet run ended for ${runState.playerName} at Trial ${runState.current_trial}`);
+      this.clearSavedGauntletRun(playerId);
       return {
         success: true,
         runEnded: true,
@@ -8318,6 +8197,7 @@ class GameManager {
       };
     }
 
+    this.saveGauntletRun(playerId);
     return {
       success: true,
       runEnded: false,
@@ -8344,6 +8224,7 @@ class GameManager {
     if (result.success && result.action !== 'show_offer' && result.action !== 'need_sacrifice') {
       // Move to preparation phase
       runState.phase = 'preparation';
+      this.saveGauntletRun(playerId);
     }
 
     return {
@@ -0,0 +1,424 @@
+// Schema and validator for heros.json
+//
+// The schema below is the single description of what a hero definition may contain. Field specs
+// cover the shape (types, required fields, known vocabularies); validateHeroes() adds the checks a
+// shape can't express: effect types must be registered in the effect registry, dice strings must
+// parse the way the engine parses them, effects that hit a hero must say which hero, and the dice
+// a description promises must match the dice the effects roll.
+//
+// Problems are reported as errors (the hero will misbehave in a match) or warnings (probably a
+// mistake, but the engine copes). The server runs this at startup; run it by hand with:
+//   node heroSchema.js [path/to/heros.json]
+
+const path = require('path');
+const { parseDiceString } = require('./utils');
+const { isKnownEffectType } = require('./effectRegistry');
+
+const ABILITY_CATEGORIES = [
+  'single_target_damage',
+  'multi_target_damage',
+  'aoe_damage',
+  'lifesteal',
+  'heal_self',
+  'heal_ally',
+  'apply_buff',
+  'summon',
+  'summon_and_damage',
+  'conditional',
+  'utility'
+];
+
+const SPECIAL_CATEGORIES = [
+  'passive',
+  'permanent',
+  'persistent',
+  'reaction',
+  'reactive',
+  'counter_attack',
+  'conditional',
+  'conditional_debuff',
+  'conditional_defense',
+  'conditional_permanent',
+  'scaling',
+  'team_aura',
+  'turn_based',
+  'start_of_game',
+  'match_start',
+  'death',
+  'death_trigger',
+  'activated',
+  'activated_aoe',
+  'activated_aoe_heal'
+];
+
+const TARGET_TYPES = ['single_target', 'multi_target', 'all_enemies', 'single_ally', 'self_only'];
+
+// Every `target` the engine knows how to resolve
+const EFFECT_TARGETS = [
+  'self',
+  'target',
+  'chosen_enemy',
+  'chosen_ally',
+  'same_as_ally_target',
+  'all_enemies',
+  'all_allies',
+  'all_heroes',
+  'all_others',
+  'hit_enemies',
+  'adjacent_enemies',
+  'adjacent_enemy_left',
+  'adjacent_enemy_right',
+  'adjacent_allies',
+  'left_ally',
+  'right_ally',
+  'ally_right',
+  'lowest_health_enemy',
+  'lowest_health_ally',
+  'random_enemy',
+  'random_ally_with_poison',
+  'attacker',
+  'killer',
+  'triggering_ally',
+  'dying_ally',
+  'fallen_hero',
+  'enemies_targeting_owner'
+];
+
+// Effect types that land on a hero and so have to name one
+const TARGETED_EFFECT_TYPES = [
+  'damage',
+  'conditional_damage',
+  'lifesteal_damage',
+  'recoil_damage',
+  'on_kill_splash',
+  'heal',
+  'heal_to_full',
+  'conditional_heal',
+  'apply_buff',
+  'apply_debuff',
+  'stat_modifier',
+  'remove_debuff',
+  'command_ally'
+];
+
+// Effect fields holding a dice string (or a flat number)
+const DICE_FIELDS = ['value', 'value_true', 'value_false', 'value_per_stack', 'conditional_damage'];
+
+// Non-dice values the engine understands in a dice field
+const DICE_KEYWORDS = ['match_damage'];
+
+// Field specs: { type, required, values, pattern }. `type` is a typeof name, 'integer', 'array'
+// or 'dice'; a list of types means any of them.
+const HERO_SCHEMA = {
+  name: { type: 'string', required: true },
+  HP: { type: 'integer', required: true, min: 1 },
+  Defense: { type: 'integer', required: true, min: 0 },
+  Accuracy: { type: ['string', 'integer'], required: true, pattern: /^[+-]?\d+$/ },
+  BasicAttack: { type: 'dice', required: true, allowNone: true },
+  Ability: { type: 'array', required: true },
+  Special: { type: ['object', 'array'], required: true },
+  Immunities: { type: 'array' },
+  disabled: { type: 'boolean' }
+};
+
+const ABILITY_SCHEMA = {
+  name: { type: 'string', required: true },
+  description: { type: 'string', required: true },
+  category: { type: 'string', required: true, values: ABILITY_CATEGORIES },
+  target_type: { type: 'string', required: true, values: TARGET_TYPES },
+  primary_effects: { type: 'array', required: true },
+  secondary_effects: { type: 'array' },
+  crit_bonus: { type: 'object' }
+};
+
+const SPECIAL_SCHEMA = {
+  name: { type: 'string', required: true },
+  description: { type: 'string', required: true },
+  category: { type: 'string', values: SPECIAL_CATEGORIES },
+  effects: { type: 'array', required: true },
+  trigger: { type: 'string' },
+  trigger_timing: { type: 'string' },
+  frequency: { type: 'string' },
+  condition: { type: 'string' },
+  scale_with: { type: 'string' }
+};
+
+// Dice as the engine reads them: "1D6", "+1D8", "2D4+1", a flat "3", or "1D4_per_totem" on a
+// scaling effect. parseDiceString() itself only looks for the first "xDy", so "1d6 poison" or
+// "2D" would half-parse at runtime instead of failing.
+function checkDice(value, { allowNone = false, allowScaling = false } = {}) {
+  if (typeof value === 'number') {
+    return Number.isInteger(value) ? null : `expected a whole number, got ${value}`;
+  }
+  if (typeof value !== 'string') {
+    return `expected a dice string, got ${typeof value}`;
+  }
+  if (allowNone && value === '—') {
+    return null;
+  }
+  if (DICE_KEYWORDS.includes(value)) {
+    return null;
+  }
+
+  const [dice, per] = value.split('_per_');
+  if (per !== undefined && !allowScaling) {
+    return `"${value}" scales "_per_${per}" but the effect has no scaling`;
+  }
+  if (!/^\+?(\d+D\d+(\+\d+)?|-?\d+)$/i.test(dice) || !parseDiceString(dice.replace(/^\+/, ''))) {
+    return `"${value}" is not a valid dice string (expected e.g. "1D6", "2D4+1" or "3")`;
+  }
+  return null;
+}
+
+function checkType(value, spec) {
+  const types = Array.isArray(spec.type) ? spec.type : [spec.type];
+  return types.some(type => {
+    switch (type) {
+      case 'integer':
+        return Number.isInteger(value);
+      case 'array':
+        return Array.isArray(value);
+      case 'object':
+        return value !== null && typeof value === 'object' && !Array.isArray(value);
+      case 'dice':
+        return typeof value === 'string' || typeof value === 'number';
+      default:
+        return typeof value === type;
+    }
+  });
+}
+
+function createReport() {
+  const report = { errors: [], warnings: [] };
+  report.error = (hero, where, message) => report.errors.push({ hero, path: where, message });
+  report.warn = (hero, where, message) => report.warnings.push({ hero, path: where, message });
+  return report;
+}
+
+function checkFields(object, schema, heroName, where, report) {
+  for (const [field, spec] of Object.entries(schema)) {
+    const value = object[field];
+    if (value === undefined) {
+      if (spec.required) report.error(heroName, where, `missing required field "${field}"`);
+      continue;
+    }
+    if (!checkType(value, spec)) {
+      const expected = Array.isArray(spec.type) ? spec.type.join(' or ') : spec.type;
+      report.error(heroName, `${where}.${field}`, `expected ${expected}, got ${JSON.stringify(value)}`);
+      continue;
+    }
+    if (spec.type === 'dice') {
+      const problem = checkDice(value, spec);
+      if (problem) report.error(heroName, `${where}.${field}`, problem);
+    }
+    if (spec.values && !spec.values.includes(value)) {
+      report.error(heroName, `${where}.${field}`, `unknown ${field} "${value}"`);
+    }
+    if (spec.pattern && !spec.pattern.test(String(value))) {
+      report.error(heroName, `${where}.${field}`, `"${value}" does not match ${spec.pattern}`);
+    }
+    if (spec.min !== undefined && value < spec.min) {
+      report.error(heroName, `${where}.${field}`, `must be at least ${spec.min}, got ${value}`);
+    }
+  }
+
+  for (const field of Object.keys(object)) {
+    if (!schema[field]) {
+      report.warn(heroName, where, `unknown field "${field}"`);
+    }
+  }
+}
+
+function checkEffect(effect, heroName, where, report, { requireTarget }) {
+  if (!effect || typeof effect !== 'object' || Array.isArray(effect)) {
+    report.error(heroName, where, 'effect must be an object');
+    return;
+  }
+  if (typeof effect.type !== 'string') {
+    report.error(heroName, where, 'effect is missing its "type"');
+    return;
+  }
+  if (!isKnownEffectType(effect.type)) {
+    report.error(heroName, `${where}.type`, `unknown effect type "${effect.type}" (not in effectRegistry)`);
+  }
+
+  for (const field of DICE_FIELDS) {
+    if (effect[field] === undefined) continue;
+    const problem = checkDice(effect[field], { allowScaling: !!effect.scaling });
+    if (problem) report.error(heroName, `${where}.${field}`, problem);
+  }
+
+  // Per-stack effects always apply to their owner
+  const needsTarget = requireTarget && TARGETED_EFFECT_TYPES.includes(effect.type) && effect.value_per_stack === undefined;
+  if (effect.target === undefined) {
+    if (needsTarget) report.error(heroName, where, `"${effect.type}" effect has no target`);
+  } else if (!EFFECT_TARGETS.includes(effect.target)) {
+    report.error(heroName, `${where}.target`, `unknown target "${effect.target}"`);
+  }
+
+  // Summon behaviours and conditional actions carry a nested effect of their own
+  if (effect.behavior && typeof effect.behavior === 'object') {
+    const { trigger, action, ...behavior } = effect.behavior;
+    checkEffect({ ...behavior, type: action }, heroName, `${where}.behavior`, report, { requireTarget });
+  }
+  if (effect.action && typeof effect.action === 'object') {
+    checkEffect(effect.action, heroName, `${where}.action`, report, { requireTarget });
+  }
+}
+
+// Upper-cased "xDy" dice mentioned in a text or rolled by a list of effects
+function diceIn(text) {
+  return (String(text).match(/\d+D\d+/gi) || []).map(dice => dice.toUpperCase());
+}
+
+function effectDice(effects) {
+  const dice = [];
+  for (const effect of effects) {
+    if (!effect || typeof effect !== 'object') continue;
+    DICE_FIELDS.forEach(field => {
+      if (effect[field] !== undefined) dice.push(...diceIn(effect[field]));
+    });
+    if (effect.behavior) dice.push(...diceIn(effect.behavior.value || ''));
+    if (effect.action && typeof effect.action === 'object') dice.push(...effectDice([effect.action]));
+  }
+  return dice;
+}
+
+function checkDescription(description, effects, heroName, where, report) {
+  const described = diceIn(description);
+  const rolled = effectDice(effects);
+
+  described.filter(dice => !rolled.includes(dice)).forEach(dice => {
+    report.warn(heroName, where, `description mentions ${dice} but no effect rolls it`);
+  });
+  rolled.filter(dice => !described.includes(dice)).forEach(dice => {
+    report.warn(heroName, where, `effects roll ${dice} but the description doesn't mention it`);
+  });
+}
+
+function validateAbility(ability, heroName, where, report) {
+  if (!ability || typeof ability !== 'object') {
+    report.error(heroName, where, 'ability must be an object');
+    return;
+  }
+
+  if (ability.effects !== undefined) {
+    report.error(heroName, `${where}.effects`, 'abilities use "primary_effects"/"secondary_effects", not "effects"');
+  }
+  checkFields(ability, { ...ABILITY_SCHEMA, effects: { type: 'array' } }, heroName, where, report);
+
+  const effects = [
+    ...(Array.isArray(ability.primary_effects) ? ability.primary_effects : []),
+    ...(Array.isArray(ability.secondary_effects) ? ability.secondary_effects : [])
+  ];
+  if (Array.isArray(ability.primary_effects) && ability.primary_effects.length === 0) {
+    report.error(heroName, `${where}.primary_effects`, 'ability has no primary effects');
+  }
+
+  ['primary_effects', 'secondary_effects'].forEach(list => {
+    (Array.isArray(ability[list]) ? ability[list] : []).forEach((effect, index) => {
+      checkEffect(effect, heroName, `${where}.${list}[${index}]`, report, { requireTarget: true });
+    });
+  });
+  if (ability.crit_bonus) {
+    checkEffect(ability.crit_bonus, heroName, `${where}.crit_bonus`, report, { requireTarget: true });
+    effects.push(ability.crit_bonus);
+  }
+
+  checkDescription(ability.description, effects, heroName, where, report);
+}
+
+function validateSpecial(special, heroName, where, report) {
+  if (!special || typeof special !== 'object') {
+    report.error(heroName, where, 'special must be an object');
+    return;
+  }
+
+  checkFields(special, SPECIAL_SCHEMA, heroName, where, report);
+  if (special.category === undefined) {
+    report.warn(heroName, where, 'special has no category');
+  }
+
+  const effects = Array.isArray(special.effects) ? special.effects : [];
+  effects.forEach((effect, index) => {
+    checkEffect(effect, heroName, `${where}.effects[${index}]`, report, { requireTarget: true });
+  });
+
+  checkDescription(special.description, effects, heroName, where, report);
+}
+
+// Validate a parsed heros.json; returns { errors, warnings }, each a list of
+// { hero, path, message }
+function validateHeroes(heroes) {
+  const report = createReport();
+
+  if (!Array.isArray(heroes)) {
+    report.error(null, '', 'heros.json must contain an array of heroes');
+    return { errors: report.errors, warnings: report.warnings };
+  }
+
+  const seen = new Set();
+  heroes.forEach((hero, index) => {
+    const heroName = hero && typeof hero.name === 'string' ? hero.name : `#${index}`;
+    if (!hero || typeof hero !== 'object' || Array.isArray(hero)) {
+      report.error(heroName, '', 'hero must be an object');
+      return;
+    }
+
+    if (seen.has(heroName)) {
+      report.error(heroName, 'name', 'duplicate hero name');
+    }
+    seen.add(heroName);
+
+    checkFields(hero, HERO_SCHEMA, heroName, '', report);
+
+    // An empty list is fine (Brawler trades its abilities for a second attack)
+    if (Array.isArray(hero.Ability)) {
+      hero.Ability.forEach((ability, i) => validateAbility(ability, heroName, `Ability[${i}]`, report));
+    }
+
+    // Most heroes have a single special object; a few have a list of them
+    if (Array.isArray(hero.Special)) {
+      hero.Special.forEach((special, i) => validateSpecial(special, heroName, `Special[${i}]`, report));
+    } else if (hero.Special && typeof hero.Special === 'object') {
+      validateSpecial(hero.Special, heroName, 'Special', report);
+    }
+  });
+
+  return { errors: report.errors, warnings: report.warnings };
+}
+
+function formatIssue(issue) {
+  const where = [issue.hero, issue.path].filter(Boolean).join(' ').replace(/ \./, '.');
+  return `${where}: ${issue.message}`;
+}
+
+function main() {
+  const file = path.resolve(process.argv[2] || path.join(__dirname, 'heros.json'));
+  const heroes = require(file);
+  const { errors, warnings } = validateHeroes(heroes);
+
+  warnings.forEach(issue => console.warn(`⚠️  ${formatIssue(issue)}`));
+  errors.forEach(issue => console.error(`❌ ${formatIssue(issue)}`));
+
+  const count = Array.isArray(heroes) ? heroes.length : 0;
+  if (errors.length > 0) {
+    console.error(`\n❌ ${file}: ${errors.length} error(s), ${warnings.length} warning(s) in ${count} heroes`);
+    process.exit(1);
+  }
+  console.log(`✅ ${file}: ${count} heroes valid (${warnings.length} warning(s))`);
+}
+
+if (require.main === module) {
+  main();
+}
+
+module.exports = {
+  HERO_SCHEMA,
+  ABILITY_SCHEMA,
+  SPECIAL_SCHEMA,
+  EFFECT_TARGETS,
+  checkDice,
+  validateHeroes,
+  formatIssue
+};
@@ -0,0 +1,80 @@
+// Friend presence
+//
+// createPresenceTracker keeps what each online user is doing (in the lobby, searching for a
+// match, in a game, ...) and since when. It doesn't follow game events itself: a sweep asks
+// `resolve(userId)` for every tracked user's current activity and calls `onChange(userId,
+// presence)` when it differs from the last one. refresh(userId) does the same for one user
+// right away.
+//
+// touch(userId) records activity from the user; one idle for `awayAfterMs` while in the lobby
+// shows as away. Everything lives in memory and is dropped when the user goes offline.
+
+const { startSweeper } = require('./sweeper');
+
+/**
+ * resolve(userId) returns the user's activity, e.g. { status: 'in-game', mode: 'draft' }, or
+ * null for the lobby. Presences sent to onChange add `since` (ms timestamp) to that.
+ */
+function createPresenceTracker({ resolve, onChange, awayAfterMs, sweepIntervalMs }) {
+  const users = new Map(); // userId -> { presence, key, lastActive }
+
+  const currentPresence = (userId, entry, now) => {
+    const activity = resolve(userId);
+    if (activity) return activity;
+    return now - entry.lastActive >= awayAfterMs ? { status: 'away' } : { status: 'lobby' };
+  };
+
+  const update = (userId, now = Date.now()) => {
+    const entry = users.get(userId);
+    if (!entry) return;
+
+    const presence = currentPresence(userId, entry, now);
+    const key = JSON.stringify(presence);
+    if (key === entry.key) return;
+
+    entry.key = key;
+    entry.presence = { ...presence, since: now };
+    onChange(userId, entry.presence);
+  };
+
+  startSweeper(() => {
+    const now = Date.now();
+    [...users.keys()].forEach(userId => update(userId, now));
+  }, sweepIntervalMs);
+
+  return {
+    // Start tracking a user who just came online
+    add(userId) {
+      const now = Date.now();
+      const presence = { ...(resolve(userId) || { status: 'lobby' }), since: now };
+      const { since, ...activity } = presence;
+      users.set(userId, { presence, key: JSON.stringify(activity), lastActive: now });
+      return presence;
+    },
+
+    remove(userId) {
+      users.delete(userId);
+    },
+
+    // The user did something; an away user comes back at once
+    touch(userId) {
+      const entry = users.get(userId);
+      if (!entry) return;
+      entry.lastActive = Date.now();
+      if (entry.presence.status === 'away') update(userId);
+    },
+
+    refresh(userId) {
+      update(userId);
+    },
+
+    get(userId) {
+      const entry = users.get(userId);
+      return entry ? entry.presence : null;
+    }
+  };
+}
+
+module.exports = {
+  createPresenceTracker
+};
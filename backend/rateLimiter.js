@@ -0,0 +1,109 @@
+// In-process rate limiting
+//
+// createRateLimiter counts hits per key (an IP, a user id, ...) in a sliding window and
+// refuses them once `limit` is reached. createLockout counts failures per key and locks the
+// key for `lockoutMs` after `maxFailures` of them inside `windowMs`; a success clears it.
+//
+// Everything lives in Maps on this process, so limits reset on restart and are not shared
+// between server instances. Stale keys are swept once a minute.
+
+const { startSweeper } = require('./sweeper');
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Allow at most `limit` hits per key in any `windowMs` stretch. consume(key) records a hit
+ * and returns { allowed: true } or { allowed: false, retryAfterMs }; refused hits don't count.
+ */
+function createRateLimiter({ limit, windowMs }) {
+  const hits = new Map(); // key -> timestamps of the hits still inside the window
+
+  const recentHits = (key, now) => {
+    const recent = (hits.get(key) || []).filter(time => now - time < windowMs);
+    if (recent.length > 0) {
+      hits.set(key, recent);
+    } else {
+      hits.delete(key);
+    }
+    return recent;
+  };
+
+  startSweeper(() => {
+    const now = Date.now();
+    for (const key of hits.keys()) recentHits(key, now);
+  }, SWEEP_INTERVAL_MS);
+
+  return {
+    consume(key) {
+      const now = Date.now();
+      const recent = recentHits(key, now);
+      if (recent.length >= limit) {
+        return { allowed: false, retryAfterMs: recent[0] + windowMs - now };
+      }
+      recent.push(now);
+      hits.set(key, recent);
+      return { allowed: true };
+    },
+
+    reset(key) {
+      hits.delete(key);
+    }
+  };
+}
+
+/**
+ * Lock a key for `lockoutMs` once it has `maxFailures` failures within `windowMs`.
+ * check(key) returns { locked: false } or { locked: true, retryAfterMs }.
+ */
+function createLockout({ maxFailures, windowMs, lockoutMs }) {
+  const failures = new Map(); // key -> timestamps of the failures still inside the window
+  const lockedUntil = new Map(); // key -> timestamp the lock ends
+
+  startSweeper(() => {
+    const now = Date.now();
+    for (const [key, times] of failures) {
+      if (times.every(time => now - time >= windowMs)) failures.delete(key);
+    }
+    for (const [key, until] of lockedUntil) {
+      if (until <= now) lockedUntil.delete(key);
+    }
+  }, SWEEP_INTERVAL_MS);
+
+  return {
+    check(key) {
+      const until = lockedUntil.get(key);
+      if (until && until > Date.now()) {
+        return { locked: true, retryAfterMs: until - Date.now() };
+      }
+      lockedUntil.delete(key);
+      return { locked: false };
+    },
+
+    // Returns { locked: true, retryAfterMs } if this failure caused a lock, otherwise
+    // { locked: false, remaining } with the failures left before it would
+    recordFailure(key) {
+      const now = Date.now();
+      const recent = (failures.get(key) || []).filter(time => now - time < windowMs);
+      recent.push(now);
+
+      if (recent.length >= maxFailures) {
+        failures.delete(key);
+        lockedUntil.set(key, now + lockoutMs);
+        return { locked: true, retryAfterMs: lockoutMs };
+      }
+
+      failures.set(key, recent);
+      return { locked: false, remaining: maxFailures - recent.length };
+    },
+
+    reset(key) {
+      failures.delete(key);
+      lockedUntil.delete(key);
+    }
+  };
+}
+
+module.exports = {
+  createRateLimiter,
+  createLockout
+};
@@ -0,0 +1,136 @@
+// Skill rating
+//
+// Every rated mode keeps a Glicko rating per player in player_stats.ratings. The hidden part -
+// rating and deviation (how unsure we still are) - decides matchmaking and moves after each
+// game. Players see a cautious version of it, rating minus twice the deviation, with a tier
+// once their placement games are done: it starts low and climbs as the deviation shrinks, so a
+// few lucky wins don't land anyone in Master.
+//
+// Friendly rooms, practice, survival and gauntlet games aren't rated. Ranked Draft plays like
+// Draft but keeps its own rating; draft and random keep theirs from casual matchmaking.
+
+const RATED_MODES = ['ranked', 'draft', 'random'];
+
+const DEFAULT_RATING = 1500;
+const DEFAULT_DEVIATION = 350;
+const MIN_DEVIATION = 50;
+const DEVIATION_GROWTH_PER_DAY = 15; // Glicko's c: time away makes a rating less certain
+const PLACEMENT_GAMES = 5;
+const SOFT_RESET_DEVIATION = 200;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Highest first; a visible rating gets the first tier it reaches
+const TIERS = [
+  { name: 'Master', min: 1700 },
+  { name: 'Diamond', min: 1500 },
+  { name: 'Platinum', min: 1300 },
+  { name: 'Gold', min: 1100 },
+  { name: 'Silver', min: 900 },
+  { name: 'Bronze', min: 0 }
+];
+
+const Q = Math.log(10) / 400;
+
+function newRating() {
+  return {
+    rating: DEFAULT_RATING,
+    deviation: DEFAULT_DEVIATION,
+    games: 0,
+    wins: 0,
+    losses: 0,
+    lastPlayedAt: null
+  };
+}
+
+// The stored rating for a mode, or a fresh one
+function ratingFor(ratings, mode) {
+  return { ...newRating(), ...((ratings && ratings[mode]) || {}) };
+}
+
+// The mode a finished game is rated in, or null when it isn't rated
+function ratedModeOf(gameState) {
+  if (!gameState || gameState.roomName) return null;
+  if (gameState.ranked) return 'ranked';
+  return RATED_MODES.includes(gameState.mode) ? gameState.mode : null;
+}
+
+function currentDeviation(entry, now) {
+  if (!entry.lastPlayedAt) return entry.deviation;
+  const days = Math.max(0, now - entry.lastPlayedAt) / DAY_MS;
+  return Math.min(DEFAULT_DEVIATION, Math.sqrt(entry.deviation ** 2 + DEVIATION_GROWTH_PER_DAY ** 2 * days));
+}
+
+const impact = deviation => 1 / Math.sqrt(1 + (3 * Q * Q * deviation * deviation) / (Math.PI * Math.PI));
+
+/**
+ * Rate one game. score is 1 for a win, 0.5 for a tie and 0 for a loss, from `entry`'s side.
+ * Returns the updated entry; neither argument is changed.
+ */
+function rateGame(entry, opponent, score, now = Date.now()) {
+  const deviation = currentDeviation(entry, now);
+  const opponentImpact = impact(currentDeviation(opponent, now));
+  const expected = 1 / (1 + Math.pow(10, (-opponentImpact * (entry.rating - opponent.rating)) / 400));
+  const dSquared = 1 / (Q * Q * opponentImpact * opponentImpact * expected * (1 - expected));
+  const precision = 1 / (deviation * deviation) + 1 / dSquared;
+
+  return {
+    ...entry,
+    rating: entry.rating + (Q / precision) * opponentImpact * (score - expected),
+    deviation: Math.max(MIN_DEVIATION, Math.sqrt(1 / precision)),
+    games: entry.games + 1,
+    wins: entry.wins + (score === 1 ? 1 : 0),
+    losses: entry.losses + (score === 0 ? 1 : 0),
+    lastPlayedAt: now
+  };
+}
+
+// Season rollover: pull the rating halfway back to the default and make it less certain, so
+// everyone replays their placements and climbs again from closer together
+function softReset(entry) {
+  return {
+    ...entry,
+    rating: DEFAULT_RATING + (entry.rating - DEFAULT_RATING) / 2,
+    deviation: Math.max(entry.deviation, SOFT_RESET_DEVIATION),
+    games: 0,
+    wins: 0,
+    losses: 0
+  };
+}
+
+function visibleRating(entry) {
+  return Math.max(0, Math.round(entry.rating - 2 * entry.deviation));
+}
+
+function tierOf(visible) {
+  return TIERS.find(tier => visible >= tier.min).name;
+}
+
+// What players may see of a rating: the hidden numbers stay on the server
+function rankView(entry) {
+  const placementGamesLeft = Math.max(0, PLACEMENT_GAMES - entry.games);
+  const rating = visibleRating(entry);
+  return {
+    rating,
+    tier: placementGamesLeft > 0 ? null : tierOf(rating),
+    placementGamesLeft,
+    games: entry.games,
+    wins: entry.wins,
+    losses: entry.losses
+  };
+}
+
+// Rank views for every rated mode, for a player_stats.ratings value
+function publicRatings(ratings) {
+  return Object.fromEntries(RATED_MODES.map(mode => [mode, rankView(ratingFor(ratings, mode))]));
+}
+
+module.exports = {
+  RATED_MODES,
+  newRating,
+  ratingFor,
+  ratedModeOf,
+  rateGame,
+  softReset,
+  rankView,
+  publicRatings
+};
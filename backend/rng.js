@@ -0,0 +1,49 @@
+// Seeded random number streams
+//
+// Every game owns one stream (mulberry32). The whole generator state is a single 32-bit
+// integer, so a match can be replayed from its seed, or resumed from a saved state.
+
+const crypto = require('crypto');
+
+function generateSeed() {
+  return crypto.randomInt(0, 0x100000000);
+}
+
+function createSeededRng(seed = generateSeed(), state = seed) {
+  let current = state >>> 0;
+  let draws = 0;
+
+  // Returns a float in [0, 1), same contract as Math.random
+  const rng = () => {
+    current = (current + 0x6D2B79F5) >>> 0;
+    let t = current;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    draws++;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  rng.seed = seed >>> 0;
+  rng.getState = () => current;
+  rng.getDrawCount = () => draws;
+
+  return rng;
+}
+
+// Attach a stream to a game/run object without it ever being serialized to clients
+// (a visible seed would let players predict every upcoming roll)
+function attachRng(target, rng = createSeededRng()) {
+  Object.defineProperty(target, 'rng', {
+    value: rng,
+    enumerable: false,
+    writable: true,
+    configurable: true
+  });
+  return target.rng;
+}
+
+module.exports = {
+  generateSeed,
+  createSeededRng,
+  attachRng
+};
@@ -0,0 +1,60 @@
+// Ranked seasons
+//
+// The Ranked Draft ladder runs in seasons of SEASON_LENGTH_DAYS. When one ends, server.js
+// archives every ranked player's final rank, grants the rewards for their tier and soft-resets
+// their rating (see rating.js) before the next season starts. Players who didn't finish their
+// placement games get their rank archived but no reward.
+
+const SEASON_LENGTH_DAYS = parseInt(process.env.SEASON_LENGTH_DAYS || '56', 10);
+const SEASON_LENGTH_MS = SEASON_LENGTH_DAYS * 24 * 60 * 60 * 1000;
+
+// By final tier. A title reads e.g. "Season 3 Gold"; icon is a hero portrait the player may use
+// as profile icon without owning the hero
+const SEASON_REWARDS = {
+  Bronze: { victoryPoints: 5 },
+  Silver: { victoryPoints: 10 },
+  Gold: { victoryPoints: 20, title: true },
+  Platinum: { victoryPoints: 30, title: true },
+  Diamond: { victoryPoints: 45, title: true, icon: 'Angel' },
+  Master: { victoryPoints: 60, title: true, icon: 'Dragon Rider' }
+};
+
+// { victoryPoints, title, icon } for a final tier, or null for players still in placement
+function seasonReward(tier, seasonNumber) {
+  const reward = tier && SEASON_REWARDS[tier];
+  if (!reward) return null;
+  return {
+    victoryPoints: reward.victoryPoints,
+    title: reward.title ? `Season ${seasonNumber} ${tier}` : null,
+    icon: reward.icon || null
+  };
+}
+
+// What clients see of a seasons table row
+function seasonView(season) {
+  return {
+    number: season.number,
+    startsAt: Date.parse(season.starts_at),
+    endsAt: Date.parse(season.ends_at)
+  };
+}
+
+// What clients see of a season_results row joined with its season number
+function seasonResultView(row) {
+  return {
+    season: row.season,
+    rating: row.rating,
+    tier: row.tier,
+    games: row.games,
+    wins: row.wins,
+    losses: row.losses,
+    reward: row.reward_vp > 0 ? { victoryPoints: row.reward_vp, title: row.reward_title, icon: row.reward_icon } : null
+  };
+}
+
+module.exports = {
+  SEASON_LENGTH_MS,
+  seasonReward,
+  seasonView,
+  seasonResultView
+};
@@ -16,7 +16,15 @@ console.log('Basic modules loaded successfully');
 console.log('Loading GameManager...');
 const GameManager = require('./gameManager');
 console.log('Loading utils...');
-const { rollDice, shuffleArray } = require('./utils');
+const { rollDice, shuffleArray, withRandomSource } = require('./utils');
+const { createSeededRng } = require('./rng');
+const { validateHeroes, formatIssue } = require('./heroSchema');
+const dragonflowEngine = require('./dragonflowEngine');
+const { createSessionToken, readSessionToken } = require('./sessionTokens');
+const { createRateLimiter, createLockout } = require('./rateLimiter');
+const { createPresenceTracker } = require('./presence');
+const { RATED_MODES, ratingFor, ratedModeOf, rateGame, softReset, rankView, publicRatings } = require('./rating');
+const { SEASON_LENGTH_MS, seasonReward, seasonView, seasonResultView } = require('./seasons');
 console.log('Loading Database...');
 const Database = require('./database');
 console.log('Game logic modules loaded successfully');
@@ -51,6 +59,14 @@ app.use(cors({
   credentials: true
 }));
 app.use(express.json());
+
+// Behind a reverse proxy req.ip is the proxy unless Express is told to trust it
+// (hop count or address list, see Express's 'trust proxy' setting)
+if (process.env.TRUST_PROXY) {
+  const hops = parseInt(process.env.TRUST_PROXY, 10);
+  app.set('trust proxy', Number.isNaN(hops) ? process.env.TRUST_PROXY : hops);
+}
+
 app.use(express.static(path.join(__dirname, '../frontend/dist')));
 
 // Serve hero images
@@ -66,21 +82,311 @@ const getHeroes = () => {
   return require('./heros.json');
 };
 
-const heroes = getHeroes();
+let baseHeroes = getHeroes(); // As in heros.json
+let heroes = baseHeroes; // With the admin hero toggles applied, see applyHeroOverrides
+
+// Refuse to start on a broken heros.json rather than letting a typo break a hero mid-match.
+// HERO_VALIDATION=warn downgrades errors to log lines (e.g. to bring up a server with a hero
+// that is still being written).
+const heroValidation = validateHeroes(baseHeroes);
+heroValidation.warnings.forEach(issue => console.warn(`⚠️ heros.json: ${formatIssue(issue)}`));
+heroValidation.errors.forEach(issue => console.error(`❌ heros.json: ${formatIssue(issue)}`));
+if (heroValidation.errors.length > 0) {
+  if (process.env.HERO_VALIDATION !== 'warn') {
+    console.error(`❌ heros.json has ${heroValidation.errors.length} error(s); fix them (node heroSchema.js) or set HERO_VALIDATION=warn`);
+    process.exit(1);
+  }
+} else {
+  console.log(`✅ heros.json validated (${baseHeroes.length} heroes)`);
+}
 
 // Initialize database
 const database = new Database();
 await new Promise((resolve) => setTimeout(resolve, 5000)); // Wait a moment to ensure database is ready
 
+// Test accounts (Admin1, Admin2, ... all with the password 'admin') and the quick login that
+// signs in as one are for local development only, and only exist with DEV_TEST_ACCOUNTS=1
+const DEV_TEST_ACCOUNTS = process.env.DEV_TEST_ACCOUNTS === '1';
+
 // Create admin accounts for testing
-setTimeout(() => {
-  database.createAdminAccounts();
-}, 10000); // Small delay to ensure database tables are created first
+if (DEV_TEST_ACCOUNTS) {
+  setTimeout(() => {
+    database.createAdminAccounts(heroes.filter(hero => !hero.disabled).map(hero => hero.name));
+  }, 10000); // Small delay to ensure database tables are created first
+}
 
 // Session management for authentication
 const userSessions = new Map(); // socketId -> userId
 const loggedInUsers = new Map(); // userId -> socketId (to track who is logged in)
-const onlinePlayersCache = new Map(); // socketId -> last request time (for rate limiting)
+
+// Throttles for endpoints that are cheap to spam. REST routes are limited per IP, socket
+// events per user id
+const MINUTE_MS = 60 * 1000;
+const loginLimiter = createRateLimiter({ limit: 20, windowMs: 15 * MINUTE_MS }); // per IP
+const registerLimiter = createRateLimiter({ limit: 5, windowMs: 60 * MINUTE_MS }); // per IP
+const messageLimiter = createRateLimiter({ limit: 10, windowMs: 10 * 1000 }); // per user
+const friendRequestLimiter = createRateLimiter({ limit: 10, windowMs: 10 * MINUTE_MS }); // per user
+const onlinePlayersLimiter = createRateLimiter({ limit: 1, windowMs: 2000 }); // per socket
+const reportLimiter = createRateLimiter({ limit: 5, windowMs: 10 * MINUTE_MS }); // per user
+const battleChatLimiter = createRateLimiter({ limit: 5, windowMs: 5 * 1000 }); // per socket
+const spectatorChatLimiter = createRateLimiter({ limit: 5, windowMs: 5 * 1000 }); // per socket
+const challengeLimiter = createRateLimiter({ limit: 5, windowMs: MINUTE_MS }); // per user
+const replayLimiter = createRateLimiter({ limit: 10, windowMs: MINUTE_MS }); // per IP, each load re-simulates a game
+
+// Most messages returned by one get-messages call
+const MESSAGE_PAGE_SIZE = 50;
+
+// Failed logins and recovery attempts lock the account they target for a while
+const loginLockout = createLockout({
+  maxFailures: parseInt(process.env.LOGIN_MAX_FAILURES || '5', 10),
+  windowMs: 15 * MINUTE_MS,
+  lockoutMs: parseInt(process.env.LOGIN_LOCKOUT_MINUTES || '15', 10) * MINUTE_MS
+});
+
+function formatRetryAfter(retryAfterMs) {
+  const seconds = Math.ceil(retryAfterMs / 1000);
+  if (seconds < 60) return `${seconds} second${seconds === 1 ? '' : 's'}`;
+  const minutes = Math.ceil(seconds / 60);
+  return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+}
+
+// Fields added to every rate limit error so clients can show a countdown.
+// code is 'RATE_LIMITED' or 'ACCOUNT_LOCKED'
+function rateLimitFields(retryAfterMs, code = 'RATE_LIMITED') {
+  return { code, retryAfter: Math.ceil(retryAfterMs / 1000) };
+}
+
+function sendRateLimited(res, retryAfterMs, message, code) {
+  res.set('Retry-After', String(Math.ceil(retryAfterMs / 1000)));
+  res.status(429).json({ 
+    success: false, 
+    message,
+    ...rateLimitFields(retryAfterMs, code)
+  });
+}
+
+// Middleware limiting a route per client IP
+function limitByIp(limiter) {
+  return (req, res, next) => {
+    const result = limiter.consume(req.ip);
+    if (!result.allowed) {
+      return sendRateLimited(res, result.retryAfterMs, `Too many requests. Try again in ${formatRetryAfter(result.retryAfterMs)}.`);
+    }
+    next();
+  };
+}
+
+// Runs a failed login or recovery attempt through the lockout. Returns true if the account
+// is (now) locked and the 429 has been sent
+function handleFailedAttempt(res, username) {
+  const failure = loginLockout.recordFailure(username);
+  if (failure.locked) {
+    sendRateLimited(res, failure.retryAfterMs, `Too many failed attempts. This account is locked for ${formatRetryAfter(failure.retryAfterMs)}.`, 'ACCOUNT_LOCKED');
+    return true;
+  }
+  return false;
+}
+
+function checkAccountLock(res, username) {
+  const lock = loginLockout.check(username);
+  if (lock.locked) {
+    sendRateLimited(res, lock.retryAfterMs, `Too many failed attempts. This account is locked for ${formatRetryAfter(lock.retryAfterMs)}.`, 'ACCOUNT_LOCKED');
+    return true;
+  }
+  return false;
+}
+
+// Resolve a session token to its user id, or null if it is forged, expired or revoked
+async function verifySessionToken(token) {
+  const session = readSessionToken(token);
+  if (!session) return null;
+  const currentVersion = await database.getSessionVersion(session.userId);
+  return currentVersion === session.sessionVersion ? session.userId : null;
+}
+
+async function issueSessionToken(userId) {
+  return createSessionToken(userId, await database.getSessionVersion(userId));
+}
+
+// Middleware for user-scoped routes: expects `Authorization: Bearer <token>` and sets
+// req.userId. Those routes act on req.userId, never on a user id sent by the client.
+async function requireSession(req, res, next) {
+  try {
+    const header = req.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : null;
+    const userId = token ? await verifySessionToken(token) : null;
+
+    if (!userId) {
+      return res.status(401).json({ 
+        success: false, 
+        message: 'Session expired or invalid. Please log in again.' 
+      });
+    }
+
+    req.userId = userId;
+    presenceTracker.touch(userId);
+    next();
+  } catch (error) {
+    console.error('Session check error:', error);
+    res.status(500).json({ 
+      success: false, 
+      message: 'Failed to verify session' 
+    });
+  }
+}
+
+// For routes addressed by :userId - a session may only read its own account
+function requireOwnAccount(req, res, next) {
+  if (parseInt(req.params.userId) !== req.userId) {
+    return res.status(403).json({ 
+      success: false, 
+      message: 'You can only access your own account' 
+    });
+  }
+  next();
+}
+
+// Drops the user's live socket connection, if any. Returns whether one was found
+function disconnectUser(userId) {
+  const socketId = loggedInUsers.get(userId);
+  if (!socketId) return false;
+
+  const socket = io.sockets.sockets.get(socketId);
+  if (socket) {
+    socket.disconnect();
+  }
+  // Clean up session tracking
+  loggedInUsers.delete(userId);
+  userSessions.delete(socketId);
+  presenceTracker.remove(userId);
+  return true;
+}
+
+// ==================== BLOCK LIST ====================
+// A block works both ways: if either user blocked the other they can't message, friend-request,
+// spectate or share a friendly room, and don't see each other online
+
+// True if the users behind the two sockets have a block between them. Sockets without a
+// logged-in user never do
+async function isBlockedBetweenSockets(socketId1, socketId2) {
+  const userId1 = userSessions.get(socketId1);
+  const userId2 = userSessions.get(socketId2);
+  if (!userId1 || !userId2) return false;
+  return database.isBlockedBetween(userId1, userId2);
+}
+
+// True if anyone playing in the game has a block with the user behind this socket
+async function isBlockedFromGame(socketId, game) {
+  for (const player of game.players) {
+    if (!player.isAI && await isBlockedBetweenSockets(socketId, player.id)) return true;
+  }
+  return false;
+}
+
+// Tell the other online users that this one came online or went offline, skipping anyone on
+// either side of a block with them
+async function broadcastOnlineStatus(socket, user, online) {
+  const hiddenFrom = (await database.getBlockRelatedUserIds(user.id))
+    .map(id => loggedInUsers.get(id))
+    .filter(Boolean);
+  socket.broadcast.except(hiddenFrom).emit('player-online-status-changed', {
+    userId: user.id,
+    username: user.username,
+    online
+  });
+}
+
+// ==================== FRIEND PRESENCE ====================
+// What each online user is doing (lobby, searching, which mode they're playing, spectating,
+// away), pushed to their online friends as it changes. Game state stays the source of truth:
+// the tracker re-reads it every few seconds, so game handlers don't report changes themselves.
+// Blocking removes the friendship, so blocked users never get each other's presence
+const PRESENCE_AWAY_MS = 5 * MINUTE_MS;
+const PRESENCE_SWEEP_MS = 3000;
+
+function resolvePresence(userId) {
+  const socketId = loggedInUsers.get(userId);
+  if (!socketId) return null;
+
+  if (findDragonflowGame(socketId)) {
+    return { status: 'dragonflow', canWatch: false };
+  }
+  if (dragonflowQueue.some(p => p.socketId === socketId)) {
+    return { status: 'searching', mode: 'dragonflow', canWatch: false };
+  }
+  return gameManager.getPlayerActivity(socketId);
+}
+
+async function sendPresenceToFriends(userId, presence) {
+  const friends = await database.getFriends(userId);
+  friends.forEach(friend => {
+    const socketId = loggedInUsers.get(friend.id);
+    if (socketId) {
+      io.to(socketId).emit('friend-presence-changed', { userId, presence });
+    }
+  });
+}
+
+const presenceTracker = createPresenceTracker({
+  resolve: resolvePresence,
+  onChange: (userId, presence) => {
+    sendPresenceToFriends(userId, presence).catch(err => console.error('Error sending presence to friends:', err));
+  },
+  awayAfterMs: PRESENCE_AWAY_MS,
+  sweepIntervalMs: PRESENCE_SWEEP_MS
+});
+
+// ==================== MODERATION ====================
+const REPORT_REASONS = ['harassment', 'cheating', 'spam', 'offensive-name', 'other'];
+const REPORT_CONTEXTS = ['friends', 'chat', 'post-game'];
+const SUSPENSION_TYPES = ['mute', 'queue-ban', 'ban'];
+
+// The active suspension that stops a user doing `type` ('mute', 'queue-ban' or 'ban'), or null.
+// A full ban covers chat and matchmaking too
+async function getActiveSuspension(userId, type) {
+  if (!userId) return null;
+  const suspensions = await database.getActiveSuspensions(userId);
+  return suspensions.find(s => s.type === 'ban') || suspensions.find(s => s.type === type) || null;
+}
+
+function describeSuspension(suspension) {
+  const what = {
+    'mute': 'You are muted',
+    'queue-ban': 'You are banned from matchmaking',
+    'ban': 'This account is suspended'
+  }[suspension.type];
+  const until = suspension.expires_at
+    ? ` until ${new Date(suspension.expires_at).toUTCString()}`
+    : ' permanently';
+  return `${what}${until}.${suspension.reason ? ` Reason: ${suspension.reason}` : ''}`;
+}
+
+// Fields added to errors caused by a suspension so clients can tell them apart
+function suspensionFields(suspension) {
+  return {
+    code: 'SUSPENDED',
+    suspension: { type: suspension.type, reason: suspension.reason, expiresAt: suspension.expires_at }
+  };
+}
+
+// For /api/admin routes, after requireSession: only users with the admin role get through
+async function requireAdmin(req, res, next) {
+  try {
+    if (await database.getUserRole(req.userId) !== 'admin') {
+      return res.status(403).json({ 
+        success: false, 
+        message: 'Admin access required' 
+      });
+    }
+    next();
+  } catch (error) {
+    console.error('Admin check error:', error);
+    res.status(500).json({ 
+      success: false, 
+      message: 'Failed to verify admin access' 
+    });
+  }
+}
 
 // Test endpoint first
 app.get('/api/test', (req, res) => {
@@ -89,7 +395,7 @@ app.get('/api/test', (req, res) => {
 });
 
 // Authentication endpoints
-app.post('/api/register', async (req, res) => {
+app.post('/api/register', limitByIp(registerLimiter), async (req, res) => {
   try {
     const { username, password } = req.body;
 
@@ -115,6 +421,7 @@ app.post('/api/register', async (req, res) => {
     }
 
     const user = await database.createUser(username, password);
+    const recoveryCodes = await database.createRecoveryCodes(user.id);
     res.json({ 
       success: true, 
       message: 'Account created successfully',
@@ -125,7 +432,8 @@ app.post('/api/register', async (req, res) => {
         survival_wins: user.survival_wins,
         survival_losses: user.survival_losses,
         available_heroes: user.available_heroes
-      }
+      },
+      recoveryCodes
     });
   } catch (error) {
     console.error('Registration error:', error);
@@ -136,7 +444,7 @@ app.post('/api/register', async (req, res) => {
   }
 });
 
-app.post('/api/login', async (req, res) => {
+app.post('/api/login', limitByIp(loginLimiter), async (req, res) => {
   try {
     const { username, password } = req.body;
 
@@ -147,7 +455,25 @@ app.post('/api/login', async (req, res) => {
       });
     }
 
-    const user = await database.authenticateUser(username, password);
+    if (checkAccountLock(res, username)) return;
+
+    let user;
+    try {
+      user = await database.authenticateUser(username, password);
+    } catch (authError) {
+      if (handleFailedAttempt(res, username)) return;
+      throw authError;
+    }
+    loginLockout.reset(username);
+
+    const ban = await getActiveSuspension(user.id, 'ban');
+    if (ban) {
+      return res.status(403).json({
+        success: false,
+        message: describeSuspension(ban),
+        ...suspensionFields(ban)
+      });
+    }
     
     // Check if user is already logged in
     if (loggedInUsers.has(user.id)) {
@@ -208,9 +534,11 @@ app.post('/api/login', async (req, res) => {
     const response = { 
       success: true, 
       message: 'Login successful',
+      token: await issueSessionToken(user.id),
       user: {
         id: user.id,
         username: user.username,
+        role: await database.getUserRole(user.id),
         victory_points: updatedVictoryPoints,
         survival_wins: user.survival_wins,
         survival_losses: user.survival_losses,
@@ -249,12 +577,17 @@ app.post('/api/login', async (req, res) => {
 });
 
 // Admin auto-login endpoint - finds next available admin account
-app.post('/api/admin-login', async (req, res) => {
+app.post('/api/admin-login', limitByIp(loginLimiter), async (req, res) => {
+  if (!DEV_TEST_ACCOUNTS) {
+    return res.status(404).json({ 
+      success: false, 
+      message: 'Quick admin login is not enabled on this server' 
+    });
+  }
+
   try {
     // Get all enabled heroes for admin accounts
-    delete require.cache[require.resolve('./heros.json')];
-    const allHeroes = require('./heros.json');
-    const enabledHeroes = allHeroes.filter(hero => !hero.disabled).map(hero => hero.name);
+    const enabledHeroes = heroes.filter(hero => !hero.disabled).map(hero => hero.name);
     const heroesJson = JSON.stringify(enabledHeroes);
 
     // Find next available admin number by checking existing admins
@@ -360,6 +693,7 @@ app.post('/api/admin-login', async (req, res) => {
     const response = { 
       success: true, 
       user: user,
+      token: await issueSessionToken(user.id),
       message: `Logged in as ${user.username}`
     };
     
@@ -386,32 +720,14 @@ app.post('/api/admin-login', async (req, res) => {
   }
 });
 
-app.post('/api/logout', (req, res) => {
+app.post('/api/logout', requireSession, async (req, res) => {
   try {
-    const { userId } = req.body;
-    
-    if (!userId) {
-      return res.status(400).json({ 
-        success: false, 
-        message: 'User ID is required' 
-      });
-    }
+    const userId = req.userId;
 
-    // Delete all chat history for this user
-    database.deleteAllUserMessages(parseInt(userId)).catch(err => {
-      console.error('Error deleting user messages on logout:', err);
-    });
+    // Revoke the token this session was using
+    await database.bumpSessionVersion(userId);
 
-    // Find and disconnect the user's socket
-    const socketId = loggedInUsers.get(parseInt(userId));
-    if (socketId) {
-      const socket = io.sockets.sockets.get(socketId);
-      if (socket) {
-        socket.disconnect();
-      }
-      // Clean up session tracking
-      loggedInUsers.delete(parseInt(userId));
-      userSessions.delete(socketId);
+    if (disconnectUser(userId)) {
       console.log('User manually logged out:', userId);
     }
 
@@ -428,7 +744,130 @@ app.post('/api/logout', (req, res) => {
   }
 });
 
-app.get('/api/user/:userId', async (req, res) => {
+app.post('/api/change-password', requireSession, async (req, res) => {
+  try {
+    const { currentPassword, newPassword } = req.body;
+
+    if (!currentPassword || !newPassword) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Current and new password are required' 
+      });
+    }
+
+    if (newPassword.length < 6) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Password must be at least 6 characters long' 
+      });
+    }
+
+    await database.changePassword(req.userId, currentPassword, newPassword);
+
+    // Sign out every other session; this one carries on with a fresh token. Its socket, named by
+    // x-socket-id, stays connected - any other signed-in socket is dropped
+    await database.bumpSessionVersion(req.userId);
+    if (loggedInUsers.get(req.userId) !== req.get('x-socket-id')) {
+      disconnectUser(req.userId);
+    }
+    const token = await issueSessionToken(req.userId);
+
+    res.json({ 
+      success: true, 
+      message: 'Password changed successfully',
+      token
+    });
+  } catch (error) {
+    console.error('Change password error:', error);
+    res.status(400).json({ 
+      success: false, 
+      message: error.message || 'Failed to change password' 
+    });
+  }
+});
+
+// Replace the recovery codes, e.g. after using some or for accounts made before they existed
+app.post('/api/recovery-codes', requireSession, async (req, res) => {
+  try {
+    const { password } = req.body;
+
+    if (!password) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Password is required' 
+      });
+    }
+
+    if (!(await database.verifyPassword(req.userId, password))) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Password is incorrect' 
+      });
+    }
+
+    const recoveryCodes = await database.createRecoveryCodes(req.userId);
+    res.json({ 
+      success: true, 
+      recoveryCodes 
+    });
+  } catch (error) {
+    console.error('Recovery code generation error:', error);
+    res.status(400).json({ 
+      success: false, 
+      message: error.message || 'Failed to generate recovery codes' 
+    });
+  }
+});
+
+app.post('/api/recover-account', limitByIp(loginLimiter), async (req, res) => {
+  try {
+    const { username, recoveryCode, newPassword } = req.body;
+
+    if (!username || !recoveryCode || !newPassword) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Username, recovery code and new password are required' 
+      });
+    }
+
+    if (newPassword.length < 6) {
+      return res.status(400).json({ 
+        success: false, 
+        message: 'Password must be at least 6 characters long' 
+      });
+    }
+
+    if (checkAccountLock(res, username)) return;
+
+    let result;
+    try {
+      result = await database.recoverAccount(username, recoveryCode, newPassword);
+    } catch (recoveryError) {
+      if (handleFailedAttempt(res, username)) return;
+      throw recoveryError;
+    }
+    loginLockout.reset(username);
+
+    // Whoever was using the old password is signed out
+    await database.bumpSessionVersion(result.userId);
+    disconnectUser(result.userId);
+    console.log(`🔑 Account ${username} recovered with a recovery code, ${result.remainingCodes} left`);
+
+    res.json({ 
+      success: true, 
+      message: 'Password reset. You can now log in with your new password.',
+      remainingCodes: result.remainingCodes
+    });
+  } catch (error) {
+    console.error('Account recovery error:', error);
+    res.status(400).json({ 
+      success: false, 
+      message: error.message || 'Account recovery failed' 
+    });
+  }
+});
+
+app.get('/api/user/:userId', requireSession, requireOwnAccount, async (req, res) => {
   try {
     const user = await database.getUserById(parseInt(req.params.userId));
     
@@ -440,6 +879,7 @@ app.get('/api/user/:userId', async (req, res) => {
       user: {
         id: user.id,
         username: user.username,
+        role: user.role,
         victory_points: user.victory_points,
         survival_wins: user.survival_wins,
         survival_losses: user.survival_losses,
@@ -462,13 +902,14 @@ app.get('/api/user/:userId', async (req, res) => {
 });
 
 // API endpoint to get player stats
-app.get('/api/player-stats/:userId', async (req, res) => {
+app.get('/api/player-stats/:userId', requireSession, requireOwnAccount, async (req, res) => {
   try {
-    const userId = parseInt(req.params.userId);
+    const userId = req.userId;
     const stats = await database.getPlayerStats(userId);
+    const seasonResults = await database.getSeasonResults(userId);
     res.json({ 
       success: true, 
-      stats
+      stats: { ...stats, ratings: publicRatings(stats.ratings), seasonHistory: seasonResults.map(seasonResultView) }
     });
   } catch (error) {
     console.error('Get player stats error:', error);
@@ -480,14 +921,15 @@ app.get('/api/player-stats/:userId', async (req, res) => {
 });
 
 // API endpoint to update profile icon
-app.post('/api/update-profile-icon', async (req, res) => {
+app.post('/api/update-profile-icon', requireSession, async (req, res) => {
   try {
-    const { userId, heroName } = req.body;
+    const userId = req.userId;
+    const { heroName } = req.body;
     
-    if (!userId || !heroName) {
+    if (!heroName) {
       return res.status(400).json({ 
         success: false, 
-        message: 'User ID and hero name are required' 
+        message: 'Hero name is required' 
       });
     }
 
@@ -506,14 +948,15 @@ app.post('/api/update-profile-icon', async (req, res) => {
 });
 
 // API endpoint to toggle favorite hero
-app.post('/api/toggle-favorite-hero', async (req, res) => {
+app.post('/api/toggle-favorite-hero', requireSession, async (req, res) => {
   try {
-    const { userId, heroName } = req.body;
+    const userId = req.userId;
+    const { heroName } = req.body;
     
-    if (!userId || !heroName) {
+    if (!heroName) {
       return res.status(400).json({ 
         success: false, 
-        message: 'User ID and hero name are required' 
+        message: 'Hero name is required' 
       });
     }
 
@@ -529,18 +972,9 @@ app.post('/api/toggle-favorite-hero', async (req, res) => {
 });
 
 // API endpoint to get favorite heroes
-app.get('/api/favorite-heroes/:userId', async (req, res) => {
+app.get('/api/favorite-heroes/:userId', requireSession, requireOwnAccount, async (req, res) => {
   try {
-    const userId = parseInt(req.params.userId);
-    
-    if (!userId) {
-      return res.status(400).json({ 
-        success: false, 
-        message: 'User ID is required' 
-      });
-    }
-
-    const favoriteHeroes = await database.getFavoriteHeroes(userId);
+    const favoriteHeroes = await database.getFavoriteHeroes(req.userId);
     res.json({ success: true, favoriteHeroes });
   } catch (error) {
     console.error('Get favorite heroes error:', error);
@@ -554,19 +988,10 @@ app.get('/api/favorite-heroes/:userId', async (req, res) => {
 // Shop API endpoints
 
 // Get current shop rotation (6 heroes that refresh every 6 hours)
-app.get('/api/shop/rotation', async (req, res) => {
+app.get('/api/shop/rotation', requireSession, async (req, res) => {
   try {
-    const { userId } = req.query;
-    
-    if (!userId) {
-      return res.status(400).json({ 
-        success: false, 
-        message: 'User ID is required' 
-      });
-    }
-
     // Get user data to know which heroes they own
-    const user = await database.getUserById(parseInt(userId));
+    const user = await database.getUserById(req.userId);
     if (!user) {
       return res.status(404).json({ success: false, message: 'User not found' });
     }
@@ -610,14 +1035,15 @@ app.get('/api/shop/rotation', async (req, res) => {
   }
 });
 
-app.post('/api/shop/purchase-hero', async (req, res) => {
+app.post('/api/shop/purchase-hero', requireSession, async (req, res) => {
   try {
-    const { userId, heroName } = req.body;
+    const userId = req.userId;
+    const { heroName } = req.body;
     
-    if (!userId || !heroName) {
+    if (!heroName) {
       return res.status(400).json({ 
         success: false, 
-        message: 'User ID and hero name are required' 
+        message: 'Hero name is required' 
       });
     }
 
@@ -676,16 +1102,9 @@ app.post('/api/shop/purchase-hero', async (req, res) => {
   }
 });
 
-app.post('/api/shop/purchase-pack', async (req, res) => {
+app.post('/api/shop/purchase-pack', requireSession, async (req, res) => {
   try {
-    const { userId } = req.body;
-    
-    if (!userId) {
-      return res.status(400).json({ 
-        success: false, 
-        message: 'User ID is required' 
-      });
-    }
+    const userId = req.userId;
 
     // Get user data
     const user = await database.getUserById(userId);
@@ -708,7 +1127,8 @@ app.post('/api/shop/purchase-pack', async (req, res) => {
 
     // Select 3 random heroes (or fewer if less than 3 remaining)
     const heroesToGive = Math.min(3, unownedHeroes.length);
-    const shuffled = unownedHeroes.sort(() => Math.random() - 0.5);
+    const packRng = createSeededRng();
+    const shuffled = withRandomSource(packRng, () => shuffleArray(unownedHeroes));
     const selectedHeroes = shuffled.slice(0, heroesToGive);
     const heroNames = selectedHeroes.map(h => h.name);
 
@@ -736,7 +1156,7 @@ app.post('/api/shop/purchase-pack', async (req, res) => {
     const verifyUser = await database.getUserById(userId);
     console.log(`✅ Verified user ${userId} heroes count: ${verifyUser.available_heroes.length}`);
 
-    console.log(`✅ User ${userId} purchased pack for 12 VP, received: ${heroNames.join(', ')}`);
+    console.log(`✅ User ${userId} purchased pack for 12 VP, received: ${heroNames.join(', ')} (seed ${packRng.seed})`);
     res.json({ 
       success: true, 
       message: `Pack opened! Received ${heroesToGive} hero${heroesToGive > 1 ? 'es' : ''}`,
@@ -754,58 +1174,553 @@ app.post('/api/shop/purchase-pack', async (req, res) => {
   }
 });
 
-// API endpoint to get heroes data
-app.get('/api/heroes', (req, res) => {
+// API endpoint to list a player's recent replays
+app.get('/api/replays/user/:userId', requireSession, requireOwnAccount, async (req, res) => {
   try {
-    console.log('API call received for /api/heroes');
-    const userId = req.query.userId;
-    const showAll = req.query.showAll === 'true'; // For collection page
+    const replays = await database.getUserReplays(parseInt(req.params.userId));
+    res.json({ success: true, replays });
+  } catch (error) {
+    console.error('Get replays error:', error);
+    res.status(500).json({ 
+      success: false, 
+      message: error.message || 'Failed to get replays' 
+    });
+  }
+});
 
-    if (userId && !showAll) {
-      // Return only user's available heroes
-      database.getUserById(parseInt(userId))
-        .then(user => {
-          const userHeroes = heroes.filter(hero => 
-            user.available_heroes.includes(hero.name) && !hero.disabled
-          );
-          console.log('Sending user heroes data:', userHeroes.length, 'heroes for user', userId);
-          res.json(userHeroes);
-        })
-        .catch(error => {
-          console.error('Error getting user heroes:', error);
-          // Fallback to enabled heroes only
-          const enabledHeroes = heroes.filter(hero => !hero.disabled);
-          res.json(enabledHeroes);
-        });
-    } else if (showAll) {
-      // For collection page - show all heroes including disabled ones
-      console.log('Sending all heroes data (including disabled):', heroes.length, 'heroes');
-      res.json(heroes);
-    } else {
-      // Default - return only enabled heroes for non-authenticated users
-      const enabledHeroes = heroes.filter(hero => !hero.disabled);
-      console.log('Sending enabled heroes data:', enabledHeroes.length, 'heroes');
-      res.json(enabledHeroes);
+// API endpoint to load a replay, re-simulated into one game state per recorded action. Only the
+// game's two players may watch it, and admins, who are handed replay ids in bug reports
+app.get('/api/replays/:replayId', requireSession, limitByIp(replayLimiter), async (req, res) => {
+  try {
+    const replay = await database.getReplay(req.params.replayId);
+    const isPlayer = replay.players.some(p => p.userId === req.userId);
+    if (!isPlayer && await database.getUserRole(req.userId) !== 'admin') {
+      return res.status(403).json({ 
+        success: false, 
+        message: 'Only the players in this game can watch its replay' 
+      });
     }
+
+    const { frames, battleLog } = gameManager.buildReplayFrames(replay);
+    res.json({ 
+      success: true, 
+      replay: {
+        id: replay.id,
+        mode: replay.mode,
+        seed: replay.seed,
+        players: replay.players.map(p => p.name),
+        winnerIndex: replay.winnerIndex,
+        createdAt: replay.createdAt
+      },
+      frames,
+      battleLog
+    });
   } catch (error) {
-    console.error('Error in /api/heroes endpoint:', error);
-    res.status(500).json({ error: 'Failed to load heroes data' });
+    console.error('Get replay error:', error);
+    res.status(404).json({ 
+      success: false, 
+      message: error.message || 'Replay not found' 
+    });
   }
 });
 
-const PORT = process.env.PORT || 3001;
+// ==================== ADMIN API ====================
+
+// Re-apply the admin hero toggles on top of baseHeroes and hand the result to the game
+// manager. New drafts, shops and queues see the change at once
+async function applyHeroOverrides() {
+  const overrides = await database.getHeroOverrides();
+  const disabledByName = new Map(overrides.map(override => [override.hero_name, override.disabled]));
+  heroes = baseHeroes.map(hero => disabledByName.has(hero.name)
+    ? { ...hero, disabled: disabledByName.get(hero.name) }
+    : hero);
+  gameManager.setHeroes(heroes);
+}
 
-// Game state management
-const gameManager = new GameManager(heroes, database);
+app.get('/api/admin/heroes', requireSession, requireAdmin, async (req, res) => {
+  try {
+    const overrides = await database.getHeroOverrides();
+    const overriddenNames = new Set(overrides.map(override => override.hero_name));
+
+    res.json({
+      success: true,
+      heroes: heroes.map((hero, index) => ({
+        name: hero.name,
+        disabled: !!hero.disabled,
+        disabledInFile: !!baseHeroes[index].disabled,
+        overridden: overriddenNames.has(hero.name)
+      }))
+    });
+  } catch (error) {
+    console.error('Admin hero list error:', error);
+    res.status(500).json({ success: false, message: 'Failed to load heroes' });
+  }
+});
 
-// Inject the io instance into gameManager for disconnection countdown events
-// This will be done after io is defined
+app.post('/api/admin/heroes/reload', requireSession, requireAdmin, async (req, res) => {
+  try {
+    const freshHeroes = getHeroes();
+    const validation = validateHeroes(freshHeroes);
+    if (validation.errors.length > 0) {
+      // Keep serving the current data rather than a broken file
+      return res.status(400).json({
+        success: false,
+        message: `heros.json has ${validation.errors.length} error(s); nothing was reloaded`,
+        errors: validation.errors.map(formatIssue)
+      });
+    }
 
-// Friendly rooms management
-const friendlyRooms = new Map(); // roomName -> { gameId, creator, players, gameStarted }
+    baseHeroes = freshHeroes;
+    await applyHeroOverrides();
+    console.log(`🛠️ Admin ${req.userId} reloaded heros.json (${baseHeroes.length} heroes)`);
 
-// Helper function to check and handle regular game completion (draft/random modes)
+    res.json({
+      success: true,
+      message: `Reloaded ${baseHeroes.length} heroes`,
+      warnings: validation.warnings.map(formatIssue)
+    });
+  } catch (error) {
+    console.error('Hero reload error:', error);
+    res.status(500).json({ success: false, message: error.message || 'Failed to reload heroes' });
+  }
+});
+
+// Body: { disabled: boolean }. Matching heros.json again drops the override
+app.post('/api/admin/heroes/:heroName', requireSession, requireAdmin, async (req, res) => {
+  try {
+    const { heroName } = req.params;
+    const { disabled } = req.body;
+
+    if (typeof disabled !== 'boolean') {
+      return res.status(400).json({ success: false, message: 'disabled must be true or false' });
+    }
+
+    const baseHero = baseHeroes.find(hero => hero.name === heroName);
+    if (!baseHero) {
+      return res.status(404).json({ success: false, message: 'Hero not found' });
+    }
+
+    if (disabled === !!baseHero.disabled) {
+      await database.clearHeroOverride(heroName);
+    } else {
+      await database.setHeroOverride(heroName, disabled, req.userId);
+    }
+    await applyHeroOverrides();
+    console.log(`🛠️ Admin ${req.userId} ${disabled ? 'disabled' : 'enabled'} ${heroName}`);
+
+    res.json({ 
+      success: true, 
+      hero: { name: heroName, disabled, disabledInFile: !!baseHero.disabled, overridden: disabled !== !!baseHero.disabled }
+    });
+  } catch (error) {
+    console.error('Hero toggle error:', error);
+    res.status(500).json({ success: false, message: 'Failed to update hero' });
+  }
+});
+
+app.get('/api/admin/users/:username', requireSession, requireAdmin, async (req, res) => {
+  try {
+    const found = await database.getUserByUsername(req.params.username);
+    if (!found) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    const user = await database.getUserById(found.id);
+    res.json({
+      success: true,
+      user: {
+        id: user.id,
+        username: user.username,
+        role: user.role,
+        victory_points: user.victory_points,
+        available_heroes: user.available_heroes,
+        suspensions: await database.getActiveSuspensions(user.id)
+      }
+    });
+  } catch (error) {
+    console.error('Admin user lookup error:', error);
+    res.status(500).json({ success: false, message: 'Failed to look up user' });
+  }
+});
+
+// Body: { heroName, owned: boolean } to grant or revoke a hero
+app.post('/api/admin/users/:userId/heroes', requireSession, requireAdmin, async (req, res) => {
+  try {
+    const userId = parseInt(req.params.userId);
+    const { heroName, owned } = req.body;
+
+    if (typeof owned !== 'boolean' || !baseHeroes.some(hero => hero.name === heroName)) {
+      return res.status(400).json({ success: false, message: 'A valid heroName and owned flag are required' });
+    }
+
+    const availableHeroes = owned
+      ? await database.addHeroToUser(userId, heroName)
+      : await database.removeHeroFromUser(userId, heroName);
+    console.log(`🛠️ Admin ${req.userId} ${owned ? 'granted' : 'revoked'} ${heroName} for user ${userId}`);
+
+    res.json({ success: true, available_heroes: availableHeroes });
+  } catch (error) {
+    console.error('Admin hero grant error:', error);
+    res.status(400).json({ success: false, message: error.message || 'Failed to update heroes' });
+  }
+});
+
+// Body: { amount } - positive to grant VP, negative to take it (never below 0)
+app.post('/api/admin/users/:userId/victory-points', requireSession, requireAdmin, async (req, res) => {
+  try {
+    const userId = parseInt(req.params.userId);
+    const amount = req.body.amount;
+
+    if (!Number.isInteger(amount) || amount === 0) {
+      return res.status(400).json({ success: false, message: 'amount must be a non-zero whole number' });
+    }
+    // getUserRole is null for an account that doesn't exist
+    if (!Number.isInteger(userId) || !(await database.getUserRole(userId))) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    const user = await database.getUserById(userId);
+    const change = Math.max(amount, -user.victory_points);
+    await database.updateUserVictoryPoints(userId, change);
+    const newVictoryPoints = user.victory_points + change;
+    console.log(`🛠️ Admin ${req.userId} changed VP of user ${userId} by ${change}`);
+
+    const socketId = loggedInUsers.get(userId);
+    if (socketId) {
+      io.to(socketId).emit('victory-points-update', {
+        oldVictoryPoints: user.victory_points,
+        newVictoryPoints,
+        victoryPointsGained: change
+      });
+    }
+
+    res.json({ success: true, victory_points: newVictoryPoints });
+  } catch (error) {
+    console.error('Admin VP update error:', error);
+    res.status(400).json({ success: false, message: error.message || 'Failed to update victory points' });
+  }
+});
+
+// Query: ?status=open|resolved|dismissed (default open)
+app.get('/api/admin/reports', requireSession, requireAdmin, async (req, res) => {
+  try {
+    const status = req.query.status || 'open';
+    const reports = await database.getReports(status);
+    res.json({ success: true, reports });
+  } catch (error) {
+    console.error('Admin reports error:', error);
+    res.status(500).json({ success: false, message: 'Failed to load reports' });
+  }
+});
+
+// One report plus what is needed to act on it: the messages the reported player has sent
+// recently (to anyone) and their current suspensions
+app.get('/api/admin/reports/:reportId', requireSession, requireAdmin, async (req, res) => {
+  try {
+    const report = await database.getReport(parseInt(req.params.reportId));
+    if (!report) {
+      return res.status(404).json({ success: false, message: 'Report not found' });
+    }
+
+    const [recentMessages, suspensions] = await Promise.all([
+      database.getRecentMessagesBySender(report.reported_id),
+      database.getActiveSuspensions(report.reported_id)
+    ]);
+
+    res.json({ success: true, report, recentMessages, suspensions });
+  } catch (error) {
+    console.error('Admin report lookup error:', error);
+    res.status(500).json({ success: false, message: 'Failed to load report' });
+  }
+});
+
+// Body: { status: 'resolved' | 'dismissed', note? }
+app.post('/api/admin/reports/:reportId/resolve', requireSession, requireAdmin, async (req, res) => {
+  try {
+    const { status, note } = req.body;
+    if (status !== 'resolved' && status !== 'dismissed') {
+      return res.status(400).json({ success: false, message: 'status must be resolved or dismissed' });
+    }
+
+    await database.resolveReport(parseInt(req.params.reportId), status, req.userId, note);
+    console.log(`🛠️ Admin ${req.userId} ${status} report ${req.params.reportId}`);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Admin report resolve error:', error);
+    res.status(400).json({ success: false, message: error.message || 'Failed to update report' });
+  }
+});
+
+// Body: { type: 'mute' | 'queue-ban' | 'ban', durationHours?, reason? }. No duration = permanent
+app.post('/api/admin/users/:userId/suspensions', requireSession, requireAdmin, async (req, res) => {
+  try {
+    const userId = parseInt(req.params.userId);
+    const { type, durationHours, reason } = req.body;
+
+    if (!SUSPENSION_TYPES.includes(type)) {
+      return res.status(400).json({ success: false, message: `type must be one of ${SUSPENSION_TYPES.join(', ')}` });
+    }
+    if (durationHours != null && !(typeof durationHours === 'number' && durationHours > 0)) {
+      return res.status(400).json({ success: false, message: 'durationHours must be a positive number' });
+    }
+    if (userId === req.userId) {
+      return res.status(400).json({ success: false, message: 'You cannot suspend yourself' });
+    }
+
+    const user = await database.getUserById(userId);
+    if (!user) {
+      return res.status(404).json({ success: false, message: 'User not found' });
+    }
+
+    const suspension = await database.addSuspension(
+      userId, type, typeof reason === 'string' ? reason.trim().slice(0, 200) : null,
+      durationHours ? durationHours * 60 * MINUTE_MS : null, req.userId
+    );
+    console.log(`🛠️ Admin ${req.userId} applied ${type} to ${user.username} (${durationHours ? `${durationHours}h` : 'permanent'})`);
+
+    // A ban ends the player's sessions straight away
+    if (type === 'ban') {
+      await database.bumpSessionVersion(userId);
+      const socketId = loggedInUsers.get(userId);
+      if (socketId) {
+        io.to(socketId).emit('force-logout', { message: describeSuspension(suspension) });
+      }
+      disconnectUser(userId);
+    }
+
+    res.json({ success: true, suspension, suspensions: await database.getActiveSuspensions(userId) });
+  } catch (error) {
+    console.error('Admin suspension error:', error);
+    res.status(500).json({ success: false, message: 'Failed to suspend user' });
+  }
+});
+
+app.post('/api/admin/suspensions/:suspensionId/lift', requireSession, requireAdmin, async (req, res) => {
+  try {
+    await database.liftSuspension(parseInt(req.params.suspensionId), req.userId);
+    console.log(`🛠️ Admin ${req.userId} lifted suspension ${req.params.suspensionId}`);
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Admin lift suspension error:', error);
+    res.status(400).json({ success: false, message: error.message || 'Failed to lift suspension' });
+  }
+});
+
+// API endpoint to get the signed-in player's own heroes
+app.get('/api/heroes/owned', requireSession, async (req, res) => {
+  try {
+    const user = await database.getUserById(req.userId);
+    const userHeroes = heroes.filter(hero => 
+      user.available_heroes.includes(hero.name) && !hero.disabled
+    );
+    console.log('Sending user heroes data:', userHeroes.length, 'heroes for user', req.userId);
+    res.json(userHeroes);
+  } catch (error) {
+    console.error('Error getting user heroes:', error);
+    // Fallback to enabled heroes only
+    const enabledHeroes = heroes.filter(hero => !hero.disabled);
+    res.json(enabledHeroes);
+  }
+});
+
+// API endpoint to get heroes data
+app.get('/api/heroes', (req, res) => {
+  try {
+    console.log('API call received for /api/heroes');
+    const showAll = req.query.showAll === 'true'; // For collection page
+
+    if (showAll) {
+      // For collection page - show all heroes including disabled ones
+      console.log('Sending all heroes data (including disabled):', heroes.length, 'heroes');
+      res.json(heroes);
+    } else {
+      // Default - return only enabled heroes
+      const enabledHeroes = heroes.filter(hero => !hero.disabled);
+      console.log('Sending enabled heroes data:', enabledHeroes.length, 'heroes');
+      res.json(enabledHeroes);
+    }
+  } catch (error) {
+    console.error('Error in /api/heroes endpoint:', error);
+    res.status(500).json({ error: 'Failed to load heroes data' });
+  }
+});
+
+const PORT = process.env.PORT || 3001;
+
+// Game state management
+const gameManager = new GameManager(heroes, database);
+
+// Inject the io instance into gameManager for disconnection countdown events
+// This will be done after io is defined
+
+// Friendly rooms management. A room outlives its games: once one ends both players can vote to
+// play again in the same room, and a room created as best-of-3/5 keeps a series score
+const friendlyRooms = new Map(); // roomName -> room, see createFriendlyRoom
+const FRIENDLY_SERIES_LENGTHS = [1, 3, 5];
+
+function createFriendlyRoom(roomName, gameId, host, { mode = 'draft', bestOf = 1 } = {}) {
+  const room = {
+    gameId,
+    creator: host.id,
+    players: [host], // { id, name }
+    gameStarted: false,
+    mode,
+    bestOf,
+    wins: {}, // player socket id -> games won in the current series
+    gamesPlayed: 0,
+    seriesWinner: null, // player socket id, once someone has won the series
+    scoredGameId: null, // the last game counted, so each game is scored once
+    rematchVotes: new Set()
+  };
+  friendlyRooms.set(roomName, room);
+  return room;
+}
+
+// [roomName, room] for the first room matching, or null
+function findFriendlyRoom(matches) {
+  return Array.from(friendlyRooms.entries()).find(([, room]) => matches(room)) || null;
+}
+
+function friendlySeriesView(roomName, room) {
+  return {
+    roomName,
+    bestOf: room.bestOf,
+    gamesPlayed: room.gamesPlayed,
+    score: room.players.map(p => ({ playerId: p.id, name: p.name, wins: room.wins[p.id] || 0 })),
+    winnerId: room.seriesWinner,
+    rematchVotes: Array.from(room.rematchVotes),
+    open: true
+  };
+}
+
+function emitFriendlySeries(roomName, room) {
+  const view = friendlySeriesView(roomName, room);
+  room.players.forEach(p => io.to(p.id).emit('friendly-series-update', view));
+}
+
+// Count a finished game toward its room's series. Like the rest of the completion handling this
+// runs after every action, so games still going or already counted are skipped
+async function scoreFriendlyGame(result) {
+  const winner = result.gameState && result.gameState.winner;
+  const found = winner ? findFriendlyRoom(room => room.gameId === result.gameId) : null;
+  if (!found || found[1].scoredGameId === result.gameId) return;
+
+  const [roomName, room] = found;
+  room.scoredGameId = result.gameId;
+  room.gamesPlayed++;
+  if (winner !== 'TIE') {
+    room.wins[winner] = (room.wins[winner] || 0) + 1;
+  }
+
+  if (room.bestOf > 1 && room.wins[winner] > room.bestOf / 2) {
+    room.seriesWinner = winner;
+    console.log(`🏆 ${room.players.find(p => p.id === winner).name} won the best-of-${room.bestOf} series in ${roomName}`);
+    try {
+      await database.saveFriendlySeries({
+        roomName,
+        mode: room.mode,
+        bestOf: room.bestOf,
+        players: room.players.map(p => ({ userId: userSessions.get(p.id) || null, name: p.name, wins: room.wins[p.id] || 0 })),
+        winnerIndex: room.players.findIndex(p => p.id === winner)
+      });
+    } catch (error) {
+      console.error('❌ Error saving friendly series:', error);
+    }
+  }
+
+  emitFriendlySeries(roomName, room);
+}
+
+// Both players voted to play again: a fresh game with the same two in the same room. After a
+// decided series the next game starts a new one
+async function startFriendlyRematch(roomName, room) {
+  const [host, guest] = room.players;
+  const previousGameId = room.gameId;
+  for (const player of room.players) {
+    await gameManager.returnToLobby(player.id);
+    io.sockets.sockets.get(player.id)?.leave(previousGameId);
+  }
+
+  room.rematchVotes.clear();
+  if (room.seriesWinner) {
+    room.wins = {};
+    room.gamesPlayed = 0;
+    room.seriesWinner = null;
+  }
+
+  const created = gameManager.createFriendlyGame(host.id, host.name, roomName, userSessions.get(host.id), room.mode);
+  if (!created.success) return created.error;
+
+  const joined = await gameManager.addPlayerToGame(created.gameId, guest.id, guest.name, userSessions.get(guest.id));
+  if (!joined.success) return joined.error;
+
+  room.gameId = created.gameId;
+  await startMatchedGame(joined, room.mode);
+  emitFriendlySeries(roomName, room);
+  return null;
+}
+
+// A player left the room, for the lobby or by going offline. The room closes and the other
+// player is told there won't be a rematch
+function closeFriendlyRoomOf(socketId) {
+  const found = findFriendlyRoom(room => room.players.some(p => p.id === socketId));
+  if (!found) return;
+
+  const [roomName, room] = found;
+  friendlyRooms.delete(roomName);
+  console.log('Cleaning up friendly room:', roomName);
+
+  const view = { ...friendlySeriesView(roomName, room), open: false };
+  room.players
+    .filter(p => p.id !== socketId)
+    .forEach(p => io.to(p.id).emit('friendly-series-update', view));
+}
+
+// Move both players' skill ratings after a rated game (see rating.js). Only games between two
+// signed-in players count
+async function rateRegularGame(result) {
+  const gameState = result.success && result.gameState;
+  const mode = ratedModeOf(gameState);
+  if (!mode || !gameState.winner) return;
+
+  const players = gameState.players;
+  const userIds = players.map(p => userSessions.get(p.id));
+  if (userIds.some(id => !id) || userIds[0] === userIds[1]) return;
+
+  try {
+    const before = await Promise.all(userIds.map(async userId => ratingFor((await database.getPlayerStats(userId)).ratings, mode)));
+    const now = Date.now();
+
+    for (let i = 0; i < 2; i++) {
+      const score = gameState.winner === 'TIE' ? 0.5 : gameState.winner === players[i].id ? 1 : 0;
+      const after = rateGame(before[i], before[1 - i], score, now);
+      await database.updatePlayerRating(userIds[i], mode, after);
+
+      const oldRank = rankView(before[i]);
+      const newRank = rankView(after);
+      io.to(players[i].id).emit('rating-update', {
+        mode,
+        oldRank,
+        newRank,
+        ratingChange: newRank.rating - oldRank.rating
+      });
+    }
+    console.log(`📈 Rated ${mode} game ${gameState.id}`);
+  } catch (error) {
+    console.error('❌ Error updating skill ratings:', error);
+  }
+}
+
+// Helper function to check and handle regular game completion (draft/random modes)
 async function handleRegularGameCompletion(result) {
+  // Practice games against the AI award nothing
+  if (result.gameState && result.gameState.mode === 'practice') {
+    return;
+  }
+
+  await scoreFriendlyGame(result);
+  await rateRegularGame(result);
+
   // Handle tie games
   if (result.success && result.gameState && result.gameState.winner === 'TIE' && result.gameState.mode !== 'survival') {
     console.log(`🤝 TIE game (${result.gameState.mode})! Both players eliminated!`);
@@ -1321,98 +2236,407 @@ async function checkGauntletGameCompletion(result) {
 // Inject io instance into gameManager for disconnection countdown events
 gameManager.setIo(io);
 
-// Dragonflow matchmaking storage
+// Broadcast steps the action clock played on a stalling player's behalf, exactly as if
+// they had sent the socket event themselves
+gameManager.setAutoActionHandler(async (event, result) => {
+  gameManager.emitToGame(result.gameId, event, result);
+
+  if (result.gameState && result.gameState.winner) {
+    if (result.gameState.mode === 'survival') {
+      await checkSurvivalGameCompletion(result);
+    } else if (result.gameState.mode === 'gauntlet') {
+      await checkGauntletGameCompletion(result);
+    } else {
+      await handleRegularGameCompletion(result);
+    }
+  }
+});
+
+try {
+  await applyHeroOverrides();
+} catch (error) {
+  console.error('❌ Error applying hero overrides, using heros.json as is:', error);
+}
+
+// Pick up the games that were still running when the server last stopped; their players
+// rejoin through reconnect-game
+await gameManager.restoreActiveGames();
+
+// Dragonflow matchmaking storage. Memory only, unlike regular games: a Dragonflow game ends as soon
+// as either player disconnects, so a restart leaves nothing to resume
 const dragonflowQueue = [];
 const dragonflowGames = new Map();
 
+// Send each Dragonflow player their own view of the game
+function emitDragonflowState(game, action = null) {
+  [game.player1, game.player2].forEach(player => {
+    io.to(player.socketId).emit('dragonflow:state-update', {
+      gameState: dragonflowEngine.getPlayerView(game.state, player.role),
+      action
+    });
+  });
+}
+
+function findDragonflowGame(socketId) {
+  return Array.from(dragonflowGames.values())
+    .find(game => game.player1.socketId === socketId || game.player2.socketId === socketId) || null;
+}
+
 // Dragonflow matchmaking function
 function tryMatchDragonflowPlayers() {
   while (dragonflowQueue.length >= 2) {
-    const player1 = dragonflowQueue.shift();
-    const player2 = dragonflowQueue.shift();
-    
-    const gameId = uuidv4();
-    const game = {
-      id: gameId,
-      player1,
-      player2,
-      startedAt: Date.now(),
-      lastState: null,
-      lastUpdate: Date.now()
-    };
-    
-    dragonflowGames.set(gameId, game);
-    
-    console.log(`🐉 Matched Dragonflow game: ${player1.username} vs ${player2.username} (Game ID: ${gameId})`);
-    
-    // Notify both players
-    io.to(player1.socketId).emit('dragonflow:match-found', {
-      gameId,
-      opponent: { username: player2.username, userId: player2.userId },
-      yourRole: 'player1'
+    startDragonflowGame(dragonflowQueue.shift(), dragonflowQueue.shift());
+  }
+}
+
+// Start a Dragonflow game between two { socketId, userId, username } entries and send each
+// player the match
+function startDragonflowGame(first, second) {
+  const player1 = { ...first, role: 'player1' };
+  const player2 = { ...second, role: 'player2' };
+  
+  const gameId = uuidv4();
+  const game = {
+    id: gameId,
+    player1,
+    player2,
+    startedAt: Date.now(),
+    state: dragonflowEngine.createGame(),
+    lastUpdate: Date.now()
+  };
+  
+  dragonflowGames.set(gameId, game);
+  
+  console.log(`🐉 Matched Dragonflow game: ${player1.username} vs ${player2.username} (Game ID: ${gameId})`);
+  
+  // Notify both players
+  io.to(player1.socketId).emit('dragonflow:match-found', {
+    gameId,
+    opponent: { username: player2.username, userId: player2.userId },
+    yourRole: 'player1',
+    gameState: dragonflowEngine.getPlayerView(game.state, 'player1')
+  });
+  
+  io.to(player2.socketId).emit('dragonflow:match-found', {
+    gameId,
+    opponent: { username: player1.username, userId: player1.userId },
+    yourRole: 'player2',
+    gameState: dragonflowEngine.getPlayerView(game.state, 'player2')
+  });
+}
+
+// Put both players of a freshly matched game in its room, tell each one, and start the draft
+// or, for random mode, the battle
+async function startMatchedGame(result, mode) {
+  result.players.forEach(player => {
+    io.sockets.sockets.get(player.id)?.join(result.gameId);
+    io.to(player.id).emit('join-result', {
+      success: true,
+      gameId: result.gameId,
+      playerId: player.id,
+      players: result.players,
+      gameReady: true,
+      mode
     });
-    
-    io.to(player2.socketId).emit('dragonflow:match-found', {
-      gameId,
-      opponent: { username: player1.username, userId: player1.userId },
-      yourRole: 'player2'
+  });
+
+  if (mode === 'random') {
+    // Start random mode - skip draft and go to initiative
+    const randomResult = await gameManager.startRandomMode(result.gameId);
+    if (randomResult.success) {
+      gameManager.emitToGame(result.gameId, 'game-start', {
+        players: randomResult.players,
+        gameState: randomResult.gameState
+      });
+    }
+  } else {
+    // Start draft mode - get full game state to include player draftCards
+    const fullGameState = gameManager.getGameState(result.gameId);
+    gameManager.emitToGame(result.gameId, 'game-start', {
+      players: fullGameState ? fullGameState.players : result.players,
+      draftCards: result.draftCards,
+      gameState: fullGameState
     });
   }
 }
 
-io.on('connection', (socket) => {
-  console.log('Player connected:', socket.id);
+// Ranked Draft windows widen while players wait, so besides matching on join the queue is
+// swept on a timer
+const RANKED_SWEEP_MS = 2000;
 
-  // Handle user authentication for socket connection
-  socket.on('authenticate', (data) => {
-    const { userId } = data;
-    if (userId) {
-      // Check if user is already connected from another socket
-      if (loggedInUsers.has(userId)) {
-        const existingSocketId = loggedInUsers.get(userId);
-        const existingSocket = io.sockets.sockets.get(existingSocketId);
-        
-        // If the existing socket is still connected, allow takeover but disconnect old session
-        if (existingSocket && existingSocket.connected) {
-          console.log('User', userId, 'logging in from new session - disconnecting old session');
-          existingSocket.emit('force-logout', { 
-            message: 'Your account has been logged in from another session.' 
-          });
-          existingSocket.disconnect();
-          // Clean up old session
-          userSessions.delete(existingSocketId);
-          loggedInUsers.delete(userId);
-        } else {
-          // Clean up stale session data if the socket is no longer connected
-          console.log('Cleaning up stale session for user', userId);
-          userSessions.delete(existingSocketId);
-          loggedInUsers.delete(userId);
-        }
-      }
-      
-      // Set up new session
-      userSessions.set(socket.id, userId);
-      loggedInUsers.set(userId, socket.id);
-      
-      // Map user session for victory points in game manager
+const rankedSweep = setInterval(async () => {
+  try {
+    for (const result of await gameManager.matchRankedQueue()) {
+      await startMatchedGame(result, 'ranked');
+    }
+  } catch (error) {
+    console.error('❌ Error matching ranked queue:', error);
+  }
+}, RANKED_SWEEP_MS);
+rankedSweep.unref();
+
+// ==================== SEASONS ====================
+// The scheduler makes sure a season is running and rolls it over once it has ended: final
+// ranks archived, rewards granted, ranked ratings soft-reset, next season started. It also runs
+// once the server is listening, so a rollover missed (or cut short) while it was down happens
+// right away
+const SEASON_CHECK_MS = 60 * 1000;
+let seasonRolloverRunning = false;
+
+async function startSeason(number) {
+  const startsAt = new Date();
+  const season = await database.createSeason(number, startsAt, new Date(startsAt.getTime() + SEASON_LENGTH_MS));
+  console.log(`🗓️ Season ${number} started, ends ${season.ends_at}`);
+  io.emit('season-started', seasonView(season));
+  return season;
+}
+
+// Close a season: archive every ranked player's final rank, then grant each archived reward and
+// soft-reset the rating. Each result is marked granted once both are done, and the grant and
+// reset can safely run twice, so a rollover cut short by an error or a crash finishes the
+// remaining players on the next check. Resolves true once everyone is done and the season closed
+async function endSeason(season) {
+  console.log(`🏁 Season ${season.number} ended, archiving ranks`);
+
+  // Players already reset by an earlier, interrupted run have no games left here and keep the
+  // rank archived back then
+  for (const { userId, ratings } of await database.getRankedPlayers()) {
+    const entry = ratingFor(ratings, 'ranked');
+    if (entry.games === 0) continue; // Didn't play ranked this season
+
+    const rank = rankView(entry);
+    await database.archiveSeasonResult(season.id, userId, rank, seasonReward(rank.tier, season.number));
+  }
+
+  let unfinished = 0;
+  for (const row of await database.getUngrantedSeasonResults(season.id)) {
+    const userId = row.user_id;
+    const result = seasonResultView(row);
+    try {
+      if (result.reward) {
+        await database.grantSeasonReward(userId, season.number, result.reward);
+      }
+
+      // Reset the rating as it is now rather than as it was archived, in case a game that was
+      // still going when the season ended has finished since
+      const stats = await database.getPlayerStats(userId);
+      await database.resetSeasonRating(userId, season.number, softReset(ratingFor(stats.ratings, 'ranked')));
+      await database.markSeasonResultGranted(season.id, userId);
+
+      const socketId = loggedInUsers.get(userId);
+      if (socketId) {
+        const user = await database.getUserById(userId);
+        io.to(socketId).emit('season-ended', { result, victoryPoints: user.victory_points });
+      }
+    } catch (error) {
+      unfinished++;
+      console.error(`❌ Error closing season ${season.number} for user ${userId}:`, error);
+    }
+  }
+
+  if (unfinished > 0) {
+    console.warn(`⚠️ Season ${season.number} still has ${unfinished} player(s) to close, retrying on the next check`);
+    return false;
+  }
+
+  await database.endSeason(season.id);
+  return true;
+}
+
+// Ranked matchmaking waits while a rollover runs, so no new ranked game starts against the
+// ratings being archived and reset
+async function runSeasonScheduler() {
+  if (seasonRolloverRunning) return;
+  seasonRolloverRunning = true;
+  try {
+    const season = await database.getCurrentSeason();
+    if (!season) {
+      await startSeason(1);
+    } else if (Date.parse(season.ends_at) <= Date.now()) {
+      gameManager.rankedMatchingPaused = true;
+      if (await endSeason(season)) {
+        await startSeason(season.number + 1);
+      }
+    }
+  } catch (error) {
+    console.error('❌ Error running season scheduler:', error);
+  } finally {
+    gameManager.rankedMatchingPaused = false;
+    seasonRolloverRunning = false;
+  }
+}
+
+setInterval(runSeasonScheduler, SEASON_CHECK_MS).unref();
+
+app.get('/api/seasons/current', async (req, res) => {
+  try {
+    const season = await database.getCurrentSeason();
+    res.json({ success: true, season: season ? seasonView(season) : null });
+  } catch (error) {
+    console.error('Get current season error:', error);
+    res.status(500).json({ success: false, message: 'Failed to get the current season' });
+  }
+});
+
+// ==================== CHALLENGES ====================
+// A direct invite to play a friend. It lives in memory until the friend accepts or declines,
+// the challenger cancels, either side goes offline, or it expires. Accepting starts the game
+// for both right away: a friendly game for draft and random, a Dragonflow match otherwise
+const CHALLENGE_MODES = ['draft', 'random', 'dragonflow'];
+const CHALLENGE_EXPIRY_MS = 60 * 1000;
+const challenges = new Map(); // challengeId -> challenge
+
+// What clients get to see of a challenge
+function challengeView(challenge) {
+  return {
+    id: challenge.id,
+    mode: challenge.mode,
+    fromUserId: challenge.from.userId,
+    fromUsername: challenge.from.username,
+    toUserId: challenge.to.userId,
+    toUsername: challenge.to.username,
+    expiresAt: challenge.expiresAt
+  };
+}
+
+function findChallengeBetween(userId1, userId2) {
+  return Array.from(challenges.values()).find(c =>
+    (c.from.userId === userId1 && c.to.userId === userId2) ||
+    (c.from.userId === userId2 && c.to.userId === userId1)
+  ) || null;
+}
+
+// Drop a challenge and tell both sides why: 'accepted', 'declined', 'cancelled', 'expired' or
+// 'unavailable'
+function closeChallenge(challenge, reason) {
+  clearTimeout(challenge.timer);
+  challenges.delete(challenge.id);
+  [challenge.from.userId, challenge.to.userId].forEach(userId => {
+    const socketId = loggedInUsers.get(userId);
+    if (socketId) {
+      io.to(socketId).emit('challenge-closed', { challengeId: challenge.id, reason });
+    }
+  });
+}
+
+// Start the challenged game. Both players must still be online and idle; returns an error
+// message when the game couldn't be started
+async function startChallengeGame(challenge) {
+  const fromSocketId = loggedInUsers.get(challenge.from.userId);
+  const toSocketId = loggedInUsers.get(challenge.to.userId);
+  if (!fromSocketId || !toSocketId) {
+    return 'Your challenger is no longer online';
+  }
+  if (resolvePresence(challenge.from.userId) || resolvePresence(challenge.to.userId)) {
+    return 'One of you is already in a game or queue';
+  }
+
+  const from = { socketId: fromSocketId, ...challenge.from };
+  const to = { socketId: toSocketId, ...challenge.to };
+
+  if (challenge.mode === 'dragonflow') {
+    startDragonflowGame(from, to);
+    return null;
+  }
+
+  // The game gets a friendly room of its own, so the two can rematch
+  const baseName = `${from.username} vs ${to.username}`;
+  let roomName = baseName;
+  for (let n = 2; friendlyRooms.has(roomName); n++) {
+    roomName = `${baseName} (${n})`;
+  }
+
+  const created = gameManager.createFriendlyGame(from.socketId, from.username, roomName, from.userId, challenge.mode);
+  if (!created.success) return created.error;
+  const room = createFriendlyRoom(roomName, created.gameId, { id: from.socketId, name: from.username }, { mode: challenge.mode });
+
+  const joined = await gameManager.addPlayerToGame(created.gameId, to.socketId, to.username, to.userId);
+  if (!joined.success) return joined.error;
+  room.players.push({ id: to.socketId, name: to.username });
+  room.gameStarted = true;
+
+  await startMatchedGame(joined, challenge.mode);
+  return null;
+}
+
+io.on('connection', (socket) => {
+  console.log('Player connected:', socket.id);
+
+  // Anything the client sends counts as activity for the away status
+  socket.onAny(() => {
+    const userId = userSessions.get(socket.id);
+    if (userId) presenceTracker.touch(userId);
+  });
+
+  // Handle user authentication for socket connection
+  socket.on('authenticate', async (data) => {
+    let userId = null;
+    try {
+      userId = await verifySessionToken(data && data.token);
+    } catch (error) {
+      console.error('Socket session check error:', error);
+    }
+
+    if (userId) {
+      const ban = await getActiveSuspension(userId, 'ban').catch(error => {
+        console.error('Socket suspension check error:', error);
+        return null;
+      });
+      if (ban) {
+        socket.emit('authentication-failed', { message: describeSuspension(ban), ...suspensionFields(ban) });
+        return;
+      }
+
+      // Check if user is already connected from another socket
+      if (loggedInUsers.has(userId)) {
+        const existingSocketId = loggedInUsers.get(userId);
+        const existingSocket = io.sockets.sockets.get(existingSocketId);
+        
+        // If the existing socket is still connected, allow takeover but disconnect old session
+        if (existingSocket && existingSocket.connected) {
+          console.log('User', userId, 'logging in from new session - disconnecting old session');
+          existingSocket.emit('force-logout', { 
+            message: 'Your account has been logged in from another session.' 
+          });
+          existingSocket.disconnect();
+          // Clean up old session
+          userSessions.delete(existingSocketId);
+          loggedInUsers.delete(userId);
+        } else {
+          // Clean up stale session data if the socket is no longer connected
+          console.log('Cleaning up stale session for user', userId);
+          userSessions.delete(existingSocketId);
+          loggedInUsers.delete(userId);
+        }
+      }
+      
+      // Set up new session
+      userSessions.set(socket.id, userId);
+      loggedInUsers.set(userId, socket.id);
+      
+      // Map user session for victory points in game manager
       gameManager.setUserSession(socket.id, userId);
       
       console.log('User authenticated:', userId, 'for socket:', socket.id);
       socket.emit('authentication-success', { userId });
+
+      const presence = presenceTracker.add(userId);
+      sendPresenceToFriends(userId, presence).catch(err => console.error('Error sending presence to friends:', err));
+
+      // Unread messages are kept on the server, so a fresh login picks them up
+      database.getUnreadMessageCounts(userId).then(conversations => {
+        socket.emit('unread-message-counts', { conversations });
+      }).catch(err => console.error('Error loading unread message counts:', err));
       
       // Broadcast to all other online users that a new player came online
       // This allows friends lists to update in real-time
       database.getUserById(userId).then(user => {
         if (user) {
-          socket.broadcast.emit('player-online-status-changed', {
-            userId: user.id,
-            username: user.username,
-            online: true
-          });
+          return broadcastOnlineStatus(socket, user, true);
         }
       }).catch(err => console.error('Error broadcasting player online:', err));
     } else {
-      socket.emit('authentication-failed', { message: 'Invalid user ID' });
+      socket.emit('authentication-failed', { message: 'Session expired or invalid. Please log in again.' });
     }
   });
 
@@ -1421,12 +2645,24 @@ io.on('connection', (socket) => {
     const mode = playerData.mode || 'draft';
     console.log(`🎮 Server received join-game: name="${playerData.name}", mode="${mode}", socketId="${socket.id}"`);
     
+    const userId = userSessions.get(socket.id);
+    const queueBan = await getActiveSuspension(userId, 'queue-ban');
+    if (queueBan) {
+      socket.emit('join-result', { success: false, error: describeSuspension(queueBan), mode, ...suspensionFields(queueBan) });
+      return;
+    }
+
+    if (mode === 'ranked' && !userId) {
+      socket.emit('join-result', { success: false, error: 'Log in to play Ranked Draft', mode });
+      return;
+    }
+
     // Get user profile icon if user is authenticated
     let profileIcon = 'Sorcerer'; // Default profile icon
-    const userId = userSessions.get(socket.id);
+    let playerStats = null;
     if (userId) {
       try {
-        const playerStats = await database.getPlayerStats(userId);
+        playerStats = await database.getPlayerStats(userId);
         if (playerStats && playerStats.profile_icon) {
           profileIcon = playerStats.profile_icon;
         }
@@ -1434,8 +2670,11 @@ io.on('connection', (socket) => {
         console.log('Failed to fetch profile icon for user:', userId, error);
       }
     }
+
+    // The hidden skill rating pairs ranked players and puts everyone's rank on the battle banner
+    const rating = userId && RATED_MODES.includes(mode) ? ratingFor(playerStats && playerStats.ratings, mode) : null;
     
-    const result = await gameManager.addPlayer(socket.id, playerData.name || 'Anonymous', mode, profileIcon, userId);
+    const result = await gameManager.addPlayer(socket.id, playerData.name || 'Anonymous', mode, profileIcon, userId, rating);
     
     if (result.success) {
       if (result.waiting) {
@@ -1451,50 +2690,8 @@ io.on('connection', (socket) => {
         const opponentSocketId = result.players.find(p => p.id !== socket.id)?.id;
         
         if (opponentSocketId) {
-          // Have both players join the game room
-          socket.join(result.gameId);
-          io.sockets.sockets.get(opponentSocketId)?.join(result.gameId);
-          
           console.log(`✅ Match found! ${playerData.name} matched with opponent`);
-          
-          // Notify each player individually with their own playerId
-          socket.emit('join-result', {
-            success: true,
-            gameId: result.gameId,
-            playerId: socket.id,
-            players: result.players,
-            gameReady: true,
-            mode
-          });
-          
-          io.to(opponentSocketId).emit('join-result', {
-            success: true,
-            gameId: result.gameId,
-            playerId: opponentSocketId,
-            players: result.players,
-            gameReady: true,
-            mode
-          });
-          
-          // Start appropriate phase
-          if (mode === 'random') {
-            // Start random mode - skip draft and go to initiative
-            const randomResult = await gameManager.startRandomMode(result.gameId);
-            if (randomResult.success) {
-              io.to(result.gameId).emit('game-start', {
-                players: randomResult.players,
-                gameState: randomResult.gameState
-              });
-            }
-          } else {
-            // Start draft mode - get full game state to include player draftCards
-            const fullGameState = gameManager.getGameState(result.gameId);
-            io.to(result.gameId).emit('game-start', {
-              players: fullGameState ? fullGameState.players : result.players,
-              draftCards: result.draftCards,
-              gameState: fullGameState
-            });
-          }
+          await startMatchedGame(result, mode);
         }
       }
     } else {
@@ -1502,9 +2699,74 @@ io.on('connection', (socket) => {
     }
   });
 
+  // Practice draft against a server-side AI opponent
+  socket.on('join-practice-game', async (data) => {
+    const difficulty = data.difficulty || 'normal';
+    console.log(`🤖 Server received join-practice-game: name="${data.name}", difficulty="${difficulty}", socketId="${socket.id}"`);
+
+    const userId = userSessions.get(socket.id);
+    const queueBan = await getActiveSuspension(userId, 'queue-ban');
+    if (queueBan) {
+      socket.emit('join-result', { success: false, error: describeSuspension(queueBan), mode: 'practice', ...suspensionFields(queueBan) });
+      return;
+    }
+
+    let profileIcon = 'Sorcerer';
+    if (userId) {
+      try {
+        const playerStats = await database.getPlayerStats(userId);
+        if (playerStats && playerStats.profile_icon) {
+          profileIcon = playerStats.profile_icon;
+        }
+      } catch (error) {
+        console.log('Failed to fetch profile icon for user:', userId, error);
+      }
+    }
+
+    const result = await gameManager.startPracticeGame(socket.id, data.name || 'Anonymous', difficulty, profileIcon, userId);
+    if (!result.success) {
+      socket.emit('join-result', { success: false, error: result.error, mode: 'practice' });
+      return;
+    }
+
+    socket.join(result.gameId);
+    socket.emit('join-result', {
+      success: true,
+      gameId: result.gameId,
+      playerId: socket.id,
+      players: result.players,
+      gameReady: true,
+      mode: 'practice'
+    });
+
+    const fullGameState = gameManager.getGameState(result.gameId);
+    gameManager.emitToGame(result.gameId, 'game-start', {
+      players: fullGameState.players,
+      draftCards: result.draftCards,
+      gameState: fullGameState
+    });
+  });
+
   // Handle survival mode matchmaking
   socket.on('join-survival-game', async (data) => {
-    console.log('Player joining survival game:', data.name, 'with team:', data.team.map(h => h.name));
+    console.log('Player joining survival game:', data.name, 'with team:', data.heroNames);
+
+    const queueBan = await getActiveSuspension(userSessions.get(socket.id), 'queue-ban');
+    if (queueBan) {
+      socket.emit('join-result', { success: false, error: describeSuspension(queueBan), mode: 'survival', ...suspensionFields(queueBan) });
+      return;
+    }
+    
+    // Rebuild the team from heros.json; the client only names its picks
+    const teamResult = await gameManager.buildSurvivalTeam(socket.id, data.heroNames);
+    if (!teamResult.success) {
+      socket.emit('join-result', {
+        success: false,
+        error: teamResult.error,
+        mode: 'survival'
+      });
+      return;
+    }
     
     // Get user profile icon if user is authenticated
     let profileIcon = 'Sorcerer'; // Default profile icon
@@ -1520,7 +2782,7 @@ io.on('connection', (socket) => {
       }
     }
     
-    const result = gameManager.addSurvivalPlayer(socket.id, data.name, data.team, profileIcon);
+    const result = gameManager.addSurvivalPlayer(socket.id, data.name, teamResult.team, profileIcon);
     
     if (result.success) {
       if (result.waiting) {
@@ -1566,7 +2828,7 @@ io.on('connection', (socket) => {
           const gameStart = gameManager.startSurvivalBattle(result.gameId);
           if (gameStart.success) {
             console.log('🚀 Starting survival battle immediately - skipping draft');
-            io.to(result.gameId).emit('game-start', {
+            gameManager.emitToGame(result.gameId, 'game-start', {
               players: gameStart.players,
               gameState: gameStart.gameState,
               initiative: gameStart.initiative
@@ -1580,7 +2842,8 @@ io.on('connection', (socket) => {
     } else {
       socket.emit('join-result', {
         success: false,
-        message: result.message || result.error || 'Failed to join survival game'
+        error: result.message || result.error || 'Failed to join survival game',
+        mode: 'survival'
       });
     }
   });
@@ -1598,8 +2861,14 @@ io.on('connection', (socket) => {
   });
 
   // Handle friendly battle room creation
-  socket.on('create-friendly-room', (data) => {
+  socket.on('create-friendly-room', async (data) => {
     console.log('Creating friendly room:', data.roomName, 'by player:', data.playerName);
+
+    const queueBan = await getActiveSuspension(userSessions.get(socket.id), 'queue-ban');
+    if (queueBan) {
+      socket.emit('friendly-room-created', { success: false, message: describeSuspension(queueBan), ...suspensionFields(queueBan) });
+      return;
+    }
     
     // Check if room name already exists
     if (friendlyRooms.has(data.roomName)) {
@@ -1610,23 +2879,13 @@ io.on('connection', (socket) => {
       return;
     }
 
-    // Create the game through GameManager with draft mode
-    const result = gameManager.addPlayer(socket.id, data.playerName, 'draft');
+    // A private draft game for the host; the room name also shows to spectators
+    const result = gameManager.createFriendlyGame(socket.id, data.playerName, data.roomName, userSessions.get(socket.id));
+    const bestOf = FRIENDLY_SERIES_LENGTHS.includes(data.bestOf) ? data.bestOf : 1;
     
     if (result.success) {
-      // Store the room name in the game object for spectator visibility
-      const game = gameManager.games.get(result.gameId);
-      if (game) {
-        game.roomName = data.roomName;
-      }
-
       // Store the friendly room information
-      friendlyRooms.set(data.roomName, {
-        gameId: result.gameId,
-        creator: socket.id,
-        players: [{ id: socket.id, name: data.playerName }],
-        gameStarted: false
-      });
+      createFriendlyRoom(data.roomName, result.gameId, { id: socket.id, name: data.playerName }, { bestOf });
 
       socket.join(result.gameId);
       
@@ -1634,7 +2893,8 @@ io.on('connection', (socket) => {
         success: true,
         roomName: data.roomName,
         gameId: result.gameId,
-        playerId: socket.id
+        playerId: socket.id,
+        bestOf
       });
       
       console.log('Friendly room created:', data.roomName, 'gameId:', result.gameId);
@@ -1647,8 +2907,14 @@ io.on('connection', (socket) => {
   });
 
   // Handle friendly battle room joining
-  socket.on('join-friendly-room', (data) => {
+  socket.on('join-friendly-room', async (data) => {
     console.log('Joining friendly room:', data.roomName, 'by player:', data.playerName);
+
+    const queueBan = await getActiveSuspension(userSessions.get(socket.id), 'queue-ban');
+    if (queueBan) {
+      socket.emit('friendly-room-joined', { success: false, message: describeSuspension(queueBan), ...suspensionFields(queueBan) });
+      return;
+    }
     
     // Check if room exists
     if (!friendlyRooms.has(data.roomName)) {
@@ -1678,8 +2944,16 @@ io.on('connection', (socket) => {
       return;
     }
 
+    if (await isBlockedBetweenSockets(socket.id, room.creator)) {
+      socket.emit('friendly-room-joined', {
+        success: false,
+        message: 'You cannot join this room.'
+      });
+      return;
+    }
+
     // Add player to the existing game
-    const result = gameManager.addPlayerToGame(room.gameId, socket.id, data.playerName);
+    const result = await gameManager.addPlayerToGame(room.gameId, socket.id, data.playerName, userSessions.get(socket.id));
     
     if (result.success) {
       // Update room information
@@ -1698,7 +2972,7 @@ io.on('connection', (socket) => {
       // Start the draft phase since we now have 2 players
       if (result.gameReady) {
         room.gameStarted = true;
-        io.to(room.gameId).emit('game-start', {
+        gameManager.emitToGame(room.gameId, 'game-start', {
           players: result.players,
           draftCards: result.draftCards
         });
@@ -1719,7 +2993,7 @@ io.on('connection', (socket) => {
     const result = gameManager.banCard(socket.id, data.cardName);
     if (result.success) {
       console.log('Sending ban-complete event:', result);
-      io.to(result.gameId).emit('ban-complete', result);
+      gameManager.emitToGame(result.gameId, 'ban-complete', result);
     } else {
       console.log('Ban card error:', result.error);
       socket.emit('error', { message: result.error });
@@ -1729,7 +3003,7 @@ io.on('connection', (socket) => {
   socket.on('pick-card', (data) => {
     const result = gameManager.pickCard(socket.id, data.cardName);
     if (result.success) {
-      io.to(result.gameId).emit('pick-complete', result);
+      gameManager.emitToGame(result.gameId, 'pick-complete', result);
     } else {
       socket.emit('error', { message: result.error });
     }
@@ -1738,7 +3012,7 @@ io.on('connection', (socket) => {
   socket.on('set-attack-order', (data) => {
     const result = gameManager.setAttackOrder(socket.id, data.heroOrder);
     if (result.success) {
-      io.to(result.gameId).emit('attack-order-set', result);
+      gameManager.emitToGame(result.gameId, 'attack-order-set', result);
     } else {
       socket.emit('error', { message: result.error });
     }
@@ -1749,7 +3023,7 @@ io.on('connection', (socket) => {
     const result = gameManager.autoDraft(socket.id);
     if (result.success) {
       console.log('Auto-draft successful, emitting to game:', result.gameId);
-      io.to(result.gameId).emit('auto-draft-complete', result);
+      gameManager.emitToGame(result.gameId, 'auto-draft-complete', result);
     } else {
       console.log('Auto-draft error:', result.error);
       socket.emit('error', { message: result.error });
@@ -1798,6 +3072,7 @@ io.on('connection', (socket) => {
       gameManager.playerGameMap.delete(player.id);
     });
     gameManager.games.delete(gameId);
+    gameManager.persistGame(gameId);
 
     socket.emit('abandon-draft-result', { success: true });
   });
@@ -1806,7 +3081,7 @@ io.on('connection', (socket) => {
   socket.on('roll-initiative', () => {
     const result = gameManager.rollInitiative(socket.id);
     if (result.success) {
-      io.to(result.gameId).emit('initiative-rolled', result);
+      gameManager.emitToGame(result.gameId, 'initiative-rolled', result);
     } else {
       socket.emit('error', { message: result.error });
     }
@@ -1815,7 +3090,7 @@ io.on('connection', (socket) => {
   socket.on('choose-turn-order', (data) => {
     const result = gameManager.chooseTurnOrder(socket.id, data.goFirst);
     if (result.success) {
-      io.to(result.gameId).emit('battle-start', result);
+      gameManager.emitToGame(result.gameId, 'battle-start', result);
     } else {
       socket.emit('error', { message: result.error });
     }
@@ -1826,7 +3101,7 @@ io.on('connection', (socket) => {
     const result = gameManager.selectTarget(socket.id, data.targetId);
     console.log('🎯 selectTarget result:', result);
     if (result.success) {
-      io.to(result.gameId).emit('target-selected', result);
+      gameManager.emitToGame(result.gameId, 'target-selected', result);
     } else {
       console.error('❌ Target selection failed:', result.error);
       socket.emit('error', { message: result.error });
@@ -1836,7 +3111,7 @@ io.on('connection', (socket) => {
   socket.on('basic-attack', async (data) => {
     const result = gameManager.basicAttack(socket.id, data.targetId);
     if (result.success) {
-      io.to(result.gameId).emit('attack-result', result);
+      gameManager.emitToGame(result.gameId, 'attack-result', result);
       
       // Handle game completion for all game modes
       if (result.gameState && result.gameState.mode === 'survival') {
@@ -1854,7 +3129,7 @@ io.on('connection', (socket) => {
   socket.on('use-ability', async (data) => {
     const result = gameManager.useAbility(socket.id, data.abilityIndex, data.targetId, data.allyTargetId);
     if (result.success) {
-      io.to(result.gameId).emit('ability-result', result);
+      gameManager.emitToGame(result.gameId, 'ability-result', result);
       
       // Handle game completion for all game modes
       if (result.gameState && result.gameState.mode === 'survival') {
@@ -1872,7 +3147,7 @@ io.on('connection', (socket) => {
   socket.on('use-timekeeper-selected-ability', async (data) => {
     const result = gameManager.useTimekeeperSelectedAbility(socket.id, data.timekeeperTargetId, data.allyTargetId, data.selectedAbilityIndex);
     if (result.success) {
-      io.to(result.gameId).emit('ability-result', result);
+      gameManager.emitToGame(result.gameId, 'ability-result', result);
       
       // Handle game completion for all game modes
       if (result.gameState && result.gameState.mode === 'survival') {
@@ -1890,7 +3165,7 @@ io.on('connection', (socket) => {
   socket.on('end-turn', async () => {
     const result = gameManager.endTurn(socket.id);
     if (result.success) {
-      io.to(result.gameId).emit('turn-ended', result);
+      gameManager.emitToGame(result.gameId, 'turn-ended', result);
       
       // Handle game completion for all game modes
       if (result.gameState && result.gameState.winner) {
@@ -1908,9 +3183,9 @@ io.on('connection', (socket) => {
   });
 
   socket.on('activate-special', async (data) => {
-    const result = gameManager.activateSpecial(socket.id);
+    const result = gameManager.activateSpecial(socket.id, data && data.targetId);
     if (result.success) {
-      io.to(result.gameId).emit('special-activated', result);
+      gameManager.emitToGame(result.gameId, 'special-activated', result);
       
       // Handle game completion for all game modes
       if (result.gameState && result.gameState.mode === 'survival') {
@@ -1928,7 +3203,7 @@ io.on('connection', (socket) => {
   socket.on('surrender-game', async () => {
     const result = gameManager.surrenderGame(socket.id);
     if (result.success) {
-      io.to(result.gameId).emit('game-surrendered', result);
+      gameManager.emitToGame(result.gameId, 'game-surrendered', result);
       
       // Handle game completion for all game modes
       if (result.gameState && result.gameState.mode === 'survival') {
@@ -1944,11 +3219,21 @@ io.on('connection', (socket) => {
   });
 
   // Handle reconnection
-  socket.on('reconnect-game', (data) => {
-    const result = gameManager.reconnectPlayer(socket.id, data.gameId, data.playerName);
+  socket.on('reconnect-game', async (data) => {
+    // The client asks to rejoin right after reconnecting, usually before its authenticate round
+    // trip has finished, so it sends the session token along in case the socket isn't signed in yet
+    let userId = userSessions.get(socket.id);
+    if (!userId && data && data.token) {
+      userId = await verifySessionToken(data.token).catch(error => {
+        console.error('Reconnect session check error:', error);
+        return null;
+      });
+    }
+
+    const result = gameManager.reconnectPlayer(socket.id, data && data.gameId, userId, data && data.rejoinToken);
     if (result.success) {
       socket.join(result.gameId);
-      socket.emit('reconnect-success', result.gameState);
+      socket.emit('reconnect-success', gameManager.getGameStateForViewer(result.gameId, socket.id));
     } else {
       socket.emit('reconnect-failed', { message: result.error });
     }
@@ -1994,9 +3279,40 @@ io.on('connection', (socket) => {
     });
   });
 
+  // Friendly rooms: vote to play again once the game is over. The next game starts when both
+  // players have voted
+  socket.on('request-rematch', async () => {
+    const found = findFriendlyRoom(room => room.players.some(p => p.id === socket.id));
+    if (!found || found[1].players.length < 2) {
+      socket.emit('rematch-error', { error: 'There is no friendly room to play again in' });
+      return;
+    }
+
+    const [roomName, room] = found;
+    const game = gameManager.games.get(room.gameId);
+    if (game && game.phase !== 'ended') {
+      socket.emit('rematch-error', { error: 'The game is still being played' });
+      return;
+    }
+
+    room.rematchVotes.add(socket.id);
+    if (room.rematchVotes.size < room.players.length) {
+      emitFriendlySeries(roomName, room);
+      return;
+    }
+
+    const error = await startFriendlyRematch(roomName, room);
+    if (error) {
+      room.players.forEach(p => io.to(p.id).emit('rematch-error', { error: `The rematch couldn't start: ${error}` }));
+    }
+  });
+
   socket.on('return-to-lobby', async () => {
     console.log('🏠 Player returning to lobby:', socket.id);
     
+    // Leaving also leaves any friendly room, ending its rematches
+    closeFriendlyRoomOf(socket.id);
+
     // Remove player from any active game but preserve survival state
     const result = await gameManager.returnToLobby(socket.id);
     
@@ -2019,18 +3335,28 @@ io.on('connection', (socket) => {
 
   socket.on('start-gauntlet-run', async (data) => {
     console.log('🎮 Player starting Gauntlet run:', data.name);
+
+    const userId = userSessions.get(socket.id);
+    const queueBan = await getActiveSuspension(userId, 'queue-ban');
+    if (queueBan) {
+      socket.emit('gauntlet-run-started', { success: false, error: describeSuspension(queueBan), ...suspensionFields(queueBan) });
+      return;
+    }
     
     // First check if there's a saved state
-    const userId = userSessions.get(socket.id);
     if (userId) {
       const savedState = await database.loadGauntletState(userId);
       if (savedState.success && savedState.runState) {
         console.log('📂 Loading saved Gauntlet state for user', userId);
-        socket.emit('gauntlet-run-started', {
-          success: true,
-          runState: savedState.runState
-        });
-        return;
+        const restored = await gameManager.restoreGauntletRun(socket.id, data.name, savedState.runState);
+        if (restored.success) {
+          socket.emit('gauntlet-run-started', {
+            success: true,
+            runState: restored.runState
+          });
+          return;
+        }
+        await database.clearGauntletState(userId);
       }
     }
     
@@ -2050,13 +3376,15 @@ io.on('connection', (socket) => {
     }
   });
 
-  socket.on('save-and-return-to-lobby', async (data) => {
+  socket.on('save-and-return-to-lobby', async () => {
     console.log('💾 Saving Gauntlet state and returning to lobby:', socket.id);
     
+    // Save the server's copy of the run, never the one the client sends
     const userId = userSessions.get(socket.id);
-    if (userId && data.runState) {
+    const runResult = gameManager.getGauntletRunState(socket.id);
+    if (userId && runResult.success) {
       try {
-        await database.saveGauntletState(userId, data.runState);
+        await database.saveGauntletState(userId, runResult.runState);
         socket.emit('save-success', { success: true });
       } catch (error) {
         console.error('❌ Error saving Gauntlet state:', error);
@@ -2089,15 +3417,21 @@ io.on('connection', (socket) => {
     socket.emit('gauntlet-battle-team-set', result);
   });
 
-  socket.on('queue-for-gauntlet-trial', () => {
+  socket.on('queue-for-gauntlet-trial', async () => {
     console.log('🎯 Queueing for Gauntlet trial:', socket.id);
+
+    const queueBan = await getActiveSuspension(userSessions.get(socket.id), 'queue-ban');
+    if (queueBan) {
+      socket.emit('gauntlet-queue-failed', { error: describeSuspension(queueBan), ...suspensionFields(queueBan) });
+      return;
+    }
     
     const result = gameManager.queueForGauntletTrial(socket.id);
     
     if (result.success && result.matched) {
       // Match found - emit to both players
       const gameId = result.gameId;
-      io.to(gameId).emit('gauntlet-match-found', {
+      gameManager.emitToGame(gameId, 'gauntlet-match-found', {
         gameId,
         players: result.players,
         initiative: result.initiative
@@ -2106,7 +3440,7 @@ io.on('connection', (socket) => {
       // Start battle
       const game = gameManager.games.get(gameId);
       if (game) {
-        io.to(gameId).emit('game-start', {
+        gameManager.emitToGame(gameId, 'game-start', {
           players: result.players,
           gameState: game,
           initiative: result.initiative,
@@ -2214,25 +3548,30 @@ io.on('connection', (socket) => {
       }
 
       // Rate limiting: allow one request per 2 seconds per socket
-      const now = Date.now();
-      const lastRequest = onlinePlayersCache.get(socket.id) || 0;
-      if (now - lastRequest < 2000) {
+      const limit = onlinePlayersLimiter.consume(socket.id);
+      if (!limit.allowed) {
         console.log('🟡 Rate limited get-online-players request from socket:', socket.id);
-        socket.emit('online-players-response', { success: false, error: 'Rate limited. Please wait before requesting again.' });
+        socket.emit('online-players-response', { success: false, error: 'Rate limited. Please wait before requesting again.', ...rateLimitFields(limit.retryAfterMs) });
         return;
       }
-      onlinePlayersCache.set(socket.id, now);
 
-      // Get list of online players
+      // Get user's friends list
+      const friends = await database.getFriends(currentUserId);
+      const friendIds = friends.map(f => f.id);
+
+      // Get list of online players, leaving out anyone on either side of a block. Only friends
+      // get to see what the others are doing
+      const blockedIds = new Set(await database.getBlockRelatedUserIds(currentUserId));
       const onlinePlayers = [];
       for (const [userId, socketId] of loggedInUsers.entries()) {
-        if (userId !== currentUserId) {
+        if (userId !== currentUserId && !blockedIds.has(userId)) {
           const user = await database.getUserById(userId);
           if (user) {
             onlinePlayers.push({
               id: user.id,
               username: user.username,
-              isInGame: gameManager.isPlayerInActiveGame(socketId)
+              isInGame: gameManager.isPlayerInActiveGame(socketId),
+              ...(friendIds.includes(userId) && { presence: presenceTracker.get(userId) })
             });
           }
         }
@@ -2240,10 +3579,6 @@ io.on('connection', (socket) => {
 
       console.log('🟢 Found online players:', onlinePlayers);
 
-      // Get user's friends list
-      const friends = await database.getFriends(currentUserId);
-      const friendIds = friends.map(f => f.id);
-
       const response = {
         success: true,
         onlinePlayers,
@@ -2267,12 +3602,27 @@ io.on('connection', (socket) => {
         return;
       }
 
+      const limit = friendRequestLimiter.consume(senderId);
+      if (!limit.allowed) {
+        socket.emit('friend-request-response', { 
+          success: false, 
+          error: `You're sending friend requests too quickly. Try again in ${formatRetryAfter(limit.retryAfterMs)}.`,
+          ...rateLimitFields(limit.retryAfterMs)
+        });
+        return;
+      }
+
       const targetUser = await database.getUserByUsername(data.username);
       if (!targetUser) {
         socket.emit('friend-request-response', { success: false, error: 'User not found' });
         return;
       }
 
+      if (await database.isBlockedBetween(senderId, targetUser.id)) {
+        socket.emit('friend-request-response', { success: false, error: 'You cannot send a friend request to this player' });
+        return;
+      }
+
       const result = await database.sendFriendRequest(senderId, targetUser.id);
       socket.emit('friend-request-response', { success: true, message: 'Friend request sent!' });
 
@@ -2364,6 +3714,213 @@ io.on('connection', (socket) => {
     }
   });
 
+  // Data: { targetUserId, mode }. Challenges go to online friends, and neither side may be in a
+  // game or queue at the time
+  socket.on('send-challenge', async (data) => {
+    try {
+      const userId = userSessions.get(socket.id);
+      if (!userId) {
+        socket.emit('challenge-response', { success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const { targetUserId, mode } = data || {};
+      if (!CHALLENGE_MODES.includes(mode)) {
+        socket.emit('challenge-response', { success: false, error: 'Unknown game mode' });
+        return;
+      }
+
+      const limit = challengeLimiter.consume(userId);
+      if (!limit.allowed) {
+        socket.emit('challenge-response', {
+          success: false,
+          error: `You're sending challenges too quickly. Try again in ${formatRetryAfter(limit.retryAfterMs)}.`,
+          ...rateLimitFields(limit.retryAfterMs)
+        });
+        return;
+      }
+
+      const queueBan = await getActiveSuspension(userId, 'queue-ban');
+      if (queueBan) {
+        socket.emit('challenge-response', { success: false, error: describeSuspension(queueBan), ...suspensionFields(queueBan) });
+        return;
+      }
+
+      // Blocking ends the friendship, so this also keeps blocked players apart
+      const friends = await database.getFriends(userId);
+      const friend = friends.find(f => f.id === targetUserId);
+      if (!friend) {
+        socket.emit('challenge-response', { success: false, error: 'You can only challenge friends' });
+        return;
+      }
+
+      const targetSocketId = loggedInUsers.get(friend.id);
+      if (!targetSocketId) {
+        socket.emit('challenge-response', { success: false, error: `${friend.username} is offline` });
+        return;
+      }
+
+      if (resolvePresence(userId)) {
+        socket.emit('challenge-response', { success: false, error: 'Leave your current game or queue first' });
+        return;
+      }
+      if (resolvePresence(friend.id)) {
+        socket.emit('challenge-response', { success: false, error: `${friend.username} is busy right now` });
+        return;
+      }
+
+      if (findChallengeBetween(userId, friend.id)) {
+        socket.emit('challenge-response', { success: false, error: `There is already a challenge between you and ${friend.username}` });
+        return;
+      }
+
+      const user = await database.getUserById(userId);
+      const challenge = {
+        id: uuidv4(),
+        mode,
+        from: { userId, username: user.username },
+        to: { userId: friend.id, username: friend.username },
+        expiresAt: Date.now() + CHALLENGE_EXPIRY_MS
+      };
+      challenge.timer = setTimeout(() => closeChallenge(challenge, 'expired'), CHALLENGE_EXPIRY_MS);
+      challenges.set(challenge.id, challenge);
+
+      socket.emit('challenge-response', { success: true, challenge: challengeView(challenge) });
+      io.to(targetSocketId).emit('challenge-received', challengeView(challenge));
+      console.log(`⚔️ ${user.username} challenged ${friend.username} to ${mode}`);
+    } catch (error) {
+      console.error('Error sending challenge:', error);
+      socket.emit('challenge-response', { success: false, error: 'Failed to send challenge' });
+    }
+  });
+
+  // Data: { challengeId, accept }. Only the challenged player answers
+  socket.on('respond-challenge', async (data) => {
+    try {
+      const userId = userSessions.get(socket.id);
+      const challenge = challenges.get(data && data.challengeId);
+      if (!userId || !challenge || challenge.to.userId !== userId) {
+        socket.emit('challenge-response', { success: false, error: 'This challenge is no longer available' });
+        return;
+      }
+
+      if (!data.accept) {
+        closeChallenge(challenge, 'declined');
+        return;
+      }
+
+      const queueBan = await getActiveSuspension(userId, 'queue-ban');
+      if (queueBan) {
+        socket.emit('challenge-response', { success: false, error: describeSuspension(queueBan), ...suspensionFields(queueBan) });
+        return;
+      }
+
+      // Still friends? Either of them may have removed or blocked the other since
+      const friends = await database.getFriends(userId);
+      if (!challenges.has(challenge.id) || !friends.some(f => f.id === challenge.from.userId)) {
+        closeChallenge(challenge, 'unavailable');
+        return;
+      }
+
+      closeChallenge(challenge, 'accepted');
+      const error = await startChallengeGame(challenge);
+      if (error) {
+        [challenge.from.userId, challenge.to.userId].forEach(id => {
+          const socketId = loggedInUsers.get(id);
+          if (socketId) {
+            io.to(socketId).emit('challenge-response', { success: false, error: `The challenge couldn't start: ${error}` });
+          }
+        });
+      }
+    } catch (error) {
+      console.error('Error responding to challenge:', error);
+      socket.emit('challenge-response', { success: false, error: 'Failed to respond to challenge' });
+    }
+  });
+
+  // Data: { challengeId }. Only the challenger can take a challenge back
+  socket.on('cancel-challenge', (data) => {
+    const userId = userSessions.get(socket.id);
+    const challenge = challenges.get(data && data.challengeId);
+    if (!userId || !challenge || challenge.from.userId !== userId) {
+      socket.emit('challenge-response', { success: false, error: 'This challenge is no longer available' });
+      return;
+    }
+    closeChallenge(challenge, 'cancelled');
+  });
+
+  // Data: { targetUserId }. Blocking also ends any friendship or pending request between the two
+  socket.on('block-user', async (data) => {
+    try {
+      const userId = userSessions.get(socket.id);
+      if (!userId) {
+        socket.emit('block-user-response', { success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const target = await database.getUserById(data.targetUserId);
+      if (!target) {
+        socket.emit('block-user-response', { success: false, error: 'User not found' });
+        return;
+      }
+
+      await database.blockUser(userId, target.id);
+      const blockedUsers = await database.getBlockedUsers(userId);
+      socket.emit('block-user-response', { success: true, message: `${target.username} is blocked`, blockedUsers });
+
+      // The blocked player just sees this user go offline
+      const targetSocketId = loggedInUsers.get(target.id);
+      if (targetSocketId) {
+        const user = await database.getUserById(userId);
+        io.to(targetSocketId).emit('player-online-status-changed', { userId, username: user.username, online: false });
+      }
+    } catch (error) {
+      console.error('Error blocking user:', error);
+      socket.emit('block-user-response', { success: false, error: error.message });
+    }
+  });
+
+  socket.on('unblock-user', async (data) => {
+    try {
+      const userId = userSessions.get(socket.id);
+      if (!userId) {
+        socket.emit('unblock-user-response', { success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      await database.unblockUser(userId, data.targetUserId);
+      const blockedUsers = await database.getBlockedUsers(userId);
+      socket.emit('unblock-user-response', { success: true, blockedUsers });
+
+      // If that was the only block between them and both are online, they see each other again
+      const targetSocketId = loggedInUsers.get(data.targetUserId);
+      if (targetSocketId && !(await database.isBlockedBetween(userId, data.targetUserId))) {
+        const [user, target] = await Promise.all([database.getUserById(userId), database.getUserById(data.targetUserId)]);
+        io.to(targetSocketId).emit('player-online-status-changed', { userId, username: user.username, online: true });
+        socket.emit('player-online-status-changed', { userId: target.id, username: target.username, online: true });
+      }
+    } catch (error) {
+      console.error('Error unblocking user:', error);
+      socket.emit('unblock-user-response', { success: false, error: error.message });
+    }
+  });
+
+  socket.on('get-blocked-users', async () => {
+    try {
+      const userId = userSessions.get(socket.id);
+      if (!userId) {
+        socket.emit('blocked-users-response', { success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const blockedUsers = await database.getBlockedUsers(userId);
+      socket.emit('blocked-users-response', { success: true, blockedUsers });
+    } catch (error) {
+      console.error('Error getting blocked users:', error);
+      socket.emit('blocked-users-response', { success: false, error: 'Failed to get blocked users' });
+    }
+  });
+
   socket.on('send-message', async (data) => {
     try {
       const senderId = userSessions.get(socket.id);
@@ -2372,6 +3929,27 @@ io.on('connection', (socket) => {
         return;
       }
 
+      const limit = messageLimiter.consume(senderId);
+      if (!limit.allowed) {
+        socket.emit('message-response', { 
+          success: false, 
+          error: `You're sending messages too quickly. Try again in ${formatRetryAfter(limit.retryAfterMs)}.`,
+          ...rateLimitFields(limit.retryAfterMs)
+        });
+        return;
+      }
+
+      const mute = await getActiveSuspension(senderId, 'mute');
+      if (mute) {
+        socket.emit('message-response', { success: false, error: describeSuspension(mute), ...suspensionFields(mute) });
+        return;
+      }
+
+      if (await database.isBlockedBetween(senderId, data.targetUserId)) {
+        socket.emit('message-response', { success: false, error: 'You cannot message this player' });
+        return;
+      }
+
       const message = await database.sendMessage(senderId, data.targetUserId, data.message);
       const sender = await database.getUserById(senderId);
       
@@ -2391,6 +3969,8 @@ io.on('connection', (socket) => {
     }
   });
 
+  // Data: { targetUserId, limit?, beforeId? }. Without beforeId this is the latest page; with it,
+  // the page of older messages just before that message id
   socket.on('get-messages', async (data) => {
     try {
       const userId = userSessions.get(socket.id);
@@ -2399,22 +3979,124 @@ io.on('connection', (socket) => {
         return;
       }
 
-      const messages = await database.getMessages(userId, data.targetUserId, data.limit || 50);
-      socket.emit('messages-response', { success: true, messages });
+      const limit = Math.min(Math.max(parseInt(data.limit) || MESSAGE_PAGE_SIZE, 1), MESSAGE_PAGE_SIZE);
+      const beforeId = data.beforeId ? parseInt(data.beforeId) : null;
+
+      // Fetch one extra to find out whether there is anything older
+      const page = await database.getMessages(userId, data.targetUserId, limit + 1, beforeId);
+      const hasMore = page.length > limit;
+      const messages = hasMore ? page.slice(1) : page;
+
+      socket.emit('messages-response', { 
+        success: true, 
+        targetUserId: data.targetUserId, 
+        messages, 
+        hasMore, 
+        beforeId 
+      });
     } catch (error) {
       console.error('Error getting messages:', error);
-      socket.emit('messages-response', { success: false, error: 'Failed to get messages' });
+      socket.emit('messages-response', { success: false, targetUserId: data.targetUserId, error: 'Failed to get messages' });
+    }
+  });
+
+  // Data: { targetUserId }. Marks what targetUserId sent us as read and tells them it was seen
+  socket.on('mark-messages-read', async (data) => {
+    try {
+      const userId = userSessions.get(socket.id);
+      if (!userId || !data || !data.targetUserId) return;
+
+      const marked = await database.markMessagesRead(userId, data.targetUserId);
+      if (marked === 0) return;
+
+      const senderSocketId = loggedInUsers.get(data.targetUserId);
+      if (senderSocketId) {
+        io.to(senderSocketId).emit('messages-read', { readerId: userId, readAt: new Date().toISOString() });
+      }
+    } catch (error) {
+      console.error('Error marking messages read:', error);
+    }
+  });
+
+  // Data: { targetUserId | gameId, reason, details?, context }. Post-game reports name the
+  // finished game and the reported player is looked up from its replay
+  socket.on('report-player', async (data) => {
+    try {
+      const reporterId = userSessions.get(socket.id);
+      if (!reporterId) {
+        socket.emit('report-player-response', { success: false, error: 'Not authenticated' });
+        return;
+      }
+
+      const { reason, context } = data || {};
+      if (!REPORT_REASONS.includes(reason) || !REPORT_CONTEXTS.includes(context)) {
+        socket.emit('report-player-response', { success: false, error: 'Invalid report' });
+        return;
+      }
+
+      const limit = reportLimiter.consume(reporterId);
+      if (!limit.allowed) {
+        socket.emit('report-player-response', {
+          success: false,
+          error: `You're sending reports too quickly. Try again in ${formatRetryAfter(limit.retryAfterMs)}.`,
+          ...rateLimitFields(limit.retryAfterMs)
+        });
+        return;
+      }
+
+      let reportedId = data.targetUserId;
+      let gameId = null;
+      if (context === 'post-game') {
+        const replay = await database.getReplay(String(data.gameId)).catch(() => null);
+        const reporterIndex = replay ? replay.players.findIndex(p => p.userId === reporterId) : -1;
+        if (reporterIndex === -1) {
+          socket.emit('report-player-response', { success: false, error: 'You can only report players from your own games' });
+          return;
+        }
+        reportedId = replay.players[1 - reporterIndex].userId;
+        gameId = replay.id;
+      }
+
+      const reported = reportedId ? await database.getUserById(reportedId) : null;
+      if (!reported) {
+        socket.emit('report-player-response', { success: false, error: 'Player not found' });
+        return;
+      }
+      if (reported.id === reporterId) {
+        socket.emit('report-player-response', { success: false, error: 'You cannot report yourself' });
+        return;
+      }
+
+      const details = typeof data.details === 'string' ? data.details.trim().slice(0, 500) : null;
+      const report = await database.createReport({ reporterId, reportedId: reported.id, reason, details, context, gameId });
+      console.log(`🚩 Report ${report.id}: user ${reporterId} reported ${reported.username} for ${reason} (${context})`);
+
+      socket.emit('report-player-response', { success: true, message: 'Thanks, your report has been sent to the moderators.' });
+    } catch (error) {
+      console.error('Error reporting player:', error);
+      socket.emit('report-player-response', { success: false, error: error.message || 'Failed to send report' });
     }
   });
 
   // ==================== SPECTATOR SOCKET EVENTS ====================
 
-  socket.on('get-spectatable-games', () => {
-    const spectatableGames = gameManager.getSpectatableGames();
-    socket.emit('spectatable-games-list', { success: true, games: spectatableGames });
+  socket.on('get-spectatable-games', async () => {
+    try {
+      // Games with a player on either side of a block with this user are left out
+      const spectatableGames = [];
+      for (const gameInfo of gameManager.getSpectatableGames()) {
+        if (!(await isBlockedFromGame(socket.id, gameManager.games.get(gameInfo.gameId)))) {
+          spectatableGames.push(gameInfo);
+        }
+      }
+      socket.emit('spectatable-games-list', { success: true, games: spectatableGames });
+    } catch (error) {
+      console.error('Error listing spectatable games:', error);
+      socket.emit('spectatable-games-list', { success: false, games: [] });
+    }
   });
 
-  socket.on('check-player-spectatable', (data) => {
+  socket.on('check-player-spectatable', async (data) => {
     // data.playerId is actually the user ID from the database
     // We need to find the socket ID for this user
     let targetSocketId = null;
@@ -2434,7 +4116,8 @@ io.on('connection', (socket) => {
     }
 
     const gameInfo = gameManager.getPlayerSpectatableGame(targetSocketId);
-    if (gameInfo) {
+    const game = gameInfo && gameManager.games.get(gameInfo.gameId);
+    if (gameInfo && !(await isBlockedFromGame(socket.id, game))) {
       socket.emit('player-spectatable-result', { 
         success: true, 
         canSpectate: true,
@@ -2451,6 +4134,117 @@ io.on('connection', (socket) => {
     }
   });
 
+  // Data: { text } or { emote }. Only the players of a game post; the message goes to the
+  // game room so spectators see it too. Muted players can still send emotes
+  socket.on('send-battle-chat', async (data = {}) => {
+    try {
+      const limit = battleChatLimiter.consume(socket.id);
+      if (!limit.allowed) {
+        socket.emit('battle-chat-error', {
+          error: `You're chatting too quickly. Try again in ${formatRetryAfter(limit.retryAfterMs)}.`,
+          ...rateLimitFields(limit.retryAfterMs)
+        });
+        return;
+      }
+
+      const userId = userSessions.get(socket.id);
+      if (userId && data.emote === undefined) {
+        const mute = await getActiveSuspension(userId, 'mute');
+        if (mute) {
+          socket.emit('battle-chat-error', { error: describeSuspension(mute), ...suspensionFields(mute) });
+          return;
+        }
+      }
+
+      const result = gameManager.addBattleChatMessage(socket.id, data);
+      if (!result.success) {
+        socket.emit('battle-chat-error', { error: result.error });
+        return;
+      }
+
+      gameManager.emitToGame(result.gameId, 'battle-chat-message', { gameId: result.gameId, ...result.message });
+    } catch (error) {
+      console.error('Error sending battle chat:', error);
+      socket.emit('battle-chat-error', { error: 'Failed to send message' });
+    }
+  });
+
+  socket.on('get-battle-chat', () => {
+    socket.emit('battle-chat-history', gameManager.getBattleChat(socket.id));
+  });
+
+  // Data: { text }. Spectator chat goes to the game's spectators only, never to its players
+  socket.on('send-spectator-chat', async (data = {}) => {
+    try {
+      const limit = spectatorChatLimiter.consume(socket.id);
+      if (!limit.allowed) {
+        socket.emit('spectator-chat-error', {
+          error: `You're chatting too quickly. Try again in ${formatRetryAfter(limit.retryAfterMs)}.`,
+          ...rateLimitFields(limit.retryAfterMs)
+        });
+        return;
+      }
+
+      const userId = userSessions.get(socket.id);
+      const mute = userId && await getActiveSuspension(userId, 'mute');
+      if (mute) {
+        socket.emit('spectator-chat-error', { error: describeSuspension(mute), ...suspensionFields(mute) });
+        return;
+      }
+
+      const result = gameManager.addSpectatorChatMessage(socket.id, data.text);
+      if (!result.success) {
+        socket.emit('spectator-chat-error', { error: result.error });
+        return;
+      }
+
+      gameManager.emitToSpectators(result.gameId, 'spectator-chat-message', { gameId: result.gameId, ...result.message });
+    } catch (error) {
+      console.error('Error sending spectator chat:', error);
+      socket.emit('spectator-chat-error', { error: 'Failed to send message' });
+    }
+  });
+
+  socket.on('get-spectator-chat', () => {
+    const result = gameManager.getSpectatorChat(socket.id);
+    if (!result.success) {
+      socket.emit('spectator-chat-error', { error: result.error });
+      return;
+    }
+    socket.emit('spectator-chat-history', { gameId: result.gameId, messages: result.messages, muted: result.muted });
+  });
+
+  // Data: { username, moderator }. Friendly room hosts only
+  socket.on('set-spectator-moderator', (data = {}) => {
+    const result = gameManager.setSpectatorModerator(socket.id, data.username, !!data.moderator);
+    if (!result.success) {
+      socket.emit('spectator-chat-error', { error: result.error });
+      return;
+    }
+
+    io.to(result.gameId).emit('spectator-update', {
+      type: 'role',
+      spectatorCount: result.spectatorCount,
+      spectatorList: result.spectatorList
+    });
+  });
+
+  // Data: { username, muted }. Spectator chat moderators only
+  socket.on('mute-spectator', (data = {}) => {
+    const result = gameManager.setSpectatorChatMute(socket.id, data.username, !!data.muted);
+    if (!result.success) {
+      socket.emit('spectator-chat-error', { error: result.error });
+      return;
+    }
+
+    gameManager.emitToSpectators(result.gameId, 'spectator-chat-muted', {
+      gameId: result.gameId,
+      username: result.username,
+      muted: result.muted,
+      by: result.by
+    });
+  });
+
   socket.on('spectate-game', async (data) => {
     try {
       const userId = userSessions.get(socket.id);
@@ -2459,6 +4253,12 @@ io.on('connection', (socket) => {
         return;
       }
 
+      const game = gameManager.games.get(data.gameId);
+      if (game && await isBlockedFromGame(socket.id, game)) {
+        socket.emit('spectate-result', { success: false, error: 'You cannot spectate this game' });
+        return;
+      }
+
       const user = await database.getUserById(userId);
       const result = gameManager.addSpectator(
         socket.id, 
@@ -2471,8 +4271,9 @@ io.on('connection', (socket) => {
         // Join the socket room for this game
         socket.join(result.gameId);
         
-        // Send the game state to the spectator
-        socket.emit('spectate-result', {
+        // Send the game state to the spectator (public view, on the spectator delay like
+        // everything that follows)
+        gameManager.emitToViewer(result.gameId, socket.id, 'spectate-result', {
           success: true,
           gameId: result.gameId,
           gameState: result.gameState,
@@ -2529,7 +4330,7 @@ io.on('connection', (socket) => {
 
   // ==================== DRAGONFLOW MATCHMAKING ====================
   
-  socket.on('dragonflow:join-queue', (data) => {
+  socket.on('dragonflow:join-queue', async (data) => {
     const { username } = data;
     const userId = userSessions.get(socket.id);
     
@@ -2537,6 +4338,12 @@ io.on('connection', (socket) => {
       socket.emit('dragonflow:error', { message: 'Not authenticated' });
       return;
     }
+
+    const queueBan = await getActiveSuspension(userId, 'queue-ban');
+    if (queueBan) {
+      socket.emit('dragonflow:error', { message: describeSuspension(queueBan) });
+      return;
+    }
     
     // Check if already in queue
     if (dragonflowQueue.find(p => p.socketId === socket.id)) {
@@ -2569,57 +4376,35 @@ io.on('connection', (socket) => {
     }
   });
   
-  socket.on('dragonflow:game-action', (data) => {
-    const gameId = Array.from(dragonflowGames.entries())
-      .find(([_, game]) => game.player1.socketId === socket.id || game.player2.socketId === socket.id)?.[0];
+  // Clients only send intents; the rules engine decides what actually happens
+  socket.on('dragonflow:game-action', (action) => {
+    const game = findDragonflowGame(socket.id);
     
-    if (!gameId) {
+    if (!game) {
       socket.emit('dragonflow:error', { message: 'Not in a game' });
       return;
     }
     
-    const game = dragonflowGames.get(gameId);
-    
-    // Update game state based on action
-    // The frontend handles game logic, backend just relays updates
-    const opponent = game.player1.socketId === socket.id ? game.player2 : game.player1;
-    io.to(opponent.socketId).emit('dragonflow:opponent-action', data);
-  });
-  
-  socket.on('dragonflow:sync-state', (data) => {
-    const gameId = Array.from(dragonflowGames.entries())
-      .find(([_, game]) => game.player1.socketId === socket.id || game.player2.socketId === socket.id)?.[0];
+    const role = game.player1.socketId === socket.id ? 'player1' : 'player2';
+    const result = dragonflowEngine.applyAction(game.state, role, action);
     
-    if (!gameId) {
-      console.log('⚠️ Dragonflow sync-state: Game not found for socket', socket.id);
+    if (result.error) {
+      socket.emit('dragonflow:action-rejected', { message: result.error, action });
       return;
     }
     
-    const game = dragonflowGames.get(gameId);
-    game.lastState = data.gameState;
+    game.state = result.state;
     game.lastUpdate = Date.now();
+    emitDragonflowState(game, { ...action, by: role });
     
-    // Relay to opponent
-    const opponent = game.player1.socketId === socket.id ? game.player2 : game.player1;
-    console.log(`🐉 Relaying game state from ${game.player1.socketId === socket.id ? 'player1' : 'player2'} to opponent ${opponent.socketId}`);
-    io.to(opponent.socketId).emit('dragonflow:state-update', data);
-  });
-  
-  socket.on('dragonflow:game-over', (data) => {
-    const gameId = Array.from(dragonflowGames.entries())
-      .find(([_, game]) => game.player1.socketId === socket.id || game.player2.socketId === socket.id)?.[0];
-    
-    if (!gameId) return;
-    
-    const game = dragonflowGames.get(gameId);
-    console.log(`🐉 Dragonflow game ${gameId} ended. Winner: ${data.winner}`);
-    
-    // Notify both players
-    io.to(game.player1.socketId).emit('dragonflow:game-ended', data);
-    io.to(game.player2.socketId).emit('dragonflow:game-ended', data);
-    
-    // Clean up game
-    dragonflowGames.delete(gameId);
+    if (game.state.phase === 'game-over') {
+      const winner = game.state.winner === 'player1' ? game.player1 : game.player2;
+      console.log(`🐉 Dragonflow game ${game.id} ended. Winner: ${winner.username}`);
+      
+      io.to(game.player1.socketId).emit('dragonflow:game-ended', { winner: game.state.winner });
+      io.to(game.player2.socketId).emit('dragonflow:game-ended', { winner: game.state.winner });
+      dragonflowGames.delete(game.id);
+    }
   });
   
   // ==================== END DRAGONFLOW ====================
@@ -2640,19 +4425,17 @@ io.on('connection', (socket) => {
     }
     
     // Handle Dragonflow game disconnect
-    const dragonflowGameId = Array.from(dragonflowGames.entries())
-      .find(([_, game]) => game.player1.socketId === socket.id || game.player2.socketId === socket.id)?.[0];
+    const dragonflowGame = findDragonflowGame(socket.id);
     
-    if (dragonflowGameId) {
-      const game = dragonflowGames.get(dragonflowGameId);
-      const opponent = game.player1.socketId === socket.id ? game.player2 : game.player1;
+    if (dragonflowGame) {
+      const opponent = dragonflowGame.player1.socketId === socket.id ? dragonflowGame.player2 : dragonflowGame.player1;
       
       io.to(opponent.socketId).emit('dragonflow:opponent-disconnected', {
         message: 'Your opponent has disconnected'
       });
       
-      console.log(`🐉 Dragonflow game ${dragonflowGameId} ended due to disconnect`);
-      dragonflowGames.delete(dragonflowGameId);
+      console.log(`🐉 Dragonflow game ${dragonflowGame.id} ended due to disconnect`);
+      dragonflowGames.delete(dragonflowGame.id);
     }
     
     // IMPORTANT: Spectators must never receive XP or victory points
@@ -2698,59 +4481,75 @@ io.on('connection', (socket) => {
     // Clean up user session
     const userId = userSessions.get(socket.id);
     if (userId) {
-      // Delete all chat history for this user
-      database.deleteAllUserMessages(userId).catch(err => {
-        console.error('Error deleting user messages on disconnect:', err);
-      });
-      
       loggedInUsers.delete(userId);
       userSessions.delete(socket.id);
+      presenceTracker.remove(userId);
       console.log('User logged out:', userId);
+
+      // Challenges need both players online
+      Array.from(challenges.values())
+        .filter(c => c.from.userId === userId || c.to.userId === userId)
+        .forEach(c => closeChallenge(c, 'unavailable'));
       
       // Broadcast to all other online users that this player went offline
       // This allows friends lists to update in real-time
       database.getUserById(userId).then(user => {
         if (user) {
-          socket.broadcast.emit('player-online-status-changed', {
-            userId: user.id,
-            username: user.username,
-            online: false
-          });
+          return broadcastOnlineStatus(socket, user, false);
         }
       }).catch(err => console.error('Error broadcasting player offline:', err));
     }
     
-    // Clean up rate limiting cache
-    onlinePlayersCache.delete(socket.id);
+    // Clean up rate limiting state
+    onlinePlayersLimiter.reset(socket.id);
     
     // Clean up game manager user session mapping
     gameManager.userSessions.delete(socket.id);
     
     // Clean up friendly rooms
-    for (const [roomName, room] of friendlyRooms.entries()) {
-      if (room.creator === socket.id || room.players.some(p => p.id === socket.id)) {
-        console.log('Cleaning up friendly room:', roomName);
-        friendlyRooms.delete(roomName);
-        break;
-      }
-    }
+    closeFriendlyRoomOf(socket.id);
   });
 });
 
 // API endpoints
-app.get('/api/game/:gameId', (req, res) => {
-  const gameState = gameManager.getGameState(req.params.gameId);
-  if (gameState) {
-    res.json(gameState);
-  } else {
-    res.status(404).json({ error: 'Game not found' });
+// Game state for one of its players, as that player sees it. The request's session token names the
+// user; x-socket-id names their game connection, which must be a player in the game signed in as
+// that same user
+app.get('/api/game/:gameId', requireSession, (req, res) => {
+  const game = gameManager.games.get(req.params.gameId);
+  if (!game) {
+    return res.status(404).json({ error: 'Game not found' });
+  }
+
+  const socketId = req.get('x-socket-id');
+  const isParticipant = !!socketId &&
+    game.players.some(p => p.id === socketId) &&
+    userSessions.get(socketId) === req.userId;
+  if (!isParticipant) {
+    return res.status(403).json({ error: 'Only players in this game can view its state' });
   }
+
+  res.json(gameManager.getGameStateForViewer(game.id, socketId));
 });
 
 server.listen(PORT, async () => {
   console.log(`Hero's Call server running on port ${PORT}`);
   console.log('Server startup completed successfully');
   
+  // Admin role for the accounts named in ADMIN_USERNAMES (comma separated)
+  const adminUsernames = (process.env.ADMIN_USERNAMES || '').split(',').map(name => name.trim()).filter(Boolean);
+  for (const username of adminUsernames) {
+    try {
+      if (await database.setUserRole(username, 'admin')) {
+        console.log(`🛠️ ${username} has the admin role`);
+      } else {
+        console.warn(`⚠️ ADMIN_USERNAMES: no user named ${username}`);
+      }
+    } catch (error) {
+      console.error(`Error granting admin role to ${username}:`, error);
+    }
+  }
+
   // Migrate existing admin accounts to have player_id
   try {
     const adminAccounts = ['Admin1', 'Admin2', 'Admin3'];
@@ -2776,8 +4575,19 @@ server.listen(PORT, async () => {
   } catch (error) {
     console.error('Error migrating admin accounts:', error);
   }
+
+  await runSeasonScheduler();
 });
 
+// Deploys stop the server with SIGTERM: write out any pending game snapshots before exiting
+const shutdown = async (signal) => {
+  console.log(`🛑 ${signal} received - saving in-flight games before shutdown`);
+  await gameManager.flushPersistedGames();
+  process.exit(0);
+};
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+process.on('SIGINT', () => shutdown('SIGINT'));
+
 // Add error handling for uncaught exceptions
 process.on('uncaughtException', (error) => {
   console.error('Uncaught Exception:', error);
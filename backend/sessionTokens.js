@@ -0,0 +1,95 @@
+// Signed session tokens
+//
+// Login hands the client `<payload>.<signature>`: a base64url JSON payload
+// ({ sub: userId, ver: sessionVersion, iat, exp }) and its HMAC-SHA256. The server keeps no
+// session list - a token is valid while its signature checks out, it hasn't expired and its
+// `ver` still matches the user's session_version, so bumping that column (logout) revokes every
+// token issued before.
+//
+// The key comes from SESSION_SECRET. Without it a random key is generated once and kept in
+// the data directory so sessions survive a restart.
+
+const crypto = require('crypto');
+const fs = require('fs');
+const path = require('path');
+
+const SESSION_TTL_MS = (parseFloat(process.env.SESSION_TTL_HOURS) || 24 * 7) * 60 * 60 * 1000;
+
+let secret = null;
+
+function getSecret() {
+  if (secret) return secret;
+
+  if (process.env.SESSION_SECRET) {
+    secret = process.env.SESSION_SECRET;
+    return secret;
+  }
+
+  const dataDir = process.env.DATA_DIR || path.join(__dirname, 'data');
+  const secretPath = path.join(dataDir, 'session_secret');
+  try {
+    secret = fs.readFileSync(secretPath, 'utf8').trim();
+  } catch (err) {
+    secret = crypto.randomBytes(32).toString('hex');
+    try {
+      fs.mkdirSync(dataDir, { recursive: true });
+      fs.writeFileSync(secretPath, secret, { mode: 0o600 });
+      console.log('🔑 Generated session signing key at', secretPath);
+    } catch (writeErr) {
+      console.warn('⚠️ Could not save session signing key, sessions will not survive a restart:', writeErr.message);
+    }
+  }
+  return secret;
+}
+
+function sign(payload) {
+  return crypto.createHmac('sha256', getSecret()).update(payload).digest('base64url');
+}
+
+function createSessionToken(userId, sessionVersion = 0) {
+  const now = Date.now();
+  const payload = Buffer.from(JSON.stringify({
+    sub: userId,
+    ver: sessionVersion,
+    iat: now,
+    exp: now + SESSION_TTL_MS
+  })).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Check a token's signature and expiry. Returns { userId, sessionVersion, expiresAt }, or null
+ * for anything forged, malformed or expired. The caller still has to compare sessionVersion
+ * against the database.
+ */
+function readSessionToken(token) {
+  if (typeof token !== 'string') return null;
+
+  const [payload, signature, ...rest] = token.split('.');
+  if (!payload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  let claims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch (err) {
+    return null;
+  }
+
+  if (!Number.isInteger(claims.sub) || typeof claims.exp !== 'number' || claims.exp <= Date.now()) {
+    return null;
+  }
+
+  return { userId: claims.sub, sessionVersion: claims.ver || 0, expiresAt: claims.exp };
+}
+
+module.exports = {
+  SESSION_TTL_MS,
+  createSessionToken,
+  readSessionToken
+};
@@ -0,0 +1,18 @@
+// Background sweeps
+//
+// The in-memory stores (rate limits, friend presence) tidy or re-check their entries on an
+// interval. The timer is unref'd: a sweep only matters while the server is serving, so it must
+// not be what keeps the process from exiting.
+
+/**
+ * Call `sweep` every `intervalMs`. Returns the timer so a caller can clearInterval it.
+ */
+function startSweeper(sweep, intervalMs) {
+  const timer = setInterval(sweep, intervalMs);
+  if (timer.unref) timer.unref();
+  return timer;
+}
+
+module.exports = {
+  startSweeper
+};
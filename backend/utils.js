@@ -4,8 +4,28 @@
 const DEBUG = process.env.DEBUG_GAME === 'true' || false;
 const debugLog = DEBUG ? console.log.bind(console) : () => {};
 
+// Source for every roll and shuffle. Defaults to Math.random; GameManager swaps in the
+// game's seeded stream while it handles that game's actions (see withRandomSource)
+let randomSource = Math.random;
+
+function random() {
+  return randomSource();
+}
+
+// Run fn with all rolls drawn from source, restoring the previous source afterwards.
+// Only covers synchronous work - anything after an await falls back to the outer source
+function withRandomSource(source, fn) {
+  const previousSource = randomSource;
+  randomSource = source || previousSource;
+  try {
+    return fn();
+  } finally {
+    randomSource = previousSource;
+  }
+}
+
 function rollDice(sides) {
-  return Math.floor(Math.random() * sides) + 1;
+  return Math.floor(random() * sides) + 1;
 }
 
 function rollMultipleDice(count, sides) {
@@ -64,7 +84,7 @@ function rollDiceString(diceStr, advantage = false) {
   return bestResult;
 }
 
-function calculateAttackRoll(accuracy, advantage = false, disadvantage = false, caster = null) {
+function calculateAttackRoll(accuracy, advantage = false, disadvantage = false, critThreshold = 20) {
   const accuracyBonus = parseInt(accuracy.replace('+', '')) || 0;
   
   let roll = rollDice(20);
@@ -97,22 +117,7 @@ function calculateAttackRoll(accuracy, advantage = false, disadvantage = false,
   }
   // If both advantage and disadvantage, they cancel out (normal roll)
   
-  // Check for modified crit range (like Swordsman's Critical Strikes)
-  let critThreshold = 20;
-  if (caster && caster.Special) {
-    const specials = Array.isArray(caster.Special) ? caster.Special : [caster.Special];
-    for (const special of specials) {
-      if (special.effects) {
-        for (const effect of special.effects) {
-          if (effect.type === 'modify_crit_range' && effect.min_roll) {
-            critThreshold = effect.min_roll;
-            break;
-          }
-        }
-      }
-    }
-  }
-  
+  // critThreshold comes from the roller's modify_crit_range special (like Swordsman's Critical Strikes)
   return {
     roll: roll,
     bonus: accuracyBonus,
@@ -191,7 +196,7 @@ function calculateDamage(damageStr, isCritical = false, advantage = false, caste
 function shuffleArray(array) {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
@@ -440,19 +445,6 @@ function canUseBasicAttack(hero) {
   return hero.BasicAttack !== '—' && hero.BasicAttack !== '';
 }
 
-function hasSpecialEffect(hero, effectName) {
-  if (!hero.Special) return false;
-  
-  // Handle both array and object formats
-  const specials = Array.isArray(hero.Special) ? hero.Special : [hero.Special];
-  
-  return specials.some(special => 
-    special.effects?.some(effect => 
-      effect.effect === effectName || effect.type === effectName
-    )
-  );
-}
-
 function calculateEffectiveDefense(hero) {
   // Use modifiedDefense if it exists (already includes scalingBuffs from updateHeroDisplayStats)
   let effectiveDefense = hero.modifiedDefense !== undefined ? hero.modifiedDefense : (hero.Defense !== undefined ? hero.Defense : hero.AC);
@@ -477,6 +469,8 @@ function calculateEffectiveDefense(hero) {
 }
 
 module.exports = {
+  random,
+  withRandomSource,
   rollDice,
   rollMultipleDice,
   parseDiceString,
@@ -489,6 +483,5 @@ module.exports = {
   processEndOfTurn,
   getTargetableEnemies,
   canUseBasicAttack,
-  hasSpecialEffect,
   calculateEffectiveDefense
 };
\ No newline at end of file
@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef } from 'react';
 import { socketService } from './socketService';
-import { GameState, Player, Hero } from './types';
+import { GameState, Player, Hero, ActionTimerState, AIDifficulty, UserRole, Spectator, FriendlySeriesLength } from './types';
 import GameLobby from './components/GameLobby';
 import DraftPhase from './components/DraftPhase';
 import BattlePhase from './components/BattlePhase';
@@ -11,9 +11,11 @@ import LoginPage from './components/LoginPage';
 import RegisterPage from './components/RegisterPage';
 import FriendsIcon from './components/FriendsIcon';
 import FriendsOverlay from './components/FriendsOverlay';
+import ChallengeToast from './components/ChallengeToast';
 import MessageIcon from './components/MessageIcon';
 import MessageChat from './components/MessageChat';
 import config from './config';
+import { authFetch, setSessionToken } from './session';
 import './App.css';
 
 
@@ -71,6 +73,7 @@ interface User {
   level: number;
   best_gauntlet_trial: number;
   player_id?: string;
+  role?: UserRole;
 }
 
 interface AppState {
@@ -100,7 +103,7 @@ interface AppState {
   // Spectator state
   isSpectating: boolean;
   spectatingPlayerId: string | null;
-  spectators: Array<{ socketId: string; username: string; spectatingPlayerId: string }>;
+  spectators: Spectator[];
 
   timekeeperAbilitySelection?: {
     ally: string;
@@ -117,7 +120,7 @@ interface AppState {
   showFriendsOverlay: boolean;
   friendsNotificationCount: number;
   messageNotificationCount: number;
-  unreadMessageChats: Map<number, string>; // Map of user ID to username with unread messages
+  unreadMessageChats: Map<number, { username: string; count: number }>; // User ID -> unread messages from them
   openMessageChats: Array<{
     targetUserId: number;
     targetUsername: string;
@@ -129,6 +132,9 @@ interface AppState {
   showCollection: boolean;
   showDraftAbandonedModal: boolean;
   draftAbandonedMessage: string;
+
+  // Clock for the current turn / draft step, as last sent by the server
+  actionTimer: ActionTimerState | null;
 }
 
 function App() {
@@ -178,12 +184,12 @@ function App() {
     showCollection: false,
     showDraftAbandonedModal: false,
     draftAbandonedMessage: '',
-
+    actionTimer: null,
   });
 
   const [isSearchingForSurvivalMatch, setIsSearchingForSurvivalMatch] = useState(false);
   const [isSearchingForMatch, setIsSearchingForMatch] = useState(false);
-  const [searchMode, setSearchMode] = useState<'draft' | 'random' | null>(null);
+  const [searchMode, setSearchMode] = useState<'draft' | 'random' | 'ranked' | null>(null);
   
   // Ref to track survival return timeout
   const survivalReturnTimeoutRef = useRef<number | null>(null);
@@ -215,6 +221,7 @@ function App() {
         gameId: state.gameState.id,
         playerId: state.playerId,
         playerName: state.user.username,
+        rejoinToken: state.gameState.players.find(p => p.id === state.playerId)?.rejoinToken,
         phase: state.gameState.phase,
         timestamp: Date.now()
       };
@@ -235,7 +242,7 @@ function App() {
           const timeSinceGame = Date.now() - gameData.timestamp;
           if (timeSinceGame < 30 * 60 * 1000) {
             console.log('🔄 Attempting to reconnect to game:', gameData.gameId);
-            socketService.reconnectToGame(gameData.gameId, gameData.playerName);
+            socketService.reconnectToGame(gameData.gameId, gameData.rejoinToken);
           } else {
             console.log('⏰ Stored game too old, not reconnecting');
             localStorage.removeItem('heroCallActiveGame');
@@ -251,8 +258,7 @@ function App() {
   useEffect(() => {
     // Load heroes data - only load if user is authenticated
     if (state.user) {
-      const url = `${config.API_BASE_URL}/api/heroes?userId=${state.user.id}`;
-      fetch(url)
+      authFetch(`${config.API_BASE_URL}/api/heroes/owned`)
         .then(res => res.json())
         .then(heroes => {
           setState(prev => ({ ...prev, allHeroes: heroes }));
@@ -268,8 +274,21 @@ function App() {
     // Initialize socket connection and authenticate
     const socket = socketService.connect();
     
-    // Authenticate the socket connection with user ID
-    socketService.authenticate(state.user.id);
+    // Authenticate the socket connection with the session token from login
+    socketService.authenticate();
+
+    // After a dropped connection or a server restart, rejoin the game we were in
+    socketService.onReconnect(() => {
+      const storedGame = localStorage.getItem('heroCallActiveGame');
+      if (!storedGame) return;
+      try {
+        const gameData = JSON.parse(storedGame);
+        console.log('🔄 Connection restored, rejoining game:', gameData.gameId);
+        socketService.reconnectToGame(gameData.gameId, gameData.rejoinToken);
+      } catch (error) {
+        console.error('Failed to parse stored game data:', error);
+      }
+    });
 
     // Socket event handlers for reconnection
     socket.on('reconnect-success', (gameState) => {
@@ -279,7 +298,8 @@ function App() {
         gameState: gameState,
         playerId: socketService.socket?.id || null,
         isConnected: true,
-        error: null
+        error: null,
+        actionTimer: gameState.actionTimer || null
       }));
       setIsSearchingForMatch(false);
       setSearchMode(null);
@@ -314,6 +334,8 @@ function App() {
         } else {
           // Regular mode - set up game state
           console.log(`🎮 Regular mode join - gameReady: ${data.gameReady}, players: ${data.players?.length || 0}`);
+          // A friendly rematch joins straight from the last game's results
+          setRewardsData(null);
           setState(prev => ({
             ...prev,
             playerId: data.playerId,
@@ -341,10 +363,13 @@ function App() {
           // If game is not ready, keep searching state active
         }
       } else {
-        setState(prev => ({ ...prev, error: 'Failed to join game' }));
+        setState(prev => ({ ...prev, error: data.error || 'Failed to join game' }));
         // Clear searching state on failure
         setIsSearchingForMatch(false);
         setSearchMode(null);
+        if (data.mode === 'survival') {
+          setIsSearchingForSurvivalMatch(false);
+        }
       }
     });
 
@@ -1316,6 +1341,13 @@ function App() {
       }));
     });
 
+    socket.on('action-timer', (data) => {
+      setState(prev => ({
+        ...prev,
+        actionTimer: data.timer
+      }));
+    });
+
     socket.on('game-surrendered', (data) => {
       console.log('🏳️ Game surrendered:', data);
       setState(prev => ({
@@ -1566,6 +1598,9 @@ function App() {
       if (data.message.includes('already logged in')) {
         alert('⚠️ Multiple Sessions Detected\n\n' + data.message);
         handleLogout();
+      } else if (data.code === 'SUSPENDED') {
+        alert(data.message);
+        handleLogout();
       } else {
         setState(prev => ({ ...prev, error: data.message || 'Authentication failed' }));
       }
@@ -1586,11 +1621,48 @@ function App() {
       }));
     });
 
+    // An accepted challenge starts a game nobody searched for, so take the name the way
+    // handleJoinGame does
+    socket.on('challenge-closed', (data) => {
+      if (data.reason === 'accepted') {
+        setState(prev => ({ ...prev, playerName: prev.user ? prev.user.username : prev.playerName }));
+      }
+    });
+
+    // Season rewards arrive outside any game, so only the total changes
+    socket.on('season-ended', (data) => {
+      setState(prev => ({ ...prev, victoryPoints: data.victoryPoints }));
+    });
+
+    // Sent once after authenticating; unread state lives on the server
+    socket.on('unread-message-counts', (data) => {
+      setState(prev => {
+        const newUnreadChats = new Map<number, { username: string; count: number }>();
+        data.conversations
+          .filter(conversation => !prev.openMessageChats.some(chat => chat.targetUserId === conversation.userId))
+          .forEach(conversation => {
+            newUnreadChats.set(conversation.userId, { username: conversation.username, count: conversation.count });
+          });
+
+        return {
+          ...prev,
+          unreadMessageChats: newUnreadChats,
+          messageNotificationCount: Array.from(newUnreadChats.values()).reduce((total, chat) => total + chat.count, 0)
+        };
+      });
+    });
+
     socket.on('message-received', (message) => {
       console.log('Message received from:', message.sender_username);
       setState(prev => {
+        // An open chat window shows (and marks read) the message itself
+        if (prev.openMessageChats.some(chat => chat.targetUserId === message.sender_id)) {
+          return prev;
+        }
+
         const newUnreadChats = new Map(prev.unreadMessageChats);
-        newUnreadChats.set(message.sender_id, message.sender_username);
+        const unreadCount = newUnreadChats.get(message.sender_id)?.count || 0;
+        newUnreadChats.set(message.sender_id, { username: message.sender_username, count: unreadCount + 1 });
         
         return {
           ...prev,
@@ -1603,13 +1675,14 @@ function App() {
     return () => {
       socket.off('reconnect-success');
       socket.off('reconnect-failed');
+      socketService.onReconnect(null);
       socketService.disconnect();
     };
   }, [state.user?.id]); // Re-run only when user ID changes, not the entire user object
 
 
 
-  const handleJoinGame = (mode: 'draft' | 'random') => {
+  const handleJoinGame = (mode: 'draft' | 'random' | 'ranked') => {
     // Ensure user is properly authenticated before joining
     if (!state.user || !state.user.username) {
       console.error('❌ Cannot join game: User not authenticated or username missing', state.user);
@@ -1627,7 +1700,21 @@ function App() {
     socketService.joinGame(playerName, mode);
   };
 
-  const handleFriendlyGame = (action: 'create' | 'join', roomName: string) => {
+  const handleStartPractice = (difficulty: AIDifficulty) => {
+    if (!state.user || !state.user.username) {
+      console.error('❌ Cannot start practice game: User not authenticated or username missing', state.user);
+      setState(prev => ({ ...prev, error: 'Please login first to join a game.' }));
+      return;
+    }
+
+    const playerName = state.user.username;
+
+    console.log(`🤖 Starting practice game vs AI (${difficulty}) for player: ${playerName}`);
+    setState(prev => ({ ...prev, playerName, error: null }));
+    socketService.joinPracticeGame(playerName, difficulty);
+  };
+
+  const handleFriendlyGame = (action: 'create' | 'join', roomName: string, bestOf: FriendlySeriesLength = 1) => {
     // Ensure user is properly authenticated before joining
     if (!state.user || !state.user.username) {
       console.error('❌ Cannot join friendly game: User not authenticated or username missing', state.user);
@@ -1640,7 +1727,7 @@ function App() {
     setState(prev => ({ ...prev, playerName }));
     
     if (action === 'create') {
-      socketService.createFriendlyRoom(roomName, playerName);
+      socketService.createFriendlyRoom(roomName, playerName, bestOf);
     } else {
       socketService.joinFriendlyRoom(roomName, playerName);
     }
@@ -1684,7 +1771,8 @@ function App() {
           isSurvivalMode: false,
           survivalTeam: [],
           gameState: null,
-          battleLog: []
+          battleLog: [],
+          actionTimer: null
         };
       } else {
         // Stay in survival mode - return to survival team selection
@@ -1695,7 +1783,8 @@ function App() {
           showSurvival: true,
           gameState: null,
           survivalTeam: [],
-          battleLog: []
+          battleLog: [],
+          actionTimer: null
         };
       }
     });
@@ -1839,12 +1928,8 @@ function App() {
     // Call logout API to clean up server-side session
     if (currentUser) {
       try {
-        await fetch(`${config.API_BASE_URL}/api/logout`, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ userId: currentUser.id }),
+        await authFetch(`${config.API_BASE_URL}/api/logout`, {
+          method: 'POST'
         });
       } catch (error) {
         console.error('Logout API call failed:', error);
@@ -1853,6 +1938,7 @@ function App() {
     
     // Disconnect socket
     socketService.disconnect();
+    setSessionToken(null);
     setIsSearchingForSurvivalMatch(false);
   };
 
@@ -1875,7 +1961,7 @@ function App() {
 
       // Clear notifications for this user if they have unread messages
       const newUnreadChats = new Map(prev.unreadMessageChats);
-      const hadUnreadFromThisUser = newUnreadChats.has(playerId);
+      const unreadFromThisUser = newUnreadChats.get(playerId)?.count || 0;
       newUnreadChats.delete(playerId);
 
       // Check if chat is minimized and restore it
@@ -1887,10 +1973,8 @@ function App() {
           minimizedMessageChats: prev.minimizedMessageChats.filter(chat => chat.targetUserId !== playerId),
           showFriendsOverlay: false,
           unreadMessageChats: newUnreadChats,
-          // Decrease notification count if this user had unread messages
-          messageNotificationCount: hadUnreadFromThisUser 
-            ? Math.max(0, prev.messageNotificationCount - 1)
-            : prev.messageNotificationCount
+          // The chat window marks these read on the server when it loads
+          messageNotificationCount: Math.max(0, prev.messageNotificationCount - unreadFromThisUser)
         };
       }
 
@@ -1902,10 +1986,7 @@ function App() {
         }],
         showFriendsOverlay: false, // Close overlay when opening chat
         unreadMessageChats: newUnreadChats,
-        // Decrease notification count if this user had unread messages
-        messageNotificationCount: hadUnreadFromThisUser 
-          ? Math.max(0, prev.messageNotificationCount - 1)
-          : prev.messageNotificationCount
+        messageNotificationCount: Math.max(0, prev.messageNotificationCount - unreadFromThisUser)
       };
     });
   };
@@ -1937,7 +2018,7 @@ function App() {
     // If there are unread messages, open the most recent one
     if (state.unreadMessageChats.size > 0) {
       // Get the first unread chat (user ID and username)
-      const [firstUnreadUserId, firstUnreadUsername] = Array.from(state.unreadMessageChats)[0];
+      const [firstUnreadUserId, { username: firstUnreadUsername }] = Array.from(state.unreadMessageChats)[0];
       
       // Open the chat with this user
       handleOpenMessageChat(firstUnreadUserId, firstUnreadUsername);
@@ -2059,6 +2140,7 @@ function App() {
         <GameLobby
           onStartGame={handleJoinGame}
           onStartFriendlyGame={handleFriendlyGame}
+          onStartPractice={handleStartPractice}
           onStartSurvival={handleStartSurvival}
           onStartGauntlet={handleStartGauntlet}
           onSpectateGame={handleSpectateGame}
@@ -2104,6 +2186,7 @@ function App() {
             spectators={state.spectators}
             timekeeperAbilitySelection={state.timekeeperAbilitySelection}
             onClearTimekeeperSelection={() => setState(prev => ({ ...prev, timekeeperAbilitySelection: undefined }))}
+            actionTimer={state.actionTimer}
             rewardsData={rewardsData || undefined}
           />
         );
@@ -2128,6 +2211,7 @@ function App() {
             currentPlayer={currentPlayer}
             opponent={opponent}
             allHeroes={state.allHeroes}
+            actionTimer={state.actionTimer}
           />
         );
 
@@ -2148,6 +2232,7 @@ function App() {
             spectators={state.spectators}
             timekeeperAbilitySelection={state.timekeeperAbilitySelection}
             onClearTimekeeperSelection={() => setState(prev => ({ ...prev, timekeeperAbilitySelection: undefined }))}
+            actionTimer={state.actionTimer}
             rewardsData={rewardsData || undefined}
           />
         );
@@ -2571,6 +2656,9 @@ function App() {
         </>
       )}
 
+      {/* Incoming and outgoing challenges - answerable from any screen */}
+      {state.user && <ChallengeToast currentUserId={state.user.id} />}
+
       {/* Draft Abandoned Modal */}
       {state.showDraftAbandonedModal && (
         <div className="modal-overlay">
@@ -0,0 +1,44 @@
+import React, { useState, useEffect } from 'react';
+import { ActionTimerState } from '../types';
+import '../styles/ActionTimer.css';
+
+interface ActionTimerProps {
+  timer: ActionTimerState | null | undefined;
+  playerId: string;
+}
+
+const URGENT_SECONDS = 10;
+
+const ActionTimer: React.FC<ActionTimerProps> = ({ timer, playerId }) => {
+  const [secondsLeft, setSecondsLeft] = useState<number>(0);
+
+  // Count down locally from the last value the server sent
+  useEffect(() => {
+    if (!timer) return;
+
+    setSecondsLeft(timer.remainingTime ?? timer.duration);
+    const interval = setInterval(() => {
+      setSecondsLeft(prev => Math.max(0, prev - 1));
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [timer]);
+
+  if (!timer) return null;
+
+  const isMine = timer.playerIds.includes(playerId);
+  const minutes = Math.floor(secondsLeft / 60);
+  const seconds = secondsLeft % 60;
+  const label = isMine
+    ? (timer.kind === 'turn' ? 'Your turn' : 'Your pick')
+    : 'Waiting for opponent';
+
+  return (
+    <div className={`action-timer ${isMine ? 'mine' : ''} ${secondsLeft <= URGENT_SECONDS ? 'urgent' : ''}`}>
+      <span className="action-timer-label">⏱️ {label}</span>
+      <span className="action-timer-time">{minutes}:{seconds.toString().padStart(2, '0')}</span>
+    </div>
+  );
+};
+
+export default ActionTimer;
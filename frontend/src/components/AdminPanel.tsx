@@ -0,0 +1,299 @@
+import React, { useState, useEffect } from 'react';
+import config from '../config';
+import { authFetch } from '../session';
+import { UserRole, Suspension } from '../types';
+import AdminReports from './AdminReports';
+import SuspensionControls from './SuspensionControls';
+import '../styles/AdminPanel.css';
+
+interface AdminHero {
+  name: string;
+  disabled: boolean;
+  disabledInFile: boolean;
+  overridden: boolean;
+}
+
+interface AdminUser {
+  id: number;
+  username: string;
+  role: UserRole;
+  victory_points: number;
+  available_heroes: string[];
+  suspensions: Suspension[];
+}
+
+interface AdminPanelProps {
+  onClose: () => void;
+  onUserChanged: () => void; // Called after a change that may affect the logged-in admin's own account
+}
+
+const AdminPanel: React.FC<AdminPanelProps> = ({ onClose, onUserChanged }) => {
+  const [tab, setTab] = useState<'manage' | 'reports'>('manage');
+  const [heroes, setHeroes] = useState<AdminHero[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [message, setMessage] = useState<{ text: string; type: 'success' | 'error'; details?: string[] } | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const [usernameQuery, setUsernameQuery] = useState('');
+  const [selectedUser, setSelectedUser] = useState<AdminUser | null>(null);
+  const [heroToGrant, setHeroToGrant] = useState('');
+  const [vpAmount, setVpAmount] = useState('');
+
+  useEffect(() => {
+    fetchHeroes();
+  }, []);
+
+  // POST a JSON body to an admin endpoint; shows the server's message on failure
+  const postAdmin = async (path: string, body: object = {}) => {
+    setBusy(true);
+    try {
+      const response = await authFetch(`${config.API_BASE_URL}/api/admin${path}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body)
+      });
+      const data = await response.json();
+      if (!data.success) {
+        setMessage({ text: data.message || 'Request failed', type: 'error', details: data.errors });
+      }
+      return data;
+    } catch (error) {
+      console.error('Admin request failed:', error);
+      setMessage({ text: 'Connection failed. Please try again.', type: 'error' });
+      return { success: false };
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const fetchHeroes = async () => {
+    try {
+      setLoading(true);
+      const response = await authFetch(`${config.API_BASE_URL}/api/admin/heroes`);
+      const data = await response.json();
+      if (data.success) {
+        setHeroes(data.heroes);
+      } else {
+        setMessage({ text: data.message || 'Failed to load heroes', type: 'error' });
+      }
+    } catch (error) {
+      console.error('Failed to load admin hero list:', error);
+      setMessage({ text: 'Failed to load heroes', type: 'error' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggleHero = async (hero: AdminHero) => {
+    const data = await postAdmin(`/heroes/${encodeURIComponent(hero.name)}`, { disabled: !hero.disabled });
+    if (data.success) {
+      setHeroes(prev => prev.map(h => h.name === hero.name ? data.hero : h));
+      setMessage({ text: `${hero.name} ${data.hero.disabled ? 'disabled' : 'enabled'}`, type: 'success' });
+    }
+  };
+
+  const handleReloadHeroes = async () => {
+    const data = await postAdmin('/heroes/reload');
+    if (data.success) {
+      setMessage({ text: data.message, type: 'success', details: data.warnings });
+      fetchHeroes();
+    }
+  };
+
+  const handleFindUser = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!usernameQuery.trim()) return;
+
+    try {
+      const response = await authFetch(`${config.API_BASE_URL}/api/admin/users/${encodeURIComponent(usernameQuery.trim())}`);
+      const data = await response.json();
+      if (data.success) {
+        setSelectedUser(data.user);
+        setMessage(null);
+      } else {
+        setSelectedUser(null);
+        setMessage({ text: data.message || 'User not found', type: 'error' });
+      }
+    } catch (error) {
+      console.error('Failed to look up user:', error);
+      setMessage({ text: 'Connection failed. Please try again.', type: 'error' });
+    }
+  };
+
+  const handleSetHeroOwned = async (heroName: string, owned: boolean) => {
+    if (!selectedUser || !heroName) return;
+
+    const data = await postAdmin(`/users/${selectedUser.id}/heroes`, { heroName, owned });
+    if (data.success) {
+      setSelectedUser({ ...selectedUser, available_heroes: data.available_heroes });
+      setHeroToGrant('');
+      setMessage({ text: `${owned ? 'Granted' : 'Revoked'} ${heroName} ${owned ? 'to' : 'from'} ${selectedUser.username}`, type: 'success' });
+      onUserChanged();
+    }
+  };
+
+  const handleAdjustVictoryPoints = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const amount = parseInt(vpAmount, 10);
+    if (!selectedUser || Number.isNaN(amount) || amount === 0) return;
+
+    const data = await postAdmin(`/users/${selectedUser.id}/victory-points`, { amount });
+    if (data.success) {
+      setSelectedUser({ ...selectedUser, victory_points: data.victory_points });
+      setVpAmount('');
+      setMessage({ text: `${selectedUser.username} now has ${data.victory_points} VP`, type: 'success' });
+      onUserChanged();
+    }
+  };
+
+  const enabledCount = heroes.filter(h => !h.disabled).length;
+  const unownedHeroes = selectedUser
+    ? heroes.filter(h => !selectedUser.available_heroes.includes(h.name))
+    : [];
+
+  return (
+    <div className="admin-overlay">
+      <div className="admin-container">
+        <div className="admin-header">
+          <h2>Admin</h2>
+          <div className="admin-tabs">
+            <button className={tab === 'manage' ? 'active' : ''} onClick={() => setTab('manage')}>
+              Heroes & Players
+            </button>
+            <button className={tab === 'reports' ? 'active' : ''} onClick={() => setTab('reports')}>
+              Reports
+            </button>
+          </div>
+          <button className="admin-close-btn" onClick={onClose}>✕</button>
+        </div>
+
+        {tab === 'reports' && <AdminReports />}
+
+        {tab === 'manage' && message && (
+          <div className={`admin-message ${message.type}`}>
+            {message.text}
+            {message.details && message.details.length > 0 && (
+              <ul>
+                {message.details.map((detail, index) => <li key={index}>{detail}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {tab === 'manage' && (
+          <div className="admin-content">
+            <section className="admin-section">
+              <div className="admin-section-header">
+                <h3>Heroes ({enabledCount}/{heroes.length} enabled)</h3>
+                <button className="admin-btn" onClick={handleReloadHeroes} disabled={busy}>
+                  Reload heros.json
+                </button>
+              </div>
+              {loading ? (
+                <div className="admin-loading">Loading heroes...</div>
+              ) : (
+                <ul className="admin-hero-list">
+                  {heroes.map(hero => (
+                    <li key={hero.name} className={`admin-hero-row ${hero.disabled ? 'disabled' : ''}`}>
+                      <span className="admin-hero-name">{hero.name}</span>
+                      {hero.overridden && (
+                        <span className="admin-override-badge" title={`heros.json says ${hero.disabledInFile ? 'disabled' : 'enabled'}`}>
+                          override
+                        </span>
+                      )}
+                      <button
+                        className={`admin-toggle ${hero.disabled ? 'off' : 'on'}`}
+                        onClick={() => handleToggleHero(hero)}
+                        disabled={busy}
+                      >
+                        {hero.disabled ? 'Disabled' : 'Enabled'}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </section>
+
+            <section className="admin-section">
+              <div className="admin-section-header">
+                <h3>Players</h3>
+              </div>
+              <form className="admin-inline-form" onSubmit={handleFindUser}>
+                <input
+                  type="text"
+                  value={usernameQuery}
+                  onChange={(e) => setUsernameQuery(e.target.value)}
+                  placeholder="Username"
+                />
+                <button type="submit" className="admin-btn">Find</button>
+              </form>
+
+              {selectedUser && (
+                <div className="admin-user">
+                  <div className="admin-user-summary">
+                    <strong>{selectedUser.username}</strong>
+                    <span>{selectedUser.role}</span>
+                    <span>{selectedUser.victory_points} VP</span>
+                  </div>
+
+                  <form className="admin-inline-form" onSubmit={handleAdjustVictoryPoints}>
+                    <input
+                      type="number"
+                      value={vpAmount}
+                      onChange={(e) => setVpAmount(e.target.value)}
+                      placeholder="VP to add (negative to remove)"
+                    />
+                    <button type="submit" className="admin-btn" disabled={busy}>Apply</button>
+                  </form>
+
+                  <SuspensionControls
+                    userId={selectedUser.id}
+                    suspensions={selectedUser.suspensions}
+                    onChange={(suspensions) => setSelectedUser({ ...selectedUser, suspensions })}
+                  />
+
+                  <div className="admin-inline-form">
+                    <select value={heroToGrant} onChange={(e) => setHeroToGrant(e.target.value)}>
+                      <option value="">Grant a hero...</option>
+                      {unownedHeroes.map(hero => (
+                        <option key={hero.name} value={hero.name}>{hero.name}</option>
+                      ))}
+                    </select>
+                    <button
+                      type="button"
+                      className="admin-btn"
+                      onClick={() => handleSetHeroOwned(heroToGrant, true)}
+                      disabled={busy || !heroToGrant}
+                    >
+                      Grant
+                    </button>
+                  </div>
+
+                  <h4>Owned heroes ({selectedUser.available_heroes.length})</h4>
+                  <ul className="admin-owned-heroes">
+                    {selectedUser.available_heroes.map(heroName => (
+                      <li key={heroName}>
+                        {heroName}
+                        <button
+                          title={`Revoke ${heroName}`}
+                          onClick={() => handleSetHeroOwned(heroName, false)}
+                          disabled={busy}
+                        >
+                          ✕
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </section>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AdminPanel;
@@ -0,0 +1,247 @@
+import React, { useState, useEffect } from 'react';
+import config from '../config';
+import { authFetch } from '../session';
+import { ReportReason, ReportContext, Suspension } from '../types';
+import SuspensionControls from './SuspensionControls';
+
+type ReportStatus = 'open' | 'resolved' | 'dismissed';
+
+interface ReportSummary {
+  id: number;
+  reporter_id: number;
+  reported_id: number;
+  reporter_username: string;
+  reported_username: string;
+  reason: ReportReason;
+  details: string | null;
+  context: ReportContext;
+  game_id: string | null;
+  status: ReportStatus;
+  created_at: string;
+  reports_against: number;
+}
+
+interface SnapshotMessage {
+  sender_id: number;
+  sender_username: string;
+  message: string;
+  created_at: string;
+}
+
+interface ReportDetail extends ReportSummary {
+  message_snapshot: SnapshotMessage[];
+  resolution_note: string | null;
+}
+
+interface SentMessage {
+  id: number;
+  receiver_username: string;
+  message: string;
+  created_at: string;
+}
+
+// Report queue for the admin panel: pick a report, read the evidence, act on the player, close the report
+const AdminReports: React.FC = () => {
+  const [status, setStatus] = useState<ReportStatus>('open');
+  const [reports, setReports] = useState<ReportSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const [selected, setSelected] = useState<ReportDetail | null>(null);
+  const [recentMessages, setRecentMessages] = useState<SentMessage[]>([]);
+  const [suspensions, setSuspensions] = useState<Suspension[]>([]);
+  const [note, setNote] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    setSelected(null);
+    fetchReports();
+  }, [status]);
+
+  const fetchReports = async () => {
+    try {
+      setLoading(true);
+      const response = await authFetch(`${config.API_BASE_URL}/api/admin/reports?status=${status}`);
+      const data = await response.json();
+      if (data.success) {
+        setReports(data.reports);
+        setError(null);
+      } else {
+        setError(data.message || 'Failed to load reports');
+      }
+    } catch (error) {
+      console.error('Failed to load reports:', error);
+      setError('Failed to load reports');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSelectReport = async (reportId: number) => {
+    try {
+      const response = await authFetch(`${config.API_BASE_URL}/api/admin/reports/${reportId}`);
+      const data = await response.json();
+      if (data.success) {
+        setSelected(data.report);
+        setRecentMessages(data.recentMessages);
+        setSuspensions(data.suspensions);
+        setNote('');
+        setError(null);
+      } else {
+        setError(data.message || 'Failed to load report');
+      }
+    } catch (error) {
+      console.error('Failed to load report:', error);
+      setError('Failed to load report');
+    }
+  };
+
+  const handleCloseReport = async (newStatus: 'resolved' | 'dismissed') => {
+    if (!selected) return;
+
+    setBusy(true);
+    try {
+      const response = await authFetch(`${config.API_BASE_URL}/api/admin/reports/${selected.id}/resolve`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ status: newStatus, note: note.trim() || undefined })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setSelected(null);
+        fetchReports();
+      } else {
+        setError(data.message || 'Failed to update report');
+      }
+    } catch (error) {
+      console.error('Failed to update report:', error);
+      setError('Connection failed. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const formatDate = (timestamp: string) => new Date(timestamp).toLocaleString();
+
+  return (
+    <div className="admin-content">
+      <section className="admin-section">
+        <div className="admin-section-header">
+          <h3>Reports</h3>
+          <select value={status} onChange={(e) => setStatus(e.target.value as ReportStatus)}>
+            <option value="open">Open</option>
+            <option value="resolved">Resolved</option>
+            <option value="dismissed">Dismissed</option>
+          </select>
+        </div>
+        {error && <div className="admin-message error">{error}</div>}
+        {loading ? (
+          <div className="admin-loading">Loading reports...</div>
+        ) : reports.length === 0 ? (
+          <p className="admin-muted">No {status} reports</p>
+        ) : (
+          <ul className="admin-report-list">
+            {reports.map(report => (
+              <li
+                key={report.id}
+                className={`admin-report-row ${selected?.id === report.id ? 'selected' : ''}`}
+                onClick={() => handleSelectReport(report.id)}
+              >
+                <div>
+                  <strong>{report.reported_username}</strong> - {report.reason}
+                  {report.reports_against > 1 && (
+                    <span className="admin-override-badge">{report.reports_against} reports</span>
+                  )}
+                </div>
+                <div className="admin-muted">
+                  by {report.reporter_username} from {report.context} · {formatDate(report.created_at)}
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+
+      <section className="admin-section admin-report-detail">
+        {!selected ? (
+          <p className="admin-muted">Select a report to review it</p>
+        ) : (
+          <>
+            <div className="admin-section-header">
+              <h3>{selected.reported_username}</h3>
+              <span className="admin-muted">Report #{selected.id}</span>
+            </div>
+            <p>
+              <strong>{selected.reason}</strong>, reported by {selected.reporter_username} from {selected.context}
+              {selected.game_id && <> in game <code>{selected.game_id}</code></>}
+            </p>
+            {selected.details && <blockquote className="admin-report-details">{selected.details}</blockquote>}
+
+            <h4>Conversation when reported</h4>
+            {selected.message_snapshot.length === 0 ? (
+              <p className="admin-muted">No messages between these players</p>
+            ) : (
+              <ul className="admin-message-log">
+                {selected.message_snapshot.map((message, index) => (
+                  <li key={index} className={message.sender_id === selected.reported_id ? 'reported' : ''}>
+                    <span className="admin-muted">{formatDate(message.created_at)}</span>{' '}
+                    <strong>{message.sender_username}:</strong> {message.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <h4>Recent messages sent by {selected.reported_username}</h4>
+            {recentMessages.length === 0 ? (
+              <p className="admin-muted">None stored</p>
+            ) : (
+              <ul className="admin-message-log">
+                {recentMessages.map(message => (
+                  <li key={message.id} className="reported">
+                    <span className="admin-muted">{formatDate(message.created_at)}</span>{' '}
+                    <strong>to {message.receiver_username}:</strong> {message.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            <SuspensionControls
+              userId={selected.reported_id}
+              suspensions={suspensions}
+              onChange={setSuspensions}
+            />
+
+            {selected.status === 'open' ? (
+              <>
+                <div className="admin-inline-form">
+                  <input
+                    type="text"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                    placeholder="Note (optional)"
+                  />
+                </div>
+                <div className="admin-inline-form">
+                  <button className="admin-btn" onClick={() => handleCloseReport('resolved')} disabled={busy}>
+                    Mark Resolved
+                  </button>
+                  <button className="admin-btn secondary" onClick={() => handleCloseReport('dismissed')} disabled={busy}>
+                    Dismiss
+                  </button>
+                </div>
+              </>
+            ) : (
+              <p className="admin-muted">
+                {selected.status}{selected.resolution_note && `: ${selected.resolution_note}`}
+              </p>
+            )}
+          </>
+        )}
+      </section>
+    </div>
+  );
+};
+
+export default AdminReports;
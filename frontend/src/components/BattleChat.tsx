@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { BattleChatMessage, BattleEmote } from '../types';
+import { socketService } from '../socketService';
+import '../styles/BattleChat.css';
+
+interface BattleChatProps {
+  gameId: string;
+  playerId: string;
+  isSpectating?: boolean;
+}
+
+const EMOTES: { value: BattleEmote; label: string }[] = [
+  { value: 'good-luck', label: 'Good luck' },
+  { value: 'well-played', label: 'Well played' },
+  { value: 'oops', label: 'Oops' }
+];
+
+const MAX_MESSAGE_LENGTH = 200;
+
+// Games the user muted. Kept outside the component so the mute survives the switch from the
+// draft screen to the battle screen, and ends with the match
+const mutedGames = new Set<string>();
+
+// Chat between the two players of a match. Spectators get a read-only view
+const BattleChat: React.FC<BattleChatProps> = ({ gameId, playerId, isSpectating = false }) => {
+  const [messages, setMessages] = useState<BattleChatMessage[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [isMuted, setIsMuted] = useState(() => mutedGames.has(gameId));
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const isOpenRef = useRef(isOpen);
+  const isMutedRef = useRef(isMuted);
+
+  isOpenRef.current = isOpen;
+  isMutedRef.current = isMuted;
+
+  useEffect(() => {
+    const socket = socketService.getSocket();
+    if (!socket) return;
+
+    const handleHistory = (data: { gameId: string | null; messages: BattleChatMessage[] }) => {
+      if (data.gameId !== gameId) return;
+      setMessages(data.messages);
+    };
+
+    const handleMessage = (message: BattleChatMessage) => {
+      if (message.gameId !== gameId) return;
+      setMessages(prev => [...prev, message]);
+
+      const hidden = isMutedRef.current && message.senderId !== playerId;
+      if (!isOpenRef.current && !hidden) {
+        setUnreadCount(prev => prev + 1);
+      }
+    };
+
+    const handleError = (data: { error: string }) => {
+      setError(data.error);
+    };
+
+    socket.on('battle-chat-history', handleHistory);
+    socket.on('battle-chat-message', handleMessage);
+    socket.on('battle-chat-error', handleError);
+    socketService.getBattleChat();
+
+    return () => {
+      socket.off('battle-chat-history', handleHistory);
+      socket.off('battle-chat-message', handleMessage);
+      socket.off('battle-chat-error', handleError);
+    };
+  }, [gameId, playerId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [messages, isOpen, isMuted]);
+
+  useEffect(() => {
+    if (!error) return;
+    const timer = setTimeout(() => setError(null), 4000);
+    return () => clearTimeout(timer);
+  }, [error]);
+
+  const handleToggleOpen = () => {
+    setIsOpen(prev => !prev);
+    setUnreadCount(0);
+  };
+
+  const handleToggleMute = () => {
+    if (isMuted) {
+      mutedGames.delete(gameId);
+    } else {
+      mutedGames.add(gameId);
+    }
+    setIsMuted(!isMuted);
+  };
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text) return;
+    socketService.sendBattleChat(text);
+    setDraft('');
+  };
+
+  // Muting hides everything not sent by this user; for a spectator that's the whole chat
+  const visibleMessages = isMuted ? messages.filter(m => m.senderId === playerId && !isSpectating) : messages;
+
+  return (
+    <div className="battle-chat">
+      <button
+        className={`battle-chat-toggle ${isOpen ? 'open' : ''}`}
+        onClick={handleToggleOpen}
+        title="Battle chat"
+      >
+        💬
+        {unreadCount > 0 && (
+          <span className="battle-chat-badge">{unreadCount > 9 ? '9+' : unreadCount}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="battle-chat-panel">
+          <div className="battle-chat-header">
+            <span>{isSpectating ? 'Battle Chat (spectating)' : 'Battle Chat'}</span>
+            <button
+              className={`battle-chat-mute ${isMuted ? 'muted' : ''}`}
+              onClick={handleToggleMute}
+              title={isMuted ? 'Show chat for this match' : 'Hide chat for this match'}
+            >
+              {isMuted ? '🔇 Muted' : '🔊 Mute'}
+            </button>
+          </div>
+
+          <div className="battle-chat-messages">
+            {visibleMessages.length === 0 ? (
+              <div className="battle-chat-empty">
+                {isMuted ? 'Chat is muted for this match' : 'No messages yet'}
+              </div>
+            ) : (
+              visibleMessages.map(message => (
+                <div
+                  key={message.id}
+                  className={`battle-chat-message ${message.senderId === playerId && !isSpectating ? 'own' : ''} ${message.emote ? 'emote' : ''}`}
+                >
+                  <span className="battle-chat-sender">{message.senderName}:</span>{' '}
+                  <span className="battle-chat-text">{message.text}</span>
+                </div>
+              ))
+            )}
+            <div ref={messagesEndRef} />
+          </div>
+
+          {error && <div className="battle-chat-error">{error}</div>}
+
+          {isSpectating ? (
+            <div className="battle-chat-readonly">Spectators can read the battle chat but not post</div>
+          ) : (
+            <>
+              <div className="battle-chat-emotes">
+                {EMOTES.map(emote => (
+                  <button
+                    key={emote.value}
+                    className="battle-chat-emote"
+                    onClick={() => socketService.sendBattleEmote(emote.value)}
+                  >
+                    {emote.label}
+                  </button>
+                ))}
+              </div>
+              <form className="battle-chat-input" onSubmit={handleSend}>
+                <input
+                  type="text"
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  placeholder="Say something..."
+                  maxLength={MAX_MESSAGE_LENGTH}
+                />
+                <button type="submit" disabled={!draft.trim()}>Send</button>
+              </form>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BattleChat;
@@ -1,10 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { GameState, Player, Hero } from '../types';
+import { GameState, Player, Hero, ActionTimerState, Spectator, FriendlySeries, PlayerRank, RatedMode } from '../types';
 import { socketService } from '../socketService';
 import HeroCard from './HeroCard';
 import RewardsDisplay from './RewardsDisplay';
+import ActionTimer from './ActionTimer';
+import ReportPlayerModal from './ReportPlayerModal';
+import BattleChat from './BattleChat';
+import SpectatorChat from './SpectatorChat';
+import RankBadge from './RankBadge';
 import config from '../config';
 
+const RATING_MODE_LABELS: Record<RatedMode, string> = {
+  ranked: 'Ranked Draft',
+  draft: 'Draft',
+  random: 'Random'
+};
+
 interface BattlePhaseProps {
   gameState: GameState;
   currentPlayer: Player;
@@ -15,7 +26,7 @@ interface BattlePhaseProps {
   isSpectating?: boolean;
   spectatingPlayerId?: string;
   onStopSpectating?: () => void;
-  spectators?: Array<{ socketId: string; username: string; spectatingPlayerId: string }>;
+  spectators?: Spectator[];
   timekeeperAbilitySelection?: {
     ally: string;
     target: string;
@@ -27,6 +38,7 @@ interface BattlePhaseProps {
     }>;
   };
   onClearTimekeeperSelection?: () => void;
+  actionTimer?: ActionTimerState | null;
   rewardsData?: {
     oldXP: number;
     newXP: number;
@@ -52,6 +64,7 @@ const BattlePhase: React.FC<BattlePhaseProps> = ({
   spectators = [],
   timekeeperAbilitySelection,
   onClearTimekeeperSelection,
+  actionTimer,
   rewardsData
 }) => {
 
@@ -59,7 +72,44 @@ const BattlePhase: React.FC<BattlePhaseProps> = ({
   const [selectingAllyForAbility, setSelectingAllyForAbility] = useState<{ abilityIndex: number; targetId: string } | null>(null);
   const [showSurrenderConfirm, setShowSurrenderConfirm] = useState<boolean>(false);
   const [showSpectatorList, setShowSpectatorList] = useState<boolean>(false);
+  const [showReportOpponent, setShowReportOpponent] = useState<boolean>(false);
   const [opponentDisconnectTime, setOpponentDisconnectTime] = useState<number | null>(null);
+  const [friendlySeries, setFriendlySeries] = useState<FriendlySeries | null>(null);
+  const [rematchError, setRematchError] = useState<string | null>(null);
+  const [ratingUpdate, setRatingUpdate] = useState<{ mode: RatedMode; newRank: PlayerRank; ratingChange: number } | null>(null);
+
+  // Rated games: the new rank arrives once the result is in
+  useEffect(() => {
+    const socket = socketService.getSocket();
+    if (!socket || isSpectating) return;
+
+    const handleRatingUpdate = (data: { mode: RatedMode; newRank: PlayerRank; ratingChange: number }) => setRatingUpdate(data);
+    socket.on('rating-update', handleRatingUpdate);
+    return () => {
+      socket.off('rating-update', handleRatingUpdate);
+    };
+  }, [isSpectating]);
+
+  // Friendly rooms: the series score arrives when the game ends and again as players vote for a
+  // rematch
+  useEffect(() => {
+    const socket = socketService.getSocket();
+    if (!socket || isSpectating || !gameState.roomName) return;
+
+    const handleSeriesUpdate = (series: FriendlySeries) => {
+      setFriendlySeries(series);
+      setRematchError(null);
+    };
+    const handleRematchError = (data: { error: string }) => setRematchError(data.error);
+
+    socket.on('friendly-series-update', handleSeriesUpdate);
+    socket.on('rematch-error', handleRematchError);
+
+    return () => {
+      socket.off('friendly-series-update', handleSeriesUpdate);
+      socket.off('rematch-error', handleRematchError);
+    };
+  }, [isSpectating, gameState.roomName]);
 
   // Poll for disconnection timer updates
   useEffect(() => {
@@ -397,6 +447,7 @@ const BattlePhase: React.FC<BattlePhaseProps> = ({
           <div className="opponent-area">
             <div className="team-label-container">
               <h3 className="team-label opponent-label">{opponent?.name || 'Opponent Player'}</h3>
+              {opponent?.rank && <RankBadge rank={opponent.rank} compact />}
               <div className="player-profile-icon">
                 <img 
                   src={`${config.IMAGE_BASE_URL}/hero-images/${(opponent?.profile_icon || 'sorcerer').toLowerCase().replace(/[^a-z0-9]/g, '')}.png`}
@@ -444,6 +495,7 @@ const BattlePhase: React.FC<BattlePhaseProps> = ({
           <div className="player-area">
             <div className="team-label-container">
               <h3 className="team-label player-label">{currentPlayer.name || 'Your Team'}</h3>
+              {currentPlayer.rank && <RankBadge rank={currentPlayer.rank} compact />}
               <div className="player-profile-icon">
                 <img 
                   src={`${config.IMAGE_BASE_URL}/hero-images/${(currentPlayer.profile_icon || 'sorcerer').toLowerCase().replace(/[^a-z0-9]/g, '')}.png`}
@@ -505,6 +557,7 @@ const BattlePhase: React.FC<BattlePhaseProps> = ({
         {/* Action Bar - always show for visual consistency */}
         <div className="action-bar">
           <h3>{isSpectating ? 'Spectating' : 'Actions'}</h3>
+          {gameState.phase === 'battle' && <ActionTimer timer={actionTimer} playerId={playerId} />}
           {isSpectating ? (
             // Spectator mode - show minimal UI with stop spectating button
             <div className="spectator-controls">
@@ -712,7 +765,7 @@ const BattlePhase: React.FC<BattlePhaseProps> = ({
                                     activeHero.hero.statusEffects.silenced?.active);
                   
                   // Check if abilities are permanently disabled (Dragon Rider's Dismount)
-                  const isPermanentlyDisabled = (activeHero.hero as any).permanentDisables?.abilities;
+                  const isPermanentlyDisabled = activeHero.hero.permanentDisables?.abilities;
                   
                   // For heroes with multiple abilities (like Blood Hunter), check individual ability usage
                   let isDisabled;
@@ -829,21 +882,17 @@ const BattlePhase: React.FC<BattlePhaseProps> = ({
                 {/* Special ability activation button for activated specials like Mech's Self Destruct */}
                 {(() => {
                   // Check if hero has an activated special ability
-                  const hasActivatedSpecial = activeHero.hero.Special && 
-                    (Array.isArray(activeHero.hero.Special) 
-                      ? activeHero.hero.Special.some((s: any) => s.category === 'activated_aoe' || s.category === 'activated_aoe_heal')
-                      : ((activeHero.hero.Special as any).category === 'activated_aoe' || (activeHero.hero.Special as any).category === 'activated_aoe_heal'));
+                  const activatedCategories = ['activated_aoe', 'activated_aoe_heal', 'activated'];
+                  const specials = Array.isArray(activeHero.hero.Special) ? activeHero.hero.Special : [activeHero.hero.Special];
+                  const special = specials.find(s => activatedCategories.includes(s?.category || ''));
+                  if (!special) return null;
                   
-                  if (!hasActivatedSpecial) return null;
-                  
-                  const special = Array.isArray(activeHero.hero.Special)
-                    ? activeHero.hero.Special.find((s: any) => s.category === 'activated_aoe' || s.category === 'activated_aoe_heal')
-                    : activeHero.hero.Special;
-                  
-                  // Check if permanently disabled (persists through resurrection)
-                  const isPermanentlyDisabled = (activeHero.hero as any).permanentDisables?.special || false;
-                  const isDisabled = isPermanentlyDisabled || myPlayerData.hasUsedSpecial || false;
-                  const specialName = activeHero.hero.name === 'Bomber' ? 'Explosion' : (special as any).name;
+                  // Targeted specials (Healer's Cleanse) follow their own frequency; the others work once
+                  // per battle (persists through resurrection)
+                  const isDisabled = special.category === 'activated'
+                    ? !!activeHero.hero.spentSpecials?.[special.name]
+                    : activeHero.hero.permanentDisables?.special || myPlayerData.hasUsedSpecial || false;
+                  const specialName = activeHero.hero.name === 'Bomber' ? 'Explosion' : special.name;
                   const buttonText = isDisabled ? `${specialName} (Used)` : specialName;
                   
                   return (
@@ -892,6 +941,52 @@ const BattlePhase: React.FC<BattlePhaseProps> = ({
     }
   };
 
+  // Series score and rematch vote under a friendly game's result
+  const renderFriendlySeries = (series: FriendlySeries) => {
+    const other = series.score.find(entry => entry.playerId !== playerId);
+    const votedAgain = series.rematchVotes.includes(playerId);
+    const otherVoted = !!other && series.rematchVotes.includes(other.playerId);
+    const seriesWinner = series.score.find(entry => entry.playerId === series.winnerId);
+    const inProgress = series.bestOf > 1 && !series.winnerId;
+
+    return (
+      <div className="friendly-series">
+        {series.bestOf > 1 && (
+          <div className="friendly-series-score">
+            {series.score.map(entry => `${entry.name} ${entry.wins}`).join(' – ')}
+            <span className="friendly-series-length">Best of {series.bestOf}</span>
+          </div>
+        )}
+        {seriesWinner && (
+          <div className="friendly-series-winner">
+            🏆 {seriesWinner.playerId === playerId ? 'You win' : `${seriesWinner.name} wins`} the series!
+          </div>
+        )}
+
+        {!series.open ? (
+          <p className="friendly-series-status">{other?.name || 'Your opponent'} left the room</p>
+        ) : (
+          <>
+            <button
+              className="rematch-button"
+              onClick={() => socketService.requestRematch()}
+              disabled={votedAgain}
+            >
+              {inProgress ? 'Next Game' : 'Rematch'}
+            </button>
+            {votedAgain && other && (
+              <p className="friendly-series-status">Waiting for {other.name}…</p>
+            )}
+            {!votedAgain && otherVoted && (
+              <p className="friendly-series-status">{other?.name} wants to play again</p>
+            )}
+          </>
+        )}
+        {rematchError && <p className="friendly-series-error">{rematchError}</p>}
+      </div>
+    );
+  };
+
   const renderGameOverOverlay = () => {
     if (isSpectating) {
       // Spectator view - just show who won
@@ -933,6 +1028,9 @@ const BattlePhase: React.FC<BattlePhaseProps> = ({
                 ? 'Congratulations! You have defeated your opponent!' 
                 : 'Better luck next time! Your opponent was victorious.'}
             </p>
+            <p style={{ fontSize: '12px', color: '#888', userSelect: 'all' }}>
+              Replay ID: {gameState.id}
+            </p>
             
             {/* Rewards Display */}
             {rewardsData && (
@@ -948,6 +1046,18 @@ const BattlePhase: React.FC<BattlePhaseProps> = ({
                 leveledUp={rewardsData.leveledUp}
               />
             )}
+
+            {ratingUpdate && (
+              <div className="rating-update">
+                <span className="rating-update-mode">{RATING_MODE_LABELS[ratingUpdate.mode]}</span>
+                <RankBadge rank={ratingUpdate.newRank} />
+                <span className={`rating-update-change ${ratingUpdate.ratingChange >= 0 ? 'gain' : 'loss'}`}>
+                  {ratingUpdate.ratingChange >= 0 ? '+' : ''}{ratingUpdate.ratingChange}
+                </span>
+              </div>
+            )}
+
+            {friendlySeries && renderFriendlySeries(friendlySeries)}
             
             {isSurvivalMode ? (
               <button 
@@ -964,13 +1074,44 @@ const BattlePhase: React.FC<BattlePhaseProps> = ({
                 Return to Lobby
               </button>
             )}
+
+            {opponent && !opponent.isAI && (
+              <button
+                className="report-opponent-button"
+                onClick={() => setShowReportOpponent(true)}
+              >
+                🚩 Report {opponent.name}
+              </button>
+            )}
           </div>
         </div>
+
+        {showReportOpponent && opponent && (
+          <ReportPlayerModal
+            playerName={opponent.name}
+            gameId={gameState.id}
+            context="post-game"
+            onClose={() => setShowReportOpponent(false)}
+          />
+        )}
       </div>
     );
   };
 
   const battleContent = renderBattlePhase();
+
+  // No one to talk to in games against the AI. Spectators also get their own channel
+  const battleChat = (
+    <>
+      {opponent && !opponent.isAI && (
+        <BattleChat gameId={gameState.id} playerId={playerId} isSpectating={isSpectating} />
+      )}
+      {isSpectating && <SpectatorChat gameId={gameState.id} spectators={spectators} />}
+    </>
+  );
+
+  // The host of a friendly room picks the spectator chat's moderators
+  const isRoomHost = !isSpectating && !!gameState.hostName && gameState.hostName === currentPlayer.name;
   
   // If game is ended, show battle scene with overlay
   if (gameState.phase === 'ended') {
@@ -978,6 +1119,7 @@ const BattlePhase: React.FC<BattlePhaseProps> = ({
       <div className="battle-with-overlay">
         {battleContent}
         {renderGameOverOverlay()}
+        {battleChat}
       </div>
     );
   }
@@ -988,6 +1130,7 @@ const BattlePhase: React.FC<BattlePhaseProps> = ({
       <div className="battle-with-overlay">
         {battleContent}
         {renderInitiativeOverlay()}
+        {battleChat}
       </div>
     );
   }
@@ -995,6 +1138,7 @@ const BattlePhase: React.FC<BattlePhaseProps> = ({
   return (
     <>
       {battleContent}
+      {battleChat}
       
       {/* Spectator Count Indicator - Bottom Right (only visible to players, not spectators) */}
       {!isSpectating && spectators.length > 0 && (
@@ -1084,8 +1228,25 @@ const BattlePhase: React.FC<BattlePhaseProps> = ({
                   gap: '8px'
                 }}
               >
-                <span style={{ fontSize: '16px' }}>👤</span>
+                <span style={{ fontSize: '16px' }}>{spectator.role === 'moderator' ? '🛡️' : '👤'}</span>
                 <span>{spectator.username}</span>
+                {isRoomHost && (
+                  <button
+                    onClick={() => socketService.setSpectatorModerator(spectator.username, spectator.role !== 'moderator')}
+                    style={{
+                      marginLeft: 'auto',
+                      backgroundColor: 'transparent',
+                      color: '#7fb8ff',
+                      border: '1px solid #4a90e2',
+                      borderRadius: '4px',
+                      padding: '2px 6px',
+                      fontSize: '12px',
+                      cursor: 'pointer'
+                    }}
+                  >
+                    {spectator.role === 'moderator' ? 'Remove mod' : 'Make mod'}
+                  </button>
+                )}
               </li>
             ))}
           </ul>
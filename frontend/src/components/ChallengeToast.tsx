@@ -0,0 +1,135 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Challenge, ChallengeCloseReason, ChallengeMode } from '../types';
+import { socketService } from '../socketService';
+import '../styles/ChallengeToast.css';
+
+interface ChallengeToastProps {
+  currentUserId: number;
+}
+
+const MODE_LABELS: Record<ChallengeMode, string> = {
+  draft: 'Draft',
+  random: 'Random',
+  dragonflow: 'Dragonflow'
+};
+
+// Shown to the challenger when their challenge ends without a game
+const CLOSE_MESSAGES: Partial<Record<ChallengeCloseReason, string>> = {
+  declined: 'declined your challenge',
+  expired: "didn't answer your challenge",
+  unavailable: "can't play right now"
+};
+
+// Toasts for pending challenges: incoming ones can be accepted or declined, outgoing ones
+// cancelled. The server closes them, so they disappear on its word, not on a local timer
+const ChallengeToast: React.FC<ChallengeToastProps> = ({ currentUserId }) => {
+  const [challenges, setChallenges] = useState<Challenge[]>([]);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const challengesRef = useRef(challenges);
+
+  challengesRef.current = challenges;
+
+  useEffect(() => {
+    const socket = socketService.getSocket();
+    if (!socket) return;
+
+    const handleResponse = (data: { success: boolean; challenge?: Challenge; error?: string }) => {
+      if (data.success && data.challenge) {
+        const sent = data.challenge;
+        setChallenges(prev => [...prev, sent]);
+      } else if (data.error) {
+        setNotice(data.error);
+      }
+    };
+
+    const handleReceived = (challenge: Challenge) => {
+      setChallenges(prev => [...prev, challenge]);
+    };
+
+    const handleClosed = (data: { challengeId: string; reason: ChallengeCloseReason }) => {
+      const closed = challengesRef.current.find(c => c.id === data.challengeId);
+      const message = CLOSE_MESSAGES[data.reason];
+      if (closed && closed.fromUserId === currentUserId && message) {
+        setNotice(`${closed.toUsername} ${message}`);
+      }
+      setChallenges(prev => prev.filter(c => c.id !== data.challengeId));
+    };
+
+    socket.on('challenge-response', handleResponse);
+    socket.on('challenge-received', handleReceived);
+    socket.on('challenge-closed', handleClosed);
+
+    return () => {
+      socket.off('challenge-response', handleResponse);
+      socket.off('challenge-received', handleReceived);
+      socket.off('challenge-closed', handleClosed);
+    };
+  }, [currentUserId]);
+
+  // Tick the countdowns while anything is pending
+  useEffect(() => {
+    if (challenges.length === 0) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [challenges.length]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), 4000);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  if (challenges.length === 0 && !notice) return null;
+
+  const secondsLeft = (challenge: Challenge) => Math.max(0, Math.ceil((challenge.expiresAt - now) / 1000));
+
+  return (
+    <div className="challenge-toasts">
+      {challenges.map(challenge => {
+        const incoming = challenge.toUserId === currentUserId;
+        return (
+          <div key={challenge.id} className={`challenge-toast ${incoming ? 'incoming' : 'outgoing'}`}>
+            <div className="challenge-toast-text">
+              {incoming ? (
+                <><strong>{challenge.fromUsername}</strong> challenges you to {MODE_LABELS[challenge.mode]}</>
+              ) : (
+                <>Waiting for <strong>{challenge.toUsername}</strong> to accept {MODE_LABELS[challenge.mode]}</>
+              )}
+              <span className="challenge-toast-timer">{secondsLeft(challenge)}s</span>
+            </div>
+            <div className="challenge-toast-actions">
+              {incoming ? (
+                <>
+                  <button
+                    className="challenge-accept"
+                    onClick={() => socketService.respondToChallenge(challenge.id, true)}
+                  >
+                    Accept
+                  </button>
+                  <button
+                    className="challenge-decline"
+                    onClick={() => socketService.respondToChallenge(challenge.id, false)}
+                  >
+                    Decline
+                  </button>
+                </>
+              ) : (
+                <button
+                  className="challenge-decline"
+                  onClick={() => socketService.cancelChallenge(challenge.id)}
+                >
+                  Cancel
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      {notice && <div className="challenge-toast notice">{notice}</div>}
+    </div>
+  );
+};
+
+export default ChallengeToast;
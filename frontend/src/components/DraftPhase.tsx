@@ -1,20 +1,24 @@
 import React, { useState, useEffect } from 'react';
-import { GameState, Player, Hero } from '../types';
+import { GameState, Player, Hero, ActionTimerState } from '../types';
 import { socketService } from '../socketService';
 import HeroCard from './HeroCard';
+import ActionTimer from './ActionTimer';
+import BattleChat from './BattleChat';
 
 interface DraftPhaseProps {
   gameState: GameState;
   currentPlayer: Player;
   opponent: Player | null;
   allHeroes: Hero[];
+  actionTimer?: ActionTimerState | null;
 }
 
 const DraftPhase: React.FC<DraftPhaseProps> = ({ 
   gameState, 
   currentPlayer, 
   opponent, 
-  allHeroes 
+  allHeroes,
+  actionTimer
 }) => {
   const [selectedCard, setSelectedCard] = useState<string | null>(null);
   const [teamOrder, setTeamOrder] = useState<string[]>([]);
@@ -217,6 +221,7 @@ const DraftPhase: React.FC<DraftPhaseProps> = ({
         </div>
 
         <div className="draft-actions">
+          <ActionTimer timer={actionTimer} playerId={currentPlayer.id} />
           <button
             onClick={handleBanCard}
             disabled={!selectedCard || !!currentPlayer.bannedCard || gameState.phase !== 'draft' || gameState.currentDraftPhase !== 0}
@@ -230,8 +235,10 @@ const DraftPhase: React.FC<DraftPhaseProps> = ({
           <p>You banned: <strong>{currentPlayer.bannedCard}</strong></p>
         )}
         
-        {opponent?.bannedCard && (
+        {opponent?.bannedCard ? (
           <p>Opponent banned: <strong>{opponent.bannedCard}</strong></p>
+        ) : opponent?.hasBanned && (
+          <p>Opponent has chosen their ban</p>
         )}
       </div>
     );
@@ -288,6 +295,7 @@ const DraftPhase: React.FC<DraftPhaseProps> = ({
           </div>
 
           <div className="draft-actions">
+            <ActionTimer timer={actionTimer} playerId={currentPlayer.id} />
             <button
               onClick={handlePickCard}
               disabled={!selectedCard || !canPick()}
@@ -376,6 +384,7 @@ const DraftPhase: React.FC<DraftPhaseProps> = ({
         )}
 
         <div className="setup-actions">
+          <ActionTimer timer={actionTimer} playerId={currentPlayer.id} />
           {!isReady ? (
             <button
               onClick={handleSetAttackOrder}
@@ -394,13 +403,18 @@ const DraftPhase: React.FC<DraftPhaseProps> = ({
     );
   };
 
-  if (gameState.phase === 'setup') {
-    return renderSetupPhase();
-  } else if (gameState.currentDraftPhase === 0) {
-    return renderBanPhase();
-  } else {
-    return renderPickPhase();
-  }
+  const phaseContent = gameState.phase === 'setup'
+    ? renderSetupPhase()
+    : gameState.currentDraftPhase === 0
+      ? renderBanPhase()
+      : renderPickPhase();
+
+  return (
+    <>
+      {phaseContent}
+      {opponent && !opponent.isAI && <BattleChat gameId={gameState.id} playerId={currentPlayer.id} />}
+    </>
+  );
 };
 
 export default DraftPhase;
\ No newline at end of file
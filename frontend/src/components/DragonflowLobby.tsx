@@ -1,27 +1,20 @@
 import React, { useState, useEffect } from 'react';
 import DragonflowGame from './DragonflowGame';
 import { socketService } from '../socketService';
+import { DragonflowMatch } from '../types/dragonflow';
 import '../styles/DragonflowLobby.css';
 
 interface DragonflowLobbyProps {
   onBack: () => void;
   username: string;
   userId: number;
+  initialMatch?: DragonflowMatch | null; // a match that started before the lobby opened
 }
 
-interface MatchData {
-  gameId: string;
-  opponent: {
-    username: string;
-    userId: string;
-  };
-  yourRole: 'player1' | 'player2';
-}
-
-const DragonflowLobby: React.FC<DragonflowLobbyProps> = ({ onBack, username, userId }) => {
+const DragonflowLobby: React.FC<DragonflowLobbyProps> = ({ onBack, username, userId, initialMatch = null }) => {
   const [isSearching, setIsSearching] = useState(false);
   const [queueTime, setQueueTime] = useState(0);
-  const [matchData, setMatchData] = useState<MatchData | null>(null);
+  const [matchData, setMatchData] = useState<DragonflowMatch | null>(initialMatch);
 
   useEffect(() => {
     let interval: NodeJS.Timeout;
@@ -36,7 +29,7 @@ const DragonflowLobby: React.FC<DragonflowLobbyProps> = ({ onBack, username, use
   }, [isSearching]);
 
   useEffect(() => {
-    const handleMatchFound = (data: MatchData) => {
+    const handleMatchFound = (data: DragonflowMatch) => {
       console.log('Match found!', data);
       setMatchData(data);
       setIsSearching(false);
@@ -95,6 +88,7 @@ const DragonflowLobby: React.FC<DragonflowLobbyProps> = ({ onBack, username, use
         gameId={matchData.gameId}
         opponent={matchData.opponent}
         playerRole={matchData.yourRole}
+        initialState={matchData.gameState}
       />
     );
   }
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
-import { OnlinePlayer, FriendRequest } from '../types';
+import { OnlinePlayer, FriendRequest, BlockedUser, Presence, ChallengeMode } from '../types';
 import { socketService } from '../socketService';
+import ReportPlayerModal from './ReportPlayerModal';
 
 interface FriendsOverlayProps {
   onClose: () => void;
@@ -20,6 +21,55 @@ let friendsDataCache: {
 
 const CACHE_TTL = 30000; // 30 seconds
 
+const MODE_LABELS: Record<string, string> = {
+  draft: 'Draft',
+  ranked: 'Ranked Draft',
+  random: 'Random',
+  practice: 'Practice',
+  survival: 'Survival',
+  gauntlet: 'Gauntlet',
+  dragonflow: 'Dragonflow',
+  friendly: 'a friendly room'
+};
+
+const modeLabel = (mode?: string) => (mode && MODE_LABELS[mode]) || 'a match';
+
+// Icon and text for what a friend is doing
+const describePresence = (presence: Presence): { icon: string; label: string } => {
+  switch (presence.status) {
+    case 'away':
+      return { icon: '🌙', label: 'Away' };
+    case 'searching':
+      return { icon: '🔍', label: presence.roomName ? `Waiting in "${presence.roomName}"` : `Searching for ${modeLabel(presence.mode)}` };
+    case 'in-game':
+      return { icon: '⚔️', label: presence.roomName ? `Playing in "${presence.roomName}"` : `Playing ${modeLabel(presence.mode)}` };
+    case 'survival':
+      return { icon: '🛡️', label: `Survival run ${presence.wins ?? 0}-${presence.losses ?? 0}` };
+    case 'gauntlet':
+      return { icon: '🏆', label: `Gauntlet Trial ${presence.trial ?? '?'}${presence.searching ? ' (searching)' : ''}` };
+    case 'dragonflow':
+      return { icon: '🐉', label: 'Playing Dragonflow' };
+    case 'spectating':
+      return { icon: '👁️', label: 'Spectating' };
+    default:
+      return { icon: '🟢', label: 'In lobby' };
+  }
+};
+
+const formatSince = (since: number) => new Date(since).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Friends report whether their game can be watched; for anyone else fall back to isInGame
+const canWatchPlayer = (player: OnlinePlayer) => player.presence ? !!player.presence.canWatch : player.isInGame;
+
+const CHALLENGE_MODES: { value: ChallengeMode; label: string }[] = [
+  { value: 'draft', label: '📋 Draft' },
+  { value: 'random', label: '🎲 Random' },
+  { value: 'dragonflow', label: '🐉 Dragonflow' }
+];
+
+// The server turns down challenges to friends who are busy; don't offer them
+const canChallengePlayer = (player: OnlinePlayer) => !player.presence || player.presence.status === 'lobby' || player.presence.status === 'away';
+
 const FriendsOverlay: React.FC<FriendsOverlayProps> = ({ 
   onClose, 
   onOpenMessage,
@@ -37,6 +87,10 @@ const FriendsOverlay: React.FC<FriendsOverlayProps> = ({
   const [error, setError] = useState<string | null>(null);
   const [_checkingSpectatable, setCheckingSpectatable] = useState<number | null>(null);
   const [lastRefresh, setLastRefresh] = useState<number>(0);
+  const [reportingPlayer, setReportingPlayer] = useState<OnlinePlayer | null>(null);
+  const [blockedUsers, setBlockedUsers] = useState<BlockedUser[]>([]);
+  const [showChallengeModes, setShowChallengeModes] = useState(false);
+  const [showBlocked, setShowBlocked] = useState(false);
 
   useEffect(() => {
     // Check if we have valid cached data
@@ -62,6 +116,9 @@ const FriendsOverlay: React.FC<FriendsOverlayProps> = ({
       socketService.getFriendRequests();
     }
 
+    // The block list is small and changes rarely, so it isn't cached
+    socketService.getBlockedUsers();
+
     // Set up socket listeners
     const socket = socketService.getSocket();
     if (!socket) return;
@@ -164,6 +221,36 @@ const FriendsOverlay: React.FC<FriendsOverlayProps> = ({
       }
     };
 
+    const handleBlockedUsersResponse = (data: { success: boolean; blockedUsers?: BlockedUser[] }) => {
+      if (data.success) {
+        setBlockedUsers(data.blockedUsers || []);
+      }
+    };
+
+    const handleBlockUserResponse = (data: { success: boolean; blockedUsers?: BlockedUser[]; error?: string }) => {
+      if (data.success) {
+        const blocked = data.blockedUsers || [];
+        const blockedIds = blocked.map(b => b.id);
+        setBlockedUsers(blocked);
+        // Blocking also unfriends, and blocked players are hidden from the online list
+        setOnlinePlayers(prev => prev.filter(p => !blockedIds.includes(p.id)));
+        setFriendIds(prev => prev.filter(id => !blockedIds.includes(id)));
+        friendsDataCache = null;
+        setError(null);
+      } else {
+        setError(data.error || 'Failed to block player');
+      }
+    };
+
+    const handleUnblockUserResponse = (data: { success: boolean; blockedUsers?: BlockedUser[]; error?: string }) => {
+      if (data.success) {
+        setBlockedUsers(data.blockedUsers || []);
+        friendsDataCache = null;
+      } else {
+        setError(data.error || 'Failed to unblock player');
+      }
+    };
+
     const handlePlayerOnlineStatusChanged = (data: any) => {
       console.log('🔔 Player online status changed:', data);
       const { userId, username, online } = data;
@@ -186,6 +273,13 @@ const FriendsOverlay: React.FC<FriendsOverlayProps> = ({
       friendsDataCache = null;
     };
 
+    const handleFriendPresenceChanged = (data: { userId: number; presence: Presence }) => {
+      const update = (player: OnlinePlayer) => player.id === data.userId ? { ...player, presence: data.presence } : player;
+      setOnlinePlayers(prev => prev.map(update));
+      setSelectedPlayer(prev => prev && update(prev));
+      friendsDataCache = null;
+    };
+
     socket.on('online-players-response', handleOnlinePlayersResponse);
     socket.on('friend-requests-response', handleFriendRequestsResponse);
     socket.on('friend-request-response', handleFriendRequestResponse);
@@ -194,6 +288,10 @@ const FriendsOverlay: React.FC<FriendsOverlayProps> = ({
     socket.on('remove-friend-response', handleRemoveFriendResponse);
     socket.on('player-spectatable-result', handlePlayerSpectatableResult);
     socket.on('player-online-status-changed', handlePlayerOnlineStatusChanged);
+    socket.on('friend-presence-changed', handleFriendPresenceChanged);
+    socket.on('blocked-users-response', handleBlockedUsersResponse);
+    socket.on('block-user-response', handleBlockUserResponse);
+    socket.on('unblock-user-response', handleUnblockUserResponse);
 
     // Cleanup function to remove listeners when component unmounts (friends window closes)
     return () => {
@@ -206,10 +304,21 @@ const FriendsOverlay: React.FC<FriendsOverlayProps> = ({
       socket.off('remove-friend-response', handleRemoveFriendResponse);
       socket.off('player-spectatable-result', handlePlayerSpectatableResult);
       socket.off('player-online-status-changed', handlePlayerOnlineStatusChanged);
+      socket.off('friend-presence-changed', handleFriendPresenceChanged);
+      socket.off('blocked-users-response', handleBlockedUsersResponse);
+      socket.off('block-user-response', handleBlockUserResponse);
+      socket.off('unblock-user-response', handleUnblockUserResponse);
     };
   }, []); // Empty dependency array means this runs once when component mounts and cleanup when unmounts
 
-  const handlePlayerAction = (player: OnlinePlayer, action: 'addFriend' | 'message' | 'watchGame' | 'removeFriend') => {
+  // The outcome shows up in the challenge toasts
+  const handleChallenge = (player: OnlinePlayer, mode: ChallengeMode) => {
+    socketService.sendChallenge(player.id, mode);
+    setShowChallengeModes(false);
+    setSelectedPlayer(null);
+  };
+
+  const handlePlayerAction = (player: OnlinePlayer, action: 'addFriend' | 'message' | 'watchGame' | 'removeFriend' | 'report' | 'block') => {
     switch (action) {
       case 'addFriend':
         socketService.sendFriendRequest(player.username);
@@ -230,6 +339,16 @@ const FriendsOverlay: React.FC<FriendsOverlayProps> = ({
         socketService.checkPlayerSpectatable(player.id.toString());
         setSelectedPlayer(null);
         break;
+      case 'report':
+        setReportingPlayer(player);
+        setSelectedPlayer(null);
+        break;
+      case 'block':
+        if (window.confirm(`Block ${player.username}? You won't be able to message, friend or play each other, and they won't see you online.`)) {
+          socketService.blockUser(player.id);
+        }
+        setSelectedPlayer(null);
+        break;
     }
   };
 
@@ -367,6 +486,30 @@ const FriendsOverlay: React.FC<FriendsOverlayProps> = ({
             )}
           </div>
 
+          {/* Blocked Players */}
+          {blockedUsers.length > 0 && (
+            <div className="blocked-players-section">
+              <button className="blocked-players-toggle" onClick={() => setShowBlocked(!showBlocked)}>
+                {showBlocked ? '▾' : '▸'} Blocked Players ({blockedUsers.length})
+              </button>
+              {showBlocked && (
+                <div className="blocked-players-list">
+                  {blockedUsers.map((blocked) => (
+                    <div key={blocked.id} className="blocked-player-item">
+                      <span className="request-username">{blocked.username}</span>
+                      <button
+                        className="unblock-button"
+                        onClick={() => socketService.unblockUser(blocked.id)}
+                      >
+                        Unblock
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Online Players List */}
           <div className="online-players-section">
             <div className="online-players-header">
@@ -383,16 +526,27 @@ const FriendsOverlay: React.FC<FriendsOverlayProps> = ({
                   {sortedPlayers.length > 0 ? (
                     sortedPlayers.map((player) => {
                       const isFriend = friendIds.includes(player.id);
+                      const presence = isFriend && player.presence ? describePresence(player.presence) : null;
                       return (
                         <div key={player.id} className="player-item">
                           <div 
                             className={`player-info ${isFriend ? 'friend' : ''}`}
-                            onClick={() => setSelectedPlayer(selectedPlayer?.id === player.id ? null : player)}
+                            onClick={() => {
+                              setSelectedPlayer(selectedPlayer?.id === player.id ? null : player);
+                              setShowChallengeModes(false);
+                            }}
                           >
                             <span className="player-username">{player.username || 'Unknown Player'}</span>
                             {isFriend && <span className="friend-badge">Friend</span>}
-                            {player.isInGame && <span className="in-game-badge">In Game</span>}
+                            {!presence && player.isInGame && <span className="in-game-badge">In Game</span>}
                           </div>
+                          {presence && player.presence && (
+                            <div className={`player-presence presence-${player.presence.status}`}>
+                              <span className="presence-icon">{presence.icon}</span>
+                              <span className="presence-label">{presence.label}</span>
+                              <span className="presence-since">since {formatSince(player.presence.since)}</span>
+                            </div>
+                          )}
                         </div>
                       );
                     })
@@ -436,18 +590,63 @@ const FriendsOverlay: React.FC<FriendsOverlayProps> = ({
                   ❌ Remove Friend
                 </button>
               )}
+
+              {friendIds.includes(selectedPlayer.id) && (showChallengeModes ? (
+                <div className="challenge-modes">
+                  {CHALLENGE_MODES.map(mode => (
+                    <button
+                      key={mode.value}
+                      className="tooltip-action challenge-action"
+                      onClick={() => handleChallenge(selectedPlayer, mode.value)}
+                    >
+                      {mode.label}
+                    </button>
+                  ))}
+                </div>
+              ) : (
+                <button
+                  className={`tooltip-action challenge-action ${!canChallengePlayer(selectedPlayer) ? 'disabled' : ''}`}
+                  onClick={() => setShowChallengeModes(true)}
+                  disabled={!canChallengePlayer(selectedPlayer)}
+                >
+                  ⚔️ Challenge
+                </button>
+              ))}
               
               <button 
-                className={`tooltip-action watch-action ${!selectedPlayer.isInGame ? 'disabled' : ''}`}
+                className={`tooltip-action watch-action ${!canWatchPlayer(selectedPlayer) ? 'disabled' : ''}`}
                 onClick={() => handlePlayerAction(selectedPlayer, 'watchGame')}
-                disabled={!selectedPlayer.isInGame}
+                disabled={!canWatchPlayer(selectedPlayer)}
               >
                 👁️ Watch Game
               </button>
+
+              <button 
+                className="tooltip-action report-action"
+                onClick={() => handlePlayerAction(selectedPlayer, 'report')}
+              >
+                🚩 Report
+              </button>
+
+              <button 
+                className="tooltip-action block-action"
+                onClick={() => handlePlayerAction(selectedPlayer, 'block')}
+              >
+                🚫 Block
+              </button>
             </div>
           )}
         </div>
       </div>
+
+      {reportingPlayer && (
+        <ReportPlayerModal
+          playerName={reportingPlayer.username}
+          targetUserId={reportingPlayer.id}
+          context="friends"
+          onClose={() => setReportingPlayer(null)}
+        />
+      )}
     </div>
   );
 };
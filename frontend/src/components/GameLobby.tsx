@@ -7,8 +7,14 @@ import SpectatorView from './SpectatorView';
 import Shop from './Shop';
 import RequirementModal from './RequirementModal';
 import DragonflowLobby from './DragonflowLobby';
-import { Hero, GameState } from '../types';
+import ReplayViewer from './ReplayViewer';
+import AdminPanel from './AdminPanel';
+import SeasonBanner from './SeasonBanner';
+import { Hero, GameState, AIDifficulty, UserRole, FriendlySeriesLength } from '../types';
+import { DragonflowMatch } from '../types/dragonflow';
 import config from '../config';
+import { authFetch } from '../session';
+import { socketService } from '../socketService';
 import '../styles/GameLobby.css';
 
 interface User {
@@ -24,11 +30,13 @@ interface User {
   level: number;
   best_gauntlet_trial: number;
   player_id?: string;
+  role?: UserRole;
 }
 
 interface GameLobbyProps {
-  onStartGame: (gameMode: 'draft' | 'random') => void;
-  onStartFriendlyGame: (action: 'create' | 'join', roomName: string) => void;
+  onStartGame: (gameMode: 'draft' | 'random' | 'ranked') => void;
+  onStartFriendlyGame: (action: 'create' | 'join', roomName: string, bestOf?: FriendlySeriesLength) => void;
+  onStartPractice: (difficulty: AIDifficulty) => void;
   onStartSurvival: () => void;
   onStartGauntlet: () => void;
   onSpectateGame: (gameId: string, spectatingPlayerId: string) => void;
@@ -36,19 +44,22 @@ interface GameLobbyProps {
   user: User;
   onLogout: () => void;
   isSearching?: boolean;
-  searchMode?: 'draft' | 'random' | null;
+  searchMode?: 'draft' | 'random' | 'ranked' | null;
   onCancelSearch?: () => void;
   gameState?: GameState | null;
   onCollectionStateChange?: (isOpen: boolean) => void;
   onFavoritesChange?: (favoriteHeroes: string[]) => void;
 }
 
-const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame, onStartFriendlyGame, onStartSurvival, onStartGauntlet, onSpectateGame, victoryPoints, user, onLogout, isSearching = false, searchMode = null, onCancelSearch, onCollectionStateChange, onFavoritesChange }) => {
+const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame, onStartFriendlyGame, onStartPractice, onStartSurvival, onStartGauntlet, onSpectateGame, victoryPoints, user, onLogout, isSearching = false, searchMode = null, onCancelSearch, onCollectionStateChange, onFavoritesChange }) => {
   const [showCollection, setShowCollection] = useState(false);
   const [showShop, setShowShop] = useState(false);
   const [showFriendlyModal, setShowFriendlyModal] = useState(false);
+  const [showPracticeModal, setShowPracticeModal] = useState(false);
+  const [practiceDifficulty, setPracticeDifficulty] = useState<AIDifficulty>('normal');
   const [showProfileModal, setShowProfileModal] = useState(false);
   const [friendlyAction, setFriendlyAction] = useState<'create' | 'join' | 'spectate'>('create');
+  const [seriesLength, setSeriesLength] = useState<FriendlySeriesLength>(1);
   const [roomName, setRoomName] = useState('');
   const [allHeroes, setAllHeroes] = useState<Hero[]>([]);
   const [showRequirementModal, setShowRequirementModal] = useState(false);
@@ -63,12 +74,29 @@ const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame, onStartFriendlyGame,
   const [showRulesModal, setShowRulesModal] = useState(false);
   const [userRefreshTrigger, setUserRefreshTrigger] = useState(0);
   const [showDragonflow, setShowDragonflow] = useState(false);
+  const [dragonflowMatch, setDragonflowMatch] = useState<DragonflowMatch | null>(null);
+  const [showReplays, setShowReplays] = useState(false);
+  const [showAdmin, setShowAdmin] = useState(false);
 
-  const handleModeSelect = (mode: 'draft' | 'random') => {
-    // Check if player meets level requirement for Draft mode
-    if (mode === 'draft' && user.level < 3) {
+  // An accepted Dragonflow challenge starts a match while the player may be anywhere in the
+  // lobby; open Dragonflow straight into it
+  useEffect(() => {
+    if (showDragonflow) return;
+    const handleMatchFound = (match: DragonflowMatch) => {
+      setDragonflowMatch(match);
+      setShowDragonflow(true);
+    };
+    socketService.onDragonflowMatchFound(handleMatchFound);
+    return () => {
+      socketService.getSocket()?.off('dragonflow:match-found', handleMatchFound);
+    };
+  }, [showDragonflow]);
+
+  const handleModeSelect = (mode: 'draft' | 'random' | 'ranked') => {
+    // Check if player meets level requirement for Draft mode (Ranked Draft included)
+    if (mode !== 'random' && user.level < 3) {
       setRequirementModalData({
-        message: 'You must reach level 3 to unlock Draft Mode.',
+        message: `You must reach level 3 to unlock ${mode === 'ranked' ? 'Ranked Draft' : 'Draft Mode'}.`,
         currentCount: user.level,
         requiredCount: 3,
         type: 'level'
@@ -96,6 +124,33 @@ const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame, onStartFriendlyGame,
     setShowFriendlyModal(false);
     setRoomName('');
     setFriendlyAction('create');
+    setSeriesLength(1);
+  };
+
+  const handlePracticeClick = () => {
+    // Practice needs a full team of 5 from the player's own collection
+    const ownedHeroCount = user.available_heroes?.length || 0;
+    if (ownedHeroCount < 5) {
+      setRequirementModalData({
+        message: 'You need at least 5 heroes to practice against the AI.',
+        currentCount: ownedHeroCount,
+        requiredCount: 5,
+        type: 'heroes'
+      });
+      setShowRequirementModal(true);
+      return;
+    }
+
+    // Cancel any existing search first
+    if (isSearching && onCancelSearch) {
+      onCancelSearch();
+    }
+    setShowPracticeModal(true);
+  };
+
+  const handlePracticeSubmit = () => {
+    setShowPracticeModal(false);
+    onStartPractice(practiceDifficulty);
   };
 
   const handleFriendlySubmit = () => {
@@ -105,7 +160,7 @@ const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame, onStartFriendlyGame,
     }
     
     if (roomName.trim()) {
-      onStartFriendlyGame(friendlyAction, roomName.trim());
+      onStartFriendlyGame(friendlyAction, roomName.trim(), seriesLength);
       handleCloseFriendlyModal();
     }
   };
@@ -138,7 +193,7 @@ const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame, onStartFriendlyGame,
   const handlePurchaseComplete = async () => {
     // Fetch updated user data without reloading the page
     try {
-      const response = await fetch(`${config.API_BASE_URL}/api/user/${user.id}`);
+      const response = await authFetch(`${config.API_BASE_URL}/api/user/${user.id}`);
       if (response.ok) {
         const data = await response.json();
         // API returns { success: true, user: {...} }
@@ -220,7 +275,7 @@ const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame, onStartFriendlyGame,
             Ability: [{ 
               name: "Rage", 
               description: "Increase damage", 
-              effects: [{ type: "damage_boost", value: 5 }]
+              primary_effects: [{ type: "damage_boost", value: 5 }]
             }],
             Special: [{ 
               name: "Berserker", 
@@ -237,7 +292,7 @@ const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame, onStartFriendlyGame,
             Ability: [{ 
               name: "Fireball", 
               description: "Area damage spell", 
-              effects: [{ type: "area_damage", value: "2d6" }]
+              primary_effects: [{ type: "area_damage", value: "2d6" }]
             }],
             Special: [{ 
               name: "Arcane Power", 
@@ -254,7 +309,7 @@ const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame, onStartFriendlyGame,
             Ability: [{ 
               name: "Sneak Attack", 
               description: "High damage from stealth", 
-              effects: [{ type: "sneak_damage", value: "3d6" }]
+              primary_effects: [{ type: "sneak_damage", value: "3d6" }]
             }],
             Special: [{ 
               name: "Evasion", 
@@ -390,6 +445,7 @@ const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame, onStartFriendlyGame,
               <div className="header-accent"></div>
             </div>
             <div className="modes-container">
+              <SeasonBanner />
               
               {/* Ranked Section */}
               <div className="mode-category">
@@ -430,6 +486,37 @@ const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame, onStartFriendlyGame,
                     )}
                   </div>
 
+                  <div className={`game-mode ranked-mode ${isSearching && searchMode === 'ranked' ? 'searching' : ''}`} onClick={isSearching && searchMode === 'ranked' ? undefined : () => handleModeSelect('ranked')}>
+                    <div className="mode-overlay"></div>
+                    <div className="mode-icon">🏆</div>
+                    {isSearching && searchMode === 'ranked' ? (
+                      <div className="mode-info searching-info">
+                        <h3>Finding Opponent...</h3>
+                        <div className="searching-dots">
+                          <span className="dot"></span>
+                          <span className="dot"></span>
+                          <span className="dot"></span>
+                        </div>
+                      </div>
+                    ) : (
+                      <div className="mode-info">
+                        <h3>Ranked Draft</h3>
+                        <p>Climb the tiers against players of your skill</p>
+                      </div>
+                    )}
+                    {isSearching && searchMode === 'ranked' ? (
+                      <button className="mode-cancel-btn" onClick={(e) => { e.stopPropagation(); onCancelSearch?.(); }}>
+                        <span>Leave Queue</span>
+                        <div className="btn-glow"></div>
+                      </button>
+                    ) : (
+                      <button className="mode-play-btn">
+                        <span>Play Ranked</span>
+                        <div className="btn-glow"></div>
+                      </button>
+                    )}
+                  </div>
+
                   <div className="game-mode survival-mode" onClick={handleSurvivalClick}>
                     <div className="mode-overlay"></div>
                     <div className="mode-icon">🔥</div>
@@ -481,6 +568,19 @@ const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame, onStartFriendlyGame,
                     </button>
                   </div>
 
+                  <div className="game-mode practice-mode" onClick={handlePracticeClick}>
+                    <div className="mode-overlay"></div>
+                    <div className="mode-icon">🤖</div>
+                    <div className="mode-info">
+                      <h3>Practice vs AI</h3>
+                      <p>Draft against a computer opponent</p>
+                    </div>
+                    <button className="mode-play-btn">
+                      <span>Practice</span>
+                      <div className="btn-glow"></div>
+                    </button>
+                  </div>
+
                   <div className={`game-mode random-mode ${isSearching && searchMode === 'random' ? 'searching' : ''}`} onClick={isSearching && searchMode === 'random' ? undefined : () => handleModeSelect('random')}>
                     <div className="mode-overlay"></div>
                     <div className="mode-icon">🎲</div>
@@ -529,10 +629,20 @@ const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame, onStartFriendlyGame,
                 <span>Shop</span>
                 <div className="btn-arrow">→</div>
               </button>
-              <button className="collection-btn" onClick={handleShowCollection}>
+              <button className="collection-btn" onClick={handleShowCollection} style={{ marginBottom: '10px' }}>
                 <span>View Collection</span>
                 <div className="btn-arrow">→</div>
               </button>
+              <button className="collection-btn" onClick={() => setShowReplays(true)}>
+                <span>Replays</span>
+                <div className="btn-arrow">→</div>
+              </button>
+              {user.role === 'admin' && (
+                <button className="collection-btn" onClick={() => setShowAdmin(true)} style={{ marginTop: '10px' }}>
+                  <span>Admin</span>
+                  <div className="btn-arrow">→</div>
+                </button>
+              )}
               {currentRandomHero && (
                 <div className={`random-hero-card ${isTransitioning ? 'transitioning' : ''}`}>
                   <HeroCard 
@@ -578,6 +688,80 @@ const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame, onStartFriendlyGame,
         />
       )}
 
+      {/* Replays Modal */}
+      {showReplays && (
+        <ReplayViewer
+          userId={user.id}
+          onClose={() => setShowReplays(false)}
+        />
+      )}
+
+      {/* Admin Modal */}
+      {showAdmin && (
+        <AdminPanel
+          onClose={() => setShowAdmin(false)}
+          onUserChanged={handlePurchaseComplete}
+        />
+      )}
+
+      {/* Practice vs AI Modal */}
+      {showPracticeModal && (
+        <div className="modal-overlay">
+          <div className="friendly-modal">
+            <div className="friendly-modal-header">
+              <h3>Practice vs AI</h3>
+              <button className="close-button" onClick={() => setShowPracticeModal(false)}>×</button>
+            </div>
+
+            <div className="friendly-modal-content">
+              <div className="action-selection">
+                <div
+                  className={`action-option ${practiceDifficulty === 'easy' ? 'selected' : ''}`}
+                  onClick={() => setPracticeDifficulty('easy')}
+                >
+                  <div className="action-icon">🌱</div>
+                  <h4>Easy</h4>
+                  <p>Picks and targets at random</p>
+                </div>
+
+                <div
+                  className={`action-option ${practiceDifficulty === 'normal' ? 'selected' : ''}`}
+                  onClick={() => setPracticeDifficulty('normal')}
+                >
+                  <div className="action-icon">⚔️</div>
+                  <h4>Normal</h4>
+                  <p>Drafts strong heroes and focuses the weakest enemy</p>
+                </div>
+
+                <div
+                  className={`action-option ${practiceDifficulty === 'hard' ? 'selected' : ''}`}
+                  onClick={() => setPracticeDifficulty('hard')}
+                >
+                  <div className="action-icon">🔥</div>
+                  <h4>Hard</h4>
+                  <p>Plays for kills, hit chances and special timing</p>
+                </div>
+              </div>
+
+              <div className="friendly-modal-actions">
+                <button
+                  className="friendly-submit-button"
+                  onClick={handlePracticeSubmit}
+                >
+                  Start Practice
+                </button>
+                <button
+                  className="friendly-cancel-button"
+                  onClick={() => setShowPracticeModal(false)}
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Friendly Battle Modal */}
       {showFriendlyModal && (
         <div className="modal-overlay">
@@ -633,6 +817,22 @@ const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame, onStartFriendlyGame,
                       maxLength={20}
                     />
                   </div>
+
+                  {friendlyAction === 'create' && (
+                    <div className="room-input-section">
+                      <label htmlFor="series-length">Series:</label>
+                      <select
+                        id="series-length"
+                        value={seriesLength}
+                        onChange={(e) => setSeriesLength(Number(e.target.value) as FriendlySeriesLength)}
+                        className="room-input"
+                      >
+                        <option value={1}>Single game</option>
+                        <option value={3}>Best of 3</option>
+                        <option value={5}>Best of 5</option>
+                      </select>
+                    </div>
+                  )}
                   
                   <div className="friendly-modal-actions">
                     <button 
@@ -811,9 +1011,13 @@ const GameLobby: React.FC<GameLobbyProps> = ({ onStartGame, onStartFriendlyGame,
       {/* Dragonflow Lobby Overlay */}
       {showDragonflow && (
         <DragonflowLobby 
-          onBack={() => setShowDragonflow(false)}
+          onBack={() => {
+            setShowDragonflow(false);
+            setDragonflowMatch(null);
+          }}
           username={user.username}
           userId={user.id}
+          initialMatch={dragonflowMatch}
         />
       )}
 
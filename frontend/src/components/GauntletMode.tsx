@@ -49,6 +49,8 @@ const GauntletMode: React.FC<GauntletModeProps> = ({ onReturnToLobby, user }) =>
           if (data.success && data.runState) {
             setRunState(data.runState);
             setPhase('preparation');
+          } else if (data.error) {
+            alert(data.error);
           }
         };
 
@@ -64,6 +66,12 @@ const GauntletMode: React.FC<GauntletModeProps> = ({ onReturnToLobby, user }) =>
           setIsSearching(true);
         };
 
+        // Queue refused (e.g. the player is banned from matchmaking)
+        const handleQueueFailed = (data: { error: string }) => {
+          setIsSearching(false);
+          alert(data.error);
+        };
+
         // Battle complete
         const handleBattleComplete = (data: any) => {
           console.log('🏆 Gauntlet battle complete:', data);
@@ -100,6 +108,7 @@ const GauntletMode: React.FC<GauntletModeProps> = ({ onReturnToLobby, user }) =>
         socket.on('gauntlet-run-started', handleRunStarted);
         socket.on('gauntlet-match-found', handleMatchFound);
         socket.on('gauntlet-queue-waiting', handleQueueWaiting);
+        socket.on('gauntlet-queue-failed', handleQueueFailed);
         socket.on('gauntlet-battle-complete', handleBattleComplete);
         socket.on('gauntlet-run-abandoned', handleRunAbandoned);
         socket.on('game-start', handleGameStart);
@@ -108,6 +117,7 @@ const GauntletMode: React.FC<GauntletModeProps> = ({ onReturnToLobby, user }) =>
           socket.off('gauntlet-run-started', handleRunStarted);
           socket.off('gauntlet-match-found', handleMatchFound);
           socket.off('gauntlet-queue-waiting', handleQueueWaiting);
+          socket.off('gauntlet-queue-failed', handleQueueFailed);
           socket.off('gauntlet-battle-complete', handleBattleComplete);
           socket.off('gauntlet-run-abandoned', handleRunAbandoned);
           socket.off('game-start', handleGameStart);
@@ -314,7 +324,7 @@ const GauntletMode: React.FC<GauntletModeProps> = ({ onReturnToLobby, user }) =>
                 const { socketService } = await import('../socketService');
                 const socket = socketService.getSocket();
                 if (socket && runState) {
-                  socket.emit('save-and-return-to-lobby', { runState });
+                  socket.emit('save-and-return-to-lobby');
                   onReturnToLobby();
                 }
               }}>
@@ -69,7 +69,7 @@ const HeroCard: React.FC<HeroCardProps> = ({
   // Track Dragon Rider's Dismount trigger
   useEffect(() => {
     if (hero.name === 'Dragon Rider') {
-      const isDismountActive = (hero as any).permanentDisables?.abilities === true;
+      const isDismountActive = hero.permanentDisables?.abilities === true;
       
       if (isDismountActive && !wasDismountedRef.current) {
         // Dismount just triggered - play flip animation
@@ -88,7 +88,7 @@ const HeroCard: React.FC<HeroCardProps> = ({
         wasDismountedRef.current = true;
       }
     }
-  }, [(hero as any).permanentDisables?.abilities, hero.name]);
+  }, [hero.permanentDisables?.abilities, hero.name]);
 
   // Track poison stack changes and trigger glow animations
   useEffect(() => {
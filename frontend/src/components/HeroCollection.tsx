@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import '../styles/HeroCollection.css';
 import config from '../config';
+import { authFetch } from '../session';
 
 interface HeroAbility {
   name: string;
@@ -207,7 +208,6 @@ const HeroCollection: React.FC<HeroCollectionProps> = ({ onClose, userId, victor
       const params = new URLSearchParams();
       
       if (userId) {
-        params.append('userId', userId.toString());
         // Request all heroes to properly filter
         params.append('showAll', 'true');
       }
@@ -298,7 +298,7 @@ const HeroCollection: React.FC<HeroCollectionProps> = ({ onClose, userId, victor
     if (!userId) return;
     
     try {
-      const response = await fetch(`${config.API_BASE_URL}/api/favorite-heroes/${userId}`);
+      const response = await authFetch(`${config.API_BASE_URL}/api/favorite-heroes/${userId}`);
       if (response.ok) {
         const data = await response.json();
         setFavoriteHeroes(data.favoriteHeroes || []);
@@ -312,7 +312,7 @@ const HeroCollection: React.FC<HeroCollectionProps> = ({ onClose, userId, victor
     if (!userId) return;
     
     try {
-      const response = await fetch(`${config.API_BASE_URL}/api/user/${userId}`);
+      const response = await authFetch(`${config.API_BASE_URL}/api/user/${userId}`);
       if (response.ok) {
         const data = await response.json();
         if (data.success && data.user) {
@@ -328,12 +328,12 @@ const HeroCollection: React.FC<HeroCollectionProps> = ({ onClose, userId, victor
     if (!userId) return;
     
     try {
-      const response = await fetch(`${config.API_BASE_URL}/api/toggle-favorite-hero`, {
+      const response = await authFetch(`${config.API_BASE_URL}/api/toggle-favorite-hero`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ userId, heroName }),
+        body: JSON.stringify({ heroName }),
       });
       
       if (response.ok) {
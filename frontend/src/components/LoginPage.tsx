@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import '../styles/LoginPage.css';
 import config from '../config';
+import { setSessionToken } from '../session';
+import { UserRole } from '../types';
 
 interface User {
   id: number;
@@ -14,6 +16,7 @@ interface User {
   xp: number;
   level: number;
   best_gauntlet_trial: number;
+  role?: UserRole;
 }
 
 interface LoginPageProps {
@@ -21,6 +24,10 @@ interface LoginPageProps {
   onShowRegister: () => void;
 }
 
+// The quick admin login only works against a server started with DEV_TEST_ACCOUNTS=1, so it
+// isn't offered in production builds
+const SHOW_QUICK_ADMIN_LOGIN = Boolean((import.meta as any).env?.DEV);
+
 const LoginPage: React.FC<LoginPageProps> = ({ onLogin, onShowRegister }) => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
@@ -28,6 +35,14 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin, onShowRegister }) => {
   const [error, setError] = useState('');
   const [rememberMe, setRememberMe] = useState(false);
   const [autoFilled, setAutoFilled] = useState(false);
+  const [showRecovery, setShowRecovery] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmNewPassword, setConfirmNewPassword] = useState('');
+  const [success, setSuccess] = useState('');
+  // Set while the server is refusing attempts (HTTP 429), with the time it will accept them again
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [retrySeconds, setRetrySeconds] = useState(0);
 
   // Load saved credentials on component mount
   useEffect(() => {
@@ -53,6 +68,31 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin, onShowRegister }) => {
     }
   }, []);
 
+  useEffect(() => {
+    if (!retryAt) return;
+
+    const tick = () => {
+      const remaining = Math.ceil((retryAt - Date.now()) / 1000);
+      if (remaining <= 0) {
+        setRetryAt(null);
+        setError('');
+      } else {
+        setRetrySeconds(remaining);
+      }
+    };
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [retryAt]);
+
+  // Returns true if the response was a rate limit or account lock, after showing it
+  const handleRateLimited = (response: Response, data: { message?: string; retryAfter?: number }) => {
+    if (response.status !== 429) return false;
+    setError(data.message || 'Too many attempts. Please wait and try again.');
+    setRetryAt(Date.now() + (data.retryAfter || 60) * 1000);
+    return true;
+  };
+
   const handleRememberMeChange = (checked: boolean) => {
     setRememberMe(checked);
     // If unchecked, immediately clear saved credentials
@@ -83,6 +123,8 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin, onShowRegister }) => {
 
       const data = await response.json();
 
+      if (handleRateLimited(response, data)) return;
+
       if (data.success) {
         // Handle remember me functionality
         if (rememberMe) {
@@ -98,6 +140,7 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin, onShowRegister }) => {
           localStorage.setItem('pendingLevelUpData', JSON.stringify(data.levelUpData));
         }
         
+        setSessionToken(data.token);
         onLogin(data.user);
       } else {
         // Handle specific error cases
@@ -115,6 +158,68 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin, onShowRegister }) => {
     }
   };
 
+  const handleRecover = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!username.trim() || !recoveryCode.trim() || !newPassword) {
+      setError('Please fill in all fields');
+      return;
+    }
+
+    if (newPassword.length < 6) {
+      setError('Password must be at least 6 characters long');
+      return;
+    }
+
+    if (newPassword !== confirmNewPassword) {
+      setError('Passwords do not match');
+      return;
+    }
+
+    setIsLoading(true);
+    setError('');
+
+    try {
+      const response = await fetch(`${config.API_BASE_URL}/api/recover-account`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username, recoveryCode, newPassword }),
+      });
+
+      const data = await response.json();
+
+      if (handleRateLimited(response, data)) return;
+
+      if (data.success) {
+        // Saved credentials hold the old password now
+        localStorage.removeItem('heroCallRememberMe');
+        setRememberMe(false);
+        setAutoFilled(false);
+        setPassword('');
+        setRecoveryCode('');
+        setNewPassword('');
+        setConfirmNewPassword('');
+        setShowRecovery(false);
+        setSuccess(`${data.message}\n${data.remainingCodes} recovery code${data.remainingCodes === 1 ? '' : 's'} left.`);
+      } else {
+        setError(data.message || 'Account recovery failed');
+      }
+    } catch (error) {
+      console.error('Account recovery error:', error);
+      setError('Connection failed. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleRecovery = (show: boolean) => {
+    setShowRecovery(show);
+    setError('');
+    setSuccess('');
+  };
+
   const handleAdminLogin = async () => {
     setIsLoading(true);
     setError('');
@@ -146,6 +251,7 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin, onShowRegister }) => {
           localStorage.setItem('pendingLevelUpData', JSON.stringify(data.levelUpData));
         }
         
+        setSessionToken(data.token);
         onLogin(data.user);
       } else {
         setError(data.message || 'Failed to login as admin');
@@ -175,102 +281,203 @@ const LoginPage: React.FC<LoginPageProps> = ({ onLogin, onShowRegister }) => {
         </div>
 
         {/* Admin Quick Login Button */}
-        <div className="admin-quick-login">
-          <button 
-            type="button"
-            className="admin-login-btn"
-            onClick={handleAdminLogin}
-            disabled={isLoading}
-          >
-            🔑 Quick Admin Login
-          </button>
-          <div className="admin-login-hint">Auto-creates next available admin account</div>
-        </div>
-
-        <form className="login-form" onSubmit={handleSubmit}>
-          <div className="form-group">
-            <label htmlFor="username">Username</label>
-            <input
-              type="text"
-              id="username"
-              value={username}
-              onChange={(e) => {
-                setUsername(e.target.value);
-                setAutoFilled(false);
-              }}
-              placeholder="Enter your username"
-              className="form-input"
+        {SHOW_QUICK_ADMIN_LOGIN && (
+          <div className="admin-quick-login">
+            <button 
+              type="button"
+              className="admin-login-btn"
+              onClick={handleAdminLogin}
               disabled={isLoading}
-            />
+            >
+              🔑 Quick Admin Login
+            </button>
+            <div className="admin-login-hint">Auto-creates next available admin account</div>
           </div>
+        )}
 
-          <div className="form-group">
-            <label htmlFor="password">Password</label>
-            <input
-              type="password"
-              id="password"
-              value={password}
-              onChange={(e) => {
-                setPassword(e.target.value);
-                setAutoFilled(false);
-              }}
-              placeholder="Enter your password"
-              className="form-input"
-              disabled={isLoading}
-            />
-          </div>
+        {showRecovery ? (
+          <form className="login-form" onSubmit={handleRecover}>
+            <div className="form-group">
+              <label htmlFor="recovery-username">Username</label>
+              <input
+                type="text"
+                id="recovery-username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Enter your username"
+                className="form-input"
+                disabled={isLoading}
+              />
+            </div>
 
-          <div className="form-group remember-me-group">
-            <label className="remember-me-label">
+            <div className="form-group">
+              <label htmlFor="recovery-code">Recovery Code</label>
               <input
-                type="checkbox"
-                id="remember-me"
-                checked={rememberMe}
-                onChange={(e) => handleRememberMeChange(e.target.checked)}
-                className="remember-me-checkbox"
+                type="text"
+                id="recovery-code"
+                value={recoveryCode}
+                onChange={(e) => setRecoveryCode(e.target.value)}
+                placeholder="xxxxx-xxxxx"
+                className="form-input"
+                autoComplete="off"
                 disabled={isLoading}
               />
-              <span className="checkbox-custom"></span>
-              Remember my login information
-            </label>
-            {autoFilled && (
-              <div className="auto-filled-notice">
-                ✓ Login information loaded from saved data
-              </div>
-            )}
-          </div>
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="new-password">New Password</label>
+              <input
+                type="password"
+                id="new-password"
+                value={newPassword}
+                onChange={(e) => setNewPassword(e.target.value)}
+                placeholder="At least 6 characters"
+                className="form-input"
+                disabled={isLoading}
+              />
+            </div>
 
-          {error && <div className="error-message">{error}</div>}
+            <div className="form-group">
+              <label htmlFor="confirm-new-password">Confirm New Password</label>
+              <input
+                type="password"
+                id="confirm-new-password"
+                value={confirmNewPassword}
+                onChange={(e) => setConfirmNewPassword(e.target.value)}
+                placeholder="Confirm your new password"
+                className="form-input"
+                disabled={isLoading}
+              />
+            </div>
 
-          <div className="form-actions">
-            <button 
-              type="submit" 
-              className="login-button"
-              disabled={isLoading}
-            >
-              {isLoading ? (
-                <>
-                  <span className="loading-spinner"></span>
-                  Logging in...
-                </>
-              ) : (
-                'Login'
+            {error && <div className="error-message">{error}</div>}
+
+            <div className="form-actions">
+              <button 
+                type="submit" 
+                className="login-button"
+                disabled={isLoading || retryAt !== null}
+              >
+                {isLoading ? (
+                  <>
+                    <span className="loading-spinner"></span>
+                    Resetting...
+                  </>
+                ) : retryAt !== null ? (
+                  `Try again in ${retrySeconds}s`
+                ) : (
+                  'Reset Password'
+                )}
+              </button>
+
+              <button 
+                type="button" 
+                className="forgot-password-link"
+                onClick={() => toggleRecovery(false)}
+                disabled={isLoading}
+              >
+                Back to Login
+              </button>
+            </div>
+          </form>
+        ) : (
+          <form className="login-form" onSubmit={handleSubmit}>
+            <div className="form-group">
+              <label htmlFor="username">Username</label>
+              <input
+                type="text"
+                id="username"
+                value={username}
+                onChange={(e) => {
+                  setUsername(e.target.value);
+                  setAutoFilled(false);
+                }}
+                placeholder="Enter your username"
+                className="form-input"
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="form-group">
+              <label htmlFor="password">Password</label>
+              <input
+                type="password"
+                id="password"
+                value={password}
+                onChange={(e) => {
+                  setPassword(e.target.value);
+                  setAutoFilled(false);
+                }}
+                placeholder="Enter your password"
+                className="form-input"
+                disabled={isLoading}
+              />
+            </div>
+
+            <div className="form-group remember-me-group">
+              <label className="remember-me-label">
+                <input
+                  type="checkbox"
+                  id="remember-me"
+                  checked={rememberMe}
+                  onChange={(e) => handleRememberMeChange(e.target.checked)}
+                  className="remember-me-checkbox"
+                  disabled={isLoading}
+                />
+                <span className="checkbox-custom"></span>
+                Remember my login information
+              </label>
+              {autoFilled && (
+                <div className="auto-filled-notice">
+                  ✓ Login information loaded from saved data
+                </div>
               )}
-            </button>
+            </div>
+
+            {error && <div className="error-message">{error}</div>}
+            {success && <div className="success-message">{success}</div>}
+
+            <div className="form-actions">
+              <button 
+                type="submit" 
+                className="login-button"
+                disabled={isLoading || retryAt !== null}
+              >
+                {isLoading ? (
+                  <>
+                    <span className="loading-spinner"></span>
+                    Logging in...
+                  </>
+                ) : retryAt !== null ? (
+                  `Try again in ${retrySeconds}s`
+                ) : (
+                  'Login'
+                )}
+              </button>
 
-            <div className="register-section">
-              <p>Don't have an account?</p>
               <button 
                 type="button" 
-                className="register-link"
-                onClick={onShowRegister}
+                className="forgot-password-link"
+                onClick={() => toggleRecovery(true)}
                 disabled={isLoading}
               >
-                Create Account
+                Forgot your password?
               </button>
+
+              <div className="register-section">
+                <p>Don't have an account?</p>
+                <button 
+                  type="button" 
+                  className="register-link"
+                  onClick={onShowRegister}
+                  disabled={isLoading}
+                >
+                  Create Account
+                </button>
+              </div>
             </div>
-          </div>
-        </form>
+          </form>
+        )}
       </div>
     </div>
   );
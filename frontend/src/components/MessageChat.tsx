@@ -1,6 +1,7 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
 import { Message } from '../types';
 import { socketService } from '../socketService';
+import ReportPlayerModal from './ReportPlayerModal';
 
 interface MessageChatProps {
   targetUserId: number;
@@ -23,17 +24,30 @@ const MessageChat: React.FC<MessageChatProps> = ({
   const [position, setPosition] = useState({ x: 60, y: 100 });
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
   const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [sendError, setSendError] = useState<string | null>(null);
+  const [showReport, setShowReport] = useState(false);
   
   const chatRef = useRef<HTMLDivElement>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  // scrollHeight before older messages were requested, so the view stays put when they are prepended
+  const scrollHeightBeforeLoad = useRef<number | null>(null);
 
   // Auto-scroll to bottom when new messages arrive
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  useEffect(() => {
-    scrollToBottom();
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (container && scrollHeightBeforeLoad.current !== null) {
+      container.scrollTop = container.scrollHeight - scrollHeightBeforeLoad.current;
+      scrollHeightBeforeLoad.current = null;
+    } else {
+      scrollToBottom();
+    }
   }, [messages]);
 
   useEffect(() => {
@@ -54,17 +68,35 @@ const MessageChat: React.FC<MessageChatProps> = ({
     if (!socket) return;
 
     const handleMessagesResponse = (data: any) => {
+      // Every open chat window hears this event
+      if (data.targetUserId !== targetUserId) return;
+
       if (data.success) {
-        setMessages(data.messages || []);
-        setLoading(false);
+        if (data.beforeId) {
+          setMessages(prev => [...(data.messages || []), ...prev]);
+          setLoadingOlder(false);
+        } else {
+          setMessages(data.messages || []);
+          setLoading(false);
+          socketService.markMessagesRead(targetUserId);
+        }
+        setHasMore(!!data.hasMore);
+      } else {
+        scrollHeightBeforeLoad.current = null;
+        setLoadingOlder(false);
       }
     };
 
     const handleMessageResponse = (data: any) => {
       if (data.success && data.message) {
+        if (data.message.receiver_id !== targetUserId) return;
         // Add the sent message to the list
         setMessages(prev => [...prev, data.message]);
         setNewMessage('');
+        setSendError(null);
+      } else if (!data.success) {
+        // Keep the typed message so it can be sent again
+        setSendError(data.error || 'Failed to send message');
       }
     };
 
@@ -72,17 +104,30 @@ const MessageChat: React.FC<MessageChatProps> = ({
       // Only add if it's from the user we're chatting with
       if (message.sender_id === targetUserId) {
         setMessages(prev => [...prev, message]);
+        socketService.markMessagesRead(targetUserId);
       }
     };
 
+    // Read receipt: the other player opened what we sent
+    const handleMessagesRead = (data: { readerId: number; readAt: string }) => {
+      if (data.readerId !== targetUserId) return;
+      setMessages(prev => prev.map(message => 
+        message.sender_id === currentUserId && !message.read_at 
+          ? { ...message, read_at: data.readAt } 
+          : message
+      ));
+    };
+
     socket.on('messages-response', handleMessagesResponse);
     socket.on('message-response', handleMessageResponse);
     socket.on('message-received', handleMessageReceived);
+    socket.on('messages-read', handleMessagesRead);
 
     return () => {
       socket.off('messages-response', handleMessagesResponse);
       socket.off('message-response', handleMessageResponse);
       socket.off('message-received', handleMessageReceived);
+      socket.off('messages-read', handleMessagesRead);
     };
   }, [targetUserId]);
 
@@ -93,6 +138,16 @@ const MessageChat: React.FC<MessageChatProps> = ({
     }
   };
 
+  // Load the previous page once the user scrolls near the top
+  const handleMessagesScroll = () => {
+    const container = messagesContainerRef.current;
+    if (!container || container.scrollTop > 40 || !hasMore || loadingOlder || messages.length === 0) return;
+
+    setLoadingOlder(true);
+    scrollHeightBeforeLoad.current = container.scrollHeight;
+    socketService.getMessages(targetUserId, messages[0].id);
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -138,6 +193,10 @@ const MessageChat: React.FC<MessageChatProps> = ({
     }
   }, [isDragging, dragOffset]);
 
+  // Only the newest of our messages that the other player has read gets the "Seen" marker
+  const lastSeenMessageId = [...messages].reverse()
+    .find(message => message.sender_id === currentUserId && message.read_at)?.id;
+
   const formatTime = (timestamp: string) => {
     const date = new Date(timestamp);
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -159,6 +218,9 @@ const MessageChat: React.FC<MessageChatProps> = ({
           {targetUsername}
         </div>
         <div className="chat-controls">
+          <button className="chat-report-button" onClick={() => setShowReport(true)} title="Report player">
+            🚩
+          </button>
           <button className="chat-minimize-button" onClick={onMinimize} title="Minimize">
             −
           </button>
@@ -169,7 +231,8 @@ const MessageChat: React.FC<MessageChatProps> = ({
       </div>
 
       <div className="chat-body">
-        <div className="messages-container">
+        <div className="messages-container" ref={messagesContainerRef} onScroll={handleMessagesScroll}>
+          {loadingOlder && <div className="chat-loading-older">Loading older messages...</div>}
           {loading ? (
             <div className="chat-loading">Loading messages...</div>
           ) : messages.length === 0 ? (
@@ -185,6 +248,7 @@ const MessageChat: React.FC<MessageChatProps> = ({
                 </div>
                 <div className="message-time">
                   {formatTime(message.created_at)}
+                  {message.id === lastSeenMessageId && ' · Seen'}
                 </div>
               </div>
             ))
@@ -192,6 +256,8 @@ const MessageChat: React.FC<MessageChatProps> = ({
           <div ref={messagesEndRef} />
         </div>
 
+        {sendError && <div className="chat-send-error">{sendError}</div>}
+
         <div className="message-input-container">
           <textarea
             value={newMessage}
@@ -211,6 +277,15 @@ const MessageChat: React.FC<MessageChatProps> = ({
           </button>
         </div>
       </div>
+
+      {showReport && (
+        <ReportPlayerModal
+          playerName={targetUsername}
+          targetUserId={targetUserId}
+          context="chat"
+          onClose={() => setShowReport(false)}
+        />
+      )}
     </div>
   );
 };
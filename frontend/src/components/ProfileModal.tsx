@@ -1,8 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import HeroCard from './HeroCard';
 import XPBar from './XPBar';
-import { Hero } from '../types';
+import { Hero, PlayerRank, RatedMode, SeasonResult } from '../types';
 import config from '../config';
+import { authFetch, setSessionToken } from '../session';
+import { socketService } from '../socketService';
+import RecoveryCodesList from './RecoveryCodesList';
+import RankBadge from './RankBadge';
 import '../styles/ProfileModal.css';
 
 interface User {
@@ -26,8 +30,18 @@ interface PlayerStats {
   hero_usage_count: { [heroName: string]: number };
   highest_survival_run: number;
   profile_icon: string;
+  ratings?: Record<RatedMode, PlayerRank>;
+  titles?: string[]; // Earned from season rewards
+  season_icons?: string[]; // Hero portraits usable as profile icon without owning the hero
+  seasonHistory?: SeasonResult[];
 }
 
+const RANK_MODES: { mode: RatedMode; label: string }[] = [
+  { mode: 'ranked', label: 'Ranked Draft' },
+  { mode: 'draft', label: 'Draft' },
+  { mode: 'random', label: 'Random' }
+];
+
 interface ProfileModalProps {
   user: User;
   allHeroes: Hero[];
@@ -40,6 +54,12 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ user, allHeroes, isOpen, on
   const [loading, setLoading] = useState(true);
   const [showIconSelector, setShowIconSelector] = useState(false);
   const [selectedIcon, setSelectedIcon] = useState<string>('Sorcerer');
+  const [showAccountSecurity, setShowAccountSecurity] = useState(false);
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmNewPassword, setConfirmNewPassword] = useState('');
+  const [securityMessage, setSecurityMessage] = useState<{ type: 'error' | 'success'; text: string } | null>(null);
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
 
   useEffect(() => {
     if (isOpen) {
@@ -50,7 +70,7 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ user, allHeroes, isOpen, on
   const fetchPlayerStats = async () => {
     try {
       setLoading(true);
-      const response = await fetch(`${config.API_BASE_URL}/api/player-stats/${user.id}`);
+      const response = await authFetch(`${config.API_BASE_URL}/api/player-stats/${user.id}`);
       const data = await response.json();
       
       if (data.success) {
@@ -66,13 +86,12 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ user, allHeroes, isOpen, on
 
   const handleIconChange = async (heroName: string) => {
     try {
-      const response = await fetch(`${config.API_BASE_URL}/api/update-profile-icon`, {
+      const response = await authFetch(`${config.API_BASE_URL}/api/update-profile-icon`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          userId: user.id,
           heroName: heroName
         })
       });
@@ -88,9 +107,88 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ user, allHeroes, isOpen, on
     }
   };
 
+  const closeAccountSecurity = () => {
+    setShowAccountSecurity(false);
+    setCurrentPassword('');
+    setNewPassword('');
+    setConfirmNewPassword('');
+    setSecurityMessage(null);
+    setNewRecoveryCodes(null);
+  };
+
+  const handleChangePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (newPassword.length < 6) {
+      setSecurityMessage({ type: 'error', text: 'Password must be at least 6 characters long' });
+      return;
+    }
+    if (newPassword !== confirmNewPassword) {
+      setSecurityMessage({ type: 'error', text: 'Passwords do not match' });
+      return;
+    }
+
+    try {
+      const response = await authFetch(`${config.API_BASE_URL}/api/change-password`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          // Lets the server keep this tab's socket signed in while dropping any other
+          'x-socket-id': socketService.getSocket()?.id || ''
+        },
+        body: JSON.stringify({ currentPassword, newPassword })
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        // Changing the password signs out every session, including this token
+        setSessionToken(data.token);
+        localStorage.removeItem('heroCallRememberMe');
+        setCurrentPassword('');
+        setNewPassword('');
+        setConfirmNewPassword('');
+        setSecurityMessage({ type: 'success', text: data.message });
+      } else {
+        setSecurityMessage({ type: 'error', text: data.message || 'Failed to change password' });
+      }
+    } catch (error) {
+      console.error('Failed to change password:', error);
+      setSecurityMessage({ type: 'error', text: 'Connection failed. Please try again.' });
+    }
+  };
+
+  const handleGenerateRecoveryCodes = async () => {
+    if (!currentPassword) {
+      setSecurityMessage({ type: 'error', text: 'Enter your current password to generate new recovery codes' });
+      return;
+    }
+
+    try {
+      const response = await authFetch(`${config.API_BASE_URL}/api/recovery-codes`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ password: currentPassword })
+      });
+
+      const data = await response.json();
+      if (data.success) {
+        setSecurityMessage(null);
+        setNewRecoveryCodes(data.recoveryCodes);
+      } else {
+        setSecurityMessage({ type: 'error', text: data.message || 'Failed to generate recovery codes' });
+      }
+    } catch (error) {
+      console.error('Failed to generate recovery codes:', error);
+      setSecurityMessage({ type: 'error', text: 'Connection failed. Please try again.' });
+    }
+  };
+
   const getAvailableHeroes = () => {
+    const seasonIcons = playerStats?.season_icons || [];
     return allHeroes
-      .filter(hero => user.available_heroes.includes(hero.name))
+      .filter(hero => user.available_heroes.includes(hero.name) || seasonIcons.includes(hero.name))
       .sort((a, b) => a.name.localeCompare(b.name));
   };
 
@@ -147,6 +245,12 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ user, allHeroes, isOpen, on
                   >
                     Change Icon
                   </button>
+                  <button 
+                    className="change-icon-btn"
+                    onClick={() => setShowAccountSecurity(true)}
+                  >
+                    Account Security
+                  </button>
                 </div>
 
                 <div className="profile-info">
@@ -192,6 +296,45 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ user, allHeroes, isOpen, on
                       <span className="stat-value">{playerStats?.highest_survival_run || 0} wins</span>
                     </div>
                   </div>
+
+                  {playerStats?.ratings && (
+                    <div className="profile-ranks">
+                      <h4>Ranks</h4>
+                      {RANK_MODES.map(({ mode, label }) => {
+                        const rank = playerStats.ratings![mode];
+                        return (
+                          <div key={mode} className="profile-rank-row">
+                            <span className="profile-rank-mode">{label}</span>
+                            <RankBadge rank={rank} />
+                            <span className="profile-rank-record">{rank.wins}W – {rank.losses}L</span>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  )}
+
+                  {playerStats?.titles && playerStats.titles.length > 0 && (
+                    <div className="profile-titles">
+                      {playerStats.titles.map(title => (
+                        <span key={title} className="profile-title">🎖️ {title}</span>
+                      ))}
+                    </div>
+                  )}
+
+                  {playerStats?.seasonHistory && playerStats.seasonHistory.length > 0 && (
+                    <div className="profile-ranks">
+                      <h4>Past Seasons</h4>
+                      {playerStats.seasonHistory.map(result => (
+                        <div key={result.season} className="profile-rank-row">
+                          <span className="profile-rank-mode">Season {result.season}</span>
+                          <span className="profile-season-tier">
+                            {result.tier ? `${result.tier} · ${result.rating}` : 'Placement'}
+                          </span>
+                          <span className="profile-rank-record">{result.wins}W – {result.losses}L</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
 
                 <div className="favorite-hero-section">
@@ -252,6 +395,68 @@ const ProfileModal: React.FC<ProfileModalProps> = ({ user, allHeroes, isOpen, on
                 </div>
               </div>
             )}
+
+            {showAccountSecurity && (
+              <div className="icon-selector-overlay">
+                <div className="icon-selector account-security">
+                  <div className="icon-selector-header">
+                    <h3>Account Security</h3>
+                    <button 
+                      className="icon-selector-close"
+                      onClick={closeAccountSecurity}
+                    >
+                      ✕
+                    </button>
+                  </div>
+                  {newRecoveryCodes ? (
+                    <RecoveryCodesList 
+                      codes={newRecoveryCodes} 
+                      onDone={closeAccountSecurity}
+                      doneLabel="Done"
+                    />
+                  ) : (
+                    <form className="account-security-form" onSubmit={handleChangePassword}>
+                      <input
+                        type="password"
+                        value={currentPassword}
+                        onChange={(e) => setCurrentPassword(e.target.value)}
+                        placeholder="Current password"
+                      />
+                      <input
+                        type="password"
+                        value={newPassword}
+                        onChange={(e) => setNewPassword(e.target.value)}
+                        placeholder="New password"
+                      />
+                      <input
+                        type="password"
+                        value={confirmNewPassword}
+                        onChange={(e) => setConfirmNewPassword(e.target.value)}
+                        placeholder="Confirm new password"
+                      />
+                      {securityMessage && (
+                        <div className={`account-security-message ${securityMessage.type}`}>
+                          {securityMessage.text}
+                        </div>
+                      )}
+                      <button type="submit" className="change-icon-btn">
+                        Change Password
+                      </button>
+                      <button 
+                        type="button" 
+                        className="change-icon-btn"
+                        onClick={handleGenerateRecoveryCodes}
+                      >
+                        Generate New Recovery Codes
+                      </button>
+                      <p className="account-security-hint">
+                        New recovery codes replace any you have left.
+                      </p>
+                    </form>
+                  )}
+                </div>
+              </div>
+            )}
           </>
         )}
       </div>
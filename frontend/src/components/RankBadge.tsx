@@ -0,0 +1,37 @@
+import React from 'react';
+import { PlayerRank, RankTier } from '../types';
+import '../styles/RankBadge.css';
+
+interface RankBadgeProps {
+  rank: PlayerRank;
+  compact?: boolean; // Just the tier, for tight spots like the battle banner
+}
+
+const TIER_ICONS: Record<RankTier, string> = {
+  Bronze: '🥉',
+  Silver: '🥈',
+  Gold: '🥇',
+  Platinum: '💠',
+  Diamond: '💎',
+  Master: '👑'
+};
+
+// A player's tier and visible rating in one mode, or their placement progress before they have one
+const RankBadge: React.FC<RankBadgeProps> = ({ rank, compact = false }) => {
+  if (!rank.tier) {
+    return (
+      <span className="rank-badge placement" title={`${rank.placementGamesLeft} placement games left`}>
+        🎯 {compact ? 'Placement' : `Placement · ${rank.placementGamesLeft} left`}
+      </span>
+    );
+  }
+
+  return (
+    <span className={`rank-badge tier-${rank.tier.toLowerCase()}`} title={`${rank.tier} · ${rank.rating}`}>
+      {TIER_ICONS[rank.tier]} {rank.tier}
+      {!compact && <span className="rank-badge-rating">{rank.rating}</span>}
+    </span>
+  );
+};
+
+export default RankBadge;
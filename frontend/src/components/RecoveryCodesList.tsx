@@ -0,0 +1,47 @@
+import React, { useState } from 'react';
+import '../styles/RecoveryCodesList.css';
+
+interface RecoveryCodesListProps {
+  codes: string[];
+  onDone: () => void;
+  doneLabel?: string;
+}
+
+// Recovery codes are only ever shown once, right after the server generates them
+const RecoveryCodesList: React.FC<RecoveryCodesListProps> = ({ codes, onDone, doneLabel = "I've saved these codes" }) => {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(codes.join('\n'));
+      setCopied(true);
+    } catch (error) {
+      console.error('Failed to copy recovery codes:', error);
+    }
+  };
+
+  return (
+    <div className="recovery-codes">
+      <h3>Your Recovery Codes</h3>
+      <p className="recovery-codes-hint">
+        If you forget your password, each of these codes can reset it once.
+        Keep them somewhere safe - they will not be shown again.
+      </p>
+      <ul className="recovery-codes-grid">
+        {codes.map(code => (
+          <li key={code} className="recovery-code">{code}</li>
+        ))}
+      </ul>
+      <div className="recovery-codes-actions">
+        <button type="button" className="recovery-codes-copy" onClick={handleCopy}>
+          {copied ? '✓ Copied' : 'Copy Codes'}
+        </button>
+        <button type="button" className="recovery-codes-done" onClick={onDone}>
+          {doneLabel}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryCodesList;
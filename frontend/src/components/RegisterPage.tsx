@@ -1,6 +1,7 @@
 import React, { useState } from 'react';
 import '../styles/RegisterPage.css';
 import config from '../config';
+import RecoveryCodesList from './RecoveryCodesList';
 
 interface RegisterPageProps {
   onRegisterSuccess: () => void;
@@ -14,6 +15,7 @@ const RegisterPage: React.FC<RegisterPageProps> = ({ onRegisterSuccess, onBackTo
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [success, setSuccess] = useState('');
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
 
   const validateForm = (): string | null => {
     if (!username.trim()) {
@@ -73,9 +75,8 @@ const RegisterPage: React.FC<RegisterPageProps> = ({ onRegisterSuccess, onBackTo
 
       if (data.success) {
         setSuccess('Account created successfully! You can now login.');
-        setTimeout(() => {
-          onRegisterSuccess();
-        }, 2000);
+        // Hold on this page until the player has seen their recovery codes
+        setRecoveryCodes(data.recoveryCodes);
       } else {
         setError(data.message || 'Registration failed');
       }
@@ -104,82 +105,89 @@ const RegisterPage: React.FC<RegisterPageProps> = ({ onRegisterSuccess, onBackTo
           <p className="game-subtitle">Create your legend</p>
         </div>
 
-        <form className="register-form" onSubmit={handleSubmit}>
-          <div className="form-group">
-            <label htmlFor="username">Username</label>
-            <input
-              type="text"
-              id="username"
-              value={username}
-              onChange={(e) => setUsername(e.target.value)}
-              placeholder="Choose a unique username"
-              className="form-input"
-              disabled={isLoading}
-              maxLength={20}
-            />
-            <div className="form-hint">
-              3-20 characters, letters, numbers, and underscores only
-            </div>
+        {recoveryCodes ? (
+          <div className="register-form">
+            {success && <div className="success-message">{success}</div>}
+            <RecoveryCodesList codes={recoveryCodes} onDone={onRegisterSuccess} />
           </div>
+        ) : (
+          <form className="register-form" onSubmit={handleSubmit}>
+            <div className="form-group">
+              <label htmlFor="username">Username</label>
+              <input
+                type="text"
+                id="username"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Choose a unique username"
+                className="form-input"
+                disabled={isLoading}
+                maxLength={20}
+              />
+              <div className="form-hint">
+                3-20 characters, letters, numbers, and underscores only
+              </div>
+            </div>
 
-          <div className="form-group">
-            <label htmlFor="password">Password</label>
-            <input
-              type="password"
-              id="password"
-              value={password}
-              onChange={(e) => setPassword(e.target.value)}
-              placeholder="Enter a secure password"
-              className="form-input"
-              disabled={isLoading}
-            />
-            <div className="form-hint">
-              At least 6 characters
+            <div className="form-group">
+              <label htmlFor="password">Password</label>
+              <input
+                type="password"
+                id="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Enter a secure password"
+                className="form-input"
+                disabled={isLoading}
+              />
+              <div className="form-hint">
+                At least 6 characters
+              </div>
             </div>
-          </div>
 
-          <div className="form-group">
-            <label htmlFor="confirm-password">Confirm Password</label>
-            <input
-              type="password"
-              id="confirm-password"
-              value={confirmPassword}
-              onChange={(e) => setConfirmPassword(e.target.value)}
-              placeholder="Confirm your password"
-              className="form-input"
-              disabled={isLoading}
-            />
-          </div>
+            <div className="form-group">
+              <label htmlFor="confirm-password">Confirm Password</label>
+              <input
+                type="password"
+                id="confirm-password"
+                value={confirmPassword}
+                onChange={(e) => setConfirmPassword(e.target.value)}
+                placeholder="Confirm your password"
+                className="form-input"
+                disabled={isLoading}
+              />
+            </div>
 
-          {error && <div className="error-message">{error}</div>}
-          {success && <div className="success-message">{success}</div>}
-
-          <div className="form-actions">
-            <button 
-              type="submit" 
-              className="register-button"
-              disabled={isLoading}
-            >
-              {isLoading ? (
-                <>
-                  <span className="loading-spinner"></span>
-                  Creating Account...
-                </>
-              ) : (
-                'Create Account'
-              )}
-            </button>
-
-            <button 
-              type="button" 
-              className="back-button"
-              onClick={onBackToLogin}
-              disabled={isLoading}
-            >
-              Back to Login
-            </button>
-          </div>
-        </form>
+            {error && <div className="error-message">{error}</div>}
+            {success && <div className="success-message">{success}</div>}
+
+            <div className="form-actions">
+              <button 
+                type="submit" 
+                className="register-button"
+                disabled={isLoading}
+              >
+                {isLoading ? (
+                  <>
+                    <span className="loading-spinner"></span>
+                    Creating Account...
+                  </>
+                ) : (
+                  'Create Account'
+                )}
+              </button>
+
+              <button 
+                type="button" 
+                className="back-button"
+                onClick={onBackToLogin}
+                disabled={isLoading}
+              >
+                Back to Login
+              </button>
+            </div>
+          </form>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,222 @@
+import React, { useState, useEffect } from 'react';
+import BattlePhase from './BattlePhase';
+import { GameState, ReplaySummary, ReplayData } from '../types';
+import config from '../config';
+import { authFetch } from '../session';
+import '../styles/ReplayViewer.css';
+
+interface ReplayViewerProps {
+  userId: number;
+  onClose: () => void;
+}
+
+const PLAYBACK_INTERVAL_MS = 1200;
+
+const ACTION_LABELS: Record<string, string> = {
+  'basic-attack': 'Basic Attack',
+  'use-ability': 'Ability',
+  'use-timekeeper-selected-ability': 'Commanded Ability',
+  'activate-special': 'Special',
+  'end-turn': 'End Turn',
+  'surrender-game': 'Surrender',
+  'disconnect-forfeit': 'Disconnected'
+};
+
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ userId, onClose }) => {
+  const [replays, setReplays] = useState<ReplaySummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [replayIdInput, setReplayIdInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [replayData, setReplayData] = useState<ReplayData | null>(null);
+  const [perspectiveIndex, setPerspectiveIndex] = useState(0);
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+
+  useEffect(() => {
+    const loadReplays = async () => {
+      try {
+        const response = await authFetch(`${config.API_BASE_URL}/api/replays/user/${userId}`);
+        const data = await response.json();
+        if (data.success) {
+          setReplays(data.replays);
+        }
+      } catch (err) {
+        console.error('Error loading replays:', err);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadReplays();
+  }, [userId]);
+
+  // Advance one frame at a time while playing, stopping at the end
+  useEffect(() => {
+    if (!isPlaying || !replayData) return;
+
+    if (frameIndex >= replayData.frames.length - 1) {
+      setIsPlaying(false);
+      return;
+    }
+
+    const timeout = setTimeout(() => setFrameIndex(prev => prev + 1), PLAYBACK_INTERVAL_MS);
+    return () => clearTimeout(timeout);
+  }, [isPlaying, frameIndex, replayData]);
+
+  const openReplay = async (replayId: string, playerIndex = 0) => {
+    setError(null);
+    try {
+      const response = await authFetch(`${config.API_BASE_URL}/api/replays/${encodeURIComponent(replayId)}`);
+      const data = await response.json();
+      if (!data.success) {
+        setError(data.message || 'Replay not found');
+        return;
+      }
+      setReplayData(data);
+      setPerspectiveIndex(playerIndex);
+      setFrameIndex(0);
+      setIsPlaying(false);
+    } catch (err) {
+      console.error('Error loading replay:', err);
+      setError('Failed to load replay');
+    }
+  };
+
+  const closeReplay = () => {
+    setReplayData(null);
+    setIsPlaying(false);
+  };
+
+  const stepTo = (index: number) => {
+    if (!replayData) return;
+    setIsPlaying(false);
+    setFrameIndex(Math.max(0, Math.min(index, replayData.frames.length - 1)));
+  };
+
+  if (replayData) {
+    const frame = replayData.frames[frameIndex];
+    const gameState: GameState = {
+      ...frame.state,
+      battleLog: replayData.battleLog.slice(0, frame.logLength)
+    };
+    const viewedPlayer = gameState.players[perspectiveIndex];
+    const otherPlayer = gameState.players[1 - perspectiveIndex] || null;
+    const lastFrameIndex = replayData.frames.length - 1;
+    const actionLabel = frame.action
+      ? `${replayData.replay.players[frame.action.player]} - ${ACTION_LABELS[frame.action.event] || frame.action.event}`
+      : 'Battle start';
+
+    return (
+      <div className="replay-viewer-playback">
+        <BattlePhase
+          gameState={gameState}
+          currentPlayer={viewedPlayer}
+          opponent={otherPlayer}
+          playerId={viewedPlayer.id}
+          isSpectating={true}
+          spectatingPlayerId={viewedPlayer.id}
+          onStopSpectating={closeReplay}
+        />
+
+        <div className="replay-controls">
+          <div className="replay-controls-buttons">
+            <button onClick={() => stepTo(0)} disabled={frameIndex === 0} title="First">⏮</button>
+            <button onClick={() => stepTo(frameIndex - 1)} disabled={frameIndex === 0} title="Step back">⏪</button>
+            <button
+              className="replay-play-button"
+              onClick={() => {
+                if (frameIndex >= lastFrameIndex) setFrameIndex(0);
+                setIsPlaying(prev => !prev);
+              }}
+              title={isPlaying ? 'Pause' : 'Play'}
+            >
+              {isPlaying ? '⏸' : '▶'}
+            </button>
+            <button onClick={() => stepTo(frameIndex + 1)} disabled={frameIndex >= lastFrameIndex} title="Step forward">⏩</button>
+            <button onClick={() => stepTo(lastFrameIndex)} disabled={frameIndex >= lastFrameIndex} title="Last">⏭</button>
+          </div>
+
+          <input
+            className="replay-scrubber"
+            type="range"
+            min={0}
+            max={lastFrameIndex}
+            value={frameIndex}
+            onChange={(e) => stepTo(parseInt(e.target.value))}
+          />
+
+          <div className="replay-controls-info">
+            <span className="replay-frame-counter">{frameIndex} / {lastFrameIndex}</span>
+            <span className="replay-action-label">{actionLabel}</span>
+          </div>
+
+          <div className="replay-controls-buttons">
+            <button onClick={() => setPerspectiveIndex(1 - perspectiveIndex)} title="Switch perspective">⇄ {otherPlayer?.name}</button>
+            <button className="replay-exit-button" onClick={closeReplay}>Exit Replay</button>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="modal-overlay">
+      <div className="replay-viewer">
+        <div className="replay-viewer-header">
+          <h3>Replays</h3>
+          <button className="close-button" onClick={onClose}>×</button>
+        </div>
+
+        <div className="replay-id-search">
+          <input
+            type="text"
+            value={replayIdInput}
+            onChange={(e) => setReplayIdInput(e.target.value)}
+            placeholder="Enter a replay ID..."
+            className="replay-id-input"
+          />
+          <button
+            className="replay-id-button"
+            onClick={() => openReplay(replayIdInput.trim())}
+            disabled={!replayIdInput.trim()}
+          >
+            Load
+          </button>
+        </div>
+
+        {error && <div className="replay-viewer-error">{error}</div>}
+
+        {loading ? (
+          <div className="replay-viewer-loading">Loading replays...</div>
+        ) : replays.length === 0 ? (
+          <div className="replay-viewer-empty">No replays yet. Finished battles will show up here.</div>
+        ) : (
+          <div className="replay-list">
+            {replays.map(replay => {
+              const opponentName = replay.players[1 - replay.playerIndex];
+              const result = replay.winnerIndex === -1 ? 'draw' : replay.winnerIndex === replay.playerIndex ? 'won' : 'lost';
+              return (
+                <div key={replay.id} className="replay-list-item">
+                  <div className="replay-list-info">
+                    <div className="replay-list-title">
+                      <span className={`replay-result ${result}`}>{result === 'draw' ? 'Draw' : result === 'won' ? 'Victory' : 'Defeat'}</span>
+                      vs {opponentName}
+                    </div>
+                    <div className="replay-list-meta">
+                      {replay.mode} · {new Date(replay.createdAt.replace(' ', 'T') + 'Z').toLocaleString()}
+                    </div>
+                  </div>
+                  <button className="replay-watch-button" onClick={() => openReplay(replay.id, replay.playerIndex)}>
+                    Watch
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { ReportReason, ReportContext } from '../types';
+import { socketService } from '../socketService';
+import '../styles/ReportPlayerModal.css';
+
+interface ReportPlayerModalProps {
+  playerName: string;
+  context: ReportContext;
+  targetUserId?: number; // For 'friends' and 'chat' reports
+  gameId?: string; // For 'post-game' reports; the server works out the opponent
+  onClose: () => void;
+}
+
+const REASONS: { value: ReportReason; label: string }[] = [
+  { value: 'harassment', label: 'Harassment or abuse' },
+  { value: 'cheating', label: 'Cheating or exploiting' },
+  { value: 'spam', label: 'Spam' },
+  { value: 'offensive-name', label: 'Offensive username' },
+  { value: 'other', label: 'Something else' }
+];
+
+const ReportPlayerModal: React.FC<ReportPlayerModalProps> = ({ playerName, context, targetUserId, gameId, onClose }) => {
+  const [reason, setReason] = useState<ReportReason>('harassment');
+  const [details, setDetails] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [sentMessage, setSentMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const socket = socketService.getSocket();
+    if (!socket) return;
+
+    const handleReportResponse = (data: { success: boolean; message?: string; error?: string }) => {
+      setSending(false);
+      if (data.success) {
+        setSentMessage(data.message || 'Report sent.');
+      } else {
+        setError(data.error || 'Failed to send report');
+      }
+    };
+
+    socket.on('report-player-response', handleReportResponse);
+    return () => {
+      socket.off('report-player-response', handleReportResponse);
+    };
+  }, []);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSending(true);
+    socketService.reportPlayer({
+      targetUserId,
+      gameId,
+      reason,
+      details: details.trim() || undefined,
+      context
+    });
+  };
+
+  // Rendered into <body> so it isn't clipped by the chat and friends windows it opens from
+  return createPortal(
+    <div className="report-modal-backdrop" onClick={onClose}>
+      <div className="report-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="report-modal-header">
+          <h3>Report {playerName}</h3>
+          <button className="report-modal-close" onClick={onClose}>×</button>
+        </div>
+
+        {sentMessage ? (
+          <div className="report-modal-body">
+            <p className="report-modal-sent">{sentMessage}</p>
+            <button className="report-modal-submit" onClick={onClose}>Close</button>
+          </div>
+        ) : (
+          <form className="report-modal-body" onSubmit={handleSubmit}>
+            <label htmlFor="report-reason">Reason</label>
+            <select
+              id="report-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value as ReportReason)}
+            >
+              {REASONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+
+            <label htmlFor="report-details">Details (optional)</label>
+            <textarea
+              id="report-details"
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="What happened?"
+              rows={4}
+              maxLength={500}
+            />
+
+            {context !== 'post-game' && (
+              <p className="report-modal-hint">Your recent messages with this player are included with the report.</p>
+            )}
+
+            {error && <div className="report-modal-error">{error}</div>}
+
+            <button type="submit" className="report-modal-submit" disabled={sending}>
+              {sending ? 'Sending...' : 'Send Report'}
+            </button>
+          </form>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ReportPlayerModal;
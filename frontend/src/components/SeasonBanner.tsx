@@ -0,0 +1,83 @@
+import React, { useState, useEffect } from 'react';
+import { Season, SeasonResult } from '../types';
+import { socketService } from '../socketService';
+import config from '../config';
+import '../styles/SeasonBanner.css';
+
+const formatTimeLeft = (ms: number) => {
+  if (ms <= 0) return 'ending now';
+  const minutes = Math.floor(ms / 60000);
+  const days = Math.floor(minutes / (60 * 24));
+  const hours = Math.floor((minutes % (60 * 24)) / 60);
+  if (days > 0) return `${days}d ${hours}h left`;
+  if (hours > 0) return `${hours}h ${minutes % 60}m left`;
+  return `${minutes}m ${Math.floor((ms % 60000) / 1000)}s left`;
+};
+
+const describeResult = (result: SeasonResult) => {
+  const finish = result.tier ? `finished ${result.tier} (${result.rating})` : 'ended during your placement games';
+  if (!result.reward) return `Season ${result.season} ${finish}.`;
+
+  const rewards = [`+${result.reward.victoryPoints} VP`];
+  if (result.reward.title) rewards.push(`the title "${result.reward.title}"`);
+  if (result.reward.icon) rewards.push(`the ${result.reward.icon} profile icon`);
+  return `Season ${result.season}: you ${finish}. Rewards: ${rewards.join(', ')}.`;
+};
+
+// Current Ranked Draft season with a countdown to its end. The server starts the next season on
+// its own schedule, and tells each ranked player how their last one ended
+const SeasonBanner: React.FC = () => {
+  const [season, setSeason] = useState<Season | null>(null);
+  const [lastResult, setLastResult] = useState<SeasonResult | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    fetch(`${config.API_BASE_URL}/api/seasons/current`)
+      .then(response => response.json())
+      .then(data => {
+        if (data.success) setSeason(data.season);
+      })
+      .catch(error => console.error('Failed to fetch the current season:', error));
+
+    const socket = socketService.getSocket();
+    if (!socket) return;
+
+    const handleSeasonStarted = (started: Season) => setSeason(started);
+    const handleSeasonEnded = (data: { result: SeasonResult }) => setLastResult(data.result);
+
+    socket.on('season-started', handleSeasonStarted);
+    socket.on('season-ended', handleSeasonEnded);
+
+    return () => {
+      socket.off('season-started', handleSeasonStarted);
+      socket.off('season-ended', handleSeasonEnded);
+    };
+  }, []);
+
+  // Tick every second in the last hour, every minute before that
+  useEffect(() => {
+    if (!season) return;
+    const interval = season.endsAt - Date.now() < 60 * 60 * 1000 ? 1000 : 60 * 1000;
+    const timer = setTimeout(() => setNow(Date.now()), interval);
+    return () => clearTimeout(timer);
+  }, [season, now]);
+
+  if (!season) return null;
+
+  return (
+    <div className="season-banner">
+      <div className="season-banner-main">
+        <span className="season-banner-name">🏆 Season {season.number}</span>
+        <span className="season-banner-countdown">{formatTimeLeft(season.endsAt - now)}</span>
+      </div>
+      {lastResult && (
+        <div className="season-banner-result">
+          <span>{describeResult(lastResult)}</span>
+          <button className="season-banner-dismiss" onClick={() => setLastResult(null)}>✕</button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SeasonBanner;
@@ -3,6 +3,7 @@ import HeroCard from './HeroCard';
 import PackOpeningAnimation from './PackOpeningAnimation';
 import { Hero } from '../types';
 import config from '../config';
+import { authFetch } from '../session';
 import '../styles/Shop.css';
 
 interface ShopProps {
@@ -119,14 +120,14 @@ const Shop: React.FC<ShopProps> = ({ onClose, userId, victoryPoints, availableHe
       setLoading(true);
       
       // Fetch rotation heroes
-      const rotationResponse = await fetch(`${config.API_BASE_URL}/api/shop/rotation?userId=${userId}`);
+      const rotationResponse = await authFetch(`${config.API_BASE_URL}/api/shop/rotation`);
       const rotationData = await rotationResponse.json();
       
       // Fetch ALL enabled heroes and user data to check total unowned count for packs
       const allHeroesResponse = await fetch(`${config.API_BASE_URL}/api/heroes`);
       const allHeroesData = await allHeroesResponse.json();
       
-      const userResponse = await fetch(`${config.API_BASE_URL}/api/user/${userId}`);
+      const userResponse = await authFetch(`${config.API_BASE_URL}/api/user/${userId}`);
       const userData = await userResponse.json();
       
       if (rotationData.success) {
@@ -161,10 +162,10 @@ const Shop: React.FC<ShopProps> = ({ onClose, userId, victoryPoints, availableHe
 
     setPurchasing(true);
     try {
-      const response = await fetch(`${config.API_BASE_URL}/api/shop/purchase-hero`, {
+      const response = await authFetch(`${config.API_BASE_URL}/api/shop/purchase-hero`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId, heroName })
+        body: JSON.stringify({ heroName })
       });
 
       const data = await response.json();
@@ -193,10 +194,8 @@ const Shop: React.FC<ShopProps> = ({ onClose, userId, victoryPoints, availableHe
     setPurchasing(true);
     
     try {
-      const response = await fetch(`${config.API_BASE_URL}/api/shop/purchase-pack`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ userId })
+      const response = await authFetch(`${config.API_BASE_URL}/api/shop/purchase-pack`, {
+        method: 'POST'
       });
 
       const data = await response.json();
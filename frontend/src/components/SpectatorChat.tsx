@@ -0,0 +1,190 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Spectator, SpectatorChatMessage, SpectatorRole } from '../types';
+import { socketService } from '../socketService';
+import '../styles/BattleChat.css';
+
+interface SpectatorChatProps {
+  gameId: string;
+  spectators: Spectator[];
+}
+
+const MAX_MESSAGE_LENGTH = 200;
+
+// Chat among the spectators of a game. The players can't see it, and moderators can mute people
+const SpectatorChat: React.FC<SpectatorChatProps> = ({ gameId, spectators }) => {
+  const [messages, setMessages] = useState<SpectatorChatMessage[]>([]);
+  const [muted, setMuted] = useState<Set<string>>(new Set());
+  const [isOpen, setIsOpen] = useState(false);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const isOpenRef = useRef(isOpen);
+
+  isOpenRef.current = isOpen;
+
+  const me = spectators.find(s => s.socketId === socketService.getSocket()?.id);
+  const isModerator = me?.role === 'moderator';
+  const isMuted = !!me && muted.has(me.username);
+
+  useEffect(() => {
+    const socket = socketService.getSocket();
+    if (!socket) return;
+
+    const handleHistory = (data: { gameId: string; messages: SpectatorChatMessage[]; muted: string[] }) => {
+      if (data.gameId !== gameId) return;
+      setMessages(data.messages);
+      setMuted(new Set(data.muted));
+    };
+
+    const handleMessage = (message: SpectatorChatMessage) => {
+      if (message.gameId !== gameId) return;
+      setMessages(prev => [...prev, message]);
+      if (!isOpenRef.current) {
+        setUnreadCount(prev => prev + 1);
+      }
+    };
+
+    const handleMuted = (data: { gameId: string; username: string; muted: boolean }) => {
+      if (data.gameId !== gameId) return;
+      setMuted(prev => {
+        const next = new Set(prev);
+        if (data.muted) {
+          next.add(data.username);
+        } else {
+          next.delete(data.username);
+        }
+        return next;
+      });
+    };
+
+    const handleError = (data: { error: string }) => {
+      setError(data.error);
+    };
+
+    socket.on('spectator-chat-history', handleHistory);
+    socket.on('spectator-chat-message', handleMessage);
+    socket.on('spectator-chat-muted', handleMuted);
+    socket.on('spectator-chat-error', handleError);
+    socketService.getSpectatorChat();
+
+    return () => {
+      socket.off('spectator-chat-history', handleHistory);
+      socket.off('spectator-chat-message', handleMessage);
+      socket.off('spectator-chat-muted', handleMuted);
+      socket.off('spectator-chat-error', handleError);
+    };
+  }, [gameId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    }
+  }, [messages, isOpen]);
+
+  useEffect(() => {
+    if (!error) return;
+    const timer = setTimeout(() => setError(null), 4000);
+    return () => clearTimeout(timer);
+  }, [error]);
+
+  const handleToggleOpen = () => {
+    setIsOpen(prev => !prev);
+    setUnreadCount(0);
+  };
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text) return;
+    socketService.sendSpectatorChat(text);
+    setDraft('');
+  };
+
+  const canMute = (username: string, role: SpectatorRole) => isModerator && role !== 'moderator' && username !== me?.username;
+
+  return (
+    <div className="spectator-chat">
+      <button
+        className={`battle-chat-toggle spectator-chat-toggle ${isOpen ? 'open' : ''}`}
+        onClick={handleToggleOpen}
+        title="Spectator chat"
+      >
+        👁️
+        {unreadCount > 0 && (
+          <span className="battle-chat-badge">{unreadCount > 9 ? '9+' : unreadCount}</span>
+        )}
+      </button>
+
+      {isOpen && (
+        <div className="battle-chat-panel spectator-chat-panel">
+          <div className="battle-chat-header">
+            <span>Spectator Chat</span>
+            {isModerator && <span className="spectator-chat-role">Moderator</span>}
+          </div>
+
+          <div className="battle-chat-messages">
+            {messages.length === 0 ? (
+              <div className="battle-chat-empty">Only spectators can see this chat</div>
+            ) : (
+              messages.map(message => (
+                <div
+                  key={message.id}
+                  className={`battle-chat-message ${message.senderName === me?.username ? 'own' : ''}`}
+                >
+                  <span className="battle-chat-sender">
+                    {message.senderRole === 'moderator' && '🛡️ '}{message.senderName}:
+                  </span>{' '}
+                  <span className="battle-chat-text">{message.text}</span>
+                  {canMute(message.senderName, message.senderRole) && (
+                    <button
+                      className="spectator-chat-mute-user"
+                      onClick={() => socketService.muteSpectator(message.senderName, !muted.has(message.senderName))}
+                    >
+                      {muted.has(message.senderName) ? 'Unmute' : 'Mute'}
+                    </button>
+                  )}
+                </div>
+              ))
+            )}
+            <div ref={messagesEndRef} />
+          </div>
+
+          {isModerator && muted.size > 0 && (
+            <div className="spectator-chat-muted-list">
+              Muted: {[...muted].map(username => (
+                <button
+                  key={username}
+                  className="spectator-chat-mute-user"
+                  onClick={() => socketService.muteSpectator(username, false)}
+                  title="Unmute"
+                >
+                  {username} ✕
+                </button>
+              ))}
+            </div>
+          )}
+
+          {error && <div className="battle-chat-error">{error}</div>}
+
+          {isMuted ? (
+            <div className="battle-chat-readonly">A moderator has muted you in this chat</div>
+          ) : (
+            <form className="battle-chat-input" onSubmit={handleSend}>
+              <input
+                type="text"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                placeholder="Chat with other spectators..."
+                maxLength={MAX_MESSAGE_LENGTH}
+              />
+              <button type="submit" disabled={!draft.trim()}>Send</button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SpectatorChat;
@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import '../styles/SurvivalTeamBuilder.css';
 import config from '../config';
+import { authFetch } from '../session';
 
 interface HeroAbility {
   name: string;
@@ -213,13 +214,10 @@ const SurvivalTeamBuilder: React.FC<SurvivalTeamBuilderProps> = ({
 
   const fetchHeroes = async () => {
     try {
-      // Build URL with user data for authenticated requests
-      let url = `${config.API_BASE_URL}/api/heroes`;
-      if (user) {
-        url += `?userId=${user.id}`;
-      }
-      
-      const response = await fetch(url);
+      // Signed-in players pick from their own heroes
+      const response = user
+        ? await authFetch(`${config.API_BASE_URL}/api/heroes/owned`)
+        : await fetch(`${config.API_BASE_URL}/api/heroes`);
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
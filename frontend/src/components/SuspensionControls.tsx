@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import config from '../config';
+import { authFetch } from '../session';
+import { Suspension, SuspensionType } from '../types';
+
+interface SuspensionControlsProps {
+  userId: number;
+  suspensions: Suspension[];
+  onChange: (suspensions: Suspension[]) => void;
+}
+
+const SUSPENSION_LABELS: Record<SuspensionType, string> = {
+  'mute': 'Chat muted',
+  'queue-ban': 'Queue banned',
+  'ban': 'Banned'
+};
+
+// Duration choices in hours; null = permanent
+const DURATIONS: { label: string; hours: number | null }[] = [
+  { label: '1 hour', hours: 1 },
+  { label: '24 hours', hours: 24 },
+  { label: '7 days', hours: 24 * 7 },
+  { label: '30 days', hours: 24 * 30 },
+  { label: 'Permanent', hours: null }
+];
+
+// Lists a player's active suspensions and applies new ones. Used by the admin player lookup and report review
+const SuspensionControls: React.FC<SuspensionControlsProps> = ({ userId, suspensions, onChange }) => {
+  const [type, setType] = useState<SuspensionType>('mute');
+  const [durationIndex, setDurationIndex] = useState(1);
+  const [reason, setReason] = useState('');
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSuspend = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (type === 'ban' && !window.confirm('Ban this player? They will be logged out immediately.')) return;
+
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await authFetch(`${config.API_BASE_URL}/api/admin/users/${userId}/suspensions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ type, durationHours: DURATIONS[durationIndex].hours, reason: reason.trim() || undefined })
+      });
+      const data = await response.json();
+      if (data.success) {
+        setReason('');
+        onChange(data.suspensions);
+      } else {
+        setError(data.message || 'Failed to suspend player');
+      }
+    } catch (error) {
+      console.error('Suspension request failed:', error);
+      setError('Connection failed. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLift = async (suspensionId: number) => {
+    setBusy(true);
+    setError(null);
+    try {
+      const response = await authFetch(`${config.API_BASE_URL}/api/admin/suspensions/${suspensionId}/lift`, {
+        method: 'POST'
+      });
+      const data = await response.json();
+      if (data.success) {
+        onChange(suspensions.filter(s => s.id !== suspensionId));
+      } else {
+        setError(data.message || 'Failed to lift suspension');
+      }
+    } catch (error) {
+      console.error('Lift suspension request failed:', error);
+      setError('Connection failed. Please try again.');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="admin-suspensions">
+      <h4>Suspensions</h4>
+      {suspensions.length === 0 ? (
+        <p className="admin-muted">No active suspensions</p>
+      ) : (
+        <ul className="admin-suspension-list">
+          {suspensions.map(suspension => (
+            <li key={suspension.id}>
+              <span className={`admin-suspension-type ${suspension.type}`}>{SUSPENSION_LABELS[suspension.type]}</span>
+              <span className="admin-suspension-detail">
+                {suspension.expires_at ? `until ${new Date(suspension.expires_at).toLocaleString()}` : 'permanent'}
+                {suspension.reason && ` - ${suspension.reason}`}
+              </span>
+              <button className="admin-btn" onClick={() => handleLift(suspension.id)} disabled={busy}>Lift</button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="admin-inline-form">
+        <select value={type} onChange={(e) => setType(e.target.value as SuspensionType)}>
+          {(Object.keys(SUSPENSION_LABELS) as SuspensionType[]).map(option => (
+            <option key={option} value={option}>{SUSPENSION_LABELS[option]}</option>
+          ))}
+        </select>
+        <select value={durationIndex} onChange={(e) => setDurationIndex(parseInt(e.target.value, 10))}>
+          {DURATIONS.map((duration, index) => (
+            <option key={duration.label} value={index}>{duration.label}</option>
+          ))}
+        </select>
+      </div>
+      <form className="admin-inline-form" onSubmit={handleSuspend}>
+        <input
+          type="text"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason (shown to the player)"
+          maxLength={200}
+        />
+        <button type="submit" className="admin-btn danger" disabled={busy}>Apply</button>
+      </form>
+      {error && <div className="admin-message error">{error}</div>}
+    </div>
+  );
+};
+
+export default SuspensionControls;
@@ -0,0 +1,21 @@
+// Session token issued by /api/login. The server takes the user id from this token, so every
+// user-scoped REST call and the socket 'authenticate' event must carry it.
+
+let sessionToken: string | null = null;
+
+export function setSessionToken(token: string | null) {
+  sessionToken = token;
+}
+
+export function getSessionToken(): string | null {
+  return sessionToken;
+}
+
+// fetch with the session token attached as a bearer token
+export function authFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+  if (sessionToken) {
+    headers.set('Authorization', `Bearer ${sessionToken}`);
+  }
+  return fetch(input, { ...init, headers });
+}
@@ -1,11 +1,15 @@
 import { io, Socket } from 'socket.io-client';
-import { SocketEvents } from './types';
+import { SocketEvents, AIDifficulty, Hero, ReportReason, ReportContext, BattleEmote, ChallengeMode, FriendlySeriesLength } from './types';
+import { DragonflowAction, DragonflowMatch, DragonflowStateUpdate } from './types/dragonflow';
 import config from './config';
+import { getSessionToken } from './session';
 
 class SocketService {
   private socket: Socket<SocketEvents> | null = null;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
+  private wasDisconnected = false;
+  private reconnectHandler: (() => void) | null = null;
 
   connect(): Socket<SocketEvents> {
     if (this.socket?.connected) {
@@ -19,14 +23,27 @@ class SocketService {
       reconnectionAttempts: this.maxReconnectAttempts,
       reconnectionDelay: 1000,
     });
+    this.wasDisconnected = false;
 
     this.socket.on('connect', () => {
       console.log('Connected to server');
       this.reconnectAttempts = 0;
+
+      // A reconnect gets a new socket id (and may be talking to a restarted server), so the
+      // session and any game in progress have to be picked up again
+      if (this.wasDisconnected) {
+        this.wasDisconnected = false;
+        const token = getSessionToken();
+        if (token) {
+          this.socket?.emit('authenticate', { token });
+        }
+        this.reconnectHandler?.();
+      }
     });
 
     this.socket.on('disconnect', (reason) => {
       console.log('Disconnected from server:', reason);
+      this.wasDisconnected = true;
     });
 
     (this.socket as any).on('reconnect', (attemptNumber: number) => {
@@ -57,26 +74,42 @@ class SocketService {
     return this.socket?.connected || false;
   }
 
-  // Authentication method
-  authenticate(userId: number) {
-    this.socket?.emit('authenticate', { userId });
+  // Authenticate with the session token from login
+  authenticate() {
+    const token = getSessionToken();
+    if (token) {
+      this.socket?.emit('authenticate', { token });
+    }
+  }
+
+  // Called after the socket reconnects and has re-authenticated
+  onReconnect(handler: (() => void) | null) {
+    this.reconnectHandler = handler;
   }
 
   // Reconnection method
-  reconnectToGame(gameId: string, playerName: string) {
-    console.log(`🔄 SocketService reconnecting to game: ${gameId} as ${playerName}`);
-    this.socket?.emit('reconnect-game', { gameId, playerName });
+  // The seat is matched on the signed-in account, so the session token goes along in case the
+  // authenticate sent on reconnect hasn't been handled yet; without one, the game's rejoin token
+  reconnectToGame(gameId: string, rejoinToken?: string) {
+    console.log(`🔄 SocketService reconnecting to game: ${gameId}`);
+    this.socket?.emit('reconnect-game', { gameId, token: getSessionToken() || undefined, rejoinToken });
   }
 
   // Game-specific methods
-  joinGame(playerName: string, mode: 'draft' | 'random' = 'draft') {
+  joinGame(playerName: string, mode: 'draft' | 'random' | 'ranked' = 'draft') {
     console.log(`📡 SocketService joining game with name: "${playerName}", mode: ${mode}`);
     this.socket?.emit('join-game', { name: playerName, mode });
   }
 
-  joinSurvivalGame(playerName: string, team: any[]) {
-    console.log(`📡 SocketService joining survival game with name: "${playerName}", team: ${team.map(h => h.name).join(', ')}`);
-    this.socket?.emit('join-survival-game', { name: playerName, team });
+  joinPracticeGame(playerName: string, difficulty: AIDifficulty) {
+    console.log(`📡 SocketService starting practice game vs AI (${difficulty}) as "${playerName}"`);
+    this.socket?.emit('join-practice-game', { name: playerName, difficulty });
+  }
+
+  joinSurvivalGame(playerName: string, team: Hero[]) {
+    const heroNames = team.map(h => h.name);
+    console.log(`📡 SocketService joining survival game with name: "${playerName}", team: ${heroNames.join(', ')}`);
+    this.socket?.emit('join-survival-game', { name: playerName, heroNames });
   }
 
   cancelSurvivalSearch() {
@@ -87,9 +120,9 @@ class SocketService {
     this.socket?.emit('cancel-search');
   }
 
-  createFriendlyRoom(roomName: string, playerName: string) {
-    console.log(`📡 SocketService creating friendly room "${roomName}" with name: "${playerName}"`);
-    this.socket?.emit('create-friendly-room', { roomName, playerName });
+  createFriendlyRoom(roomName: string, playerName: string, bestOf: FriendlySeriesLength = 1) {
+    console.log(`📡 SocketService creating friendly room "${roomName}" (best of ${bestOf}) with name: "${playerName}"`);
+    this.socket?.emit('create-friendly-room', { roomName, playerName, bestOf });
   }
 
   joinFriendlyRoom(roomName: string, playerName: string) {
@@ -138,8 +171,8 @@ class SocketService {
     });
   }
 
-  activateSpecial() {
-    this.socket?.emit('activate-special');
+  activateSpecial(targetId?: string) {
+    this.socket?.emit('activate-special', { targetId });
   }
 
   endTurn() {
@@ -159,10 +192,6 @@ class SocketService {
     this.socket?.emit('abandon-draft');
   }
 
-  reconnectGame(gameId: string, playerName: string) {
-    this.socket?.emit('reconnect-game', { gameId, playerName });
-  }
-
   // Survival state methods
   getSurvivalState() {
     this.socket?.emit('get-survival-state');
@@ -172,6 +201,10 @@ class SocketService {
     this.socket?.emit('reset-survival-state');
   }
 
+  requestRematch() {
+    this.socket?.emit('request-rematch');
+  }
+
   returnToLobby() {
     console.log('📡 SocketService sending return-to-lobby');
     this.socket?.emit('return-to-lobby');
@@ -198,12 +231,76 @@ class SocketService {
     this.socket?.emit('remove-friend', { friendId });
   }
 
+  blockUser(targetUserId: number) {
+    this.socket?.emit('block-user', { targetUserId });
+  }
+
+  unblockUser(targetUserId: number) {
+    this.socket?.emit('unblock-user', { targetUserId });
+  }
+
+  getBlockedUsers() {
+    this.socket?.emit('get-blocked-users');
+  }
+
+  sendChallenge(targetUserId: number, mode: ChallengeMode) {
+    this.socket?.emit('send-challenge', { targetUserId, mode });
+  }
+
+  respondToChallenge(challengeId: string, accept: boolean) {
+    this.socket?.emit('respond-challenge', { challengeId, accept });
+  }
+
+  cancelChallenge(challengeId: string) {
+    this.socket?.emit('cancel-challenge', { challengeId });
+  }
+
   sendMessage(targetUserId: number, message: string) {
     this.socket?.emit('send-message', { targetUserId, message });
   }
 
-  getMessages(targetUserId: number, limit?: number) {
-    this.socket?.emit('get-messages', { targetUserId, limit });
+  // Latest page of a conversation, or the page before beforeId when scrolling back
+  getMessages(targetUserId: number, beforeId?: number, limit?: number) {
+    this.socket?.emit('get-messages', { targetUserId, beforeId, limit });
+  }
+
+  markMessagesRead(targetUserId: number) {
+    this.socket?.emit('mark-messages-read', { targetUserId });
+  }
+
+  // Post-game reports pass the gameId instead of a user id
+  reportPlayer(report: { targetUserId?: number; gameId?: string; reason: ReportReason; details?: string; context: ReportContext }) {
+    this.socket?.emit('report-player', report);
+  }
+
+  // Battle chat (players of the current game only)
+  sendBattleChat(text: string) {
+    this.socket?.emit('send-battle-chat', { text });
+  }
+
+  sendBattleEmote(emote: BattleEmote) {
+    this.socket?.emit('send-battle-chat', { emote });
+  }
+
+  getBattleChat() {
+    this.socket?.emit('get-battle-chat');
+  }
+
+  // Spectator chat (spectators only; choosing moderators is for friendly room hosts)
+  sendSpectatorChat(text: string) {
+    this.socket?.emit('send-spectator-chat', { text });
+  }
+
+  getSpectatorChat() {
+    this.socket?.emit('get-spectator-chat');
+  }
+
+  setSpectatorModerator(username: string, moderator: boolean) {
+    this.socket?.emit('set-spectator-moderator', { username, moderator });
+  }
+
+  muteSpectator(username: string, muted: boolean) {
+    this.socket?.emit('mute-spectator', { username, muted });
   }
 
   // Spectator methods
@@ -238,31 +335,23 @@ class SocketService {
     this.socket?.emit('dragonflow:leave-queue');
   }
 
-  dragonflowGameAction(data: any) {
-    this.socket?.emit('dragonflow:game-action', data);
+  dragonflowGameAction(action: DragonflowAction) {
+    this.socket?.emit('dragonflow:game-action', action);
   }
 
-  syncDragonflowState(gameState: any) {
-    this.socket?.emit('dragonflow:sync-state', { gameState });
-  }
-
-  dragonflowGameOver(data: any) {
-    this.socket?.emit('dragonflow:game-over', data);
-  }
-
-  onDragonflowMatchFound(callback: (data: any) => void) {
+  onDragonflowMatchFound(callback: (data: DragonflowMatch) => void) {
     this.socket?.on('dragonflow:match-found', callback);
   }
 
-  onDragonflowOpponentAction(callback: (data: any) => void) {
-    this.socket?.on('dragonflow:opponent-action', callback);
+  onDragonflowStateUpdate(callback: (data: DragonflowStateUpdate) => void) {
+    this.socket?.on('dragonflow:state-update', callback);
   }
 
-  onDragonflowStateUpdate(callback: (data: any) => void) {
-    this.socket?.on('dragonflow:state-update', callback);
+  onDragonflowActionRejected(callback: (data: { message: string }) => void) {
+    this.socket?.on('dragonflow:action-rejected', callback);
   }
 
-  onDragonflowGameEnded(callback: (data: any) => void) {
+  onDragonflowGameEnded(callback: (data: { winner: 'player1' | 'player2' }) => void) {
     this.socket?.on('dragonflow:game-ended', callback);
   }
 
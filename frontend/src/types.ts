@@ -1,9 +1,24 @@
 // Type definitions for Hero's Call game
 
+import { DragonflowAction, DragonflowMatch, DragonflowRole, DragonflowStateUpdate } from './types/dragonflow';
+
+// Hero definitions (heros.json) - backend/heroSchema.js is the authoritative schema; these
+// interfaces mirror it for the fields the client reads
+
+// Dice string ("1D6", "+1D8", "2D4+1"), a flat number, or "—" for no basic attack
+export type DiceValue = string | number;
+
 export interface Effect {
-  type: string;
-  value?: string | number;
+  type: string; // Registered effect type, see backend/effectRegistry.js
+  value?: DiceValue;
+  value_true?: DiceValue;
+  value_false?: DiceValue;
+  value_per_stack?: DiceValue; // Scaling specials, applied per stack to the owner
+  scaling?: string; // Multiplies a "1D4_per_x" value, e.g. 'summon_count'
   target?: string;
+  unit?: string; // Summons
+  counter?: string;
+  label?: string;
   trigger?: string;
   condition?: string;
   duration?: number;
@@ -18,6 +33,9 @@ export interface Effect {
     value: string;
     target: string;
   };
+  action?: string | Effect; // conditional_action carries a nested effect
+  against?: string;
+  scope?: string;
   cost?: {
     type: string;
     unit: string;
@@ -39,12 +57,24 @@ export interface Effect {
 export interface Ability {
   name: string;
   description: string;
-  effects: Effect[];
   requires_ally_target?: boolean;
   secondary_effects?: Effect[];
   category?: string;
-  target_type?: string;
-  primary_effects?: Effect[];
+  target_type?: 'single_target' | 'multi_target' | 'all_enemies' | 'single_ally' | 'self_only';
+  primary_effects: Effect[];
+  crit_bonus?: Effect;
+}
+
+export interface Special {
+  name: string;
+  description: string;
+  category?: string;
+  effects: Effect[];
+  trigger?: string;
+  trigger_timing?: string;
+  frequency?: string;
+  condition?: string;
+  scale_with?: string;
 }
 
 export interface PassiveBuff {
@@ -62,7 +92,8 @@ export interface Hero {
   Accuracy: string;
   BasicAttack: string;
   Ability: Ability[];
-  Special: Ability[];
+  Special: Special | Special[]; // Usually a single special; a few heroes have a list
+  Immunities?: string[];
   disabled?: boolean; // Whether hero is disabled/not available in game
   
   // Runtime properties
@@ -75,6 +106,8 @@ export interface Hero {
   companions?: Array<{ type: string; hp: number }>; // For summoner heroes like Beast Tamer
   id?: string;
   resurrected?: boolean; // Flag for resurrection animation
+  spentSpecials?: Record<string, boolean>; // Once-only specials already used, by name
+  permanentDisables?: { special?: boolean; abilities?: boolean }; // Used up for the rest of the battle
 }
 
 export interface StatusEffects {
@@ -82,6 +115,7 @@ export interface StatusEffects {
   beast_active?: boolean;
   totem_count?: number;
   turret_count?: number;
+  med_bot_count?: number;
   taunt: {
     target: string;
     duration: number;
@@ -128,13 +162,16 @@ export interface StatusEffects {
   resurrectUsed?: boolean; // Track if Angel has used resurrection
 }
 
+export type AIDifficulty = 'easy' | 'normal' | 'hard';
+
 export interface Player {
   id: string;
   name: string;
   connected: boolean;
   team: Hero[];
   draftCards?: Hero[];
-  bannedCard?: string | null;
+  bannedCard?: string | null; // The opponent's stays hidden until both players have banned
+  hasBanned?: boolean;
   attackOrder: string[];
   currentHeroIndex: number;
   hasUsedAttack: boolean;
@@ -147,7 +184,12 @@ export interface Player {
   monkAttacksRemaining?: number;
   oneTwoPunchAttacksRemaining?: number;
   profile_icon?: string;
+  rank?: PlayerRank | null; // Rank in the game's rated mode; null for guests and unrated games
   isReady?: boolean;
+  isAI?: boolean; // Server-side practice opponent
+  aiDifficulty?: AIDifficulty;
+  timeoutCount?: number; // Action clock expiries so far this game
+  rejoinToken?: string; // Only on your own player: takes the seat back after a reconnect when not signed in
   disconnectionTimer?: {
     playerId: string;
     playerName: string;
@@ -156,6 +198,13 @@ export interface Player {
   } | null;
 }
 
+export interface ActionTimerState {
+  kind: 'turn' | 'draft' | 'setup';
+  playerIds: string[]; // Players the clock is running for
+  duration: number; // seconds
+  remainingTime: number; // seconds left when the server sent it
+}
+
 export interface GameState {
   id: string;
   phase: 'waiting' | 'draft' | 'setup' | 'initiative' | 'battle' | 'ended';
@@ -170,10 +219,14 @@ export interface GameState {
   currentDraftPhase: number;
   draftTurn: number;
   winner: string | null;
+  roomName?: string | null; // Friendly rooms only
+  hostName?: string | null; // Name of the player who created the friendly room
+  ranked?: boolean; // Ranked Draft game
   draftCards?: {
     player1: string[];
     player2: string[];
   };
+  actionTimer?: ActionTimerState | null;
   battleLog?: any[]; // Backend battle log entries
 }
 
@@ -210,10 +263,26 @@ export interface DiceRoll {
   isCritical?: boolean;
 }
 
+// What a friend is doing, tracked by the server. `since` is when they started (ms timestamp)
+export type PresenceStatus = 'lobby' | 'away' | 'searching' | 'in-game' | 'survival' | 'gauntlet' | 'dragonflow' | 'spectating';
+
+export interface Presence {
+  status: PresenceStatus;
+  since: number;
+  canWatch?: boolean; // in a game friends can spectate right now
+  mode?: string; // searching / in-game: the game mode
+  roomName?: string | null;
+  wins?: number; // survival: the run's record so far
+  losses?: number;
+  trial?: number | null; // gauntlet
+  searching?: boolean; // gauntlet: queued for the trial rather than playing it
+}
+
 export interface OnlinePlayer {
   id: number;
   username: string;
   isInGame: boolean;
+  presence?: Presence | null; // only sent for friends
 }
 
 export interface FriendRequest {
@@ -222,6 +291,85 @@ export interface FriendRequest {
   created_at: string;
 }
 
+// Modes with a skill rating. Ranked Draft plays like Draft but keeps its own
+export type RatedMode = 'ranked' | 'draft' | 'random';
+
+export type RankTier = 'Bronze' | 'Silver' | 'Gold' | 'Platinum' | 'Diamond' | 'Master';
+
+// The visible side of a player's skill rating in one mode. tier stays null until the
+// placement games are played
+export interface PlayerRank {
+  rating: number;
+  tier: RankTier | null;
+  placementGamesLeft: number;
+  games: number;
+  wins: number;
+  losses: number;
+}
+
+// A Ranked Draft season; times are ms timestamps
+export interface Season {
+  number: number;
+  startsAt: number;
+  endsAt: number;
+}
+
+export interface SeasonReward {
+  victoryPoints: number;
+  title: string | null; // e.g. "Season 3 Gold"
+  icon: string | null; // Hero portrait unlocked as a profile icon
+}
+
+// A player's final rank in an ended season. reward is null for players still in placement
+export interface SeasonResult {
+  season: number;
+  rating: number;
+  tier: RankTier | null;
+  games: number;
+  wins: number;
+  losses: number;
+  reward: SeasonReward | null;
+}
+
+// Best-of length a friendly room is created with; 1 is a single game
+export type FriendlySeriesLength = 1 | 3 | 5;
+
+// Score of the games played in a friendly room, sent when a game there ends and as players vote
+// to play again. winnerId is set once someone has won a best-of-3/5; open turns false when a
+// player leaves, which rules out a rematch
+export interface FriendlySeries {
+  roomName: string;
+  bestOf: FriendlySeriesLength;
+  gamesPlayed: number;
+  score: { playerId: string; name: string; wins: number }[];
+  winnerId: string | null;
+  rematchVotes: string[];
+  open: boolean;
+}
+
+// A direct invite to play a friend. The server expires it at expiresAt (ms timestamp)
+export type ChallengeMode = 'draft' | 'random' | 'dragonflow';
+
+export type ChallengeCloseReason = 'accepted' | 'declined' | 'cancelled' | 'expired' | 'unavailable';
+
+export interface Challenge {
+  id: string;
+  mode: ChallengeMode;
+  fromUserId: number;
+  fromUsername: string;
+  toUserId: number;
+  toUsername: string;
+  expiresAt: number;
+}
+
+// Someone the user blocked. Blocks work both ways: neither side can message, friend-request,
+// spectate or join a friendly room with the other, and they don't see each other online
+export interface BlockedUser {
+  id: number;
+  username: string;
+  created_at: string;
+}
+
 export interface Message {
   id: number;
   sender_id: number;
@@ -230,16 +378,91 @@ export interface Message {
   receiver_username: string;
   message: string;
   created_at: string;
+  read_at: string | null;
+}
+
+// A conversation with messages the user hasn't read yet
+export interface UnreadConversation {
+  userId: number;
+  username: string;
+  count: number;
+}
+
+// Account role; admins can use the /api/admin endpoints
+export type UserRole = 'player' | 'admin';
+
+// Extra fields on an error the server sent because a limit was hit
+export interface RateLimitInfo {
+  code?: 'RATE_LIMITED' | 'ACCOUNT_LOCKED';
+  retryAfter?: number; // seconds
+}
+
+// Moderation. A 'ban' blocks login and also counts as a mute and a queue ban
+export type SuspensionType = 'mute' | 'queue-ban' | 'ban';
+
+export interface Suspension {
+  id: number;
+  type: SuspensionType;
+  reason: string | null;
+  expires_at: string | null; // null = permanent
+  created_at: string;
+}
+
+// Extra fields on an error the server sent because the account is suspended
+export interface SuspensionInfo {
+  code?: 'SUSPENDED';
+  suspension?: { type: SuspensionType; reason: string | null; expiresAt: string | null };
+}
+
+export type ReportReason = 'harassment' | 'cheating' | 'spam' | 'offensive-name' | 'other';
+
+// Where a report was filed from. Post-game reports name the game instead of the player
+export type ReportContext = 'friends' | 'chat' | 'post-game';
+
+// Someone watching a game. Moderators, chosen by a friendly room's host, can mute others in
+// the spectator chat
+export type SpectatorRole = 'viewer' | 'moderator';
+
+export interface Spectator {
+  socketId: string;
+  username: string;
+  spectatingPlayerId: string;
+  role: SpectatorRole;
+}
+
+// Chat between the spectators of a game; players never see it
+export interface SpectatorChatMessage {
+  id: number;
+  gameId?: string;
+  senderName: string;
+  senderRole: SpectatorRole;
+  text: string;
+  sentAt: number;
+}
+
+// In-match chat between the two players; spectators can read it but not post
+export type BattleEmote = 'good-luck' | 'well-played' | 'oops';
+
+export interface BattleChatMessage {
+  id: number;
+  gameId?: string;
+  senderId: string; // player (socket) id
+  senderName: string;
+  text: string; // for emotes, the emote's label
+  emote: BattleEmote | null;
+  sentAt: number;
 }
 
 export interface SocketEvents {
   // Client to Server
-  'authenticate': (data: { userId: number }) => void;
-  'join-game': (data: { name: string; mode?: 'draft' | 'random' | 'friendly'; roomName?: string }) => void;
-  'join-survival-game': (data: { name: string; team: Hero[] }) => void;
+  'authenticate': (data: { token: string }) => void;
+  'join-game': (data: { name: string; mode?: 'draft' | 'random' | 'ranked' | 'friendly'; roomName?: string }) => void;
+  'join-survival-game': (data: { name: string; heroNames: string[] }) => void;
+  'join-practice-game': (data: { name: string; difficulty: AIDifficulty }) => void;
   'cancel-survival-search': () => void;
   'cancel-search': () => void;
-  'create-friendly-room': (data: { roomName: string; playerName: string }) => void;
+  'create-friendly-room': (data: { roomName: string; playerName: string; bestOf?: FriendlySeriesLength }) => void;
+  'request-rematch': () => void;
   'join-friendly-room': (data: { roomName: string; playerName: string }) => void;
   'ban-card': (data: { cardName: string }) => void;
   'pick-card': (data: { cardName: string }) => void;
@@ -250,10 +473,10 @@ export interface SocketEvents {
   'basic-attack': (data: { targetId: string }) => void;
   'use-ability': (data: { abilityIndex: number; targetId: string; allyTargetId?: string }) => void;
   'use-timekeeper-selected-ability': (data: { timekeeperTargetId: string; allyTargetId: string; selectedAbilityIndex: number }) => void;
-  'activate-special': () => void;
+  'activate-special': (data: { targetId?: string }) => void;
   'end-turn': () => void;
   'auto-draft': () => void;
-  'reconnect-game': (data: { gameId: string; playerName: string }) => void;
+  'reconnect-game': (data: { gameId: string; token?: string; rejoinToken?: string }) => void;
   'get-survival-state': () => void;
   'reset-survival-state': () => void;  
   'surrender-game': () => void;
@@ -274,8 +497,22 @@ export interface SocketEvents {
   'respond-friend-request': (data: { requesterId: number; accept: boolean }) => void;
   'get-friend-requests': () => void;
   'remove-friend': (data: { friendId: number }) => void;
+  'block-user': (data: { targetUserId: number }) => void;
+  'unblock-user': (data: { targetUserId: number }) => void;
+  'get-blocked-users': () => void;
+  'send-challenge': (data: { targetUserId: number; mode: ChallengeMode }) => void;
+  'respond-challenge': (data: { challengeId: string; accept: boolean }) => void;
+  'cancel-challenge': (data: { challengeId: string }) => void;
   'send-message': (data: { targetUserId: number; message: string }) => void;
-  'get-messages': (data: { targetUserId: number; limit?: number }) => void;
+  'get-messages': (data: { targetUserId: number; limit?: number; beforeId?: number }) => void;
+  'mark-messages-read': (data: { targetUserId: number }) => void;
+  'report-player': (data: { targetUserId?: number; gameId?: string; reason: ReportReason; details?: string; context: ReportContext }) => void;
+  'send-battle-chat': (data: { text: string } | { emote: BattleEmote }) => void;
+  'get-battle-chat': () => void;
+  'send-spectator-chat': (data: { text: string }) => void;
+  'get-spectator-chat': () => void;
+  'set-spectator-moderator': (data: { username: string; moderator: boolean }) => void;
+  'mute-spectator': (data: { username: string; muted: boolean }) => void;
 
   // Spectator events
   'get-spectatable-games': () => void;
@@ -284,16 +521,26 @@ export interface SocketEvents {
   'leave-spectate': () => void;
   'get-spectator-info': (data: { gameId: string }) => void;
 
+  // Dragonflow events
+  'dragonflow:join-queue': (data: { username: string }) => void;
+  'dragonflow:leave-queue': () => void;
+  'dragonflow:game-action': (data: DragonflowAction) => void;
+
   // Server to Client
   'authentication-success': (data: { userId: number }) => void;
-  'authentication-failed': (data: { message: string }) => void;
+  'authentication-failed': (data: { message: string } & SuspensionInfo) => void;
   'force-logout': (data: { message: string }) => void;
-  'join-result': (data: { success: boolean; gameId: string; playerId: string; players: Player[]; gameReady: boolean; draftCards?: any; mode?: 'draft' | 'random' | 'friendly' | 'survival'; roomName?: string }) => void;
+  'join-result': (data: { success: boolean; gameId: string; playerId: string; players: Player[]; gameReady: boolean; draftCards?: any; mode?: 'draft' | 'random' | 'ranked' | 'friendly' | 'survival' | 'practice'; roomName?: string; error?: string } & SuspensionInfo) => void;
   'survival-match-found': (data: { success: boolean; gameId: string; playerId: string; players: Player[]; gameReady: boolean }) => void;
   'survival-search-cancelled': (data: { success: boolean }) => void;
   'search-cancelled': (data: { success: boolean }) => void;
-  'friendly-room-created': (data: { success: boolean; roomName: string; gameId: string; playerId: string; message?: string }) => void;
-  'friendly-room-joined': (data: { success: boolean; roomName: string; gameId: string; playerId: string; players: Player[]; message?: string }) => void;
+  'friendly-room-created': (data: { success: boolean; roomName: string; gameId: string; playerId: string; bestOf?: FriendlySeriesLength; message?: string } & SuspensionInfo) => void;
+  'friendly-series-update': (data: FriendlySeries) => void;
+  'rating-update': (data: { mode: RatedMode; oldRank: PlayerRank; newRank: PlayerRank; ratingChange: number }) => void;
+  'season-started': (data: Season) => void;
+  'season-ended': (data: { result: SeasonResult; victoryPoints: number }) => void;
+  'rematch-error': (data: { error: string }) => void;
+  'friendly-room-joined': (data: { success: boolean; roomName: string; gameId: string; playerId: string; players: Player[]; message?: string } & SuspensionInfo) => void;
   'game-start': (data: { players: Player[]; draftCards?: any; gameState?: GameState }) => void;
   'ban-complete': (data: any) => void;
   'pick-complete': (data: any) => void;
@@ -315,32 +562,51 @@ export interface SocketEvents {
   'xp-update': (data: { xpGained: number; newXP: number; newLevel: number; leveledUp: boolean; message: string; vpGained?: number; oldLevel?: number; levelsGained?: number }) => void;
   'game-surrendered': (data: { success: boolean; gameId: string; winner: string; surrenderedBy: string; gameState: GameState }) => void;
   'draft-abandoned': (data: { message: string; isOpponent?: boolean }) => void;
+  'action-timer': (data: { gameId: string; timer: ActionTimerState | null }) => void;
   'abandon-draft-result': (data: { success: boolean; message?: string }) => void;
   'returned-to-lobby': (data: { success: boolean; error?: string; preservedSurvivalState?: any }) => void;
   
   // Gauntlet mode events (server to client)
-  'gauntlet-run-started': (data: { success: boolean; runState?: GauntletRunState; error?: string }) => void;
+  'gauntlet-run-started': (data: { success: boolean; runState?: GauntletRunState; error?: string } & SuspensionInfo) => void;
   'gauntlet-shop-action-result': (data: { success: boolean; runState?: GauntletRunState; action?: string; offer?: GauntletHeroOffer[]; error?: string }) => void;
   'gauntlet-battle-team-set': (data: { success: boolean; error?: string }) => void;
   'gauntlet-match-found': (data: { gameId: string; opponentName: string }) => void;
   'gauntlet-queue-waiting': () => void;
+  'gauntlet-queue-failed': (data: { error: string } & SuspensionInfo) => void;
   'gauntlet-queue-cancelled': (data: { success: boolean }) => void;
   'gauntlet-battle-complete': (data: { won: boolean; runState?: GauntletRunState; heroOffer?: GauntletHeroOffer[]; runEnded?: boolean; finalTrial?: number; rewards?: GauntletRewards }) => void;
   'gauntlet-hero-offer-result': (data: { success: boolean; runState?: GauntletRunState; offer?: GauntletHeroOffer[]; error?: string }) => void;
   'gauntlet-run-abandoned': (data: { success: boolean; finalTrial: number; rewards?: GauntletRewards }) => void;
   
   // Friends system server responses
-  'online-players-response': (data: { success: boolean; onlinePlayers?: OnlinePlayer[]; totalOnline?: number; friendIds?: number[]; error?: string }) => void;
-  'friend-request-response': (data: { success: boolean; message?: string; error?: string }) => void;
+  'online-players-response': (data: { success: boolean; onlinePlayers?: OnlinePlayer[]; totalOnline?: number; friendIds?: number[]; error?: string } & RateLimitInfo) => void;
+  'friend-request-response': (data: { success: boolean; message?: string; error?: string } & RateLimitInfo) => void;
   'friend-request-received': (data: { from: string; fromId: number }) => void;
   'friend-response-result': (data: { success: boolean; message?: string; error?: string }) => void;
   'friend-request-accepted': (data: { from: string; fromId: number }) => void;
   'friend-requests-response': (data: { success: boolean; requests?: FriendRequest[]; error?: string }) => void;
-  'message-response': (data: { success: boolean; message?: Message; error?: string }) => void;
+  'message-response': (data: { success: boolean; message?: Message; error?: string } & (RateLimitInfo | SuspensionInfo)) => void;
   'message-received': (data: Message) => void;
-  'messages-response': (data: { success: boolean; messages?: Message[]; error?: string }) => void;
+  'messages-response': (data: { success: boolean; targetUserId?: number; messages?: Message[]; hasMore?: boolean; beforeId?: number | null; error?: string }) => void;
+  'messages-read': (data: { readerId: number; readAt: string }) => void;
+  'unread-message-counts': (data: { conversations: UnreadConversation[] }) => void;
   'remove-friend-response': (data: { success: boolean; message?: string; error?: string }) => void;
+  'report-player-response': (data: { success: boolean; message?: string; error?: string } & RateLimitInfo) => void;
+  'battle-chat-message': (data: BattleChatMessage) => void;
+  'battle-chat-history': (data: { gameId: string | null; messages: BattleChatMessage[] }) => void;
+  'battle-chat-error': (data: { error: string } & (RateLimitInfo | SuspensionInfo)) => void;
+  'spectator-chat-message': (data: SpectatorChatMessage) => void;
+  'spectator-chat-history': (data: { gameId: string; messages: SpectatorChatMessage[]; muted: string[] }) => void;
+  'spectator-chat-muted': (data: { gameId: string; username: string; muted: boolean; by: string }) => void;
+  'spectator-chat-error': (data: { error: string } & (RateLimitInfo | SuspensionInfo)) => void;
   'friend-removed': (data: { from: string; fromId: number }) => void;
+  'friend-presence-changed': (data: { userId: number; presence: Presence }) => void;
+  'challenge-response': (data: { success: boolean; challenge?: Challenge; error?: string } & (RateLimitInfo | SuspensionInfo)) => void;
+  'challenge-received': (data: Challenge) => void;
+  'challenge-closed': (data: { challengeId: string; reason: ChallengeCloseReason }) => void;
+  'block-user-response': (data: { success: boolean; message?: string; blockedUsers?: BlockedUser[]; error?: string }) => void;
+  'unblock-user-response': (data: { success: boolean; blockedUsers?: BlockedUser[]; error?: string }) => void;
+  'blocked-users-response': (data: { success: boolean; blockedUsers?: BlockedUser[]; error?: string }) => void;
 
   // Spectator server responses
   'spectatable-games-list': (data: { success: boolean; games: Array<{
@@ -358,18 +624,28 @@ export interface SocketEvents {
     gameId?: string; 
     gameState?: GameState; 
     spectatingPlayerId?: string; 
-    spectators?: Array<{ socketId: string; username: string; spectatingPlayerId: string }>; 
+    spectators?: Spectator[]; 
     error?: string 
   }) => void;
   'spectate-left': (data: { success: boolean; error?: string }) => void;
   'spectator-update': (data: { 
-    type: 'joined' | 'left'; 
+    type: 'joined' | 'left' | 'role'; 
     spectatorUsername?: string; 
     spectatorCount: number; 
-    spectatorList: Array<{ socketId: string; username: string; spectatingPlayerId: string }> 
+    spectatorList: Spectator[] 
   }) => void;
   'spectator-info-response': (data: { success: boolean; count: number; list: string[] }) => void;
   'spectated-player-disconnected': (data: { playerId: string; playerName: string }) => void;
+
+  // Dragonflow
+  'dragonflow:queue-joined': (data: { queuePosition: number }) => void;
+  'dragonflow:queue-left': () => void;
+  'dragonflow:match-found': (data: DragonflowMatch) => void;
+  'dragonflow:state-update': (data: DragonflowStateUpdate) => void;
+  'dragonflow:action-rejected': (data: { message: string; action: DragonflowAction }) => void;
+  'dragonflow:game-ended': (data: { winner: DragonflowRole }) => void;
+  'dragonflow:opponent-disconnected': (data: { message: string }) => void;
+  'dragonflow:error': (data: { message: string }) => void;
 }
 
 export type GamePhase = GameState['phase'];
@@ -429,7 +705,7 @@ export interface GauntletSocketEvents {
   'abandon-gauntlet-run': () => void;
 
   // Server to Client
-  'gauntlet-run-started': (data: { success: boolean; runState?: GauntletRunState; error?: string }) => void;
+  'gauntlet-run-started': (data: { success: boolean; runState?: GauntletRunState; error?: string } & SuspensionInfo) => void;
   'gauntlet-run-state-response': (data: { success: boolean; runState?: GauntletRunState; error?: string }) => void;
   'gauntlet-shop-action-result': (data: { success: boolean; action?: string; message?: string; offer?: GauntletHeroOffer[]; selectedHero?: string; rerolls_remaining?: number; runState?: GauntletRunState; error?: string }) => void;
   'gauntlet-battle-team-set': (data: { success: boolean; runState?: GauntletRunState; error?: string }) => void;
@@ -440,4 +716,43 @@ export interface GauntletSocketEvents {
   'gauntlet-battle-complete': (data: { won: boolean; runEnded: boolean; finalTrial?: number; runState?: GauntletRunState; heroOffer?: GauntletHeroOffer[] | null }) => void;
   'gauntlet-hero-offer-result': (data: { success: boolean; action?: string; message?: string; offer?: GauntletHeroOffer[]; selectedHero?: string; rerolls_remaining?: number; runState?: GauntletRunState; error?: string }) => void;
   'gauntlet-run-abandoned': (data: { success: boolean; finalTrial?: number; rewards?: GauntletRewards; error?: string }) => void;
-}
\ No newline at end of file
+}
+
+// =================================================================
+// REPLAY TYPES
+// =================================================================
+
+export interface ReplaySummary {
+  id: string;
+  mode: string;
+  players: string[];
+  playerIndex: number; // Which of players is the requesting user
+  winnerIndex: number;
+  createdAt: string;
+}
+
+export interface ReplayAction {
+  event: string; // Socket event, e.g. 'basic-attack', 'use-ability', 'end-turn'
+  player: number;
+  args: any[];
+  at: number; // ms since the battle started
+}
+
+export interface ReplayFrame {
+  action: ReplayAction | null; // null for the starting position
+  state: Omit<GameState, 'battleLog'>;
+  logLength: number; // How many battle log entries existed at this point
+}
+
+export interface ReplayData {
+  replay: {
+    id: string;
+    mode: string;
+    seed: number;
+    players: string[];
+    winnerIndex: number;
+    createdAt: string;
+  };
+  frames: ReplayFrame[];
+  battleLog: any[];
+}
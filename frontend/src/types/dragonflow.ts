@@ -24,6 +24,9 @@ export interface GameBoard {
   discardPile: DragonCard[];
   playerOre: number;
   opponentOre: number;
+  // The server hides the deck and the opponent's hand, sending only their sizes
+  deckCount?: number;
+  opponentHandCount?: number;
 }
 
 export interface ActionCount {
@@ -39,6 +42,7 @@ export interface HarmonizationPrompt {
   dragonType: DragonType;
   effect: string;
   columnIndex: number;
+  owner: 'player1' | 'player2';
 }
 
 export type GamePhase = 'choose-starter' | 'playing' | 'game-over';
@@ -57,6 +61,48 @@ export interface DragonflowGameState {
   harmonizedThisTurn: string[]; // Card IDs that have already harmonized this turn
 }
 
+export type DragonflowRole = 'player1' | 'player2';
+
+export interface FlowSpaceRef {
+  owner: DragonflowRole;
+  column: number;
+}
+
+// Intents sent to the server, which applies the rules and answers with the new state
+export type DragonflowAction =
+  | { type: 'choose-starter'; goFirst: boolean }
+  | { type: 'reorder-hand'; from: number; to: number }
+  | { type: 'summon'; cardId: string; column: number }
+  | { type: 'attack'; column: number }
+  | { type: 'draw' }
+  | { type: 'gain-ore' }
+  | { type: 'ore-move'; from: number; to: number }
+  | { type: 'ore-return'; column: number }
+  | { type: 'ore-conflict'; attackerColumn: number; targetColumn: number }
+  | { type: 'ore-reharmonize'; column: number }
+  | { type: 'ore-search'; dragonType: DragonType; column: number | null }
+  | { type: 'use-harmony'; target?: { column?: number; first?: FlowSpaceRef; second?: FlowSpaceRef } }
+  | { type: 'skip-harmony' }
+  | { type: 'end-turn' };
+
+export interface DragonflowMatch {
+  gameId: string;
+  opponent: {
+    username: string;
+    userId: string;
+  };
+  yourRole: DragonflowRole;
+  gameState: DragonflowGameState;
+}
+
+export interface DragonflowStateUpdate {
+  gameState: DragonflowGameState;
+  action: (DragonflowAction & { by: DragonflowRole }) | null;
+}
+
+// Rule tables, used by the client for hints and highlighting only; the server's copy in
+// backend/dragonflowEngine.js decides what is legal
+
 // Dragon harmonization rules
 export const HARMONIZATION_RULES: Record<DragonType, DragonType> = {
   fire: 'wood',    // Wood harmonizes Fire